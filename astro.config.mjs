@@ -7,6 +7,10 @@ import cloudflare from '@astrojs/cloudflare';
 import expressiveCode from 'astro-expressive-code';
 import mdx from '@astrojs/mdx';
 import fs from 'fs';
+import { DEFAULT_LOCALE, LOCALES } from './src/core/i18n/locales.ts';
+import { renderRedirectsFile } from './src/core/redirects/redirects.ts';
+import { getCategoryRedirects } from './src/utils/categoryTree.ts';
+import { getTagRedirects } from './src/utils/tagAliases.ts';
 
 // Read settings from JSON file
 const settingsData = JSON.parse(fs.readFileSync('./src/content/data/settings.json', 'utf-8'));
@@ -15,6 +19,23 @@ const siteSettings = settingsData[0];
 // Read pages data for noindex control
 const pagesData = JSON.parse(fs.readFileSync('./src/content/data/pages.json', 'utf-8'));
 
+// Page number of /blog/3, /categories/<parent>/<slug>/3, /tags/<slug>/3 or /authors/<slug>/3
+const ARCHIVE_PAGE_NUMBER = /^\/(?:[a-z]{2}\/)?(?:blog|categories(?:\/[^/]+)+?|(?:tags|authors)\/[^/]+)\/(\d+)\/?$/;
+
+// Read redirects for the Cloudflare _redirects file (prerendered routes never reach the middleware)
+const redirectsData = JSON.parse(fs.readFileSync('./src/content/data/redirects.json', 'utf-8'));
+
+// Old flat URLs of subcategories redirect to their nested URLs
+const categoriesData = JSON.parse(fs.readFileSync('./src/content/data/categories.json', 'utf-8'));
+const categoryRedirects = getCategoryRedirects(categoriesData.map(category => ({ id: category.id, data: category })));
+
+// Tag alias URLs redirect to the canonical tag
+const tagsData = JSON.parse(fs.readFileSync('./src/content/data/tags.json', 'utf-8'));
+const tagRedirects = getTagRedirects(tagsData.map(tag => ({ id: tag.id, data: tag })));
+
+// /blog/<slug> and /<locale>/blog/<slug>, but not paginated listings (/blog/2)
+const BLOG_POST_PATH = /^\/(?:[a-z]{2}\/)?blog\/(?!\d+\/?$)[^/]+\/?$/;
+
 export default defineConfig({
   site: siteSettings.siteUrl,
   output: "server",
@@ -25,10 +46,25 @@ export default defineConfig({
   // 🔐 Add environment schema for Blog API security
   env: {
     schema: {
-      // Secret API key for your blog APIs
-      BLOG_API_KEY: envField.string({
+      // Scoped API keys for your blog APIs (JSON array of hashed keys)
+      // e.g. [{"name":"dashboard","hash":"<sha256>","scopes":["posts:*"]}]
+      // Generate a key and its hash with `npm run api-key:hash`
+      BLOG_API_KEYS: envField.string({
+        context: "server",
+        access: "secret",
+        default: "[]"
+      }),
+      // libsql / Turso database for affiliate click tracking
+      // (use file:local.db for local development)
+      DATABASE_URL: envField.string({
         context: "server",
-        access: "secret"
+        access: "secret",
+        optional: true
+      }),
+      DATABASE_AUTH_TOKEN: envField.string({
+        context: "server",
+        access: "secret",
+        optional: true
       })
     }
   },
@@ -59,11 +95,36 @@ export default defineConfig({
       rehypePlugins: [],
     }),
     preact(),
+    {
+      name: 'redirects-file',
+      hooks: {
+        // Appended, as the Cloudflare adapter also writes its own rules to _redirects
+        'astro:build:done': async ({ dir }) => {
+          await fs.promises.appendFile(new URL('_redirects', dir), renderRedirectsFile([...redirectsData, ...categoryRedirects, ...tagRedirects]));
+        },
+      },
+    },
     sitemap({
+      // Adds hreflang alternates between /blog/... and /es/blog/... entries
+      i18n: {
+        defaultLocale: DEFAULT_LOCALE,
+        locales: Object.fromEntries(
+          Object.entries(LOCALES).map(([code, config]) => [code, config.languageTag])
+        ),
+      },
       filter: (page) => {
         // Always exclude API endpoints
         if (page.includes("/api/")) return false;
 
+        // Posts are listed in /sitemap-posts.xml with lastmod and images, excluding
+        // drafts, scheduled and noindex posts (blog listing pages like /blog/2 stay here)
+        if (BLOG_POST_PATH.test(new URL(page).pathname)) return false;
+
+        // Archive pages past pagination.noindexAfterPage are noindex
+        const pageNumber = Number(new URL(page).pathname.match(ARCHIVE_PAGE_NUMBER)?.[1]);
+        const noindexAfterPage = siteSettings.pagination?.noindexAfterPage;
+        if (noindexAfterPage && pageNumber > noindexAfterPage) return false;
+
         // Check individual page noindex settings from pages.json
         const pageSlug = page.replace(siteSettings.siteUrl, '').replace(/\/$/, '') || '/';
         const pageData = pagesData.find(p => {
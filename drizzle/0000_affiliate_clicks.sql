@@ -0,0 +1,21 @@
+CREATE TABLE `affiliate_clicks` (
+	`id` integer PRIMARY KEY AUTOINCREMENT NOT NULL,
+	`click_id` text NOT NULL,
+	`product_id` text NOT NULL,
+	`category_id` text,
+	`post_slug` text,
+	`variant` text,
+	`sub_id` text,
+	`utm_source` text,
+	`utm_medium` text,
+	`utm_campaign` text,
+	`referrer` text,
+	`country` text,
+	`destination_url` text NOT NULL,
+	`clicked_at` integer NOT NULL
+);
+--> statement-breakpoint
+CREATE UNIQUE INDEX `affiliate_clicks_click_id_unique` ON `affiliate_clicks` (`click_id`);--> statement-breakpoint
+CREATE INDEX `affiliate_clicks_product_idx` ON `affiliate_clicks` (`product_id`);--> statement-breakpoint
+CREATE INDEX `affiliate_clicks_post_idx` ON `affiliate_clicks` (`post_slug`);--> statement-breakpoint
+CREATE INDEX `affiliate_clicks_clicked_at_idx` ON `affiliate_clicks` (`clicked_at`);
\ No newline at end of file
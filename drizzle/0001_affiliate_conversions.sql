@@ -0,0 +1,16 @@
+CREATE TABLE `affiliate_conversions` (
+	`id` integer PRIMARY KEY AUTOINCREMENT NOT NULL,
+	`click_id` text NOT NULL,
+	`network` text NOT NULL,
+	`transaction_id` text NOT NULL,
+	`status` text NOT NULL,
+	`commission` real NOT NULL,
+	`sale_amount` real,
+	`currency` text NOT NULL,
+	`converted_at` integer NOT NULL,
+	`updated_at` integer NOT NULL,
+	FOREIGN KEY (`click_id`) REFERENCES `affiliate_clicks`(`click_id`) ON UPDATE no action ON DELETE no action
+);
+--> statement-breakpoint
+CREATE UNIQUE INDEX `affiliate_conversions_transaction_idx` ON `affiliate_conversions` (`network`,`transaction_id`);--> statement-breakpoint
+CREATE INDEX `affiliate_conversions_click_idx` ON `affiliate_conversions` (`click_id`);
\ No newline at end of file
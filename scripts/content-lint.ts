@@ -0,0 +1,100 @@
+// scripts/content-lint.ts
+// Check every content collection for broken references and SEO problems before a build
+//
+// Usage:
+//   npm run content:lint [-- --format json] [--strict] [--no-sync] [--base <git ref>]
+//
+// Collections are read from the data store `astro sync` writes, so entries have already
+// passed the schemas in src/content.config.ts. Exits with 1 on errors (or warnings with --strict).
+// Posts renamed or deleted since --base (default HEAD, so staged `git mv`s count) get a
+// suggested redirects.json entry.
+import { spawnSync } from 'node:child_process';
+import { existsSync, readFileSync, statSync } from 'node:fs';
+import { parseArgs } from 'node:util';
+import { parse } from 'devalue';
+import {
+  extractNavigationLinks,
+  formatLintReport,
+  lintContent,
+  type ContentEntry,
+  type ContentSnapshot,
+  type PostMove,
+} from '../src/core/lint/contentLint';
+
+// `astro sync` writes to the cache dir, `astro dev` to .astro/; read the fresher one
+const DATA_STORES = ['node_modules/.astro/data-store.json', '.astro/data-store.json'];
+const BLOG_DIR = 'src/content/blog/';
+
+// Components that render site-wide navigation
+const NAVIGATION_FILES = [
+  'src/components/layout/Header.astro',
+  'src/components/layout/Footer.astro',
+  'src/components/ui/CategoryNavigation.astro',
+];
+
+const { values } = parseArgs({
+  options: {
+    format: { type: 'string', default: 'text' },
+    strict: { type: 'boolean', default: false },
+    'no-sync': { type: 'boolean', default: false },
+    base: { type: 'string', default: 'HEAD' },
+  },
+});
+
+if (values.format !== 'text' && values.format !== 'json') {
+  console.error(`Invalid --format: ${values.format} (expected text or json)`);
+  process.exit(2);
+}
+
+if (!values['no-sync']) {
+  // Schema errors fail here; keep stdout clean for --format json
+  const result = spawnSync('npx', ['--no-install', 'astro', 'sync'], { stdio: ['ignore', 'ignore', 'inherit'] });
+  if (result.status !== 0) {
+    console.error('astro sync failed - fix the schema errors above first');
+    process.exit(1);
+  }
+}
+
+const DATA_STORE = DATA_STORES
+  .filter(file => existsSync(file))
+  .sort((a, b) => statSync(b).mtimeMs - statSync(a).mtimeMs)[0];
+
+if (!DATA_STORE) {
+  console.error(`${DATA_STORES.join(' / ')} not found - run \`astro sync\` first`);
+  process.exit(2);
+}
+
+const store: Map<string, Map<string, ContentEntry>> = parse(readFileSync(DATA_STORE, 'utf-8'));
+const content: ContentSnapshot = {};
+for (const [collection, entries] of store) {
+  if (collection.includes('::')) continue; // internal metadata
+  content[collection] = [...entries.values()];
+}
+
+const navigationLinks = NAVIGATION_FILES
+  .filter(file => existsSync(file))
+  .flatMap(file => extractNavigationLinks(readFileSync(file, 'utf-8'), file));
+
+/**
+ * Post files renamed or deleted since the base revision, as entry ids
+ */
+function getMovedPosts(base: string): PostMove[] {
+  const result = spawnSync('git', ['diff', '--name-status', '-M', base, '--', BLOG_DIR], { encoding: 'utf-8' });
+  if (result.status !== 0) return []; // not a git checkout, or unknown ref
+
+  const toId = (file: string) => file.slice(BLOG_DIR.length).replace(/\.mdx?$/, '');
+
+  return result.stdout.split('\n').flatMap(line => {
+    const [status, from, to] = line.split('\t');
+    if (status?.startsWith('R')) return [{ from: toId(from), to: toId(to) }];
+    if (status === 'D') return [{ from: toId(from) }];
+    return [];
+  });
+}
+
+const report = lintContent(content, { navigationLinks, movedPosts: getMovedPosts(values.base) });
+
+console.log(values.format === 'json' ? JSON.stringify(report, null, 2) : formatLintReport(report));
+
+const failed = report.errorCount > 0 || (values.strict && report.warningCount > 0);
+process.exit(failed ? 1 : 0);
@@ -0,0 +1,32 @@
+// scripts/hash-api-key.mjs
+// Generate an API key (or hash an existing one) for the BLOG_API_KEYS secret
+//
+// Usage:
+//   npm run api-key:hash -- --name dashboard --scopes posts:*,drafts:read [--expires 2027-01-01] [--key <existing>]
+import { createHash, randomBytes } from 'node:crypto';
+import { parseArgs } from 'node:util';
+
+const { values } = parseArgs({
+  options: {
+    name: { type: 'string', default: 'default' },
+    scopes: { type: 'string', default: '*' },
+    expires: { type: 'string' },
+    key: { type: 'string' },
+  },
+});
+
+if (values.expires && Number.isNaN(Date.parse(values.expires))) {
+  console.error(`Invalid --expires date: ${values.expires}`);
+  process.exit(1);
+}
+
+const key = values.key || randomBytes(32).toString('base64url');
+const record = {
+  name: values.name,
+  hash: createHash('sha256').update(key).digest('hex'),
+  scopes: values.scopes.split(',').map(scope => scope.trim()).filter(Boolean),
+  ...(values.expires && { expiresAt: new Date(values.expires).toISOString() }),
+};
+
+console.log(`API key (share with the client, it is not stored anywhere):\n  ${key}\n`);
+console.log(`Record to add to the BLOG_API_KEYS array:\n  ${JSON.stringify(record)}`);
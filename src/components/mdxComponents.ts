@@ -0,0 +1,34 @@
+// Components available to every blog post's MDX without an import
+// (used by the post page and by full-content feeds)
+import type { AstroComponentFactory } from "astro/runtime/server/index.js";
+
+// Loaded through Vite's glob import, which plain `tsc` can type without resolving .astro modules
+const components = import.meta.glob<AstroComponentFactory>(
+  [
+    "./Product.astro",
+    "./ProductCard.astro",
+    "./Comparison.astro",
+    "./ComparisonTable.astro",
+    "./ui/YouTube.astro",
+
+    // Affiliate block components
+    "./blocks/ProductBlock.astro",
+    "./blocks/ProductBlock2.astro",
+    "./blocks/ProductBlock3.astro",
+    "./blocks/ProductBlock4.astro",
+    "./blocks/ProductBlock5.astro",
+    "./blocks/ProductBlock6.astro",
+    "./blocks/ProductBlock7.astro",
+    "./blocks/ComparisonBlock.astro",
+    "./blocks/CategoryBlock.astro",
+  ],
+  { eager: true, import: "default" }
+);
+
+// Named after the file: "./blocks/ProductBlock2.astro" -> ProductBlock2
+export const mdxComponents: Record<string, AstroComponentFactory> = Object.fromEntries(
+  Object.entries(components).map(([path, component]) => [
+    path.slice(path.lastIndexOf("/") + 1, -".astro".length),
+    component,
+  ])
+);
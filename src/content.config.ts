@@ -1,6 +1,9 @@
 // src/content.config.ts
 import { defineCollection, reference, z } from 'astro:content';
 import { glob, file } from 'astro/loaders';
+import { toPrice } from './core/affiliate/pricing';
+import { LOCALE_CODES } from './core/i18n/locales';
+import { DEFAULT_ROBOTS_RULES } from './core/seo/robots';
 
 const tags = defineCollection({
   loader: file("src/content/data/tags.json"),
@@ -10,6 +13,9 @@ const tags = defineCollection({
     description: z.string().optional(),
     color: z.string().optional(),
     slug: z.string().optional(),
+    // Other IDs writers use for this tag ("email" for "email-marketing"); posts tagged with
+    // an alias count as this tag, and /tags/<alias> redirects here
+    aliases: z.array(z.string()).default([]),
     seo: z.object({
       title: z.string().optional(),
       description: z.string().optional(),
@@ -32,9 +38,28 @@ const authors = defineCollection({
     twitter: z.string().optional(),
     github: z.string().optional(),
     website: z.string().url().optional(),
+    // Expertise shown on the author page and in Person structured data
+    jobTitle: z.string().optional(),
+    organization: z.object({
+      name: z.string(),
+      url: z.string().url().optional(),
+    }).optional(),
+    knowsAbout: z.array(z.string()).default([]),
+    credentials: z.array(z.string()).default([]),
+    awards: z.array(z.string()).default([]),
+    // Other profiles of the same person (LinkedIn, Mastodon, YouTube...)
+    sameAs: z.array(z.string().url()).default([]),
+    // Long-form bio in src/content/authors/<id>.mdx
+    longBio: reference('authorBios').optional(),
   }),
 });
 
+// Long-form author bios, rendered on the author page
+const authorBios = defineCollection({
+  loader: glob({ pattern: "**/*.{md,mdx}", base: "./src/content/authors" }),
+  schema: z.object({}),
+});
+
 const categories = defineCollection({
   loader: file("src/content/data/categories.json"),
   schema: z.object({
@@ -43,6 +68,8 @@ const categories = defineCollection({
     description: z.string().optional(),
     color: z.string().optional(),
     slug: z.string().optional(),
+    // Subcategories live under their parent's URL: /categories/<parent>/<slug>
+    parent: reference('categories').optional(),
     seo: z.object({
       title: z.string().optional(),
       description: z.string().optional(),
@@ -53,22 +80,73 @@ const categories = defineCollection({
   }),
 });
 
-const blog = defineCollection({
-  loader: glob({ pattern: "**/*.{md,mdx}", base: "./src/content/blog" }),
+// Multi-part guides ("Part 1/2/3"); posts join a series via `series` + `seriesOrder`
+const series = defineCollection({
+  loader: file("src/content/data/series.json"),
   schema: z.object({
+    id: z.string(),
     title: z.string(),
-    description: z.string(),
-    pubDate: z.coerce.date(),
-    author: reference('authors'),
-    category: reference('categories'),
-    tags: z.array(reference('tags')),
+    slug: z.string(),
+    description: z.string().optional(),
     image: z.object({
       url: z.string(),
       alt: z.string(),
     }).optional(),
-    featured: z.boolean().default(false),
-    status: z.enum(['draft', 'published']).default('published'),
-  })
+    seo: z.object({
+      title: z.string().optional(),
+      description: z.string().optional(),
+      keywords: z.array(z.string()).optional(),
+      ogImage: z.string().optional(),
+    }).optional(),
+  }),
+});
+
+// Exported so the posts write API validates payloads against the same rules
+export const blogSchema = z.object({
+  title: z.string(),
+  description: z.string(),
+  pubDate: z.coerce.date(),
+  // Last content change, and the last time a review's facts (pricing, features) were re-checked
+  updatedDate: z.coerce.date().optional(),
+  lastReviewed: z.coerce.date().optional(),
+  // Bylines in order; single-author posts may use `author` instead of `authors`
+  author: reference('authors').optional(),
+  authors: z.array(reference('authors')).optional(),
+  // Expert review for YMYL topics, shown under the byline and in the Article's WebPage
+  reviewedBy: reference('authors').optional(),
+  factCheckedBy: reference('authors').optional(),
+  category: reference('categories'),
+  tags: z.array(reference('tags')),
+  image: z.object({
+    url: z.string(),
+    alt: z.string(),
+  }).optional(),
+  featured: z.boolean().default(false),
+  // Keeps the post out of search results and sitemaps while it stays readable on the site
+  noindex: z.boolean().default(false),
+  // "scheduled" posts (and any post with a future pubDate) go live on their pubDate
+  status: z.enum(['draft', 'scheduled', 'published']).default('published'),
+  unpublishAt: z.coerce.date().optional(),
+  // Translations share a translationKey (or the same slug); non-default locales live under /<locale>/blog
+  // Omitted: the locale folder the post sits in (src/content/blog/es/...), else the default locale
+  locale: z.enum(LOCALE_CODES).optional(),
+  translationKey: z.string().optional(),
+  // Parts of a series are ordered by seriesOrder, then pubDate
+  series: reference('series').optional(),
+  seriesOrder: z.number().int().positive().optional(),
+  // Review posts name the product they review; adds Review structured data with its pros/cons
+  review: z.object({
+    product: reference('affiliateProducts'),
+    rating: z.number().min(0).max(5).optional(),
+  }).optional(),
+}).refine(data => data.author || data.authors?.length, {
+  message: 'A post needs an `author` or at least one of `authors`',
+  path: ['authors'],
+});
+
+const blog = defineCollection({
+  loader: glob({ pattern: "**/*.{md,mdx}", base: "./src/content/blog" }),
+  schema: blogSchema,
 });
 
 const settings = defineCollection({
@@ -127,6 +205,39 @@ const settings = defineCollection({
     rss: z.object({
       enabled: z.boolean().default(true),
       itemsPerPage: z.number().default(20),
+      // Include each post's full rendered HTML, not just its description
+      fullContent: z.boolean().default(false),
+    }).optional(),
+
+    sitemap: z.object({
+      // Google News sitemap (/sitemap-news.xml) of posts from the last 48 hours
+      news: z.boolean().default(false),
+      // Publication name Google News shows; defaults to siteName
+      newsPublicationName: z.string().optional(),
+    }).optional(),
+
+    robots: z.object({
+      // Per-user-agent groups; /api/, /go/ and noindex pages are disallowed in every group
+      rules: z.array(z.object({
+        userAgent: z.union([z.string(), z.array(z.string()).min(1)]),
+        allow: z.array(z.string()).default([]),
+        disallow: z.array(z.string()).default([]),
+        crawlDelay: z.number().positive().optional(),
+      })).default(DEFAULT_ROBOTS_RULES),
+      // Disallow the whole site for known AI training crawlers (GPTBot, ClaudeBot, CCBot, ...)
+      blockAiCrawlers: z.boolean().default(false),
+    }).optional(),
+
+    pagination: z.object({
+      // Archive pages after this one get "noindex, follow" and leave the sitemap
+      noindexAfterPage: z.number().int().positive().optional(),
+      // Posts per listing page; unset types fall back to DEFAULT_PAGE_SIZES in blogLogic
+      pageSize: z.object({
+        blog: z.number().int().positive().optional(),
+        category: z.number().int().positive().optional(),
+        tag: z.number().int().positive().optional(),
+        author: z.number().int().positive().optional(),
+      }).optional(),
     }).optional(),
 
     theme: z.object({
@@ -227,6 +338,22 @@ const pages = defineCollection({
   }),
 });
 
+// Prices can be written as "$44.95" or { "amount": 44.95, "currency": "USD" }
+const priceSchema = z.union([
+  z.string(),
+  z.object({
+    amount: z.number().nonnegative(),
+    currency: z.string().length(3).optional(),
+  }),
+]).transform((value, ctx) => {
+  const price = toPrice(value);
+  if (!price) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: `Unreadable price: "${value}"` });
+    return z.NEVER;
+  }
+  return price;
+});
+
 // Affiliate Categories collection (dashboard manages this file)
 const affiliateCategories = defineCollection({
   loader: file("src/content/data/affiliate-categories.json"),
@@ -248,20 +375,32 @@ const affiliateProducts = defineCollection({
     id: z.string(),
     title: z.string(),
     description: z.string(),
-    price: z.string(),
+    price: priceSchema,
     affiliateUrl: z.string().url(),
     image: z.string(),
     imageAlt: z.string(),
     category: reference('affiliateCategories'),
-    originalPrice: z.string().optional(),
+    originalPrice: priceSchema.optional(),
+    // Dated price observations, used for price-drop tracking and "lowest price" badges
+    priceHistory: z.array(z.object({
+      date: z.coerce.date(),
+      amount: z.number().nonnegative(),
+      currency: z.string().length(3).optional(),
+    })).default([]),
     rating: z.number().min(0).max(5).optional(),
     reviewCount: z.number().optional(),
     brand: z.string().optional(),
+    sku: z.string().optional(),
+    // schema.org ItemAvailability value used in the product's Offer
+    availability: z.enum(['InStock', 'OutOfStock', 'PreOrder', 'BackOrder', 'Discontinued']).default('InStock'),
     features: z.array(z.string()).optional(),
     pros: z.array(z.string()).optional(),
     cons: z.array(z.string()).optional(),
     badge: z.string().optional(),
     buttonText: z.string().optional(),
+    // Merchant-specific tracking for /go/ redirects, e.g. "subId1" or { "tag": "mysite-20" }
+    subIdParam: z.string().optional(),
+    trackingParams: z.record(z.string()).optional(),
   }),
 });
 
@@ -295,15 +434,34 @@ const legal = defineCollection({
   }),
 });
 
+// Redirects for renamed or removed URLs, enforced by src/middleware.ts and written to dist/_redirects
+const redirects = defineCollection({
+  loader: file("src/content/data/redirects.json"),
+  schema: z.object({
+    id: z.string(),
+    // "/blog/old-slug", "/reviews/:slug" or "/archive/*" (Cloudflare _redirects syntax)
+    source: z.string().startsWith('/'),
+    destination: z.string().optional(),
+    status: z.union([z.literal(301), z.literal(302), z.literal(410)]).default(301),
+    note: z.string().optional(),
+  }).refine(data => data.status === 410 || data.destination, {
+    message: 'destination is required unless status is 410',
+    path: ['destination'],
+  }),
+});
+
 export const collections = {
   blog,
   authors,
+  authorBios,
   categories,
   tags,
+  series,
   settings,
   pages,
   affiliateCategories,
   affiliateProducts,
   affiliateComparisons,
-  legal
+  legal,
+  redirects
 };
\ No newline at end of file
@@ -0,0 +1,190 @@
+// src/core/__tests__/analytics.test.ts
+// Unit tests for click/conversion report shaping and postback parsing
+
+import { describe, it, expect } from 'vitest';
+import {
+  getBucketKey,
+  listBuckets,
+  calculateEpc,
+  buildAnalyticsReport,
+  parseAnalyticsQuery,
+  parsePostback,
+  UNATTRIBUTED_KEY,
+  type AnalyticsQuery,
+} from '../affiliate/analytics';
+
+const now = new Date('2024-06-30T12:00:00Z');
+
+const createQuery = (overrides: Partial<AnalyticsQuery> = {}): AnalyticsQuery => ({
+  dimension: 'post',
+  from: new Date('2024-06-01T00:00:00Z'),
+  to: new Date('2024-06-03T23:59:59Z'),
+  interval: 'day',
+  currency: 'USD',
+  sortBy: 'clicks',
+  limit: 50,
+  filters: {},
+  ...overrides,
+});
+
+describe('Affiliate Analytics', () => {
+  describe('buckets', () => {
+    it('should bucket by UTC day', () => {
+      expect(getBucketKey(new Date('2024-06-05T23:30:00Z'), 'day')).toBe('2024-06-05');
+    });
+
+    it('should bucket weeks on the Monday they start', () => {
+      expect(getBucketKey(new Date('2024-06-05T10:00:00Z'), 'week')).toBe('2024-06-03'); // Wednesday
+      expect(getBucketKey(new Date('2024-06-09T10:00:00Z'), 'week')).toBe('2024-06-03'); // Sunday
+      expect(getBucketKey(new Date('2024-06-10T00:00:00Z'), 'week')).toBe('2024-06-10'); // Monday
+    });
+
+    it('should list every bucket in a range', () => {
+      expect(listBuckets(new Date('2024-06-01T10:00:00Z'), new Date('2024-06-03T10:00:00Z'), 'day'))
+        .toEqual(['2024-06-01', '2024-06-02', '2024-06-03']);
+      expect(listBuckets(new Date('2024-06-05T00:00:00Z'), new Date('2024-06-18T00:00:00Z'), 'week'))
+        .toEqual(['2024-06-03', '2024-06-10', '2024-06-17']);
+    });
+  });
+
+  describe('calculateEpc', () => {
+    it('should divide earnings by clicks', () => {
+      expect(calculateEpc(10, 4)).toBe(2.5);
+      expect(calculateEpc(1, 3)).toBe(0.33);
+      expect(calculateEpc(5, 0)).toBe(0);
+    });
+  });
+
+  describe('buildAnalyticsReport', () => {
+    const report = buildAnalyticsReport(
+      createQuery({ sortBy: 'epc' }),
+      [
+        { key: 'best-grinders', bucket: '2024-06-01', clicks: 10 },
+        { key: 'best-grinders', bucket: '2024-06-03', clicks: 10 },
+        { key: 'chemex-review', bucket: '2024-06-02', clicks: 5 },
+        { key: null, bucket: '2024-06-02', clicks: 2 },
+      ],
+      [
+        { key: 'chemex-review', bucket: '2024-06-02', conversions: 1, earnings: 12.5 },
+        { key: 'best-grinders', bucket: '2024-06-01', conversions: 2, earnings: 8 },
+      ]
+    );
+
+    it('should total clicks, conversions and EPC', () => {
+      expect(report.totals).toEqual({ clicks: 27, conversions: 3, earnings: 20.5, epc: 0.76, conversionRate: 11.11 });
+    });
+
+    it('should fill empty buckets with zeros', () => {
+      expect(report.series.map(bucket => [bucket.bucket, bucket.clicks])).toEqual([
+        ['2024-06-01', 10],
+        ['2024-06-02', 7],
+        ['2024-06-03', 10],
+      ]);
+      expect(report.rows.find(row => row.key === 'chemex-review')!.series).toHaveLength(3);
+    });
+
+    it('should sort rows and label unattributed clicks', () => {
+      expect(report.rows.map(row => [row.key, row.epc])).toEqual([
+        ['chemex-review', 2.5],
+        ['best-grinders', 0.4],
+        [UNATTRIBUTED_KEY, 0],
+      ]);
+      expect(report.totalRows).toBe(3);
+    });
+
+    it('should limit rows', () => {
+      const limited = buildAnalyticsReport(createQuery({ limit: 1 }), [
+        { key: 'a', bucket: '2024-06-01', clicks: 1 },
+        { key: 'b', bucket: '2024-06-01', clicks: 2 },
+      ], []);
+
+      expect(limited.rows.map(row => row.key)).toEqual(['b']);
+      expect(limited.totalRows).toBe(2);
+    });
+  });
+
+  describe('parseAnalyticsQuery', () => {
+    it('should default to the last 30 days by day', () => {
+      const result = parseAnalyticsQuery('product', new URLSearchParams(), now);
+
+      expect(result.success).toBe(true);
+      if (!result.success) return;
+      expect(result.value.to).toEqual(now);
+      expect(result.value.from).toEqual(new Date('2024-05-31T12:00:00Z'));
+      expect(result.value).toMatchObject({ interval: 'day', sortBy: 'clicks', currency: 'USD', limit: 50 });
+    });
+
+    it('should include the whole "to" day and read filters', () => {
+      const result = parseAnalyticsQuery(
+        'variant',
+        new URLSearchParams('from=2024-06-01&to=2024-06-30&interval=week&product=chemex&limit=9999'),
+        now
+      );
+
+      expect(result.success).toBe(true);
+      if (!result.success) return;
+      expect(result.value.to.toISOString()).toBe('2024-06-30T23:59:59.999Z');
+      expect(result.value.filters).toEqual({ product: 'chemex' });
+      expect(result.value.limit).toBe(500);
+    });
+
+    it('should reject invalid parameters', () => {
+      const codeFor = (query: string) => {
+        const result = parseAnalyticsQuery('post', new URLSearchParams(query), now);
+        return result.success ? null : result.code;
+      };
+
+      expect(codeFor('from=yesterday')).toBe('INVALID_DATE');
+      expect(codeFor('from=2024-06-10&to=2024-06-01')).toBe('INVALID_RANGE');
+      expect(codeFor('from=2020-01-01&to=2024-01-01')).toBe('INVALID_RANGE');
+      expect(codeFor('interval=month')).toBe('INVALID_INTERVAL');
+      expect(codeFor('sortBy=title')).toBe('INVALID_SORT');
+    });
+  });
+
+  describe('parsePostback', () => {
+    it('should read network parameter aliases', () => {
+      const result = parsePostback(
+        new URLSearchParams('subid=abc123&payout=4.50&status=confirmed&order_id=ORD-1&currency=eur'),
+        'awin',
+        now
+      );
+
+      expect(result).toEqual({
+        success: true,
+        value: {
+          clickId: 'abc123',
+          network: 'awin',
+          transactionId: 'ORD-1',
+          status: 'approved',
+          commission: 4.5,
+          saleAmount: undefined,
+          currency: 'EUR',
+          convertedAt: now,
+        },
+      });
+    });
+
+    it('should default the transaction ID to the click ID and status to pending', () => {
+      const result = parsePostback(new URLSearchParams('click_id=abc123&commission=0&timestamp=1719748800'), 'impact', now);
+
+      expect(result).toMatchObject({
+        success: true,
+        value: { transactionId: 'abc123', status: 'pending', convertedAt: new Date('2024-06-30T12:00:00Z') },
+      });
+    });
+
+    it('should reject incomplete or invalid postbacks', () => {
+      const codeFor = (query: string) => {
+        const result = parsePostback(new URLSearchParams(query), 'network', now);
+        return result.success ? null : result.code;
+      };
+
+      expect(codeFor('commission=5')).toBe('MISSING_CLICK_ID');
+      expect(codeFor('click_id=abc')).toBe('INVALID_AMOUNT');
+      expect(codeFor('click_id=abc&commission=-1')).toBe('INVALID_AMOUNT');
+      expect(codeFor('click_id=abc&commission=1&status=maybe')).toBe('INVALID_STATUS');
+      expect(codeFor('click_id=abc&commission=1&currency=dollars')).toBe('INVALID_CURRENCY');
+    });
+  });
+});
@@ -0,0 +1,153 @@
+// src/core/__tests__/apiKeys.test.ts
+// Unit tests for API key hashing, scopes and request authorization
+
+import { describe, it, expect, beforeAll } from 'vitest';
+import {
+  hashApiKey,
+  parseApiKeys,
+  timingSafeEqual,
+  extractApiKey,
+  hasScope,
+  getRequiredScopes,
+  authorizeApiRequest,
+  type ApiKeyRecord,
+} from '../api/apiKeys';
+
+const request = (path: string, init: RequestInit = {}) => {
+  const url = new URL(path, 'https://example.com');
+  return { request: new Request(url, init), url };
+};
+
+describe('API Keys', () => {
+  let keys: ApiKeyRecord[];
+
+  beforeAll(async () => {
+    keys = [
+      { name: 'reader', hash: await hashApiKey('reader-key'), scopes: ['posts:read', 'products:read'] },
+      { name: 'editor', hash: await hashApiKey('editor-key'), scopes: ['posts:*', 'drafts:read'] },
+      { name: 'admin', hash: await hashApiKey('admin-key'), scopes: ['*'], expiresAt: '2020-01-01T00:00:00.000Z' },
+    ];
+  });
+
+  describe('hashApiKey', () => {
+    it('should produce a SHA-256 hex digest', async () => {
+      expect(await hashApiKey('abc')).toBe('ba7816bf8f01cfea414140de5dae2223b00361a396177a9cb410ff61f20015ad');
+    });
+  });
+
+  describe('parseApiKeys', () => {
+    it('should return empty array for missing or invalid JSON', () => {
+      expect(parseApiKeys(undefined)).toEqual([]);
+      expect(parseApiKeys('not json')).toEqual([]);
+      expect(parseApiKeys('{"name":"x"}')).toEqual([]);
+    });
+
+    it('should skip malformed records', () => {
+      const hash = 'a'.repeat(64);
+      const parsed = parseApiKeys(JSON.stringify([
+        { name: 'good', hash, scopes: ['posts:read'] },
+        { name: 'short-hash', hash: 'abc', scopes: [] },
+        { name: 'bad-expiry', hash, scopes: [], expiresAt: 'someday' },
+      ]));
+
+      expect(parsed.map(key => key.name)).toEqual(['good']);
+    });
+  });
+
+  describe('timingSafeEqual', () => {
+    it('should compare strings', () => {
+      expect(timingSafeEqual('abc', 'abc')).toBe(true);
+      expect(timingSafeEqual('abc', 'abd')).toBe(false);
+      expect(timingSafeEqual('abc', 'abcd')).toBe(false);
+    });
+  });
+
+  describe('extractApiKey', () => {
+    it('should read Bearer tokens and X-API-Key headers', () => {
+      expect(extractApiKey(new Request('https://example.com', { headers: { Authorization: 'Bearer one' } }))).toBe('one');
+      expect(extractApiKey(new Request('https://example.com', { headers: { 'X-API-Key': 'two' } }))).toBe('two');
+      expect(extractApiKey(new Request('https://example.com'))).toBeNull();
+    });
+
+    it('should only accept a query parameter key on postback routes', () => {
+      const postback = request('/api/analytics/postback.json?key=three');
+      expect(extractApiKey(postback.request, postback.url)).toBe('three');
+
+      const posts = request('/api/posts.json?key=three');
+      expect(extractApiKey(posts.request, posts.url)).toBeNull();
+    });
+  });
+
+  describe('hasScope', () => {
+    it('should match exact, resource wildcard and global scopes', () => {
+      expect(hasScope(['posts:read'], 'posts:read')).toBe(true);
+      expect(hasScope(['posts:*'], 'posts:write')).toBe(true);
+      expect(hasScope(['*'], 'products:write')).toBe(true);
+      expect(hasScope(['posts:read'], 'posts:write')).toBe(false);
+      expect(hasScope(['posts:*'], 'products:read')).toBe(false);
+    });
+  });
+
+  describe('getRequiredScopes', () => {
+    it('should derive scopes from route and method', () => {
+      const params = new URLSearchParams();
+      expect(getRequiredScopes('/api/posts.json', 'GET', params)).toEqual(['posts:read']);
+      expect(getRequiredScopes('/api/posts.json', 'DELETE', params)).toEqual(['posts:write']);
+      expect(getRequiredScopes('/api/affiliate-products/coffee.json', 'GET', params)).toEqual(['products:read']);
+      expect(getRequiredScopes('/api/affiliate-comparisons/all.json', 'GET', params)).toEqual(['comparisons:read']);
+    });
+
+    it('should require drafts:read when listing non-published posts', () => {
+      expect(getRequiredScopes('/api/posts.json', 'GET', new URLSearchParams('status=draft')))
+        .toEqual(['posts:read', 'drafts:read']);
+      expect(getRequiredScopes('/api/posts.json', 'GET', new URLSearchParams('status=published')))
+        .toEqual(['posts:read']);
+    });
+
+    it('should require conversions:write for postbacks regardless of method', () => {
+      const params = new URLSearchParams();
+      expect(getRequiredScopes('/api/analytics/postback.json', 'GET', params)).toEqual(['conversions:write']);
+      expect(getRequiredScopes('/api/analytics/posts.json', 'GET', params)).toEqual(['analytics:read']);
+    });
+  });
+
+  describe('authorizeApiRequest', () => {
+    it('should reject missing and unknown keys with 401', async () => {
+      const missing = request('/api/posts.json');
+      expect(await authorizeApiRequest(missing.request, missing.url, keys))
+        .toMatchObject({ success: false, status: 401, code: 'UNAUTHORIZED' });
+
+      const unknown = request('/api/posts.json', { headers: { 'X-API-Key': 'nope' } });
+      expect(await authorizeApiRequest(unknown.request, unknown.url, keys))
+        .toMatchObject({ success: false, status: 401 });
+    });
+
+    it('should reject expired keys', async () => {
+      const { request: req, url } = request('/api/posts.json', { headers: { 'X-API-Key': 'admin-key' } });
+      expect(await authorizeApiRequest(req, url, keys))
+        .toMatchObject({ success: false, status: 401, code: 'KEY_EXPIRED' });
+    });
+
+    it('should return 403 naming the missing scope', async () => {
+      const { request: req, url } = request('/api/posts.json', {
+        method: 'POST',
+        headers: { Authorization: 'Bearer reader-key' },
+      });
+      const result = await authorizeApiRequest(req, url, keys);
+
+      expect(result).toMatchObject({ success: false, status: 403, code: 'FORBIDDEN' });
+      expect(!result.success && result.error).toContain('posts:write');
+    });
+
+    it('should allow keys with the required scopes', async () => {
+      const { request: req, url } = request('/api/posts.json?status=draft', {
+        headers: { Authorization: 'Bearer editor-key' },
+      });
+
+      expect(await authorizeApiRequest(req, url, keys)).toEqual({
+        success: true,
+        key: { name: 'editor', scopes: ['posts:*', 'drafts:read'] },
+      });
+    });
+  });
+});
@@ -8,6 +8,7 @@ import * as blogLogic from '../blogLogic';
 // Mock Astro content collections
 vi.mock('astro:content', () => ({
   getCollection: vi.fn(),
+  getEntry: vi.fn(),
 }));
 
 // Mock draft filter utilities
@@ -17,8 +18,9 @@ vi.mock('../../utils/draftFilter', () => ({
 }));
 
 // Import mocked functions
-import { getCollection } from 'astro:content';
+import { getCollection, getEntry } from 'astro:content';
 const mockGetCollection = vi.mocked(getCollection);
+const mockGetEntry = vi.mocked(getEntry);
 
 // Test data fixtures
 const mockBlogPosts: CollectionEntry<'blog'>[] = [
@@ -406,6 +408,24 @@ describe('Core Blog Logic Tests', () => {
 
       expect(result).toEqual([]);
     });
+
+    it('should roll subcategory posts up into their parents', async () => {
+      const publishedPosts = mockBlogPosts.filter(p => p.data.status === 'published');
+      const nestedCategories = [
+        mockCategories[0],
+        { ...mockCategories[1], data: { ...mockCategories[1].data, parent: { id: 'tech', collection: 'categories' } } },
+      ];
+      mockGetCollection
+        .mockResolvedValueOnce(publishedPosts)
+        .mockResolvedValueOnce(nestedCategories as typeof mockCategories);
+
+      const result = await blogLogic.getCategoriesWithPostCounts();
+
+      expect(result.map(({ id, url, postCount, directPostCount }) => ({ id, url, postCount, directPostCount }))).toEqual([
+        { id: 'tech', url: '/categories/technology', postCount: 2, directPostCount: 1 },
+        { id: 'design', url: '/categories/technology/design', postCount: 1, directPostCount: 1 },
+      ]);
+    });
   });
 
   describe('generateCategoryPaths', () => {
@@ -413,14 +433,59 @@ describe('Core Blog Logic Tests', () => {
       const publishedPosts = mockBlogPosts.filter(p => p.data.status === 'published');
       mockGetCollection
         .mockResolvedValueOnce(publishedPosts) // getAllPosts
-        .mockResolvedValueOnce(mockCategories); // categories
+        .mockResolvedValueOnce(mockCategories) // categories
+        .mockResolvedValueOnce(mockSettings); // page size
 
       const result = await blogLogic.generateCategoryPaths();
 
       expect(result).toHaveLength(2); // tech and design categories
       expect(result[0].params.category).toBeDefined();
+      expect(result[0].params.page).toBeUndefined();
       expect(result[0].props.posts).toBeDefined();
       expect(result[0].props.categoryId).toBeDefined();
+      expect(result[0].props.page.currentPage).toBe(1);
+    });
+
+    it('should split large categories into pages of the configured size', async () => {
+      const pagedSettings = [{
+        ...mockSettings[0],
+        data: { ...mockSettings[0].data, pagination: { pageSize: { category: 1 } } },
+      }];
+      mockGetCollection
+        .mockResolvedValueOnce(mockBlogPosts) // two tech posts, one design post
+        .mockResolvedValueOnce(mockCategories)
+        .mockResolvedValueOnce(pagedSettings);
+
+      const result = await blogLogic.generateCategoryPaths();
+
+      expect(result.map(path => [path.params.category, path.params.page])).toEqual([
+        ['technology', undefined],
+        ['technology', '2'],
+        ['design', undefined],
+      ]);
+      expect(result[1].props.posts).toHaveLength(2);
+      expect(result[1].props.page.data).toHaveLength(1);
+      expect(result[1].props.page.url.prev).toBe('/categories/technology');
+    });
+
+    it('should add prefixed-locale archives only for categories with posts in that locale', async () => {
+      const spanishPost = { ...mockBlogPosts[0], id: 'es/post-1', data: { ...mockBlogPosts[0].data, locale: 'es' } };
+      mockGetCollection
+        .mockResolvedValueOnce([...mockBlogPosts.slice(0, 2), spanishPost] as typeof mockBlogPosts)
+        .mockResolvedValueOnce(mockCategories)
+        .mockResolvedValueOnce(mockSettings);
+
+      const result = await blogLogic.generateCategoryPaths();
+
+      expect(result.map(path => [path.params.locale, path.params.category])).toEqual([
+        [undefined, 'technology'],
+        ['es', 'technology'],
+        [undefined, 'design'],
+      ]);
+      expect(result[1].props.posts.map(post => post.id)).toEqual(['es/post-1']);
+      expect(result[1].props.page.url.first).toBe('/es/categories/technology');
+      expect(result[1].props.alternatePaths).toEqual({ en: '/categories/technology', es: '/es/categories/technology' });
+      expect(result[2].props.alternatePaths).toEqual({ en: '/categories/design' });
     });
   });
 
@@ -466,7 +531,7 @@ describe('Core Blog Logic Tests', () => {
       const result = await blogLogic.getPostsByAuthor('author-1');
 
       expect(result).toHaveLength(1);
-      expect(result[0].data.author.id).toBe('author-1');
+      expect(result[0].data.author?.id).toBe('author-1');
     });
 
     it('should handle string author format', async () => {
@@ -480,6 +545,18 @@ describe('Core Blog Logic Tests', () => {
 
       expect(result).toHaveLength(1);
     });
+
+    it('should include co-authored posts but not reviewed ones', async () => {
+      const posts = [
+        { ...mockBlogPosts[0], data: { ...mockBlogPosts[0].data, authors: [{ id: 'author-2' }, { id: 'author-1' }] } },
+        { ...mockBlogPosts[1], data: { ...mockBlogPosts[1].data, reviewedBy: { id: 'author-1' } } },
+      ];
+      mockGetCollection.mockResolvedValue(posts as typeof mockBlogPosts);
+
+      const result = await blogLogic.getPostsByAuthor('author-1');
+
+      expect(result.map(post => post.id)).toEqual(['post-1']);
+    });
   });
 
   describe('getAuthorsWithPostCounts', () => {
@@ -509,6 +586,93 @@ describe('Core Blog Logic Tests', () => {
     });
   });
 
+  // ==========================================
+  // SERIES TESTS
+  // ==========================================
+
+  describe('Series', () => {
+    const part = (id: string, seriesOrder: number | undefined, pubDate: string, extra: Record<string, unknown> = {}) => ({
+      ...mockBlogPosts[1],
+      id,
+      data: { ...mockBlogPosts[1].data, pubDate: new Date(pubDate), series: { id: 'guide' }, seriesOrder, ...extra },
+    }) as unknown as CollectionEntry<'blog'>;
+
+    const seriesPosts = [
+      part('part-3', undefined, '2024-01-01'),
+      part('part-2', 2, '2024-01-20'),
+      part('part-1', 1, '2024-01-25'),
+    ];
+    const mockSeries = {
+      id: 'guide',
+      collection: 'series',
+      data: { id: 'guide', title: 'Guide', slug: 'guide' },
+    } as unknown as CollectionEntry<'series'>;
+
+    it('should order parts by seriesOrder, then pubDate', () => {
+      expect(blogLogic.sortSeriesPosts(seriesPosts).map(post => post.id)).toEqual(['part-1', 'part-2', 'part-3']);
+    });
+
+    it('should return the posts of a series in reading order', async () => {
+      mockGetCollection.mockResolvedValue([...seriesPosts, mockBlogPosts[0]]);
+
+      const result = await blogLogic.getPostsBySeries('guide');
+
+      expect(result.map(post => post.id)).toEqual(['part-1', 'part-2', 'part-3']);
+    });
+
+    it('should generate a series page per locale with parts in it', async () => {
+      const spanishPart = part('es/part-1', 1, '2024-02-01', { locale: 'es' });
+      mockGetCollection
+        .mockResolvedValueOnce([...seriesPosts, spanishPart])
+        .mockResolvedValueOnce([mockSeries]);
+
+      const result = await blogLogic.generateSeriesPaths();
+
+      expect(result.map(path => path.params)).toEqual([
+        { locale: undefined, slug: 'guide' },
+        { locale: 'es', slug: 'guide' },
+      ]);
+      expect(result[0].props.posts.map(post => post.id)).toEqual(['part-1', 'part-2', 'part-3']);
+      expect(result[1].props.posts.map(post => post.id)).toEqual(['es/part-1']);
+      expect(result[1].props.alternatePaths).toEqual({ en: '/series/guide', es: '/es/series/guide' });
+    });
+
+    it('should build previous/next navigation for a part', async () => {
+      mockGetCollection.mockResolvedValue(seriesPosts);
+      mockGetEntry.mockResolvedValue(mockSeries);
+
+      const result = await blogLogic.getSeriesNavigation(seriesPosts[1]);
+
+      expect(result?.position).toBe(2);
+      expect(result?.total).toBe(3);
+      expect(result?.prev?.id).toBe('part-1');
+      expect(result?.next?.id).toBe('part-3');
+    });
+
+    it('should return null navigation for posts outside a series', async () => {
+      const result = await blogLogic.getSeriesNavigation(mockBlogPosts[0]);
+
+      expect(result).toBeNull();
+      expect(mockGetEntry).not.toHaveBeenCalled();
+    });
+
+    it('should rank posts from the same series first in related posts', async () => {
+      // Shares category and both tags with the current post, but isn't in the series
+      const sameTopic = {
+        ...mockBlogPosts[0],
+        id: 'same-topic',
+        data: { ...mockBlogPosts[0].data, category: { id: 'design' }, tags: [{ id: 'css' }, { id: 'design' }] },
+      } as CollectionEntry<'blog'>;
+      const current = part('part-1', 1, '2024-01-25');
+      const otherPart = part('part-2', 2, '2024-01-20', { category: { id: 'tech' }, tags: [] });
+      mockGetCollection.mockResolvedValue([current, sameTopic, otherPart]);
+
+      const result = await blogLogic.getRelatedPosts(current);
+
+      expect(result.map(post => post.id)).toEqual(['part-2', 'same-topic']);
+    });
+  });
+
   // ==========================================
   // SEO TESTS
   // ==========================================
@@ -532,7 +696,7 @@ describe('Core Blog Logic Tests', () => {
     it('should generate SEO for middle page', async () => {
       const result = await blogLogic.generateBlogListingSEO(2, 3);
 
-      expect(result.pageTitle).toBe('All Posts - Page 2 - Test Blog');
+      expect(result.pageTitle).toBe('All Posts - Test Blog - Page 2 of 3');
       expect(result.canonicalUrl).toBe('https://testblog.com/blog/2');
       expect(result.prevUrl).toBe('https://testblog.com/blog');
       expect(result.nextUrl).toBe('https://testblog.com/blog/3');
@@ -542,6 +706,7 @@ describe('Core Blog Logic Tests', () => {
       const result = await blogLogic.generateBlogListingSEO(3, 3);
 
       expect(result.nextUrl).toBeUndefined();
+      expect(result.noindex).toBe(false);
     });
   });
 
@@ -558,6 +723,32 @@ describe('Core Blog Logic Tests', () => {
       expect(result.description).toContain('Tech posts');
     });
 
+    it('should number the title and link neighbours on later pages', async () => {
+      mockGetCollection
+        .mockResolvedValueOnce(mockSettings)
+        .mockResolvedValueOnce(mockCategories);
+
+      const result = await blogLogic.generateCategorySEO('technology', 3, 7);
+
+      expect(result.pageTitle).toBe('Technology Posts - Test Blog - Page 3 of 7');
+      expect(result.canonicalUrl).toBe('https://testblog.com/categories/technology/3');
+      expect(result.prevUrl).toBe('https://testblog.com/categories/technology/2');
+      expect(result.nextUrl).toBe('https://testblog.com/categories/technology/4');
+    });
+
+    it('should translate generated copy and localize URLs in a prefixed locale', async () => {
+      mockGetCollection
+        .mockResolvedValueOnce(mockSettings)
+        .mockResolvedValueOnce(mockCategories);
+
+      const result = await blogLogic.generateCategorySEO('technology', 2, 3, 'es');
+
+      expect(result.pageTitle).toBe('Artículos de Technology - Test Blog - Página 2 de 3');
+      expect(result.description).toBe('Explora todos los artículos de la categoría Technology en Test Blog.');
+      expect(result.canonicalUrl).toBe('https://testblog.com/es/categories/technology/2');
+      expect(result.prevUrl).toBe('https://testblog.com/es/categories/technology');
+    });
+
     it('should handle non-existent category', async () => {
       mockGetCollection
         .mockResolvedValueOnce(mockSettings)
@@ -614,7 +805,7 @@ describe('Core Blog Logic Tests', () => {
       mockGetCollection.mockResolvedValue(mockSettings);
 
       const posts = mockBlogPosts.slice(0, 2);
-      const result = await blogLogic.generateBlogListingSchema(posts, 1);
+      const result = await blogLogic.generateBlogListingSchema(blogLogic.createPaginationData(posts, 1, 2));
 
       expect(result['@context']).toBe('https://schema.org');
       expect(result['@type']).toBe('Blog');
@@ -0,0 +1,75 @@
+// src/core/__tests__/categoryTree.test.ts
+// Unit tests for nested category paths, roll-ups, trees and flat-URL redirects
+
+import { describe, it, expect } from 'vitest';
+import {
+  buildCategoryTree,
+  findCategoryByPath,
+  getCategoryAncestors,
+  getCategoryDescendantIds,
+  getCategoryPath,
+  getCategoryRedirects,
+  hasCategoryCycle,
+} from '../../utils/categoryTree';
+
+const category = (id: string, parent?: string, slug: string = id) => ({
+  id,
+  data: { slug, parent: parent ? { id: parent, collection: 'categories' } : undefined },
+});
+
+// marketing > email > automation, plus a root without children
+const categories = [
+  category('automation', 'email'),
+  category('marketing'),
+  category('email', 'marketing', 'email-marketing'),
+  category('analytics'),
+];
+
+describe('Category tree', () => {
+  describe('paths', () => {
+    it('should nest slugs under every ancestor, root first', () => {
+      expect(getCategoryAncestors(categories, 'automation').map(entry => entry.id)).toEqual(['marketing', 'email']);
+      expect(getCategoryPath(categories, 'automation')).toBe('marketing/email-marketing/automation');
+      expect(getCategoryPath(categories, 'analytics')).toBe('analytics');
+      expect(findCategoryByPath(categories, 'marketing/email-marketing')?.id).toBe('email');
+      expect(findCategoryByPath(categories, 'email-marketing')).toBeUndefined();
+    });
+
+    it('should stop at missing parents and cycles', () => {
+      const broken = [category('orphan', 'deleted'), category('a', 'b'), category('b', 'a')];
+
+      expect(getCategoryPath(broken, 'orphan')).toBe('orphan');
+      expect(getCategoryPath(broken, 'a')).toBe('b/a');
+      expect(hasCategoryCycle(broken, 'a')).toBe(true);
+      expect(hasCategoryCycle(broken, 'orphan')).toBe(false);
+    });
+  });
+
+  describe('getCategoryDescendantIds', () => {
+    it('should include the category and every level below it', () => {
+      expect(getCategoryDescendantIds(categories, 'marketing')).toEqual(['marketing', 'email', 'automation']);
+      expect(getCategoryDescendantIds(categories, 'automation')).toEqual(['automation']);
+    });
+  });
+
+  describe('buildCategoryTree', () => {
+    it('should nest children in input order and keep orphans as roots', () => {
+      const tree = buildCategoryTree([...categories, category('orphan', 'deleted')]);
+
+      expect(tree.map(node => node.category.id)).toEqual(['marketing', 'analytics', 'orphan']);
+      expect(tree[0].children[0].category.id).toBe('email');
+      expect(tree[0].children[0].children[0].category.id).toBe('automation');
+    });
+  });
+
+  describe('getCategoryRedirects', () => {
+    it('should redirect the flat URLs of subcategories only', () => {
+      expect(getCategoryRedirects(categories)).toEqual([
+        { source: '/categories/automation', destination: '/categories/marketing/email-marketing/automation', status: 301 },
+        { source: '/categories/automation/*', destination: '/categories/marketing/email-marketing/automation/:splat', status: 301 },
+        { source: '/categories/email-marketing', destination: '/categories/marketing/email-marketing', status: 301 },
+        { source: '/categories/email-marketing/*', destination: '/categories/marketing/email-marketing/:splat', status: 301 },
+      ]);
+    });
+  });
+});
@@ -0,0 +1,327 @@
+// src/core/__tests__/contentLint.test.ts
+// Unit tests for the content lint rules behind `npm run content:lint`
+
+import { describe, it, expect } from 'vitest';
+import {
+  checkReferences,
+  checkContentBlocks,
+  checkDuplicateSlugs,
+  checkSeoLengths,
+  checkImageAlt,
+  checkFaqSections,
+  checkNoindexLinks,
+  checkMovedPosts,
+  checkInternalLinks,
+  checkCategoryParents,
+  checkTagAliases,
+  extractNavigationLinks,
+  lintContent,
+  formatLintReport,
+  type ContentEntry,
+  type ContentSnapshot,
+} from '../lint/contentLint';
+
+const ref = (collection: string, id: string) => ({ id, collection });
+
+const post = (id: string, data: Record<string, unknown> = {}, body: string = ''): ContentEntry => ({
+  id,
+  filePath: `src/content/blog/${id}.mdx`,
+  body,
+  data: {
+    title: 'A Perfectly Reasonable Post Title For SEO',
+    description: 'A description long enough to fill a search result snippet without being cut off by Google.',
+    author: ref('authors', 'jane'),
+    category: ref('categories', 'coffee'),
+    tags: [ref('tags', 'brewing')],
+    locale: 'en',
+    ...data,
+  },
+});
+
+const baseContent = (): ContentSnapshot => ({
+  authors: [{ id: 'jane', data: { id: 'jane', name: 'Jane', slug: 'jane' } }],
+  categories: [{ id: 'coffee', data: { id: 'coffee', name: 'Coffee', slug: 'coffee' } }],
+  tags: [{ id: 'brewing', data: { id: 'brewing', name: 'Brewing', slug: 'brewing' } }],
+  affiliateProducts: [{ id: 'chemex', data: { id: 'chemex', image: '/chemex.jpg', imageAlt: 'Chemex' } }],
+  affiliateComparisons: [
+    { id: 'pour-over', data: { id: 'pour-over', products: [ref('affiliateProducts', 'chemex')], active: true } },
+  ],
+  affiliateCategories: [{ id: 'brewers', data: { id: 'brewers', name: 'Brewers' } }],
+  pages: [],
+  blog: [post('first-post')],
+});
+
+describe('Content Lint', () => {
+  describe('checkReferences', () => {
+    it('should pass when every reference resolves', () => {
+      expect(checkReferences(baseContent())).toEqual([]);
+    });
+
+    it('should report dangling references with their field path', () => {
+      const content = baseContent();
+      content.blog.push(post('broken', { author: ref('authors', 'ghost'), tags: [ref('tags', 'brewing'), ref('tags', 'nope')] }));
+      content.affiliateComparisons[0].data.products = [ref('affiliateProducts', 'chemex'), ref('affiliateProducts', 'missing')];
+
+      const issues = checkReferences(content);
+
+      expect(issues.map(issue => issue.message)).toEqual([
+        'products[1] references missing affiliateProducts entry "missing"',
+        'author references missing authors entry "ghost"',
+        'tags[1] references missing tags entry "nope"',
+      ]);
+      expect(issues.every(issue => issue.severity === 'error')).toBe(true);
+    });
+  });
+
+  describe('checkContentBlocks', () => {
+    it('should report blocks pointing at missing products, comparisons or categories', () => {
+      const content = baseContent();
+      content.blog = [post('blocks', {}, [
+        '<ProductBlock id="chemex" />',
+        '<ProductBlock3 id="aeropress" />',
+        '<ComparisonBlock id="gone" />',
+        '<CategoryBlock category="grinders" limit={3} />',
+      ].join('\n'))];
+
+      const messages = checkContentBlocks(content).map(issue => issue.message);
+
+      expect(messages).toEqual([
+        '<ProductBlock3 id="aeropress"> points at a missing affiliateProducts entry',
+        '<ComparisonBlock id="gone"> points at a missing affiliateComparisons entry',
+        '<CategoryBlock category="grinders"> points at a missing affiliateCategories entry',
+      ]);
+    });
+
+    it('should warn about inactive comparisons', () => {
+      const content = baseContent();
+      content.affiliateComparisons[0].data.active = false;
+      content.blog = [post('blocks', {}, '<ComparisonBlock id="pour-over" />')];
+
+      expect(checkContentBlocks(content)[0].severity).toBe('warning');
+    });
+  });
+
+  describe('checkDuplicateSlugs', () => {
+    it('should report duplicate slugs and clashing post URLs', () => {
+      const content = baseContent();
+      content.tags.push({ id: 'brewing-2', data: { id: 'brewing-2', name: 'Brewing', slug: 'brewing' } });
+      content.blog.push(post('es/first-post', { locale: 'es' }), post('es/otro', { locale: 'es', translationKey: 'x' }));
+      content.blog.push({ ...post('es/first-post-copy', { locale: 'es' }), id: 'es/first-post' });
+
+      const messages = checkDuplicateSlugs(content).map(issue => issue.message);
+
+      expect(messages).toEqual([
+        'Slug "brewing" is already used by "brewing"',
+        'URL "/es/blog/first-post" is already used by "es/first-post"',
+      ]);
+    });
+  });
+
+  describe('checkSeoLengths', () => {
+    it('should flag titles and descriptions outside the recommended ranges', () => {
+      const content = baseContent();
+      content.blog = [post('short', { title: 'Too short', description: 'x'.repeat(200) })];
+      content.pages = [{ id: 'blog', data: { title: 'Blog', slug: 'blog', seo: { title: 'All articles about coffee brewing', description: 'Short' } } }];
+
+      const issues = checkSeoLengths(content);
+
+      expect(issues.map(issue => `${issue.id}:${issue.rule}`)).toEqual([
+        'short:seo-title-length',
+        'short:seo-description-length',
+        'blog:seo-description-length',
+      ]);
+      expect(issues[0].message).toBe('title is 9 characters (recommended 30-60)');
+    });
+  });
+
+  describe('checkImageAlt', () => {
+    it('should flag hero, inline and product images without alt text', () => {
+      const content = baseContent();
+      content.blog = [post('images', { image: { url: '/hero.jpg', alt: ' ' } }, '![](/inline.png)\n![Chart](/ok.png)')];
+      content.affiliateProducts[0].data.imageAlt = '';
+
+      const messages = checkImageAlt(content).map(issue => issue.message);
+
+      expect(messages).toEqual([
+        'image has no alt text',
+        'inline image /inline.png has no alt text',
+        'image has no imageAlt text',
+      ]);
+    });
+  });
+
+  describe('checkFaqSections', () => {
+    it('should ignore posts without an FAQ heading', () => {
+      const content = baseContent();
+      content.blog = [post('no-faq', {}, '## Verdict\n\n**Is it good?** Yes.\n')];
+
+      expect(checkFaqSections(content)).toEqual([]);
+    });
+
+    it('should flag FAQ sections without parseable questions', () => {
+      const content = baseContent();
+      content.blog = [post('faq', {}, '## Frequently Asked Questions\n\n**Is it good?** Yes.\n')];
+
+      expect(checkFaqSections(content)).toHaveLength(1);
+    });
+  });
+
+  describe('checkNoindexLinks', () => {
+    it('should flag noindex pages linked from navigation', () => {
+      const content = baseContent();
+      content.pages = [
+        { id: 'tags', data: { slug: 'tags', noindex: true } },
+        { id: 'blog', data: { slug: 'blog', noindex: false } },
+      ];
+      const links = extractNavigationLinks('<a href="/tags/">Tags</a><a href="/blog">Blog</a><a href="https://x.com/tags">', 'Footer.astro');
+
+      const issues = checkNoindexLinks(content, links);
+
+      expect(issues).toHaveLength(1);
+      expect(issues[0].message).toBe('noindex page /tags is linked from Footer.astro');
+    });
+  });
+
+  describe('checkMovedPosts', () => {
+    it('should suggest a redirect for renamed and deleted posts without one', () => {
+      const content = baseContent();
+      content.blog.push(post('es/nuevo-post', { locale: 'es' }));
+
+      const issues = checkMovedPosts(content, [
+        { from: 'first-draft', to: 'first-post' },
+        { from: 'es/viejo-post', to: 'es/nuevo-post' },
+        { from: 'retired-post' },
+      ]);
+
+      expect(issues.map(issue => issue.rule)).toEqual(['missing-redirect', 'missing-redirect', 'missing-redirect']);
+      expect(issues[0].message).toBe(
+        '/blog/first-draft moved to /blog/first-post; add to redirects.json: {"id":"first-draft","source":"/blog/first-draft","destination":"/blog/first-post","status":301}'
+      );
+      expect(issues[0].file).toBe('src/content/blog/first-post.mdx');
+      expect(issues[1].message).toContain('/es/blog/viejo-post moved to /es/blog/nuevo-post');
+      expect(issues[2].message).toContain('/blog/retired-post was deleted');
+      expect(issues[2].message).toContain('"status":410');
+    });
+
+    it('should accept moves already covered by a redirect', () => {
+      const content = baseContent();
+      content.redirects = [{ id: 'old', data: { source: '/blog/:slug-draft', destination: '/blog/:slug-post', status: 301 } }];
+
+      expect(checkMovedPosts(content, [{ from: 'first-draft', to: 'first-post' }])).toEqual([]);
+    });
+  });
+
+  describe('checkCategoryParents', () => {
+    it('should report categories whose parents loop back to them', () => {
+      const content = baseContent();
+      content.categories.push(
+        { id: 'espresso', data: { id: 'espresso', name: 'Espresso', slug: 'espresso', parent: ref('categories', 'latte') } },
+        { id: 'latte', data: { id: 'latte', name: 'Latte', slug: 'latte', parent: ref('categories', 'espresso') } },
+        { id: 'pour-over', data: { id: 'pour-over', name: 'Pour Over', slug: 'pour-over', parent: ref('categories', 'coffee') } },
+      );
+
+      const issues = checkCategoryParents(content);
+
+      expect(issues.map(issue => issue.id)).toEqual(['espresso', 'latte']);
+      expect(issues.every(issue => issue.rule === 'category-cycle' && issue.severity === 'error')).toBe(true);
+    });
+  });
+
+  describe('checkTagAliases', () => {
+    it('should warn about posts using an alias instead of reporting a dangling reference', () => {
+      const content = baseContent();
+      content.tags[0].data.aliases = ['brew'];
+      content.blog.push(post('aliased', { tags: [ref('tags', 'brew')] }));
+
+      expect(checkReferences(content)).toEqual([]);
+      expect(checkTagAliases(content)).toEqual([expect.objectContaining({
+        id: 'aliased',
+        rule: 'tag-alias',
+        severity: 'warning',
+        message: 'tag "brew" is an alias of "brewing"; merge it with POST /api/tags.json',
+      })]);
+    });
+
+    it('should report aliases that shadow another tag or are claimed twice', () => {
+      const content = baseContent();
+      content.tags[0].data.aliases = ['brew', 'grind'];
+      content.tags.push(
+        { id: 'grinding', data: { id: 'grinding', name: 'Grinding', slug: 'grind', aliases: ['brew'] } },
+      );
+
+      const issues = checkTagAliases(content);
+
+      expect(issues.map(issue => issue.message)).toEqual([
+        'alias "grind" is the ID or slug of tag "grinding"',
+        'alias "brew" is already an alias of "brewing"',
+      ]);
+      expect(issues.every(issue => issue.rule === 'tag-alias-conflict' && issue.severity === 'error')).toBe(true);
+    });
+  });
+
+  describe('checkInternalLinks', () => {
+    it('should report links to missing content but accept redirected ones', () => {
+      const content = baseContent();
+      content.redirects = [
+        { id: 'renamed', data: { source: '/blog/old-post', destination: '/blog/first-post', status: 301 } },
+        { id: 'dead-end', data: { source: '/tags/beans', destination: '/tags/roasting', status: 301 } },
+        { id: 'removed', data: { source: '/blog/retired/*', status: 410 } },
+      ];
+      content.blog.push(post('linking', {}, [
+        '[First](/blog/first-post/) and [renamed](/blog/old-post?ref=x) and <a href="/categories/coffee">Coffee</a>',
+        '[Beans](/tags/beans) [Gone](/blog/retired/part-1) [Missing](/authors/ghost) ![Chart](/images/chart.png) [About](/about)',
+      ].join('\n')));
+
+      const issues = checkInternalLinks(content);
+
+      expect(issues.map(issue => issue.message)).toEqual([
+        'link to /tags/beans does not exist',
+        'link to /blog/retired/part-1 was removed (410)',
+        'link to /authors/ghost does not exist',
+      ]);
+      expect(issues.every(issue => issue.severity === 'error' && issue.id === 'linking')).toBe(true);
+    });
+
+    it('should accept nested category URLs and redirect flat subcategory URLs', () => {
+      const content = baseContent();
+      content.categories.push(
+        { id: 'pour-over', data: { id: 'pour-over', name: 'Pour Over', slug: 'pour-over', parent: ref('categories', 'coffee') } },
+      );
+      content.blog.push(post('linking', {}, '[Nested](/categories/coffee/pour-over) [Flat](/categories/pour-over) [Wrong](/categories/tea/pour-over)'));
+
+      expect(checkInternalLinks(content).map(issue => issue.message)).toEqual([
+        'link to /categories/tea/pour-over does not exist',
+      ]);
+    });
+
+    it('should accept index pages, numbered archive pages and scoped feeds', () => {
+      const content = baseContent();
+      content.blog.push(post('linking', {}, [
+        '[Blog](/blog/) [Categories](/categories/) [Tags](/es/tags/) [Page 2](/tags/brewing/2) [Feed](/categories/coffee/feed.xml)',
+        '[Atom](/es/authors/jane/atom.xml) [JSON](/tags/brewing/feed.json/) [Spanish](/es/categories/coffee/3)',
+        '[Ghost page](/tags/ghost/2) [Ghost feed](/authors/ghost/feed.xml) [Wrong file](/tags/brewing/feed.txt)',
+      ].join('\n')));
+
+      expect(checkInternalLinks(content).map(issue => issue.message)).toEqual([
+        'link to /tags/ghost/2 does not exist',
+        'link to /authors/ghost/feed.xml does not exist',
+        'link to /tags/brewing/feed.txt does not exist',
+      ]);
+    });
+  });
+
+  describe('lintContent', () => {
+    it('should count errors and warnings and format a summary', () => {
+      const content = baseContent();
+      content.blog.push(post('broken', { author: ref('authors', 'ghost'), title: 'Short' }));
+
+      const report = lintContent(content);
+      const text = formatLintReport(report);
+
+      expect(report.errorCount).toBe(1);
+      expect(report.warningCount).toBe(1);
+      expect(text).toContain('src/content/blog/broken.mdx');
+      expect(text).toContain('1 error(s), 1 warning(s)');
+    });
+  });
+});
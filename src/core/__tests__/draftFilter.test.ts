@@ -0,0 +1,49 @@
+// src/core/__tests__/draftFilter.test.ts
+// Unit tests for draft, scheduled and expiring post visibility
+
+import { describe, it, expect } from 'vitest';
+import type { CollectionEntry } from 'astro:content';
+import { getPostVisibility, isPostLive } from '../../utils/draftFilter';
+
+const now = new Date('2024-06-15T12:00:00Z');
+
+const createPost = (data: Partial<CollectionEntry<'blog'>['data']>) => ({
+  data: {
+    title: 'Post',
+    description: 'Description',
+    pubDate: new Date('2024-06-01'),
+    status: 'published',
+    ...data,
+  },
+}) as CollectionEntry<'blog'>;
+
+describe('Draft Filter', () => {
+  describe('getPostVisibility', () => {
+    it('should treat drafts as drafts regardless of dates', () => {
+      expect(getPostVisibility(createPost({ status: 'draft', pubDate: new Date('2020-01-01') }), now)).toBe('draft');
+    });
+
+    it('should treat a future pubDate as scheduled', () => {
+      expect(getPostVisibility(createPost({ pubDate: new Date('2024-07-01') }), now)).toBe('scheduled');
+      expect(getPostVisibility(createPost({ status: 'scheduled', pubDate: new Date('2024-07-01') }), now)).toBe('scheduled');
+    });
+
+    it('should make scheduled posts live once their pubDate passes', () => {
+      expect(getPostVisibility(createPost({ status: 'scheduled', pubDate: new Date('2024-06-15T11:00:00Z') }), now)).toBe('live');
+    });
+
+    it('should expire posts at unpublishAt', () => {
+      expect(getPostVisibility(createPost({ unpublishAt: new Date('2024-06-15T12:00:00Z') }), now)).toBe('expired');
+      expect(getPostVisibility(createPost({ unpublishAt: new Date('2024-06-20') }), now)).toBe('live');
+    });
+  });
+
+  describe('isPostLive', () => {
+    it('should only accept live posts', () => {
+      expect(isPostLive(createPost({}), now)).toBe(true);
+      expect(isPostLive(createPost({ status: 'draft' }), now)).toBe(false);
+      expect(isPostLive(createPost({ pubDate: new Date('2025-01-01') }), now)).toBe(false);
+      expect(isPostLive(createPost({ unpublishAt: new Date('2024-06-01') }), now)).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,123 @@
+// src/core/__tests__/feed.test.ts
+// Unit tests for RSS, Atom and JSON Feed rendering
+
+import { describe, it, expect } from 'vitest';
+import {
+  getMimeType,
+  absolutizeHtmlUrls,
+  renderRssFeed,
+  renderAtomFeed,
+  renderJsonFeed,
+  renderFeedResponse,
+  type Feed,
+} from '../feed/feed';
+
+const feed: Feed = {
+  title: 'Email Marketing - Test Blog',
+  description: 'Posts about email & newsletters',
+  language: 'en-US',
+  siteUrl: 'https://testblog.com',
+  homeUrl: 'https://testblog.com/categories/email-marketing',
+  feedUrls: {
+    rss: 'https://testblog.com/categories/email-marketing/feed.xml',
+    atom: 'https://testblog.com/categories/email-marketing/atom.xml',
+    json: 'https://testblog.com/categories/email-marketing/feed.json',
+  },
+  author: { name: 'Test Team', email: 'team@testblog.com', url: 'https://testblog.com' },
+  items: [
+    {
+      id: 'https://testblog.com/blog/convertkit-review',
+      url: 'https://testblog.com/blog/convertkit-review',
+      title: 'ConvertKit <Review>',
+      summary: 'Email marketing built for creators.',
+      content: '<p>Full <strong>review</strong></p>',
+      published: new Date('2024-02-01T00:00:00Z'),
+      updated: new Date('2024-03-05T00:00:00Z'),
+      authors: [{ name: 'Jane Doe', email: 'jane@testblog.com' }],
+      categories: ['Email Marketing', 'Product Review'],
+      image: { url: 'https://images.example.com/convertkit.webp?w=800', type: 'image/webp' },
+    },
+    {
+      id: 'https://testblog.com/blog/aweber-review',
+      url: 'https://testblog.com/blog/aweber-review',
+      title: 'AWeber Review',
+      summary: 'A veteran email platform.',
+      published: new Date('2024-01-01T00:00:00Z'),
+      authors: [{ name: 'John Doe' }],
+      categories: [],
+    },
+  ],
+};
+
+describe('Feeds', () => {
+  describe('helpers', () => {
+    it('should detect MIME types from the extension, ignoring query strings', () => {
+      expect(getMimeType('https://images.pexels.com/photo.jpeg?auto=compress&w=800')).toBe('image/jpeg');
+      expect(getMimeType('/images/cover.PNG')).toBe('image/png');
+      expect(getMimeType('/images/cover.webp#top')).toBe('image/webp');
+      expect(getMimeType('https://images.unsplash.com/photo-123?w=800')).toBeUndefined();
+    });
+
+    it('should make root-relative links and images absolute', () => {
+      const html = '<a href="/blog/post">x</a><img src="/img.png"><a href="//cdn.example.com/a">y</a><a href="https://a.com">z</a>';
+      expect(absolutizeHtmlUrls(html, 'https://testblog.com/')).toBe(
+        '<a href="https://testblog.com/blog/post">x</a><img src="https://testblog.com/img.png"><a href="//cdn.example.com/a">y</a><a href="https://a.com">z</a>'
+      );
+    });
+  });
+
+  describe('renderRssFeed', () => {
+    it('should use the feed language, self link and enclosure MIME type', async () => {
+      const xml = await renderRssFeed({ ...feed, language: 'es-ES' });
+
+      expect(xml).toContain('<language>es-ES</language>');
+      expect(xml).toContain('<atom:link href="https://testblog.com/categories/email-marketing/feed.xml" rel="self"');
+      expect(xml).toContain('type="image/webp"');
+      expect(xml).not.toContain('image/jpeg');
+      expect(xml).toContain('<content:encoded>');
+      expect(xml).toContain('<author>jane@testblog.com (Jane Doe)</author>');
+      expect(xml).toContain('<lastBuildDate>Tue, 05 Mar 2024 00:00:00 GMT</lastBuildDate>');
+      expect(xml).toContain('<atom:updated>2024-03-05T00:00:00.000Z</atom:updated>');
+    });
+  });
+
+  describe('renderAtomFeed', () => {
+    it('should render escaped entries with content and enclosures', () => {
+      const xml = renderAtomFeed(feed);
+
+      expect(xml).toContain('<feed xmlns="http://www.w3.org/2005/Atom" xml:lang="en-US">');
+      expect(xml).toContain('<link rel="self" type="application/atom+xml" href="https://testblog.com/categories/email-marketing/atom.xml"/>');
+      expect(xml).toContain('<updated>2024-03-05T00:00:00.000Z</updated>');
+      expect(xml).toContain('<published>2024-02-01T00:00:00.000Z</published>');
+      expect(xml).toContain('<title>ConvertKit &lt;Review&gt;</title>');
+      expect(xml).toContain('<content type="html">&lt;p&gt;Full &lt;strong&gt;review&lt;/strong&gt;&lt;/p&gt;</content>');
+      expect(xml).toContain('<link rel="enclosure" type="image/webp"');
+      expect(xml.match(/<entry>/g)).toHaveLength(2);
+    });
+  });
+
+  describe('renderJsonFeed', () => {
+    it('should render a valid JSON Feed 1.1 document', () => {
+      const json = JSON.parse(renderJsonFeed(feed));
+
+      expect(json.version).toBe('https://jsonfeed.org/version/1.1');
+      expect(json.feed_url).toBe(feed.feedUrls.json);
+      expect(json.language).toBe('en-US');
+      expect(json.items[0].content_html).toBe('<p>Full <strong>review</strong></p>');
+      expect(json.items[0].date_modified).toBe('2024-03-05T00:00:00.000Z');
+      expect(json.items[0].attachments).toEqual([
+        { url: 'https://images.example.com/convertkit.webp?w=800', mime_type: 'image/webp' },
+      ]);
+      expect(json.items[1].content_text).toBe('A veteran email platform.');
+      expect(json.items[1].image).toBeUndefined();
+    });
+  });
+
+  describe('renderFeedResponse', () => {
+    it('should set the content type for each format', async () => {
+      expect((await renderFeedResponse(feed, 'rss')).headers.get('Content-Type')).toContain('application/rss+xml');
+      expect((await renderFeedResponse(feed, 'atom')).headers.get('Content-Type')).toContain('application/atom+xml');
+      expect((await renderFeedResponse(feed, 'json')).headers.get('Content-Type')).toContain('application/feed+json');
+    });
+  });
+});
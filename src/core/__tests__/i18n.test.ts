@@ -0,0 +1,105 @@
+// src/core/__tests__/i18n.test.ts
+// Unit tests for locale paths, UI translations and translation links
+
+import { describe, it, expect } from 'vitest';
+import {
+  getLocaleFromPath,
+  stripLocaleFromPath,
+  localizePath,
+  getLanguageTag,
+  getLocaleFromParam,
+} from '../i18n/locales';
+import { useTranslations } from '../i18n/ui';
+import {
+  getPostLocale,
+  getPostSlug,
+  getPostPath,
+  getPostTranslations,
+  buildAlternateLinks,
+  getPostAlternateLinks,
+} from '../i18n/translations';
+
+const enPost = { id: 'notion-review', data: { locale: 'en' } };
+const esPost = { id: 'es/notion-review', data: { locale: 'es' } };
+const esRenamed = { id: 'es/analisis-notion', data: { locale: 'es', translationKey: 'notion-review' } };
+const otherPost = { id: 'shopify-review', data: { locale: 'en' } };
+
+describe('i18n', () => {
+  describe('locale paths', () => {
+    it('should read the locale from a prefixed path', () => {
+      expect(getLocaleFromPath('/es/blog/notion-review')).toBe('es');
+      expect(getLocaleFromPath('/blog/notion-review')).toBe('en');
+      expect(getLocaleFromPath('/')).toBe('en');
+    });
+
+    it('should strip and add locale prefixes', () => {
+      expect(stripLocaleFromPath('/es/blog')).toBe('/blog');
+      expect(stripLocaleFromPath('/es')).toBe('/');
+      expect(stripLocaleFromPath('/essentials')).toBe('/essentials');
+      expect(localizePath('/blog', 'es')).toBe('/es/blog');
+      expect(localizePath('/', 'es')).toBe('/es');
+      expect(localizePath('/es/blog', 'en')).toBe('/blog');
+    });
+
+    it('should map route params to locales', () => {
+      expect(getLocaleFromParam(undefined)).toBe('en');
+      expect(getLocaleFromParam('es')).toBe('es');
+      expect(getLocaleFromParam('en')).toBeNull();
+      expect(getLocaleFromParam('fr')).toBeNull();
+    });
+
+    it('should fall back to the default language tag', () => {
+      expect(getLanguageTag('es')).toBe('es-ES');
+      expect(getLanguageTag('fr')).toBe('en-US');
+    });
+  });
+
+  describe('useTranslations', () => {
+    it('should translate and interpolate labels', () => {
+      expect(useTranslations('es')('blog.pageOf', { page: 2, total: 5 })).toBe('Página 2 de 5');
+      expect(useTranslations('en')('nav.home')).toBe('Home');
+    });
+
+    it('should fall back to English for unknown locales', () => {
+      expect(useTranslations('fr')('nav.blog')).toBe('Blog');
+    });
+  });
+
+  describe('posts', () => {
+    it('should drop the locale folder from slugs and prefix paths', () => {
+      expect(getPostSlug(esPost)).toBe('notion-review');
+      expect(getPostPath(esPost)).toBe('/es/blog/notion-review');
+      expect(getPostPath(enPost)).toBe('/blog/notion-review');
+    });
+
+    it('should read the locale from the locale folder when frontmatter omits it', () => {
+      const esFolderPost = { id: 'es/guia-notion', data: {} };
+      expect(getPostLocale(esFolderPost)).toBe('es');
+      expect(getPostPath(esFolderPost)).toBe('/es/blog/guia-notion');
+      expect(getPostLocale({ id: 'notion-review', data: {} })).toBe('en');
+      expect(getPostLocale({ id: 'es', data: {} })).toBe('en');
+      // Frontmatter wins over the folder
+      expect(getPostLocale({ id: 'es/notion-review', data: { locale: 'en' } })).toBe('en');
+    });
+
+    it('should link translations by slug or translationKey', () => {
+      expect(getPostTranslations(enPost, [enPost, esPost, otherPost])).toEqual({ en: enPost, es: esPost });
+      expect(getPostTranslations(esRenamed, [enPost, esRenamed, otherPost])).toEqual({ en: enPost, es: esRenamed });
+      expect(getPostTranslations(otherPost, [enPost, esPost, otherPost])).toEqual({ en: otherPost });
+    });
+  });
+
+  describe('hreflang alternates', () => {
+    it('should list every translation plus x-default', () => {
+      expect(getPostAlternateLinks(esPost, [enPost, esPost], 'https://example.com/')).toEqual([
+        { locale: 'en', hreflang: 'en-US', href: 'https://example.com/blog/notion-review' },
+        { locale: 'es', hreflang: 'es-ES', href: 'https://example.com/es/blog/notion-review' },
+        { hreflang: 'x-default', href: 'https://example.com/blog/notion-review' },
+      ]);
+    });
+
+    it('should skip alternates for untranslated pages', () => {
+      expect(buildAlternateLinks({ en: '/blog/shopify-review' }, 'https://example.com')).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,110 @@
+// src/core/__tests__/links.test.ts
+// Unit tests for affiliate link cloaking and tracking parameters
+
+import { describe, it, expect } from 'vitest';
+import {
+  buildGoLink,
+  getPostSlugFromPath,
+  sanitizeTrackingValue,
+  generateClickId,
+  buildTrackingUrl,
+  isBotUserAgent,
+} from '../affiliate/links';
+
+describe('Affiliate Links', () => {
+  describe('buildGoLink', () => {
+    it('should build a cloaked link with post and variant', () => {
+      expect(buildGoLink('chemex-coffee-maker', { post: 'best-pour-over', variant: 'ProductBlock3' }))
+        .toBe('/go/chemex-coffee-maker?post=best-pour-over&v=ProductBlock3');
+    });
+
+    it('should omit the query string when there is nothing to track', () => {
+      expect(buildGoLink('chemex-coffee-maker')).toBe('/go/chemex-coffee-maker');
+    });
+  });
+
+  describe('getPostSlugFromPath', () => {
+    it('should read the slug from blog post paths', () => {
+      expect(getPostSlugFromPath('/blog/best-pour-over')).toBe('best-pour-over');
+      expect(getPostSlugFromPath('/blog/best-pour-over/')).toBe('best-pour-over');
+      expect(getPostSlugFromPath('/es/blog/mejor-cafetera')).toBe('mejor-cafetera');
+    });
+
+    it('should ignore other paths', () => {
+      expect(getPostSlugFromPath('/')).toBeUndefined();
+      expect(getPostSlugFromPath('/blog/page/2')).toBeUndefined();
+    });
+  });
+
+  describe('sanitizeTrackingValue', () => {
+    it('should keep URL-safe values', () => {
+      expect(sanitizeTrackingValue(' best-pour-over ')).toBe('best-pour-over');
+    });
+
+    it('should drop empty or unsafe values', () => {
+      expect(sanitizeTrackingValue(null)).toBeUndefined();
+      expect(sanitizeTrackingValue('<script>')).toBeUndefined();
+      expect(sanitizeTrackingValue('a b')).toBeUndefined();
+    });
+
+    it('should truncate long values', () => {
+      expect(sanitizeTrackingValue('a'.repeat(150))).toHaveLength(100);
+    });
+  });
+
+  describe('buildTrackingUrl', () => {
+    it('should add the click ID as sub ID and UTM tags', () => {
+      const url = new URL(buildTrackingUrl('https://merchant.example/p?ref=1', {
+        clickId: 'abc123',
+        utm: { source: 'example.com', medium: 'affiliate', campaign: 'best-pour-over' },
+      }));
+
+      expect(url.searchParams.get('ref')).toBe('1');
+      expect(url.searchParams.get('subid')).toBe('abc123');
+      expect(url.searchParams.get('utm_source')).toBe('example.com');
+      expect(url.searchParams.get('utm_campaign')).toBe('best-pour-over');
+      expect(url.searchParams.has('utm_content')).toBe(false);
+    });
+
+    it('should honour a custom sub ID parameter and extra params', () => {
+      const url = new URL(buildTrackingUrl('https://www.amazon.com/dp/B000', {
+        clickId: 'abc123',
+        subIdParam: 'ascsubtag',
+        extraParams: { tag: 'mysite-20' },
+      }));
+
+      expect(url.searchParams.get('ascsubtag')).toBe('abc123');
+      expect(url.searchParams.get('tag')).toBe('mysite-20');
+      expect(url.searchParams.has('subid')).toBe(false);
+    });
+
+    it('should not overwrite UTM tags set by the merchant', () => {
+      const url = new URL(buildTrackingUrl('https://merchant.example/?utm_source=partner', {
+        clickId: 'abc123',
+        utm: { source: 'example.com' },
+      }));
+
+      expect(url.searchParams.get('utm_source')).toBe('partner');
+    });
+  });
+
+  describe('generateClickId', () => {
+    it('should generate unique 32-character IDs', () => {
+      const id = generateClickId();
+      expect(id).toMatch(/^[0-9a-f]{32}$/);
+      expect(generateClickId()).not.toBe(id);
+    });
+  });
+
+  describe('isBotUserAgent', () => {
+    it('should flag crawlers and missing user agents', () => {
+      expect(isBotUserAgent('Mozilla/5.0 (compatible; Googlebot/2.1)')).toBe(true);
+      expect(isBotUserAgent('facebookexternalhit/1.1')).toBe(true);
+      expect(isBotUserAgent(null)).toBe(true);
+    });
+
+    it('should allow regular browsers', () => {
+      expect(isBotUserAgent('Mozilla/5.0 (Macintosh; Intel Mac OS X 14_0) Safari/605.1.15')).toBe(false);
+    });
+  });
+});
@@ -11,6 +11,7 @@ import {
   getCategoryBreadcrumbs,
   getTagBreadcrumbs,
   getAuthorBreadcrumbs,
+  addPageBreadcrumb,
   safeDecodeURIComponent,
   validateBreadcrumbs,
   breadcrumbConfig,
@@ -394,6 +395,33 @@ describe('Navigation Breadcrumb Tests', () => {
       });
     });
 
+    it('should link every parent category at its nested URL', () => {
+      const parent = { ...mockCategoryEntry, id: 'marketing', data: { id: 'marketing', name: 'Marketing', slug: 'marketing' } };
+      const child = { ...mockCategoryEntry, id: 'email', data: { id: 'email', name: 'Email', slug: 'email' } };
+
+      const result = getCategoryBreadcrumbs('marketing/email/automation', mockCategoryEntry, [parent, child]);
+
+      expect(result.slice(3)).toEqual([
+        { name: 'Marketing', url: '/categories/marketing', position: 4 },
+        { name: 'Email', url: '/categories/marketing/email', position: 5 },
+        { name: 'Technology', isCurrentPage: true, position: 6 },
+      ]);
+    });
+
+    it('should translate labels and link the blog and parents in the archive locale', () => {
+      const parent = { ...mockCategoryEntry, id: 'marketing', data: { id: 'marketing', name: 'Marketing', slug: 'marketing' } };
+
+      const result = getCategoryBreadcrumbs('marketing/tech', mockCategoryEntry, [parent], 'es');
+
+      expect(result).toEqual([
+        { name: 'Inicio', url: '/', position: 1 },
+        { name: 'Blog', url: '/es/blog', position: 2 },
+        { name: 'Categorías', url: '/categories', position: 3 },
+        { name: 'Marketing', url: '/es/categories/marketing', position: 4 },
+        { name: 'Technology', isCurrentPage: true, position: 5 },
+      ]);
+    });
+
     it('should generate breadcrumbs without category data', () => {
       const result = getCategoryBreadcrumbs('web-development');
 
@@ -516,6 +544,26 @@ describe('Navigation Breadcrumb Tests', () => {
     });
   });
 
+  describe('addPageBreadcrumb', () => {
+    const archive: BreadcrumbItem[] = [
+      { name: 'Home', url: '/', position: 1 },
+      { name: 'Tags', url: '/tags', position: 2 },
+      { name: 'SEO', isCurrentPage: true, position: 3 },
+    ];
+
+    it('should leave the first page unchanged', () => {
+      expect(addPageBreadcrumb(archive, '/tags/seo', 1)).toBe(archive);
+    });
+
+    it('should link the archive and end with the page number', () => {
+      const result = addPageBreadcrumb(archive, '/tags/seo', 3);
+
+      expect(result[2]).toEqual({ name: 'SEO', url: '/tags/seo', position: 3 });
+      expect(result[3]).toEqual({ name: 'Page 3', isCurrentPage: true, position: 4 });
+      expect(addPageBreadcrumb(archive, '/es/blog', 2, 'es')[3].name).toBe('Página 2');
+    });
+  });
+
   // ==========================================
   // UTILITY FUNCTIONS TESTS
   // ==========================================
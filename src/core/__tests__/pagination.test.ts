@@ -0,0 +1,72 @@
+// src/core/__tests__/pagination.test.ts
+// Unit tests for paginated archive SEO: canonicals, prev/next, titles and ItemList positions
+
+import { describe, it, expect } from 'vitest';
+import {
+  generatePaginatedItemList,
+  getPagePath,
+  getPaginationSEO,
+  withPageNumber,
+} from '../seo/pagination';
+
+const options = {
+  siteUrl: 'https://testblog.com',
+  basePath: '/tags/email',
+  currentPage: 1,
+  lastPage: 7,
+};
+
+describe('Pagination SEO', () => {
+  describe('getPagePath', () => {
+    it('should keep page 1 on the archive path', () => {
+      expect(getPagePath('/blog', 1)).toBe('/blog');
+      expect(getPagePath('/es/blog', 3)).toBe('/es/blog/3');
+      expect(getPagePath('/tags/email/', 2)).toBe('/tags/email/2');
+    });
+  });
+
+  describe('getPaginationSEO', () => {
+    it('should make every page canonical to itself with prev/next links', () => {
+      expect(getPaginationSEO(options)).toEqual({
+        canonicalUrl: 'https://testblog.com/tags/email',
+        prevUrl: undefined,
+        nextUrl: 'https://testblog.com/tags/email/2',
+        noindex: false,
+      });
+
+      const second = getPaginationSEO({ ...options, currentPage: 2 });
+      expect(second.canonicalUrl).toBe('https://testblog.com/tags/email/2');
+      expect(second.prevUrl).toBe('https://testblog.com/tags/email');
+
+      const last = getPaginationSEO({ ...options, currentPage: 7 });
+      expect(last.prevUrl).toBe('https://testblog.com/tags/email/6');
+      expect(last.nextUrl).toBeUndefined();
+    });
+
+    it('should noindex pages past noindexAfterPage', () => {
+      expect(getPaginationSEO({ ...options, currentPage: 3, noindexAfterPage: 3 }).noindex).toBe(false);
+      expect(getPaginationSEO({ ...options, currentPage: 4, noindexAfterPage: 3 }).noindex).toBe(true);
+      expect(getPaginationSEO({ ...options, currentPage: 7 }).noindex).toBe(false);
+    });
+  });
+
+  describe('withPageNumber', () => {
+    it('should only label pages after the first', () => {
+      expect(withPageNumber('Email Posts', 'Page 1 of 7', 1)).toBe('Email Posts');
+      expect(withPageNumber('Email Posts', 'Page 3 of 7', 3)).toBe('Email Posts - Page 3 of 7');
+    });
+  });
+
+  describe('generatePaginatedItemList', () => {
+    it('should continue positions across pages and count the whole archive', () => {
+      const list = generatePaginatedItemList(
+        [{ '@type': 'BlogPosting', headline: 'Seventh' }, { '@type': 'BlogPosting', headline: 'Eighth' }],
+        { currentPage: 2, size: 6, total: 8 }
+      );
+
+      expect(list.numberOfItems).toBe(8);
+      expect(list.itemListElement.map(element => element.position)).toEqual([7, 8]);
+      expect(list.itemListElement[1].item).toEqual({ '@type': 'BlogPosting', headline: 'Eighth' });
+    });
+  });
+});
@@ -0,0 +1,149 @@
+// src/core/__tests__/postFiles.test.ts
+// Unit tests for reading, serializing and writing post MDX files
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { promises as fs } from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import {
+  deletePostFile,
+  findPostFile,
+  isValidSlug,
+  listPostFiles,
+  parsePostFile,
+  readPostFile,
+  rewritePostFrontmatter,
+  serializePostFile,
+  slugify,
+  toFrontmatterValue,
+  writePostFile,
+} from '../../utils/postFiles';
+
+const POST_SOURCE = [
+  '---',
+  'title: "Notion Review: All-in-One?"',
+  'pubDate: 2024-01-14',
+  'author: "jane"',
+  'tags: ["productivity-tools", "saas-tools"]',
+  'image:',
+  '  url: "https://example.com/notion.jpg"',
+  '  alt: "Notion dashboard"',
+  'featured: false',
+  '---',
+  '',
+  '# Notion Review',
+  '',
+].join('\n');
+
+describe('Post files', () => {
+  describe('slugs', () => {
+    it('should accept kebab-case slugs, optionally under a non-default locale folder', () => {
+      expect(isValidSlug('notion-review-2024')).toBe(true);
+      expect(isValidSlug('es/notion-review')).toBe(true);
+
+      expect(isValidSlug('en/notion-review')).toBe(false);
+      expect(isValidSlug('fr/notion-review')).toBe(false);
+      expect(isValidSlug('../secrets')).toBe(false);
+      expect(isValidSlug('Notion_Review')).toBe(false);
+      expect(isValidSlug('notion--review')).toBe(false);
+    });
+
+    it('should slugify titles, dropping accents and punctuation', () => {
+      expect(slugify('Análisis de Notion: ¿el espacio todo en uno?')).toBe('analisis-de-notion-el-espacio-todo-en-uno');
+      expect(slugify('  ')).toBe('');
+    });
+  });
+
+  describe('toFrontmatterValue', () => {
+    it('should turn references into IDs and dates into YAML dates', () => {
+      expect(toFrontmatterValue({
+        author: { id: 'jane', collection: 'authors' },
+        tags: [{ id: 'seo', collection: 'tags' }],
+        pubDate: new Date('2024-01-14T00:00:00.000Z'),
+        unpublishAt: new Date('2024-06-01T09:30:00.000Z'),
+        image: { url: '/a.jpg', alt: undefined },
+      })).toEqual({
+        author: 'jane',
+        tags: ['seo'],
+        pubDate: '2024-01-14',
+        unpublishAt: '2024-06-01T09:30:00.000Z',
+        image: { url: '/a.jpg' },
+      });
+    });
+  });
+
+  describe('serializePostFile / parsePostFile', () => {
+    it('should write frontmatter the way hand-written posts look', () => {
+      const { frontmatter, body } = parsePostFile(POST_SOURCE);
+
+      expect(serializePostFile(frontmatter, body)).toBe(POST_SOURCE);
+    });
+
+    it('should start the body after one blank line and end the file with a newline', () => {
+      expect(serializePostFile({ title: 'Hi' }, '\n\nBody')).toBe('---\ntitle: "Hi"\n---\n\nBody\n');
+    });
+
+    it('should treat a file without frontmatter as all body', () => {
+      expect(parsePostFile('# Just text\n')).toEqual({ frontmatter: {}, body: '# Just text\n' });
+    });
+  });
+
+  describe('file access', () => {
+    let contentDir: string;
+
+    beforeEach(async () => {
+      contentDir = await fs.mkdtemp(path.join(os.tmpdir(), 'post-files-'));
+      await fs.mkdir(path.join(contentDir, 'es'));
+      await fs.writeFile(path.join(contentDir, 'legacy.md'), POST_SOURCE);
+      await fs.writeFile(path.join(contentDir, 'es', 'notion.mdx'), POST_SOURCE);
+    });
+
+    afterEach(async () => {
+      await fs.rm(contentDir, { recursive: true, force: true });
+    });
+
+    it('should find posts by slug whichever extension they use', async () => {
+      expect(await findPostFile('legacy', contentDir)).toBe(path.join(contentDir, 'legacy.md'));
+      expect(await findPostFile('es/notion', contentDir)).toBe(path.join(contentDir, 'es', 'notion.mdx'));
+      expect(await findPostFile('missing', contentDir)).toBeNull();
+      expect(await findPostFile('../legacy', contentDir)).toBeNull();
+    });
+
+    it('should keep the existing extension when overwriting and create new posts as .mdx', async () => {
+      expect(await writePostFile('legacy', { title: 'Updated' }, 'Body', contentDir)).toBe(path.join(contentDir, 'legacy.md'));
+      expect(await writePostFile('fresh', { title: 'New' }, 'Body', contentDir)).toBe(path.join(contentDir, 'fresh.mdx'));
+      expect((await readPostFile('legacy', contentDir))?.frontmatter).toEqual({ title: 'Updated' });
+      await expect(writePostFile('Bad Slug', {}, '', contentDir)).rejects.toThrow('Invalid post slug');
+    });
+
+    it('should list posts in every folder, sorted by slug and parsed', async () => {
+      await fs.writeFile(path.join(contentDir, 'notes.txt'), 'not a post');
+
+      const files = await listPostFiles(contentDir);
+
+      expect(files.map(file => file.slug)).toEqual(['es/notion', 'legacy']);
+      expect(files[0].path).toBe(path.join(contentDir, 'es', 'notion.mdx'));
+      expect(files[1].frontmatter.tags).toEqual(['productivity-tools', 'saas-tools']);
+      expect(files[1].body).toBe('\n# Notion Review\n');
+    });
+
+    it('should rewrite frontmatter and leave the body byte for byte', async () => {
+      const filePath = path.join(contentDir, 'legacy.md');
+      await fs.writeFile(filePath, POST_SOURCE + '\n<Product id="notion" />  \n\n\n');
+      const { frontmatter } = parsePostFile(POST_SOURCE);
+
+      await rewritePostFrontmatter(filePath, { ...frontmatter, tags: ['saas-tools'] });
+
+      expect(await fs.readFile(filePath, 'utf-8')).toBe(
+        POST_SOURCE.replace('tags: ["productivity-tools", "saas-tools"]', 'tags: ["saas-tools"]') + '\n<Product id="notion" />  \n\n\n'
+      );
+      await fs.writeFile(filePath, '# No frontmatter\n');
+      await expect(rewritePostFrontmatter(filePath, {})).rejects.toThrow('No frontmatter');
+    });
+
+    it('should delete posts and report missing ones', async () => {
+      expect(await deletePostFile('es/notion', contentDir)).toBe(path.join(contentDir, 'es', 'notion.mdx'));
+      expect(await deletePostFile('es/notion', contentDir)).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,228 @@
+// src/core/__tests__/postsApi.test.ts
+// Unit tests for the posts API: tag filtering and the write handlers (POST, PUT, DELETE)
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import type { APIContext, APIRoute } from 'astro';
+
+vi.mock('astro:content', async () => {
+  const { z } = await import('astro/zod');
+  return {
+    z,
+    defineCollection: (config: unknown) => config,
+    reference: (collection: string) => z.string().transform(id => ({ id, collection })),
+    getCollection: vi.fn(),
+    getEntry: vi.fn(),
+  };
+});
+
+vi.mock('astro/loaders', () => ({
+  glob: vi.fn(),
+  file: vi.fn(),
+}));
+
+vi.mock('../../utils/postFiles', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('../../utils/postFiles')>()),
+  readPostFile: vi.fn(),
+  writePostFile: vi.fn(),
+  deletePostFile: vi.fn(),
+}));
+
+import { getCollection, getEntry } from 'astro:content';
+import { deletePostFile, readPostFile, writePostFile } from '../../utils/postFiles';
+import { DELETE, GET, POST, PUT } from '../../pages/api/posts.json';
+
+const mockGetCollection = vi.mocked(getCollection);
+const mockGetEntry = vi.mocked(getEntry);
+const mockReadPostFile = vi.mocked(readPostFile);
+const mockWritePostFile = vi.mocked(writePostFile);
+const mockDeletePostFile = vi.mocked(deletePostFile);
+
+const EXISTING_ENTRIES = ['authors/jane', 'categories/productivity', 'tags/saas-tools', 'tags/seo'];
+
+interface ApiBody {
+  success: boolean;
+  code?: string;
+  details?: unknown;
+  data: Record<string, unknown>;
+}
+
+const call = async (handler: APIRoute, path: string, init: RequestInit = {}) => {
+  const url = new URL(path, 'https://example.com');
+  const response = await handler({ request: new Request(url, init), url } as unknown as APIContext) as Response;
+  return { status: response.status, body: await response.json() as ApiBody };
+};
+
+const json = (method: string, payload: unknown): RequestInit => ({
+  method,
+  headers: { 'Content-Type': 'application/json' },
+  body: JSON.stringify(payload),
+});
+
+const validPost = {
+  title: 'Notion Review',
+  description: 'Everything Notion does well, and what it does not.',
+  pubDate: '2024-01-14',
+  author: 'jane',
+  category: 'productivity',
+  tags: ['saas-tools'],
+};
+
+describe('Posts API reads', () => {
+  const post = (id: string, tagIds: string[]) => ({
+    id,
+    collection: 'blog',
+    body: 'Body',
+    data: {
+      title: id,
+      description: '',
+      pubDate: new Date('2024-01-14'),
+      status: 'published',
+      author: { id: 'jane', collection: 'authors' },
+      category: { id: 'productivity', collection: 'categories' },
+      tags: tagIds.map(id => ({ id, collection: 'tags' })),
+    },
+  });
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockGetEntry.mockResolvedValue(undefined);
+    mockGetCollection.mockImplementation((async (collection: string) =>
+      collection === 'tags'
+        ? [{ id: 'email-marketing', collection: 'tags', data: { id: 'email-marketing', aliases: ['email'] } }]
+        : [post('convertkit-review', ['email']), post('mailchimp-review', ['email-marketing']), post('notion-review', ['seo'])]
+    ) as unknown as typeof getCollection);
+  });
+
+  it('should count posts tagged with an alias under the canonical tag', async () => {
+    for (const tag of ['email-marketing', 'email']) {
+      const { body } = await call(GET, `/api/posts.json?tag=${tag}`);
+      const slugs = (body.data as unknown as Array<{ slug: string }>).map(item => item.slug);
+
+      expect(slugs.sort()).toEqual(['convertkit-review', 'mailchimp-review']);
+    }
+  });
+});
+
+describe('Posts API writes', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockGetEntry.mockImplementation((async (collection: string, id: string) =>
+      EXISTING_ENTRIES.includes(`${collection}/${id}`) ? { id, collection, data: { name: id } } : undefined
+    ) as unknown as typeof getEntry);
+    mockReadPostFile.mockResolvedValue(null);
+    mockWritePostFile.mockImplementation(async (slug) => `src/content/blog/${slug}.mdx`);
+  });
+
+  describe('POST', () => {
+    it('should create a post, deriving the slug from the title', async () => {
+      const { status, body } = await call(POST, '/api/posts.json', json('POST', { ...validPost, content: '# Hi' }));
+
+      expect(status).toBe(201);
+      expect(body.data.slug).toBe('notion-review');
+      expect(mockWritePostFile).toHaveBeenCalledWith('notion-review', expect.objectContaining({
+        title: 'Notion Review',
+        tags: [{ id: 'saas-tools', collection: 'tags' }],
+        status: 'published',
+      }), '# Hi');
+    });
+
+    it('should accept slugs under a locale folder', async () => {
+      const { status } = await call(POST, '/api/posts.json', json('POST', { ...validPost, slug: 'es/notion-review', locale: 'es' }));
+
+      expect(status).toBe(201);
+      expect(mockWritePostFile).toHaveBeenCalledWith('es/notion-review', expect.anything(), '');
+    });
+
+    it('should reject bodies that are not JSON objects and invalid slugs', async () => {
+      expect((await call(POST, '/api/posts.json', { method: 'POST', body: 'not json' })).body.code).toBe('INVALID_JSON');
+      expect((await call(POST, '/api/posts.json', json('POST', [validPost]))).body.code).toBe('INVALID_JSON');
+
+      const { status, body } = await call(POST, '/api/posts.json', json('POST', { ...validPost, slug: '../etc/passwd' }));
+      expect(status).toBe(400);
+      expect(body.code).toBe('INVALID_SLUG');
+      expect(mockWritePostFile).not.toHaveBeenCalled();
+    });
+
+    it('should refuse to overwrite an existing post', async () => {
+      mockReadPostFile.mockResolvedValue({ slug: 'notion-review', path: 'src/content/blog/notion-review.mdx', frontmatter: {}, body: '' });
+
+      const { status, body } = await call(POST, '/api/posts.json', json('POST', validPost));
+
+      expect(status).toBe(409);
+      expect(body.code).toBe('POST_EXISTS');
+      expect(mockWritePostFile).not.toHaveBeenCalled();
+    });
+
+    it('should report schema errors with their field paths', async () => {
+      const { title, ...untitled } = validPost;
+      const { status, body } = await call(POST, '/api/posts.json', json('POST', { ...untitled, slug: 'untitled' }));
+
+      expect(status).toBe(400);
+      expect(body.code).toBe('VALIDATION_ERROR');
+      expect(body.details).toContainEqual(expect.objectContaining({ path: 'title' }));
+    });
+
+    it('should require unpublishAt to come after pubDate', async () => {
+      const { status, body } = await call(POST, '/api/posts.json', json('POST', { ...validPost, unpublishAt: '2024-01-01' }));
+
+      expect(status).toBe(400);
+      expect(body.details).toEqual([{ path: 'unpublishAt', message: 'unpublishAt must be after pubDate' }]);
+    });
+
+    it('should list references to entries that do not exist', async () => {
+      const { status, body } = await call(POST, '/api/posts.json', json('POST', { ...validPost, tags: ['saas-tools', 'ghost'] }));
+
+      expect(status).toBe(400);
+      expect(body.code).toBe('INVALID_REFERENCE');
+      expect(body.details).toEqual(['tags/ghost']);
+    });
+  });
+
+  describe('PUT', () => {
+    it('should merge the payload over the existing frontmatter and keep the body', async () => {
+      mockReadPostFile.mockResolvedValue({
+        slug: 'notion-review',
+        path: 'src/content/blog/notion-review.mdx',
+        frontmatter: { ...validPost, featured: true },
+        body: '# Original body\n',
+      });
+
+      const { status, body } = await call(PUT, '/api/posts.json?slug=notion-review', json('PUT', { title: 'Notion Review (2025)', tags: ['seo'] }));
+
+      expect(status).toBe(200);
+      expect(body.data.title).toBe('Notion Review (2025)');
+      expect(mockWritePostFile).toHaveBeenCalledWith('notion-review', expect.objectContaining({
+        title: 'Notion Review (2025)',
+        description: validPost.description,
+        featured: true,
+        tags: [{ id: 'seo', collection: 'tags' }],
+      }), '# Original body\n');
+    });
+
+    it('should require a slug and an existing post', async () => {
+      expect((await call(PUT, '/api/posts.json', json('PUT', { title: 'x' }))).body.code).toBe('MISSING_SLUG');
+
+      const { status, body } = await call(PUT, '/api/posts.json?slug=ghost', json('PUT', { title: 'x' }));
+      expect(status).toBe(404);
+      expect(body.code).toBe('POST_NOT_FOUND');
+    });
+  });
+
+  describe('DELETE', () => {
+    it('should delete the file backing a post', async () => {
+      mockDeletePostFile.mockResolvedValue('src/content/blog/es/notion-review.mdx');
+
+      const { status, body } = await call(DELETE, '/api/posts.json?slug=es/notion-review', { method: 'DELETE' });
+
+      expect(status).toBe(200);
+      expect(body.data).toEqual({ slug: 'es/notion-review', path: 'src/content/blog/es/notion-review.mdx' });
+    });
+
+    it('should report a missing slug or post', async () => {
+      mockDeletePostFile.mockResolvedValue(null);
+
+      expect((await call(DELETE, '/api/posts.json', { method: 'DELETE' })).status).toBe(400);
+      expect((await call(DELETE, '/api/posts.json?slug=ghost', { method: 'DELETE' })).status).toBe(404);
+    });
+  });
+});
@@ -0,0 +1,115 @@
+// src/core/__tests__/pricing.test.ts
+// Unit tests for structured prices, discounts and price history
+
+import { describe, it, expect } from 'vitest';
+import {
+  parsePriceString,
+  toPrice,
+  formatPrice,
+  getDiscountPercent,
+  getPriceOnDate,
+  getPriceInsights,
+  getPriceDrop,
+  getPricingSummary,
+  type PricedProduct,
+} from '../affiliate/pricing';
+
+const now = new Date('2024-06-30T00:00:00Z');
+
+const createProduct = (amount: number, history: Array<[string, number]>, originalAmount?: number): PricedProduct => ({
+  price: toPrice({ amount })!,
+  originalPrice: originalAmount !== undefined ? toPrice({ amount: originalAmount })! : undefined,
+  priceHistory: history.map(([date, historyAmount]) => ({ date: new Date(date), amount: historyAmount })),
+});
+
+describe('Pricing', () => {
+  describe('parsePriceString', () => {
+    it('should parse common price formats', () => {
+      expect(parsePriceString('$44.95')).toEqual({ amount: 44.95, currency: 'USD', formatted: '$44.95' });
+      expect(parsePriceString('$1,299.00')?.amount).toBe(1299);
+      expect(parsePriceString('€1.299,50')).toMatchObject({ amount: 1299.5, currency: 'EUR' });
+      expect(parsePriceString('19.99 GBP')).toMatchObject({ amount: 19.99, currency: 'GBP' });
+    });
+
+    it('should read a lone "." or "," before three digits as a thousands separator', () => {
+      expect(parsePriceString('€1.299')?.amount).toBe(1299);
+      expect(parsePriceString('1.299,00 €')?.amount).toBe(1299);
+      expect(parsePriceString('$1,299')?.amount).toBe(1299);
+      expect(parsePriceString('1.299.000 COP')?.amount).toBe(1299000);
+      expect(parsePriceString('€12,5')?.amount).toBe(12.5);
+    });
+
+    it('should return null when there is no amount', () => {
+      expect(parsePriceString('Free shipping')).toBeNull();
+    });
+  });
+
+  describe('toPrice', () => {
+    it('should format structured prices', () => {
+      expect(toPrice({ amount: 44.95, currency: 'usd' })).toEqual({ amount: 44.95, currency: 'USD', formatted: '$44.95' });
+      expect(formatPrice(10, 'EUR')).toBe('€10.00');
+    });
+  });
+
+  describe('getDiscountPercent', () => {
+    it('should compute the discount from structured prices', () => {
+      expect(getDiscountPercent(toPrice('$149.00'), toPrice('$179.00'))).toBe(17);
+    });
+
+    it('should skip missing, mismatched or non-discounts', () => {
+      expect(getDiscountPercent(toPrice('$149.00'), null)).toBeUndefined();
+      expect(getDiscountPercent(toPrice('$149.00'), toPrice('€179.00'))).toBeUndefined();
+      expect(getDiscountPercent(toPrice('$179.00'), toPrice('$149.00'))).toBeUndefined();
+      expect(getDiscountPercent(toPrice('$99.80'), toPrice('$100.00'))).toBeUndefined();
+    });
+  });
+
+  describe('price history', () => {
+    const product = createProduct(149, [
+      ['2024-01-01', 179],
+      ['2024-04-15', 169],
+      ['2024-06-01', 159],
+    ], 179);
+
+    it('should find the price on a given date', () => {
+      expect(getPriceOnDate(product, new Date('2024-05-01'))).toBe(169);
+      expect(getPriceOnDate(product, new Date('2023-01-01'))).toBe(179);
+      expect(getPriceOnDate(createProduct(10, []), now)).toBeUndefined();
+    });
+
+    it('should flag the lowest price in the window', () => {
+      const insights = getPriceInsights(product, now);
+
+      expect(insights).toMatchObject({ isLowestPrice: true, lowestPrice: 149, windowDays: 90, discountPercent: 17 });
+    });
+
+    it('should not flag a price that was lower within the window', () => {
+      const higher = createProduct(165, [['2024-06-01', 159]]);
+      expect(getPriceInsights(higher, now).isLowestPrice).toBe(false);
+    });
+
+    it('should not flag products without earlier prices in the window', () => {
+      expect(getPriceInsights(createProduct(149, [['2023-01-01', 199]]), now).isLowestPrice).toBe(false);
+      expect(getPriceInsights(createProduct(149, []), now).isLowestPrice).toBe(false);
+    });
+
+    it('should compute price drops since a date', () => {
+      expect(getPriceDrop(product, new Date('2024-05-01'))).toMatchObject({
+        previousAmount: 169,
+        currentAmount: 149,
+        dropAmount: 20,
+        dropPercent: 11.8,
+        currency: 'USD',
+      });
+      expect(getPriceDrop(createProduct(200, [['2024-01-01', 179]]), new Date('2024-05-01'))).toBeNull();
+    });
+
+    it('should serialize a pricing summary', () => {
+      const summary = getPricingSummary(product, now);
+
+      expect(summary.amount).toBe(149);
+      expect(summary.originalAmount).toBe(179);
+      expect(summary.history[0]).toEqual({ date: '2024-01-01T00:00:00.000Z', amount: 179, currency: 'USD' });
+    });
+  });
+});
@@ -0,0 +1,46 @@
+// src/core/__tests__/redirects.test.ts
+// Unit tests for redirect matching and the Cloudflare _redirects file
+
+import { describe, it, expect } from 'vitest';
+import { matchRedirect, renderRedirectsFile, type RedirectRule } from '../redirects/redirects';
+
+const rules: RedirectRule[] = [
+  { source: '/blog/canva-review', destination: '/blog/canva-design-tool-review' },
+  { source: '/reviews/:slug', destination: '/blog/:slug-review', status: 302 },
+  { source: '/guides/*', destination: 'https://guides.example.com/:splat' },
+  { source: '/blog/old-deals', status: 410 },
+  { source: '/blog/:slug', destination: '/never-reached' },
+];
+
+describe('Redirects', () => {
+  describe('matchRedirect', () => {
+    it('should match exact sources with an optional trailing slash, defaulting to 301', () => {
+      expect(matchRedirect(rules, '/blog/canva-review/')).toEqual({ status: 301, location: '/blog/canva-design-tool-review' });
+      expect(matchRedirect(rules, '/about')).toBeUndefined();
+    });
+
+    it('should fill named params and splats in the destination', () => {
+      expect(matchRedirect(rules, '/reviews/hubspot-crm')).toEqual({ status: 302, location: '/blog/hubspot-crm-review' });
+      expect(matchRedirect(rules, '/reviews/a/b')).toBeUndefined();
+      expect(matchRedirect(rules, '/guides/email/setup')).toEqual({ status: 301, location: 'https://guides.example.com/email/setup' });
+    });
+
+    it('should return 410 without a location and use the first matching rule', () => {
+      expect(matchRedirect(rules, '/blog/old-deals')).toEqual({ status: 410 });
+      expect(matchRedirect(rules, '/blog/anything-else')?.location).toBe('/never-reached');
+    });
+  });
+
+  describe('renderRedirectsFile', () => {
+    it('should write one line per redirect and leave 410s to the middleware', () => {
+      expect(renderRedirectsFile(rules)).toBe([
+        '/blog/canva-review /blog/canva-design-tool-review 301',
+        '/reviews/:slug /blog/:slug-review 302',
+        '/guides/* https://guides.example.com/:splat 301',
+        '/blog/:slug /never-reached 301',
+        '',
+      ].join('\n'));
+      expect(renderRedirectsFile([])).toBe('');
+    });
+  });
+});
@@ -0,0 +1,89 @@
+// src/core/__tests__/robots.test.ts
+// Unit tests for the robots.txt policy and matching X-Robots-Tag headers
+
+import { describe, it, expect } from 'vitest';
+import {
+  AI_TRAINING_CRAWLERS,
+  buildRobotsPolicy,
+  getXRobotsTags,
+  isPathAllowed,
+  renderRobotsTxt,
+} from '../seo/robots';
+
+describe('Robots policy', () => {
+  describe('buildRobotsPolicy', () => {
+    it('should fall back to allowing everything except API and affiliate links', () => {
+      const txt = renderRobotsTxt(buildRobotsPolicy(undefined), ['https://testblog.com/sitemap-index.xml']);
+
+      expect(txt).toBe([
+        'User-agent: *',
+        'Allow: /',
+        'Disallow: /api/',
+        'Disallow: /go/',
+        '',
+        'Sitemap: https://testblog.com/sitemap-index.xml',
+        '',
+      ].join('\n'));
+    });
+
+    it('should add disallowed pages to every group and block AI crawlers on request', () => {
+      const policy = buildRobotsPolicy({
+        rules: [{ userAgent: ['Bingbot', 'Slurp'], disallow: ['/search'], crawlDelay: 10 }],
+        blockAiCrawlers: true,
+      }, ['/blog/draft-post']);
+      const txt = renderRobotsTxt(policy, []);
+
+      // A wildcard group is always present
+      expect(policy[0].userAgents).toEqual(['*']);
+      expect(policy[0].disallow).toEqual(['/api/', '/go/', '/blog/draft-post$', '/blog/draft-post/$']);
+      expect(policy[1].disallow).toEqual(['/search', '/api/', '/go/', '/blog/draft-post$', '/blog/draft-post/$']);
+      expect(txt).toContain('User-agent: Bingbot\nUser-agent: Slurp\nDisallow: /search');
+      expect(txt).toContain('Crawl-delay: 10');
+      expect(txt).toContain(`# AI training crawlers\n${AI_TRAINING_CRAWLERS.map(agent => `User-agent: ${agent}`).join('\n')}\nDisallow: /`);
+    });
+  });
+
+  describe('isPathAllowed', () => {
+    const group = { userAgents: ['*'], allow: ['/private/press-kit', '/*.css$'], disallow: ['/private/', '/*.css', '/tags$'] };
+
+    it('should let the longest matching pattern win, with Allow winning ties', () => {
+      expect(isPathAllowed(group, '/private/notes')).toBe(false);
+      expect(isPathAllowed(group, '/private/press-kit/logo.png')).toBe(true);
+      expect(isPathAllowed(group, '/styles/site.css')).toBe(true);
+      expect(isPathAllowed(group, '/styles/site.css?v=2')).toBe(false);
+    });
+
+    it('should only match anchored patterns exactly', () => {
+      expect(isPathAllowed(group, '/tags')).toBe(false);
+      expect(isPathAllowed(group, '/tags/seo')).toBe(true);
+    });
+  });
+
+  describe('getXRobotsTags', () => {
+    const policy = buildRobotsPolicy({
+      rules: [{ userAgent: '*', allow: ['/'] }],
+      blockAiCrawlers: true,
+    }, ['/blog/draft-post']);
+
+    it('should send a plain noindex for paths every crawler is kept out of', () => {
+      expect(getXRobotsTags(policy, '/api/posts.json')).toEqual(['noindex, nofollow']);
+      expect(getXRobotsTags(policy, '/blog/draft-post/')).toEqual(['noindex, nofollow']);
+    });
+
+    it('should send a plain noindex for noindex pages without disallowing them', () => {
+      const txt = renderRobotsTxt(policy, []);
+
+      expect(getXRobotsTags(policy, '/tags/', ['/tags'])).toEqual(['noindex, nofollow']);
+      expect(getXRobotsTags(buildRobotsPolicy(undefined), '/tags/seo', ['/tags'])).toEqual([]);
+      expect(txt).not.toContain('/tags');
+    });
+
+    it('should target blocked user agents on other paths', () => {
+      const tags = getXRobotsTags(policy, '/blog/published-post');
+
+      expect(tags).toHaveLength(AI_TRAINING_CRAWLERS.length);
+      expect(tags).toContain('GPTBot: noindex, nofollow');
+      expect(getXRobotsTags(buildRobotsPolicy(undefined), '/blog/published-post')).toEqual([]);
+    });
+  });
+});
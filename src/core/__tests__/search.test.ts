@@ -0,0 +1,160 @@
+// src/core/__tests__/search.test.ts
+// Unit tests for the full-text search index
+
+import { describe, it, expect, vi } from 'vitest';
+import {
+  stem,
+  tokenize,
+  stripMarkdown,
+  extractHeadings,
+  editDistance,
+  buildSearchIndex,
+  searchIndex,
+  highlightText,
+  type SearchDocumentInput,
+} from '../search/searchIndex';
+import { loadSearchIndex } from '../search/loadSearchIndex';
+
+const documents: SearchDocumentInput[] = [
+  {
+    id: 'convertkit-review',
+    url: '/blog/convertkit-review',
+    title: 'ConvertKit Review for Creators',
+    description: 'Email marketing built for creators.',
+    body: "import Block from '../Block.astro';\n\n## Pricing Plans\n\nConvertKit offers automation features and landing pages.\n\n<ProductBlock id=\"convertkit\" />",
+    pubDate: new Date('2024-02-01'),
+    category: 'Email Marketing',
+    tags: ['Product Review'],
+  },
+  {
+    id: 'shopify-review',
+    url: '/blog/shopify-review',
+    title: 'Shopify Ecommerce Platform',
+    description: 'Building an online store with Shopify.',
+    body: '## Themes\n\nShopify has great themes. It also mentions email marketing briefly.',
+    pubDate: new Date('2024-01-01'),
+    category: 'Ecommerce',
+    tags: ['Ecommerce'],
+  },
+];
+
+describe('Search Index', () => {
+  describe('text processing', () => {
+    it('should stem common inflections to the same term', () => {
+      expect(stem('reviews')).toBe(stem('review'));
+      expect(stem('reviewed')).toBe(stem('review'));
+      expect(stem('reviewing')).toBe(stem('review'));
+      expect(stem('features')).toBe(stem('feature'));
+      expect(stem('running')).toBe('run');
+    });
+
+    it('should tokenize, normalize and drop stop words', () => {
+      expect(tokenize('The Café and the Grinder!')).toEqual(['cafe', 'grinder']);
+    });
+
+    it('should strip MDX imports, components and markup', () => {
+      const text = stripMarkdown("import X from 'x';\n\n## Title\n\nSome **bold** [link](/a) <Block id=\"b\" />");
+      expect(text).toBe('Title Some bold link');
+    });
+
+    it('should extract headings', () => {
+      expect(extractHeadings('# One\n\ntext\n\n### Two ###')).toEqual(['One', 'Two']);
+    });
+
+    it('should compute bounded edit distance', () => {
+      expect(editDistance('shopify', 'shopfy', 1)).toBe(1);
+      expect(editDistance('emial', 'email', 1)).toBe(1);
+      expect(editDistance('shopify', 'spotify', 1)).toBe(2);
+      expect(editDistance('a', 'abcd', 1)).toBe(2);
+    });
+  });
+
+  describe('buildSearchIndex', () => {
+    it('should index every field with document references', () => {
+      const index = buildSearchIndex(documents);
+
+      expect(index.documents).toHaveLength(2);
+      expect(index.terms['convertkit'].map(([doc]) => doc)).toEqual([0]);
+      expect(index.terms[stem('pricing')]).toBeDefined();
+      expect(index.documents[0].text).not.toContain('import');
+      expect(index.documents[0].text).not.toContain('ProductBlock');
+    });
+
+    it('should weight title matches above body matches', () => {
+      const index = buildSearchIndex(documents);
+      const [[, titleScore]] = index.terms['shopify'];
+      const [[, bodyScore]] = index.terms[stem('automation')];
+
+      expect(titleScore).toBeGreaterThan(bodyScore);
+    });
+
+    it('should not collide with Object.prototype keys', () => {
+      const index = buildSearchIndex([{ ...documents[0], body: 'constructor toString' }]);
+      expect(index.terms['constructor']).toEqual([[0, expect.any(Number)]]);
+    });
+  });
+
+  describe('searchIndex', () => {
+    const index = buildSearchIndex(documents);
+
+    it('should rank documents by field weight', () => {
+      const results = searchIndex(index, 'email marketing');
+
+      expect(results.total).toBe(2);
+      expect(results.hits[0].id).toBe('convertkit-review');
+    });
+
+    it('should match prefixes', () => {
+      expect(searchIndex(index, 'conv').hits.map(hit => hit.id)).toEqual(['convertkit-review']);
+    });
+
+    it('should tolerate typos', () => {
+      expect(searchIndex(index, 'shopfy').hits.map(hit => hit.id)).toEqual(['shopify-review']);
+    });
+
+    it('should return highlighted snippets', () => {
+      const [hit] = searchIndex(index, 'automation').hits;
+
+      expect(hit.snippet).toContain('<mark>automation</mark>');
+      expect(hit.highlightedTitle).toBe('ConvertKit Review for Creators');
+    });
+
+    it('should return no hits for empty or stop-word queries', () => {
+      expect(searchIndex(index, '').hits).toEqual([]);
+      expect(searchIndex(index, 'the and').total).toBe(0);
+    });
+
+    it('should paginate with limit and offset', () => {
+      const results = searchIndex(index, 'email', { limit: 1, offset: 1 });
+
+      expect(results.total).toBe(2);
+      expect(results.hits).toHaveLength(1);
+      expect(results.hits[0].id).toBe('shopify-review');
+    });
+  });
+
+  describe('loadSearchIndex', () => {
+    it('should read the prerendered index from the static assets', async () => {
+      const index = buildSearchIndex(documents, new Date('2024-03-01'));
+      const assets = { fetch: vi.fn(async () => new Response(JSON.stringify(index))) };
+
+      const loaded = await loadSearchIndex(new URL('https://testblog.com/api/search.json?q=email'), assets);
+
+      expect(assets.fetch).toHaveBeenCalledWith('https://testblog.com/search-index.json');
+      expect(searchIndex(loaded, 'email').total).toBe(2);
+    });
+
+    it('should throw when the index is missing', async () => {
+      const assets = { fetch: async () => new Response('Not found', { status: 404 }) };
+
+      await expect(loadSearchIndex(new URL('https://testblog.com/api/search.json'), assets)).rejects.toThrow('404');
+    });
+  });
+
+  describe('highlightText', () => {
+    it('should escape HTML around highlights', () => {
+      expect(highlightText('<b>Reviews</b>', new Set([stem('review')])))
+        .toBe('&lt;b&gt;<mark>Reviews</mark>&lt;/b&gt;');
+    });
+  });
+});
@@ -22,11 +22,28 @@ import {
   generatePersonSchema,
   generateOrganizationSchema,
   generateImageSchema,
+  generateProductSchema,
+  generateReviewSchema,
+  generateItemListSchema,
+  generateSchemaGraph,
 } from '../seo/schema';
 
 import { generateAuthorSchemaData } from '../seo/generateAuthorSchema';
 import { generateAuthorsListSchemaData } from '../seo/generateAuthorsListSchema';
 import { generateBlogPostSchemaData } from '../seo/generateBlogPostSchema';
+import { generateProductSchemaData } from '../seo/generateProductSchema';
+import { findContentBlocks } from '../affiliate/blocks';
+import { generateHowToSchema } from '../seo/generateHowToSchema';
+import { parseHowToFromContent, parseDuration, validateHowToData } from '../../utils/howToParser';
+import { getOgImageParam, getOgImageUrl, OG_IMAGE_SIZE } from '../seo/ogImagePaths';
+import {
+  resolveThemeColor,
+  wrapTitle,
+  renderOgCardSvg,
+  renderOgImage,
+} from '../seo/ogImage';
+import { defaultTheme } from '../../config/theme';
+import sharp from 'sharp';
 
 // Test data fixtures
 const mockAuthor = {
@@ -189,6 +206,28 @@ describe('SEO Schema Generation Tests', () => {
       expect(resultWithAt.sameAs).toContain('https://twitter.com/johndoe');
       expect(resultWithoutAt.sameAs).toContain('https://twitter.com/johndoe');
     });
+
+    it('should include role, organization, expertise, credentials and extra profiles', () => {
+      const result = generatePersonSchema({
+        ...mockAuthor,
+        jobTitle: 'Senior Editor',
+        organization: { name: 'Example Media', url: 'https://example.com' },
+        knowsAbout: ['Email marketing', 'CRM software'],
+        credentials: ['HubSpot Inbound Certification'],
+        awards: ['Best Newsletter 2023'],
+        sameAs: ['https://www.linkedin.com/in/johndoe', 'https://github.com/johndoe'],
+      });
+
+      expect(result).toMatchObject({
+        jobTitle: 'Senior Editor',
+        worksFor: { '@type': 'Organization', name: 'Example Media', url: 'https://example.com' },
+        knowsAbout: ['Email marketing', 'CRM software'],
+        hasCredential: [{ '@type': 'EducationalOccupationalCredential', name: 'HubSpot Inbound Certification' }],
+        award: ['Best Newsletter 2023'],
+        // Profiles already derived from twitter/github are not repeated
+        sameAs: ['https://twitter.com/johndoe', 'https://github.com/johndoe', 'https://www.linkedin.com/in/johndoe'],
+      });
+    });
   });
 
   describe('generateOrganizationSchema', () => {
@@ -308,6 +347,63 @@ describe('SEO Schema Generation Tests', () => {
       expect(result.image).toBeUndefined();
       expect(result.articleSection).toBe('General');
     });
+
+    it('should take dateModified from updatedDate or lastReviewed, whichever is later', () => {
+      const result = generateArticleSchema({
+        frontmatter: {
+          ...mockBlogFrontmatter,
+          updatedDate: new Date('2024-03-01'),
+          lastReviewed: new Date('2024-04-10'),
+        },
+        url: 'https://testblog.com/blog/test-post',
+        settings: mockSiteSettings,
+      });
+
+      expect(result).toMatchObject({
+        datePublished: '2024-01-15T00:00:00.000Z',
+        dateModified: '2024-04-10T00:00:00.000Z',
+        mainEntityOfPage: { lastReviewed: '2024-04-10T00:00:00.000Z' },
+      });
+
+      const updatedOnly = generateArticleSchema({
+        frontmatter: { ...mockBlogFrontmatter, updatedDate: new Date('2024-03-01') },
+        url: 'https://testblog.com/blog/test-post',
+        settings: mockSiteSettings,
+      });
+
+      expect(updatedOnly.dateModified).toBe('2024-03-01T00:00:00.000Z');
+      expect(updatedOnly).not.toHaveProperty('mainEntityOfPage.lastReviewed');
+    });
+
+    it('should list co-authors in order and put reviewers on the WebPage', () => {
+      const coAuthor = { id: 'jane-smith', name: 'Jane Smith' };
+      const reviewer = { id: 'dr-lee', name: 'Dr. Lee', website: 'https://lee.example.com' };
+      const result = generateArticleSchema({
+        frontmatter: {
+          ...mockBlogFrontmatter,
+          authors: [mockBlogFrontmatter.author, coAuthor],
+          reviewedBy: [reviewer],
+        },
+        url: 'https://testblog.com/blog/test-post',
+        settings: mockSiteSettings,
+      });
+
+      expect(result).toMatchObject({ author: [{ name: 'John Doe' }, { name: 'Jane Smith' }] });
+      expect(result).toHaveProperty('mainEntityOfPage.reviewedBy', {
+        '@type': 'Person',
+        name: 'Dr. Lee',
+        url: 'https://lee.example.com',
+      });
+
+      const single = generateArticleSchema({
+        frontmatter: mockBlogFrontmatter,
+        url: 'https://testblog.com/blog/test-post',
+        settings: mockSiteSettings,
+      });
+
+      expect(single).toMatchObject({ author: { name: 'John Doe' } });
+      expect(single).not.toHaveProperty('mainEntityOfPage.reviewedBy');
+    });
   });
 
   describe('generateBlogPostingSchema', () => {
@@ -366,6 +462,30 @@ describe('SEO Schema Generation Tests', () => {
       expect(result.mainEntityOfPage['@type']).toBe('ProfilePage');
     });
 
+    it('should prefer the profile role and expertise over site fallbacks', async () => {
+      const author = {
+        id: 'john-doe',
+        data: {
+          ...mockAuthor,
+          jobTitle: 'Senior Editor',
+          organization: { name: 'Example Media' },
+          knowsAbout: ['Email marketing'],
+        },
+      };
+
+      const result = await generateAuthorSchemaData(
+        author,
+        'https://testblog.com/authors/john-doe',
+        5
+      );
+
+      expect(result).toMatchObject({
+        jobTitle: 'Senior Editor',
+        worksFor: { name: 'Example Media' },
+        knowsAbout: ['Email marketing'],
+      });
+    });
+
     it('should handle missing site settings gracefully', async () => {
       mockGetCollection.mockResolvedValue([]);
 
@@ -732,6 +852,391 @@ describe('SEO Schema Generation Tests', () => {
     });
   });
 
+  // ==========================================
+  // PRODUCT & REVIEW SCHEMA TESTS
+  // ==========================================
+
+  describe('Product and Review schemas', () => {
+    const mockProduct = {
+      name: 'Chemex Pour-Over Coffee Maker',
+      description: 'Classic glass pour-over brewer',
+      image: 'https://images.example.com/chemex.jpg',
+      url: 'https://shop.example.com/chemex',
+      price: { amount: 44.95, currency: 'USD' },
+      availability: 'InStock' as const,
+      brand: 'Chemex',
+      rating: 4.7,
+      reviewCount: 1520,
+      pros: ['Clean cup', 'Looks great'],
+      cons: ['Fragile'],
+    };
+
+    const mockProductEntry: Pick<CollectionEntry<'affiliateProducts'>, 'id' | 'data'> = {
+      id: 'chemex-coffee-maker',
+      data: {
+        id: 'chemex-coffee-maker',
+        title: mockProduct.name,
+        description: mockProduct.description,
+        image: mockProduct.image,
+        imageAlt: 'Chemex',
+        affiliateUrl: mockProduct.url,
+        price: { amount: 44.95, currency: 'USD', formatted: '$44.95' },
+        availability: 'OutOfStock',
+        brand: 'Chemex',
+        rating: 4.7,
+        reviewCount: 1520,
+        pros: mockProduct.pros,
+        cons: mockProduct.cons,
+        category: { id: 'brewers', collection: 'affiliateCategories' },
+        priceHistory: [],
+      },
+    };
+
+    it('should generate Product schema with brand, offer and aggregate rating', () => {
+      const result = generateProductSchema(mockProduct);
+
+      expect(result['@type']).toBe('Product');
+      expect(result).toHaveProperty('brand', { '@type': 'Brand', name: 'Chemex' });
+      expect(result).toHaveProperty('offers', {
+        '@type': 'Offer',
+        price: 44.95,
+        priceCurrency: 'USD',
+        availability: 'https://schema.org/InStock',
+        url: 'https://shop.example.com/chemex',
+      });
+      expect(result).toHaveProperty('aggregateRating', {
+        '@type': 'AggregateRating',
+        ratingValue: 4.7,
+        reviewCount: 1520,
+        bestRating: 5,
+      });
+    });
+
+    it('should omit aggregateRating without a review count', () => {
+      const result = generateProductSchema({ ...mockProduct, reviewCount: undefined });
+
+      expect(result).not.toHaveProperty('aggregateRating');
+    });
+
+    it('should generate Review schema with pros and cons as notes', () => {
+      const result = generateReviewSchema({
+        product: mockProduct,
+        author: mockAuthor,
+        url: 'https://testblog.com/blog/chemex-review',
+        datePublished: new Date('2024-01-15'),
+        rating: 4.5,
+        settings: mockSiteSettings,
+      });
+
+      expect(result).toMatchObject({
+        '@type': 'Review',
+        itemReviewed: { '@type': 'Product' },
+        author: { name: 'John Doe' },
+        reviewRating: { ratingValue: 4.5 },
+      });
+      expect(result).not.toHaveProperty(['itemReviewed', '@context']);
+      expect(result).toHaveProperty('positiveNotes.itemListElement', [
+        { '@type': 'ListItem', position: 1, name: 'Clean cup' },
+        { '@type': 'ListItem', position: 2, name: 'Looks great' },
+      ]);
+      expect(result).toHaveProperty('negativeNotes.itemListElement.length', 1);
+    });
+
+    it('should build Product schema from an affiliateProducts entry', () => {
+      const result = generateProductSchemaData(mockProductEntry);
+
+      expect(result).toMatchObject({
+        name: 'Chemex Pour-Over Coffee Maker',
+        offers: { availability: 'https://schema.org/OutOfStock' },
+      });
+      expect(generateProductSchemaData(null)).toBeNull();
+    });
+
+    it('should add Review schema to posts that review a product', async () => {
+      mockGetEntry.mockImplementation((collection, id) => {
+        if (collection === 'authors' && id === 'john-doe') return Promise.resolve(mockAuthorEntry);
+        if (collection === 'affiliateProducts' && id === 'chemex-coffee-maker') return Promise.resolve(mockProductEntry);
+        if (collection === 'settings') return Promise.resolve(mockSettingsEntry);
+        return Promise.resolve(null);
+      });
+
+      const result = await generateBlogPostSchemaData(
+        {
+          title: 'Chemex Review',
+          description: 'Our verdict',
+          pubDate: new Date('2024-01-15'),
+          author: 'john-doe',
+          category: 'tech',
+          tags: [],
+          status: 'published',
+          review: { product: 'chemex-coffee-maker', rating: 4 },
+        },
+        'https://testblog.com/blog/chemex-review',
+        'Article'
+      );
+
+      expect(result).toMatchObject({
+        '@graph': [
+          { '@type': 'Article' },
+          {
+            '@type': 'Review',
+            itemReviewed: { name: 'Chemex Pour-Over Coffee Maker' },
+            reviewRating: { ratingValue: 4 },
+          },
+        ],
+      });
+    });
+
+    it('should generate ranked ItemList schema with nested Product nodes', () => {
+      const result = generateItemListSchema('Best Brewers', [mockProduct, { ...mockProduct, name: 'Hario V60' }]);
+
+      expect(result).toMatchObject({
+        '@type': 'ItemList',
+        numberOfItems: 2,
+        itemListElement: [
+          { position: 1 },
+          { position: 2, item: { '@type': 'Product', name: 'Hario V60' } },
+        ],
+      });
+      expect(result).not.toHaveProperty(['itemListElement', 1, 'item', '@context']);
+    });
+
+    it('should merge schemas into one @graph', () => {
+      const graph = generateSchemaGraph([
+        generateProductSchema(mockProduct),
+        null,
+        { '@context': 'https://schema.org', '@graph': [{ '@type': 'Thing', name: 'nested' }] },
+      ]);
+
+      expect(graph['@context']).toBe('https://schema.org');
+      expect(graph['@graph']).toHaveLength(2);
+      expect(graph).not.toHaveProperty(['@graph', 0, '@context']);
+      expect(graph).toHaveProperty(['@graph', 1, 'name'], 'nested');
+    });
+
+    it('should merge content block schemas into the post @graph', async () => {
+      const mockComparisonEntry = {
+        id: 'pour-over',
+        data: { title: 'Pour-Over Showdown', products: [{ id: 'chemex-coffee-maker', collection: 'affiliateProducts' }], active: true },
+      };
+      mockGetEntry.mockImplementation((collection, id) => {
+        if (collection === 'authors' && id === 'john-doe') return Promise.resolve(mockAuthorEntry);
+        if (collection === 'affiliateProducts' && id === 'chemex-coffee-maker') return Promise.resolve(mockProductEntry);
+        if (collection === 'affiliateComparisons' && id === 'pour-over') return Promise.resolve(mockComparisonEntry);
+        if (collection === 'affiliateCategories') return Promise.resolve({ id: 'brewers', data: { name: 'Brewers' } });
+        if (collection === 'settings') return Promise.resolve(mockSettingsEntry);
+        return Promise.resolve(null);
+      });
+      mockGetCollection.mockResolvedValue([{ ...mockProductEntry, collection: 'affiliateProducts' }]);
+
+      const result = await generateBlogPostSchemaData(
+        {
+          title: 'Best Brewers',
+          description: 'Our favourite brewers',
+          pubDate: new Date('2024-01-15'),
+          author: 'john-doe',
+          category: 'tech',
+          tags: [],
+          status: 'published',
+        },
+        'https://testblog.com/blog/brewers',
+        'Article',
+        '<ProductBlock id="chemex-coffee-maker" />\n<ComparisonBlock id="pour-over" />\n<CategoryBlock category="brewers" limit={2} />'
+      );
+
+      expect(result).toMatchObject({
+        '@graph': [
+          { '@type': 'Article' },
+          { '@type': 'Product' },
+          { '@type': 'ItemList', name: 'Pour-Over Showdown' },
+          {
+            '@type': 'ItemList',
+            name: 'Best Brewers Products',
+            itemListElement: [{ item: { name: 'Chemex Pour-Over Coffee Maker' } }],
+          },
+        ],
+      });
+    });
+
+    it('should find content blocks and their props', () => {
+      expect(findContentBlocks('<ProductBlock3 id="chemex" />\n<CategoryBlock category="brewers" limit={3} title="Top picks" />')).toEqual([
+        { block: 'ProductBlock3', props: { id: 'chemex' } },
+        { block: 'CategoryBlock', props: { category: 'brewers', limit: '3', title: 'Top picks' } },
+      ]);
+    });
+  });
+
+  // ==========================================
+  // HOWTO SCHEMA TESTS
+  // ==========================================
+
+  describe('HowTo parsing and schema', () => {
+    const headingGuide = [
+      '## Intro',
+      'Some text.',
+      '',
+      '## How to Brew Pour-Over Coffee',
+      '',
+      'A clean cup in four steps.',
+      '',
+      '**Total time:** 1 hour 5 minutes',
+      'Tools: Chemex, [Gooseneck kettle](/go/kettle)',
+      'Supplies:',
+      '- 30g coffee',
+      '- 500ml water',
+      '',
+      '### Step 1: Heat the water',
+      'Bring water to 94°C.',
+      '![Kettle on the stove](/images/kettle.jpg)',
+      '',
+      '### Step 2: Bloom the grounds',
+      'Pour 60ml and wait 30 seconds.',
+      '',
+      '## Verdict',
+      '### Step 3: Not part of the guide',
+      'Ignored.',
+    ].join('\n');
+
+    it('should parse heading steps with images, time, tools and supplies', () => {
+      const result = parseHowToFromContent(headingGuide)!;
+
+      expect(result.title).toBe('How to Brew Pour-Over Coffee');
+      expect(result.description).toBe('A clean cup in four steps.');
+      expect(result.totalTime).toBe('PT1H5M');
+      expect(result.tools).toEqual(['Chemex', 'Gooseneck kettle']);
+      expect(result.supplies).toEqual(['30g coffee', '500ml water']);
+      expect(result.steps).toEqual([
+        { name: 'Heat the water', text: 'Bring water to 94°C.', image: '/images/kettle.jpg' },
+        { name: 'Bloom the grounds', text: 'Pour 60ml and wait 30 seconds.' },
+      ]);
+      expect(validateHowToData(result)).toBe(true);
+    });
+
+    it('should parse numbered list steps', () => {
+      const result = parseHowToFromContent([
+        '### How-to: connect your CRM',
+        '1. **Import contacts** - Clean the data first',
+        '2. **Set up the pipeline**: Customize the stages',
+        '3. Invite your team',
+      ].join('\n'))!;
+
+      expect(result.steps.map(step => step.name)).toEqual(['Import contacts', 'Set up the pipeline', 'Invite your team']);
+      expect(result.steps[1].text).toBe('Customize the stages');
+    });
+
+    it('should return null without a how-to section or steps', () => {
+      expect(parseHowToFromContent('## Getting Started\n1. **Step** - text')).toBeNull();
+      expect(parseHowToFromContent('## How to choose\nJust pick one.')).toBeNull();
+      expect(validateHowToData({ title: 'How to', tools: [], supplies: [], steps: [{ name: 'a', text: 'b' }] })).toBe(false);
+    });
+
+    it('should convert durations to ISO 8601', () => {
+      expect(parseDuration('45 min')).toBe('PT45M');
+      expect(parseDuration('2 days 3 hours')).toBe('P2DT3H');
+      expect(parseDuration('PT20M')).toBe('PT20M');
+      expect(parseDuration('a while')).toBeUndefined();
+    });
+
+    it('should generate HowTo schema with positioned steps', () => {
+      const result = generateHowToSchema(parseHowToFromContent(headingGuide)!)!;
+
+      expect(result['@type']).toBe('HowTo');
+      expect(result.totalTime).toBe('PT1H5M');
+      expect(result.tool).toEqual([
+        { '@type': 'HowToTool', name: 'Chemex' },
+        { '@type': 'HowToTool', name: 'Gooseneck kettle' },
+      ]);
+      expect(result.supply).toHaveLength(2);
+      expect(result.step[0]).toEqual({
+        '@type': 'HowToStep',
+        position: 1,
+        name: 'Heat the water',
+        text: 'Bring water to 94°C.',
+        image: '/images/kettle.jpg',
+      });
+    });
+
+    it('should add HowTo schema to the post @graph', async () => {
+      mockGetEntry.mockImplementation((collection) => {
+        if (collection === 'authors') return Promise.resolve(mockAuthorEntry);
+        if (collection === 'settings') return Promise.resolve(mockSettingsEntry);
+        return Promise.resolve(null);
+      });
+
+      const result = await generateBlogPostSchemaData(
+        {
+          title: 'Pour-Over Guide',
+          description: 'Step by step',
+          pubDate: new Date('2024-01-15'),
+          author: 'john-doe',
+          category: 'tech',
+          tags: [],
+          status: 'published',
+        },
+        'https://testblog.com/blog/pour-over-guide',
+        'Article',
+        headingGuide
+      );
+
+      expect(result).toMatchObject({ '@graph': [{ '@type': 'Article' }, { '@type': 'HowTo' }] });
+    });
+  });
+
+  // ==========================================
+  // OPEN GRAPH IMAGE TESTS
+  // ==========================================
+
+  describe('Generated Open Graph images', () => {
+    it('should map page paths to card routes', () => {
+      expect(getOgImageParam('/')).toBe('index');
+      expect(getOgImageParam('/es/blog/pour-over/')).toBe('es/blog/pour-over');
+      expect(getOgImageUrl('https://testblog.com/', '/categories/brewing')).toBe(
+        'https://testblog.com/og/categories/brewing.png'
+      );
+    });
+
+    it('should resolve theme colour variables', () => {
+      expect(resolveThemeColor('var(--color-secondary)', defaultTheme)).toBe(defaultTheme.colors.secondary);
+      expect(resolveThemeColor('var(--text-muted)', defaultTheme)).toBe(defaultTheme.colors.textMuted);
+      expect(resolveThemeColor('#ff0000', defaultTheme)).toBe('#ff0000');
+      expect(resolveThemeColor(undefined, defaultTheme)).toBe(defaultTheme.colors.primary);
+    });
+
+    it('should wrap long titles and ellipse past the line limit', () => {
+      expect(wrapTitle('Short title')).toEqual(['Short title']);
+
+      const lines = wrapTitle('one two three four five six seven eight', 10, 2);
+      expect(lines).toHaveLength(2);
+      expect(lines[1].endsWith('…')).toBe(true);
+    });
+
+    it('should escape card text and show the label and author', () => {
+      const svg = renderOgCardSvg(
+        {
+          title: 'Milk & <Foam>',
+          label: 'Brewing',
+          author: { name: 'John Doe' },
+          siteName: 'Test Blog',
+        },
+        defaultTheme
+      );
+
+      expect(svg).toContain('Milk &amp; &lt;Foam&gt;');
+      expect(svg).toContain('BREWING');
+      expect(svg).toContain('>JD</text>');
+      expect(svg).toContain('Test Blog');
+    });
+
+    it('should rasterise the card to a 1200x630 PNG', async () => {
+      const png = await renderOgImage({ title: 'Pour-Over Guide', siteName: 'Test Blog' }, defaultTheme);
+      const metadata = await sharp(png).metadata();
+
+      expect(metadata.format).toBe('png');
+      expect(metadata.width).toBe(OG_IMAGE_SIZE.width);
+      expect(metadata.height).toBe(OG_IMAGE_SIZE.height);
+    });
+  });
+
   // ==========================================
   // INTEGRATION TESTS
   // ==========================================
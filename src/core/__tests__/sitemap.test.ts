@@ -0,0 +1,63 @@
+// src/core/__tests__/sitemap.test.ts
+// Unit tests for the post and Google News sitemaps
+
+import { describe, it, expect } from 'vitest';
+import {
+  isWithinNewsWindow,
+  renderSitemap,
+  renderNewsSitemap,
+  type NewsSitemapEntry,
+} from '../sitemap/sitemap';
+
+const now = new Date('2024-03-10T12:00:00Z');
+
+describe('Sitemaps', () => {
+  describe('renderSitemap', () => {
+    it('should render lastmod, hreflang alternates and escaped image entries', () => {
+      const xml = renderSitemap([
+        {
+          url: 'https://testblog.com/blog/pour-over',
+          lastmod: new Date('2024-03-01T00:00:00Z'),
+          images: ['https://images.example.com/v60.jpg?w=800&fit=crop'],
+          alternates: [
+            { hreflang: 'en-US', href: 'https://testblog.com/blog/pour-over' },
+            { hreflang: 'es-ES', href: 'https://testblog.com/es/blog/pour-over' },
+          ],
+        },
+        { url: 'https://testblog.com/blog/espresso', images: [], alternates: [] },
+      ]);
+
+      expect(xml).toContain('xmlns:image="http://www.google.com/schemas/sitemap-image/1.1"');
+      expect(xml).toContain('<lastmod>2024-03-01T00:00:00.000Z</lastmod>');
+      expect(xml).toContain('<image:image><image:loc>https://images.example.com/v60.jpg?w=800&amp;fit=crop</image:loc></image:image>');
+      expect(xml).toContain('<xhtml:link rel="alternate" hreflang="es-ES" href="https://testblog.com/es/blog/pour-over"/>');
+      expect(xml).toContain('<url><loc>https://testblog.com/blog/espresso</loc></url>');
+    });
+  });
+
+  describe('renderNewsSitemap', () => {
+    const entries: NewsSitemapEntry[] = [
+      { url: 'https://testblog.com/blog/today', title: 'Beans & Brews', published: new Date('2024-03-10T08:00:00Z'), language: 'en' },
+      { url: 'https://testblog.com/es/blog/ayer', title: 'Ayer', published: new Date('2024-03-09T00:00:00Z'), language: 'es' },
+      { url: 'https://testblog.com/blog/old', title: 'Old', published: new Date('2024-03-01T00:00:00Z'), language: 'en' },
+    ];
+
+    it('should only include posts from the last 48 hours', () => {
+      expect(isWithinNewsWindow(new Date('2024-03-08T12:00:00Z'), now)).toBe(true);
+      expect(isWithinNewsWindow(new Date('2024-03-08T11:59:59Z'), now)).toBe(false);
+      expect(isWithinNewsWindow(new Date('2024-03-11T00:00:00Z'), now)).toBe(false);
+
+      const xml = renderNewsSitemap(entries, 'Test Blog', now);
+      expect(xml.match(/<url>/g)).toHaveLength(2);
+      expect(xml).not.toContain('/blog/old');
+    });
+
+    it('should render the publication, language and escaped title', () => {
+      const xml = renderNewsSitemap(entries, 'Test Blog', now);
+
+      expect(xml).toContain('<news:publication><news:name>Test Blog</news:name><news:language>es</news:language></news:publication>');
+      expect(xml).toContain('<news:publication_date>2024-03-10T08:00:00.000Z</news:publication_date>');
+      expect(xml).toContain('<news:title>Beans &amp; Brews</news:title>');
+    });
+  });
+});
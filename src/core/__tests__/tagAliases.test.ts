@@ -0,0 +1,103 @@
+// src/core/__tests__/tagAliases.test.ts
+// Unit tests for tag alias resolution, alias redirects and tag merging
+
+import { describe, it, expect } from 'vitest';
+import { readFileSync } from 'node:fs';
+import {
+  getPostTagIds,
+  getTagAliasMap,
+  getTagRedirects,
+  mergeTagData,
+  replaceTagId,
+  resolveTagId,
+  serializeTagsFile,
+} from '../../utils/tagAliases';
+
+const tag = (id: string, aliases: string[] = [], slug: string = id) => ({ id, data: { slug, aliases } });
+
+const tags = [
+  tag('seo', ['search-engine-optimization', 'seo-tips']),
+  tag('email-marketing', ['newsletters', 'seo-tips'], 'email'),
+  // An alias that is a real tag ID never resolves away from it
+  tag('reviews', ['seo']),
+];
+
+describe('Tag aliases', () => {
+  describe('resolution', () => {
+    it('should map aliases to their canonical tag, first claim winning', () => {
+      expect(Object.fromEntries(getTagAliasMap(tags))).toEqual({
+        'search-engine-optimization': 'seo',
+        'seo-tips': 'seo',
+        'newsletters': 'email-marketing',
+      });
+      expect(resolveTagId(tags, 'newsletters')).toBe('email-marketing');
+      expect(resolveTagId(tags, 'seo')).toBe('seo');
+      expect(resolveTagId(tags, 'unknown')).toBe('unknown');
+    });
+
+    it('should resolve a post\'s tags and drop duplicates', () => {
+      expect(getPostTagIds(tags, [{ id: 'seo-tips' }, 'seo', { id: 'newsletters' }])).toEqual(['seo', 'email-marketing']);
+      expect(getPostTagIds(tags)).toEqual([]);
+    });
+  });
+
+  describe('getTagRedirects', () => {
+    it('should redirect alias URLs to the canonical slug, skipping aliases that are live slugs', () => {
+      const redirects = getTagRedirects([...tags, tag('newsletter-tips', [], 'newsletters')]);
+
+      expect(redirects).toEqual([
+        { source: '/tags/search-engine-optimization', destination: '/tags/seo', status: 301 },
+        { source: '/tags/search-engine-optimization/*', destination: '/tags/seo/:splat', status: 301 },
+        { source: '/tags/seo-tips', destination: '/tags/seo', status: 301 },
+        { source: '/tags/seo-tips/*', destination: '/tags/seo/:splat', status: 301 },
+      ]);
+    });
+  });
+
+  describe('merging', () => {
+    it('should retag posts without duplicating the target', () => {
+      expect(replaceTagId(['seo', 'newsletters', 'reviews'], 'newsletters', 'email-marketing'))
+        .toEqual(['seo', 'email-marketing', 'reviews']);
+      expect(replaceTagId(['email-marketing', 'newsletters'], 'newsletters', 'email-marketing')).toEqual(['email-marketing']);
+    });
+
+    it('should remove the merged tag and keep its ID, slug and aliases as aliases of the target', () => {
+      const items = [
+        { id: 'seo', name: 'SEO', slug: 'seo', aliases: ['seo-tips'] },
+        { id: 'search', name: 'Search', slug: 'search-engines', aliases: ['serp', 'seo'] },
+      ];
+
+      expect(mergeTagData(items, 'search', 'seo')).toEqual([
+        { id: 'seo', name: 'SEO', slug: 'seo', aliases: ['seo-tips', 'search', 'search-engines', 'serp'] },
+      ]);
+      // Tags that only exist in post frontmatter still become aliases
+      expect(mergeTagData(items, 'old-seo', 'seo')[0].aliases).toEqual(['seo-tips', 'old-seo']);
+    });
+  });
+
+  describe('serializeTagsFile', () => {
+    it('should keep scalar arrays on one line and nest objects like the hand-written file', () => {
+      expect(serializeTagsFile([
+        { id: 'seo', aliases: ['seo-tips', 'say "seo"'], seo: { keywords: ['seo'], priority: [1, -0.5, true, null] }, related: [] },
+      ])).toBe([
+        '[',
+        '  {',
+        '    "id": "seo",',
+        '    "aliases": ["seo-tips", "say \\"seo\\""],',
+        '    "seo": {',
+        '      "keywords": ["seo"],',
+        '      "priority": [1, -0.5, true, null]',
+        '    },',
+        '    "related": []',
+        '  }',
+        ']',
+      ].join('\n'));
+    });
+
+    it('should write tags.json back byte for byte', () => {
+      const source = readFileSync('src/content/data/tags.json', 'utf-8');
+
+      expect(serializeTagsFile(JSON.parse(source))).toBe(source);
+    });
+  });
+});
@@ -0,0 +1,178 @@
+// src/core/__tests__/tagsApi.test.ts
+// Unit tests for the tags API maintenance handler (POST action "merge")
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import type { APIContext, APIRoute } from 'astro';
+
+vi.mock('astro:content', () => ({
+  getCollection: vi.fn(),
+}));
+
+vi.mock('node:fs', async (importOriginal) => {
+  const actual = await importOriginal<typeof import('node:fs')>();
+  return {
+    ...actual,
+    promises: { ...actual.promises, readFile: vi.fn(), writeFile: vi.fn() },
+  };
+});
+
+vi.mock('../../utils/postFiles', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('../../utils/postFiles')>()),
+  listPostFiles: vi.fn(),
+  rewritePostFrontmatter: vi.fn(),
+}));
+
+import { promises as fs } from 'node:fs';
+import { listPostFiles, rewritePostFrontmatter, type PostFile } from '../../utils/postFiles';
+import { POST } from '../../pages/api/tags.json';
+
+const mockReadFile = vi.mocked(fs.readFile);
+const mockWriteFile = vi.mocked(fs.writeFile);
+const mockListPostFiles = vi.mocked(listPostFiles);
+const mockRewritePostFrontmatter = vi.mocked(rewritePostFrontmatter);
+
+const TAGS_SOURCE = [
+  '[',
+  '  {',
+  '    "id": "seo",',
+  '    "name": "SEO",',
+  '    "slug": "seo",',
+  '    "aliases": ["seo-tips"]',
+  '  },',
+  '  {',
+  '    "id": "search",',
+  '    "name": "Search",',
+  '    "slug": "search-engines",',
+  '    "seo": {',
+  '      "keywords": ["search", "serp"]',
+  '    }',
+  '  },',
+  '  {',
+  '    "id": "reviews",',
+  '    "name": "Reviews",',
+  '    "slug": "reviews"',
+  '  }',
+  ']',
+].join('\n');
+
+const postFile = (slug: string, tags: string[]): PostFile => ({
+  slug,
+  path: `src/content/blog/${slug}.mdx`,
+  frontmatter: { title: slug, tags },
+  body: '\n# Body\n',
+});
+
+const POST_FILES = [
+  postFile('es/busqueda', ['search']),
+  postFile('seo-basics', ['seo', 'search', 'reviews']),
+  postFile('tool-review', ['reviews']),
+  postFile('legacy', ['old-search']),
+];
+
+interface ApiBody {
+  success: boolean;
+  code?: string;
+  data: Record<string, unknown>;
+}
+
+const call = async (handler: APIRoute, payload: unknown) => {
+  const url = new URL('/api/tags.json', 'https://example.com');
+  const init = {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: typeof payload === 'string' ? payload : JSON.stringify(payload),
+  };
+  const response = await handler({ request: new Request(url, init), url } as unknown as APIContext) as Response;
+  return { status: response.status, body: await response.json() as ApiBody };
+};
+
+describe('Tags API merge', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    mockReadFile.mockResolvedValue(TAGS_SOURCE);
+    mockListPostFiles.mockResolvedValue(POST_FILES);
+  });
+
+  it('should retag posts and turn the merged tag into aliases of the target', async () => {
+    const { status, body } = await call(POST, { action: 'merge', from: 'search', into: 'seo' });
+
+    expect(status).toBe(200);
+    expect(body.data).toEqual({
+      from: 'search',
+      into: 'seo',
+      dryRun: false,
+      changedFiles: ['src/content/blog/es/busqueda.mdx', 'src/content/blog/seo-basics.mdx'],
+      tagsFile: { path: 'src/content/data/tags.json', removed: true, aliases: ['seo-tips', 'search', 'search-engines'] },
+    });
+    expect(mockRewritePostFrontmatter.mock.calls).toEqual([
+      ['src/content/blog/es/busqueda.mdx', { title: 'es/busqueda', tags: ['seo'] }],
+      ['src/content/blog/seo-basics.mdx', { title: 'seo-basics', tags: ['seo', 'reviews'] }],
+    ]);
+  });
+
+  it('should write tags.json in its hand-written format, touching only the merged tags', async () => {
+    await call(POST, { action: 'merge', from: 'search', into: 'seo' });
+
+    expect(mockWriteFile).toHaveBeenCalledOnce();
+    expect(mockWriteFile).toHaveBeenCalledWith('src/content/data/tags.json', [
+      '[',
+      '  {',
+      '    "id": "seo",',
+      '    "name": "SEO",',
+      '    "slug": "seo",',
+      '    "aliases": ["seo-tips", "search", "search-engines"]',
+      '  },',
+      '  {',
+      '    "id": "reviews",',
+      '    "name": "Reviews",',
+      '    "slug": "reviews"',
+      '  }',
+      ']',
+    ].join('\n'), 'utf-8');
+  });
+
+  it('should report the same changes on a dry run without writing anything', async () => {
+    const { status, body } = await call(POST, { action: 'merge', from: 'search', into: 'seo', dryRun: true });
+
+    expect(status).toBe(200);
+    expect(body.data.dryRun).toBe(true);
+    expect(body.data.changedFiles).toEqual(['src/content/blog/es/busqueda.mdx', 'src/content/blog/seo-basics.mdx']);
+    expect(mockRewritePostFrontmatter).not.toHaveBeenCalled();
+    expect(mockWriteFile).not.toHaveBeenCalled();
+  });
+
+  it('should merge tags that only exist in post frontmatter', async () => {
+    const { status, body } = await call(POST, { action: 'merge', from: 'old-search', into: 'seo' });
+
+    expect(status).toBe(200);
+    expect(body.data.changedFiles).toEqual(['src/content/blog/legacy.mdx']);
+    expect(body.data.tagsFile).toEqual({ path: 'src/content/data/tags.json', removed: false, aliases: ['seo-tips', 'old-search'] });
+  });
+
+  it('should validate the body, action and tag IDs', async () => {
+    expect((await call(POST, 'not json')).body.code).toBe('INVALID_JSON');
+    expect((await call(POST, ['merge'])).body.code).toBe('INVALID_JSON');
+    expect((await call(POST, { action: 'rename', from: 'search', into: 'seo' })).body.code).toBe('UNKNOWN_ACTION');
+
+    for (const payload of [{ from: 'search' }, { from: '', into: 'seo' }, { from: 'search', into: 7 }, { from: 'seo', into: 'seo' }]) {
+      const { status, body } = await call(POST, { action: 'merge', ...payload });
+      expect(status).toBe(400);
+      expect(body.code).toBe('VALIDATION_ERROR');
+    }
+    expect(mockReadFile).not.toHaveBeenCalled();
+  });
+
+  it('should report a missing target or source tag', async () => {
+    const missingInto = await call(POST, { action: 'merge', from: 'search', into: 'ghost' });
+    expect(missingInto.status).toBe(404);
+    expect(missingInto.body.code).toBe('TAG_NOT_FOUND');
+
+    const missingFrom = await call(POST, { action: 'merge', from: 'ghost', into: 'seo' });
+    expect(missingFrom.status).toBe(404);
+    expect(missingFrom.body.code).toBe('TAG_NOT_FOUND');
+
+    expect(mockRewritePostFrontmatter).not.toHaveBeenCalled();
+    expect(mockWriteFile).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,441 @@
+// src/core/affiliate/analytics.ts
+// CLICK & CONVERSION ANALYTICS - REPORT SHAPING, POSTBACK PARSING - UI INDEPENDENT
+
+import { DEFAULT_CURRENCY } from './pricing';
+
+// ==========================================
+// TYPES & INTERFACES
+// ==========================================
+
+export type AnalyticsDimension = 'product' | 'post' | 'category' | 'variant';
+export type AnalyticsInterval = 'day' | 'week';
+export type AnalyticsSortField = 'clicks' | 'conversions' | 'earnings' | 'epc';
+export type ConversionStatus = 'pending' | 'approved' | 'rejected';
+
+export interface AnalyticsQuery {
+  dimension: AnalyticsDimension;
+  from: Date;
+  to: Date;
+  interval: AnalyticsInterval;
+  currency: string;
+  sortBy: AnalyticsSortField;
+  limit: number;
+  filters: Partial<Record<AnalyticsDimension, string>>;
+}
+
+/**
+ * Aggregated rows as returned by the database, one per (key, bucket)
+ */
+export interface ClickCountRow {
+  key: string | null;
+  bucket: string;
+  clicks: number;
+}
+
+export interface ConversionCountRow {
+  key: string | null;
+  bucket: string;
+  conversions: number;
+  earnings: number;
+}
+
+export interface AnalyticsMetrics {
+  clicks: number;
+  conversions: number;
+  earnings: number;
+  epc: number;
+  conversionRate: number;
+}
+
+export interface AnalyticsBucket extends AnalyticsMetrics {
+  bucket: string;
+}
+
+export interface AnalyticsRow extends AnalyticsMetrics {
+  key: string;
+  series: AnalyticsBucket[];
+}
+
+export interface AnalyticsReport {
+  dimension: AnalyticsDimension;
+  interval: AnalyticsInterval;
+  from: string;
+  to: string;
+  currency: string;
+  totals: AnalyticsMetrics;
+  series: AnalyticsBucket[];
+  rows: AnalyticsRow[];
+  totalRows: number;
+}
+
+export interface ConversionPostback {
+  clickId: string;
+  network: string;
+  transactionId: string;
+  status: ConversionStatus;
+  commission: number;
+  saleAmount?: number;
+  currency: string;
+  convertedAt: Date;
+}
+
+export type ParseResult<T> =
+  | { success: true; value: T }
+  | { success: false; error: string; code: string };
+
+// ==========================================
+// CONFIGURATION
+// ==========================================
+
+/**
+ * Report routes (/api/analytics/<name>.json) and the dimension each groups by
+ */
+export const ANALYTICS_DIMENSIONS: Record<string, AnalyticsDimension> = {
+  products: 'product',
+  posts: 'post',
+  categories: 'category',
+  variants: 'variant',
+};
+
+export const DEFAULT_RANGE_DAYS = 30;
+export const MAX_RANGE_DAYS = 366;
+export const DEFAULT_ROW_LIMIT = 50;
+export const MAX_ROW_LIMIT = 500;
+
+/**
+ * Label for clicks without a value for the dimension (e.g. no post slug)
+ */
+export const UNATTRIBUTED_KEY = '(none)';
+
+const SORT_FIELDS: AnalyticsSortField[] = ['clicks', 'conversions', 'earnings', 'epc'];
+
+/**
+ * Status values used by common networks, mapped to ours
+ */
+const STATUS_ALIASES: Record<string, ConversionStatus> = {
+  pending: 'pending',
+  open: 'pending',
+  new: 'pending',
+  approved: 'approved',
+  confirmed: 'approved',
+  paid: 'approved',
+  locked: 'approved',
+  rejected: 'rejected',
+  declined: 'rejected',
+  reversed: 'rejected',
+  cancelled: 'rejected',
+  canceled: 'rejected',
+  void: 'rejected',
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// ==========================================
+// BUCKETS
+// ==========================================
+
+/**
+ * Bucket a date falls in (UTC): the day, or the Monday starting its week
+ * Must match the SQL bucketing in analyticsQueries.ts.
+ */
+export function getBucketKey(date: Date, interval: AnalyticsInterval): string {
+  const day = new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+
+  if (interval === 'week') {
+    const daysSinceMonday = (day.getUTCDay() + 6) % 7;
+    day.setUTCDate(day.getUTCDate() - daysSinceMonday);
+  }
+
+  return day.toISOString().slice(0, 10);
+}
+
+/**
+ * Every bucket between two dates, so empty days/weeks show up as zeros
+ */
+export function listBuckets(from: Date, to: Date, interval: AnalyticsInterval): string[] {
+  const buckets: string[] = [];
+  const step = interval === 'week' ? 7 * DAY_MS : DAY_MS;
+  let cursor = new Date(`${getBucketKey(from, interval)}T00:00:00.000Z`);
+
+  while (cursor.valueOf() <= to.valueOf()) {
+    buckets.push(getBucketKey(cursor, interval));
+    cursor = new Date(cursor.valueOf() + step);
+  }
+
+  return buckets;
+}
+
+// ==========================================
+// METRICS
+// ==========================================
+
+/**
+ * Earnings per click, rounded to the cent
+ */
+export function calculateEpc(earnings: number, clicks: number): number {
+  return clicks > 0 ? Math.round((earnings / clicks) * 100) / 100 : 0;
+}
+
+function toMetrics(clicks: number, conversions: number, earnings: number): AnalyticsMetrics {
+  const roundedEarnings = Math.round(earnings * 100) / 100;
+
+  return {
+    clicks,
+    conversions,
+    earnings: roundedEarnings,
+    epc: calculateEpc(roundedEarnings, clicks),
+    conversionRate: clicks > 0 ? Math.round((conversions / clicks) * 10000) / 100 : 0,
+  };
+}
+
+interface Tally {
+  clicks: number;
+  conversions: number;
+  earnings: number;
+}
+
+function emptySeries(buckets: string[]): Map<string, Tally> {
+  return new Map(buckets.map(bucket => [bucket, { clicks: 0, conversions: 0, earnings: 0 }]));
+}
+
+function toSeries(tallies: Map<string, Tally>): AnalyticsBucket[] {
+  return Array.from(tallies, ([bucket, tally]) => ({
+    bucket,
+    ...toMetrics(tally.clicks, tally.conversions, tally.earnings),
+  }));
+}
+
+/**
+ * Merge aggregated click and conversion rows into a report
+ * Conversions are attributed to the bucket of the click that led to them,
+ * so EPC compares earnings with the clicks that produced them.
+ */
+export function buildAnalyticsReport(
+  query: AnalyticsQuery,
+  clickRows: ClickCountRow[],
+  conversionRows: ConversionCountRow[]
+): AnalyticsReport {
+  const buckets = listBuckets(query.from, query.to, query.interval);
+  const totalSeries = emptySeries(buckets);
+  const seriesByKey = new Map<string, Map<string, Tally>>();
+
+  const getTally = (key: string | null, bucket: string): Tally[] => {
+    const rowKey = key || UNATTRIBUTED_KEY;
+    if (!seriesByKey.has(rowKey)) {
+      seriesByKey.set(rowKey, emptySeries(buckets));
+    }
+
+    const rowSeries = seriesByKey.get(rowKey)!;
+    if (!rowSeries.has(bucket)) {
+      rowSeries.set(bucket, { clicks: 0, conversions: 0, earnings: 0 });
+    }
+    if (!totalSeries.has(bucket)) {
+      totalSeries.set(bucket, { clicks: 0, conversions: 0, earnings: 0 });
+    }
+
+    return [rowSeries.get(bucket)!, totalSeries.get(bucket)!];
+  };
+
+  for (const row of clickRows) {
+    for (const tally of getTally(row.key, row.bucket)) {
+      tally.clicks += Number(row.clicks);
+    }
+  }
+
+  for (const row of conversionRows) {
+    for (const tally of getTally(row.key, row.bucket)) {
+      tally.conversions += Number(row.conversions);
+      tally.earnings += Number(row.earnings);
+    }
+  }
+
+  const sum = (series: Map<string, Tally>): AnalyticsMetrics => {
+    const tallies = Array.from(series.values());
+    return toMetrics(
+      tallies.reduce((total, tally) => total + tally.clicks, 0),
+      tallies.reduce((total, tally) => total + tally.conversions, 0),
+      tallies.reduce((total, tally) => total + tally.earnings, 0)
+    );
+  };
+
+  const rows: AnalyticsRow[] = Array.from(seriesByKey, ([key, series]) => ({
+    key,
+    ...sum(series),
+    series: toSeries(series),
+  })).sort((a, b) => b[query.sortBy] - a[query.sortBy] || b.clicks - a.clicks || a.key.localeCompare(b.key));
+
+  return {
+    dimension: query.dimension,
+    interval: query.interval,
+    from: query.from.toISOString(),
+    to: query.to.toISOString(),
+    currency: query.currency,
+    totals: sum(totalSeries),
+    series: toSeries(totalSeries),
+    rows: rows.slice(0, query.limit),
+    totalRows: rows.length,
+  };
+}
+
+// ==========================================
+// QUERY PARSING
+// ==========================================
+
+/**
+ * Parse a date parameter: an ISO date/datetime or a unix timestamp in seconds
+ */
+export function parseDateParam(value: string | null): Date | null {
+  if (!value) return null;
+
+  const date = /^\d{9,10}$/.test(value) ? new Date(Number(value) * 1000) : new Date(value);
+  return Number.isNaN(date.valueOf()) ? null : date;
+}
+
+/**
+ * Read an analytics report query from the request parameters
+ * Defaults to the last DEFAULT_RANGE_DAYS days, bucketed by day.
+ * A date-only "to" (e.g. 2024-01-31) includes that whole day.
+ */
+export function parseAnalyticsQuery(
+  dimension: AnalyticsDimension,
+  searchParams: URLSearchParams,
+  now: Date = new Date()
+): ParseResult<AnalyticsQuery> {
+  const fromParam = searchParams.get('from');
+  const toParam = searchParams.get('to');
+
+  let to = toParam ? parseDateParam(toParam) : now;
+  if (to && toParam && /^\d{4}-\d{2}-\d{2}$/.test(toParam)) {
+    to = new Date(to.valueOf() + DAY_MS - 1);
+  }
+  const from = fromParam ? parseDateParam(fromParam) : to && new Date(to.valueOf() - DEFAULT_RANGE_DAYS * DAY_MS);
+
+  if (!from || !to) {
+    return {
+      success: false,
+      error: 'Parameters "from" and "to" must be valid dates (e.g. 2024-01-31)',
+      code: 'INVALID_DATE',
+    };
+  }
+
+  if (from.valueOf() > to.valueOf() || to.valueOf() - from.valueOf() > MAX_RANGE_DAYS * DAY_MS) {
+    return {
+      success: false,
+      error: `Date range must start before it ends and span at most ${MAX_RANGE_DAYS} days`,
+      code: 'INVALID_RANGE',
+    };
+  }
+
+  const interval = searchParams.get('interval') || 'day';
+  if (interval !== 'day' && interval !== 'week') {
+    return { success: false, error: 'Parameter "interval" must be "day" or "week"', code: 'INVALID_INTERVAL' };
+  }
+
+  const sortBy = (searchParams.get('sortBy') || 'clicks') as AnalyticsSortField;
+  if (!SORT_FIELDS.includes(sortBy)) {
+    return {
+      success: false,
+      error: `Parameter "sortBy" must be one of: ${SORT_FIELDS.join(', ')}`,
+      code: 'INVALID_SORT',
+    };
+  }
+
+  const limit = Math.min(
+    Math.max(1, Number.parseInt(searchParams.get('limit') || String(DEFAULT_ROW_LIMIT), 10) || DEFAULT_ROW_LIMIT),
+    MAX_ROW_LIMIT
+  );
+
+  const filters: AnalyticsQuery['filters'] = {};
+  for (const filter of Object.values(ANALYTICS_DIMENSIONS)) {
+    const value = searchParams.get(filter);
+    if (value) filters[filter] = value;
+  }
+
+  return {
+    success: true,
+    value: {
+      dimension,
+      from,
+      to,
+      interval,
+      currency: (searchParams.get('currency') || DEFAULT_CURRENCY).toUpperCase(),
+      sortBy,
+      limit,
+      filters,
+    },
+  };
+}
+
+// ==========================================
+// POSTBACKS
+// ==========================================
+
+/**
+ * Read the first non-empty value among parameter aliases
+ * Networks name the same field differently (subid, click_id, aff_sub...).
+ */
+function readParam(params: URLSearchParams, names: string[]): string | undefined {
+  for (const name of names) {
+    const value = params.get(name)?.trim();
+    if (value) return value;
+  }
+  return undefined;
+}
+
+/**
+ * Parse a conversion postback from query or form parameters
+ * @param defaultNetwork - used when the postback has no "network" parameter (the API key name)
+ */
+export function parsePostback(
+  params: URLSearchParams,
+  defaultNetwork: string,
+  now: Date = new Date()
+): ParseResult<ConversionPostback> {
+  const clickId = readParam(params, ['click_id', 'clickid', 'subid', 'sub_id', 'aff_sub']);
+  if (!clickId || !/^[\w-]{1,100}$/.test(clickId)) {
+    return { success: false, error: 'Parameter "click_id" is required', code: 'MISSING_CLICK_ID' };
+  }
+
+  const commission = Number.parseFloat(readParam(params, ['commission', 'payout', 'amount']) || '');
+  if (!Number.isFinite(commission) || commission < 0) {
+    return { success: false, error: 'Parameter "commission" must be a non-negative number', code: 'INVALID_AMOUNT' };
+  }
+
+  const saleParam = readParam(params, ['sale_amount', 'order_total', 'revenue']);
+  const saleAmount = saleParam !== undefined ? Number.parseFloat(saleParam) : undefined;
+  if (saleAmount !== undefined && (!Number.isFinite(saleAmount) || saleAmount < 0)) {
+    return { success: false, error: 'Parameter "sale_amount" must be a non-negative number', code: 'INVALID_AMOUNT' };
+  }
+
+  const statusParam = (readParam(params, ['status']) || 'pending').toLowerCase();
+  const status = STATUS_ALIASES[statusParam];
+  if (!status) {
+    return { success: false, error: `Unknown conversion status "${statusParam}"`, code: 'INVALID_STATUS' };
+  }
+
+  const dateParam = readParam(params, ['converted_at', 'timestamp']);
+  const convertedAt = dateParam ? parseDateParam(dateParam) : now;
+  if (!convertedAt) {
+    return { success: false, error: 'Parameter "converted_at" must be a valid date', code: 'INVALID_DATE' };
+  }
+
+  const currency = (readParam(params, ['currency']) || DEFAULT_CURRENCY).toUpperCase();
+  if (!/^[A-Z]{3}$/.test(currency)) {
+    return { success: false, error: 'Parameter "currency" must be a 3-letter currency code', code: 'INVALID_CURRENCY' };
+  }
+
+  return {
+    success: true,
+    value: {
+      clickId,
+      network: readParam(params, ['network']) || defaultNetwork,
+      // Networks that send one postback per click don't always include an order ID
+      transactionId: readParam(params, ['transaction_id', 'txn_id', 'order_id']) || clickId,
+      status,
+      commission,
+      saleAmount,
+      currency,
+      convertedAt,
+    },
+  };
+}
@@ -0,0 +1,112 @@
+// src/core/affiliate/analyticsQueries.ts
+import { and, eq, gte, inArray, lte, sql, type SQL } from 'drizzle-orm';
+import type { Database } from '../../db/client';
+import { affiliateClicks, affiliateConversions } from '../../db/schema';
+import {
+  buildAnalyticsReport,
+  type AnalyticsDimension,
+  type AnalyticsInterval,
+  type AnalyticsQuery,
+  type AnalyticsReport,
+  type ClickCountRow,
+  type ConversionCountRow,
+  type ConversionPostback,
+} from './analytics';
+
+const DIMENSION_COLUMNS = {
+  product: affiliateClicks.productId,
+  post: affiliateClicks.postSlug,
+  category: affiliateClicks.categoryId,
+  variant: affiliateClicks.variant,
+} satisfies Record<AnalyticsDimension, unknown>;
+
+/**
+ * SQL expression for a click's bucket, matching getBucketKey() (UTC days, weeks start Monday)
+ */
+function bucketExpression(interval: AnalyticsInterval): SQL<string> {
+  const clickedAt = sql`${affiliateClicks.clickedAt} / 1000, 'unixepoch'`;
+
+  return interval === 'week'
+    ? sql<string>`date(${clickedAt}, 'weekday 0', '-6 days')`
+    : sql<string>`date(${clickedAt})`;
+}
+
+function clickConditions(query: AnalyticsQuery): SQL | undefined {
+  const conditions: SQL[] = [
+    gte(affiliateClicks.clickedAt, query.from),
+    lte(affiliateClicks.clickedAt, query.to),
+  ];
+
+  for (const [dimension, value] of Object.entries(query.filters)) {
+    conditions.push(eq(DIMENSION_COLUMNS[dimension as AnalyticsDimension], value));
+  }
+
+  return and(...conditions);
+}
+
+/**
+ * Clicks, conversions and EPC grouped by a dimension and bucketed by day or week
+ * Rejected conversions and conversions in other currencies don't count towards earnings.
+ */
+export async function getAnalyticsReport(db: Database, query: AnalyticsQuery): Promise<AnalyticsReport> {
+  const key = DIMENSION_COLUMNS[query.dimension];
+  const bucket = bucketExpression(query.interval);
+  const where = clickConditions(query);
+
+  const [clickRows, conversionRows] = await Promise.all([
+    db
+      .select({ key, bucket, clicks: sql<number>`count(*)` })
+      .from(affiliateClicks)
+      .where(where)
+      .groupBy(key, bucket),
+    db
+      .select({
+        key,
+        bucket,
+        conversions: sql<number>`count(*)`,
+        earnings: sql<number>`coalesce(sum(${affiliateConversions.commission}), 0)`,
+      })
+      .from(affiliateConversions)
+      .innerJoin(affiliateClicks, eq(affiliateConversions.clickId, affiliateClicks.clickId))
+      .where(and(
+        where,
+        inArray(affiliateConversions.status, ['pending', 'approved']),
+        eq(affiliateConversions.currency, query.currency)
+      ))
+      .groupBy(key, bucket),
+  ]);
+
+  return buildAnalyticsReport(query, clickRows as ClickCountRow[], conversionRows as ConversionCountRow[]);
+}
+
+/**
+ * Store a conversion postback, updating the earlier postback for the same transaction
+ * @returns false when the click ID is unknown
+ */
+export async function recordConversion(db: Database, postback: ConversionPostback): Promise<boolean> {
+  const [click] = await db
+    .select({ clickId: affiliateClicks.clickId })
+    .from(affiliateClicks)
+    .where(eq(affiliateClicks.clickId, postback.clickId))
+    .limit(1);
+
+  if (!click) return false;
+
+  const now = new Date();
+
+  await db
+    .insert(affiliateConversions)
+    .values({ ...postback, updatedAt: now })
+    .onConflictDoUpdate({
+      target: [affiliateConversions.network, affiliateConversions.transactionId],
+      set: {
+        status: postback.status,
+        commission: postback.commission,
+        saleAmount: postback.saleAmount,
+        currency: postback.currency,
+        updatedAt: now,
+      },
+    });
+
+  return true;
+}
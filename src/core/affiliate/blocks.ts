@@ -0,0 +1,52 @@
+// src/core/affiliate/blocks.ts
+// MDX PRODUCT, COMPARISON & CATEGORY BLOCK DETECTION - UI INDEPENDENT
+
+// ==========================================
+// TYPES & INTERFACES
+// ==========================================
+
+/**
+ * A product/comparison/category block found in an MDX body, in document order
+ */
+export interface ContentBlock {
+  block: string;
+  props: Record<string, string>;
+}
+
+// ==========================================
+// CONFIGURATION
+// ==========================================
+
+/**
+ * MDX blocks that look up an entry by ID, with the prop and collection they read
+ */
+export const CONTENT_BLOCKS: Record<string, { prop: string; collection: string }> = {
+  ProductBlock: { prop: 'id', collection: 'affiliateProducts' },
+  ProductBlock2: { prop: 'id', collection: 'affiliateProducts' },
+  ProductBlock3: { prop: 'id', collection: 'affiliateProducts' },
+  ProductBlock4: { prop: 'id', collection: 'affiliateProducts' },
+  ProductBlock5: { prop: 'id', collection: 'affiliateProducts' },
+  ProductBlock6: { prop: 'id', collection: 'affiliateProducts' },
+  ProductBlock7: { prop: 'id', collection: 'affiliateProducts' },
+  ComparisonBlock: { prop: 'id', collection: 'affiliateComparisons' },
+  CategoryBlock: { prop: 'category', collection: 'affiliateCategories' },
+};
+
+// ==========================================
+// CONTENT BLOCKS
+// ==========================================
+
+/**
+ * Content blocks used in an MDX body, with their string and {expression} props
+ */
+export function findContentBlocks(body: string): ContentBlock[] {
+  const blockPattern = new RegExp(`<(${Object.keys(CONTENT_BLOCKS).join('|')})\\b([^>]*)>`, 'g');
+
+  return Array.from(body.matchAll(blockPattern), ([, block, attributes]) => {
+    const props: Record<string, string> = {};
+    for (const [, name, quoted, expression] of attributes.matchAll(/(\w+)=(?:["']([^"']*)["']|\{([^}]*)\})/g)) {
+      props[name] = quoted ?? expression.trim();
+    }
+    return { block, props };
+  });
+}
@@ -0,0 +1,25 @@
+// src/core/affiliate/clicks.ts
+import { getDb } from '../../db/client';
+import { affiliateClicks, type NewAffiliateClick } from '../../db/schema';
+
+/**
+ * Persist an affiliate click
+ * Never throws: a failed insert must not block the redirect to the merchant.
+ * @returns true when the click was stored
+ */
+export async function logAffiliateClick(click: NewAffiliateClick): Promise<boolean> {
+  const db = getDb();
+
+  if (!db) {
+    console.warn(`🔗 Click on "${click.productId}" not logged: DATABASE_URL is not configured`);
+    return false;
+  }
+
+  try {
+    await db.insert(affiliateClicks).values(click);
+    return true;
+  } catch (error) {
+    console.error(`❌ Failed to log click on "${click.productId}":`, error);
+    return false;
+  }
+}
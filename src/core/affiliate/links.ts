@@ -0,0 +1,123 @@
+// src/core/affiliate/links.ts
+// AFFILIATE LINK CLOAKING & TRACKING PARAMETERS - UI INDEPENDENT
+
+import { stripLocaleFromPath } from '../i18n/locales';
+
+// ==========================================
+// TYPES & INTERFACES
+// ==========================================
+
+export interface GoLinkOptions {
+  post?: string;
+  variant?: string;
+  subId?: string;
+}
+
+export interface TrackingOptions {
+  clickId: string;
+  subIdParam?: string;
+  extraParams?: Record<string, string>;
+  utm?: {
+    source?: string;
+    medium?: string;
+    campaign?: string;
+    content?: string;
+  };
+}
+
+// ==========================================
+// CONFIGURATION
+// ==========================================
+
+/**
+ * Route prefix for cloaked affiliate links (see src/pages/go/[productId].ts)
+ */
+export const GO_ROUTE_PREFIX = '/go/';
+
+/**
+ * Query parameter most affiliate networks read the sub ID from
+ */
+export const DEFAULT_SUB_ID_PARAM = 'subid';
+
+const MAX_TRACKING_VALUE_LENGTH = 100;
+
+const BOT_USER_AGENT = /bot|crawl|spider|slurp|preview|facebookexternalhit|headless|lighthouse/i;
+
+// ==========================================
+// LINK BUILDING
+// ==========================================
+
+/**
+ * Build the cloaked /go/ link components render instead of the raw affiliate URL
+ * e.g. /go/chemex-coffee-maker?post=best-pour-over&v=ProductBlock3
+ */
+export function buildGoLink(productId: string, options: GoLinkOptions = {}): string {
+  const params = new URLSearchParams();
+  if (options.post) params.set('post', options.post);
+  if (options.variant) params.set('v', options.variant);
+  if (options.subId) params.set('subid', options.subId);
+
+  const query = params.toString();
+  return `${GO_ROUTE_PREFIX}${encodeURIComponent(productId)}${query ? `?${query}` : ''}`;
+}
+
+/**
+ * Read the post slug from a blog post path (/blog/my-post, /blog/my-post/ or /es/blog/my-post)
+ */
+export function getPostSlugFromPath(pathname: string): string | undefined {
+  return stripLocaleFromPath(pathname).match(/^\/blog\/([^/]+)\/?$/)?.[1];
+}
+
+/**
+ * Keep tracking values short and URL-safe; anything else is dropped
+ */
+export function sanitizeTrackingValue(value: string | null | undefined): string | undefined {
+  if (!value) return undefined;
+
+  const cleaned = value.trim().slice(0, MAX_TRACKING_VALUE_LENGTH);
+  return /^[\w.-]+$/.test(cleaned) ? cleaned : undefined;
+}
+
+/**
+ * Unique ID for a click, sent to the merchant as the sub ID
+ */
+export function generateClickId(): string {
+  return crypto.randomUUID().replace(/-/g, '');
+}
+
+/**
+ * Append sub ID, fixed merchant parameters and UTM tags to an affiliate URL
+ * UTM tags already present on the merchant URL are left untouched.
+ */
+export function buildTrackingUrl(affiliateUrl: string, options: TrackingOptions): string {
+  const url = new URL(affiliateUrl);
+
+  for (const [key, value] of Object.entries(options.extraParams || {})) {
+    url.searchParams.set(key, value);
+  }
+
+  url.searchParams.set(options.subIdParam || DEFAULT_SUB_ID_PARAM, options.clickId);
+
+  const utm = options.utm || {};
+  const utmParams: Array<[string, string | undefined]> = [
+    ['utm_source', utm.source],
+    ['utm_medium', utm.medium],
+    ['utm_campaign', utm.campaign],
+    ['utm_content', utm.content],
+  ];
+
+  for (const [key, value] of utmParams) {
+    if (value && !url.searchParams.has(key)) {
+      url.searchParams.set(key, value);
+    }
+  }
+
+  return url.toString();
+}
+
+/**
+ * Crawlers and link previews follow /go/ links too; don't count them as clicks
+ */
+export function isBotUserAgent(userAgent: string | null): boolean {
+  return !userAgent || BOT_USER_AGENT.test(userAgent);
+}
@@ -0,0 +1,241 @@
+// src/core/affiliate/pricing.ts
+// STRUCTURED PRICES, PRICE HISTORY & PRICE-DROP LOGIC - UI INDEPENDENT
+
+// ==========================================
+// TYPES & INTERFACES
+// ==========================================
+
+export interface Price {
+  amount: number;
+  currency: string;
+  formatted: string;
+}
+
+export interface PriceInput {
+  amount: number;
+  currency?: string;
+}
+
+export interface PricePoint {
+  date: Date;
+  amount: number;
+  currency?: string;
+}
+
+export interface PricedProduct {
+  price: Price;
+  originalPrice?: Price;
+  priceHistory?: PricePoint[];
+}
+
+export interface PriceInsights {
+  discountPercent?: number;
+  lowestPrice?: number;
+  isLowestPrice: boolean;
+  windowDays: number;
+}
+
+/**
+ * JSON-friendly pricing block returned by the affiliate APIs
+ */
+export interface PricingSummary {
+  amount: number;
+  currency: string;
+  originalAmount?: number;
+  discountPercent?: number;
+  lowestPrice?: number;
+  isLowestPrice: boolean;
+  windowDays: number;
+  history: Array<{ date: string; amount: number; currency: string }>;
+}
+
+export interface PriceDrop {
+  previousAmount: number;
+  currentAmount: number;
+  currency: string;
+  dropAmount: number;
+  dropPercent: number;
+  since: Date;
+}
+
+// ==========================================
+// CONFIGURATION
+// ==========================================
+
+export const DEFAULT_CURRENCY = 'USD';
+
+/**
+ * Window for "lowest price in N days" badges
+ */
+export const LOWEST_PRICE_WINDOW_DAYS = 90;
+
+const CURRENCY_SYMBOLS: Record<string, string> = {
+  '$': 'USD',
+  '€': 'EUR',
+  '£': 'GBP',
+  '¥': 'JPY',
+  '₹': 'INR',
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// ==========================================
+// PARSING & FORMATTING
+// ==========================================
+
+/**
+ * Format an amount in its currency, e.g. 44.95 USD -> "$44.95"
+ */
+export function formatPrice(amount: number, currency: string = DEFAULT_CURRENCY): string {
+  try {
+    return new Intl.NumberFormat('en-US', { style: 'currency', currency }).format(amount);
+  } catch {
+    return `${amount.toFixed(2)} ${currency}`;
+  }
+}
+
+/**
+ * Parse a free-form price string such as "$44.95", "€1.299,00" or "44.95 GBP"
+ * @returns null when no amount can be read
+ */
+export function parsePriceString(value: string): Price | null {
+  const text = value.trim();
+  const code = text.match(/\b([A-Z]{3})\b/)?.[1];
+  const symbol = Object.keys(CURRENCY_SYMBOLS).find(candidate => text.includes(candidate));
+  const currency = code || (symbol ? CURRENCY_SYMBOLS[symbol] : DEFAULT_CURRENCY);
+
+  let number = text.replace(/[^\d.,]/g, '');
+  if (!/\d/.test(number)) return null;
+
+  // The last "." or "," is the decimal mark ("1,299.50", "1.299,50", "44.95") unless it groups
+  // thousands: a single separator followed by exactly three digits ("€1.299") or a repeated one ("1,299,000")
+  const separators = number.match(/[.,]/g) || [];
+  const lastSeparator = Math.max(number.lastIndexOf('.'), number.lastIndexOf(','));
+  const groupsThousands = new Set(separators).size === 1
+    && (separators.length > 1 || /[.,]\d{3}$/.test(number));
+
+  number = lastSeparator >= 0 && !groupsThousands
+    ? `${number.slice(0, lastSeparator).replace(/[.,]/g, '')}.${number.slice(lastSeparator + 1)}`
+    : number.replace(/[.,]/g, '');
+
+  const amount = Number.parseFloat(number);
+  if (!Number.isFinite(amount)) return null;
+
+  return { amount, currency, formatted: text };
+}
+
+/**
+ * Normalize a price given as a string or { amount, currency }
+ */
+export function toPrice(value: string | PriceInput): Price | null {
+  if (typeof value === 'string') {
+    return parsePriceString(value);
+  }
+
+  const currency = (value.currency || DEFAULT_CURRENCY).toUpperCase();
+  return { amount: value.amount, currency, formatted: formatPrice(value.amount, currency) };
+}
+
+// ==========================================
+// DISCOUNTS & HISTORY
+// ==========================================
+
+/**
+ * Discount from originalPrice to price, rounded to a whole percent
+ * Only computed when both prices share a currency and the discount is at least 1%.
+ */
+export function getDiscountPercent(price?: Price | null, originalPrice?: Price | null): number | undefined {
+  if (!price || !originalPrice) return undefined;
+  if (price.currency !== originalPrice.currency || originalPrice.amount <= 0) return undefined;
+
+  const percent = Math.round(((originalPrice.amount - price.amount) / originalPrice.amount) * 100);
+  return percent > 0 ? percent : undefined;
+}
+
+/**
+ * Price points in the product's currency, oldest first
+ */
+function getComparableHistory(product: PricedProduct): PricePoint[] {
+  return (product.priceHistory || [])
+    .filter(point => (point.currency || product.price.currency) === product.price.currency)
+    .sort((a, b) => a.date.valueOf() - b.date.valueOf());
+}
+
+/**
+ * The price a product had on a given date (latest history point on or before it)
+ * Falls back to the earliest known point when the history starts later.
+ */
+export function getPriceOnDate(product: PricedProduct, date: Date): number | undefined {
+  const history = getComparableHistory(product);
+  if (history.length === 0) return undefined;
+
+  const onOrBefore = history.filter(point => point.date.valueOf() <= date.valueOf());
+  return (onOrBefore[onOrBefore.length - 1] || history[0]).amount;
+}
+
+/**
+ * Discount and "lowest price in N days" insight for a product
+ * The current price only counts as the lowest when it beats an earlier price in the window.
+ */
+export function getPriceInsights(
+  product: PricedProduct,
+  now: Date = new Date(),
+  windowDays: number = LOWEST_PRICE_WINDOW_DAYS
+): PriceInsights {
+  const windowStart = now.valueOf() - windowDays * DAY_MS;
+  const amounts = getComparableHistory(product)
+    .filter(point => point.date.valueOf() >= windowStart && point.date.valueOf() <= now.valueOf())
+    .map(point => point.amount);
+
+  const current = product.price.amount;
+  const lowestPrice = amounts.length > 0 ? Math.min(current, ...amounts) : undefined;
+
+  return {
+    discountPercent: getDiscountPercent(product.price, product.originalPrice),
+    lowestPrice,
+    isLowestPrice: amounts.some(amount => amount > current) && current <= Math.min(...amounts),
+    windowDays,
+  };
+}
+
+/**
+ * Serialize a product's prices, insights and history for API responses
+ */
+export function getPricingSummary(product: PricedProduct, now: Date = new Date()): PricingSummary {
+  const insights = getPriceInsights(product, now);
+
+  return {
+    amount: product.price.amount,
+    currency: product.price.currency,
+    originalAmount: product.originalPrice?.amount,
+    ...insights,
+    history: getComparableHistory(product).map(point => ({
+      date: point.date.toISOString(),
+      amount: point.amount,
+      currency: point.currency || product.price.currency,
+    })),
+  };
+}
+
+/**
+ * Price drop since a date, or null when the price didn't drop
+ */
+export function getPriceDrop(product: PricedProduct, since: Date): PriceDrop | null {
+  const previousAmount = getPriceOnDate(product, since);
+  const currentAmount = product.price.amount;
+
+  if (previousAmount === undefined || previousAmount <= 0 || currentAmount >= previousAmount) {
+    return null;
+  }
+
+  const dropAmount = Math.round((previousAmount - currentAmount) * 100) / 100;
+
+  return {
+    previousAmount,
+    currentAmount,
+    currency: product.price.currency,
+    dropAmount,
+    dropPercent: Math.round((dropAmount / previousAmount) * 1000) / 10,
+    since,
+  };
+}
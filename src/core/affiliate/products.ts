@@ -0,0 +1,89 @@
+// src/core/affiliate/products.ts
+// AFFILIATE PRODUCT QUERIES FOR BLOCKS & STRUCTURED DATA - UI INDEPENDENT
+
+import { getCollection, getEntry, type CollectionEntry } from 'astro:content';
+import { CONTENT_BLOCKS, findContentBlocks } from './blocks';
+
+// ==========================================
+// TYPES & INTERFACES
+// ==========================================
+
+export type AffiliateProduct = CollectionEntry<'affiliateProducts'>;
+
+// ==========================================
+// CONFIGURATION
+// ==========================================
+
+/**
+ * Products a CategoryBlock shows when no limit is given
+ */
+export const DEFAULT_CATEGORY_BLOCK_LIMIT = 6;
+
+// ==========================================
+// PRODUCT QUERIES
+// ==========================================
+
+/**
+ * Products in an affiliate category, as listed by CategoryBlock
+ */
+export async function getCategoryProducts(
+  category: string,
+  limit: number = DEFAULT_CATEGORY_BLOCK_LIMIT
+): Promise<AffiliateProduct[]> {
+  const allProducts = await getCollection('affiliateProducts');
+  return allProducts
+    .filter(product => product.data.category.id === category)
+    .slice(0, limit);
+}
+
+/**
+ * Products of a comparison in their listed order, skipping missing entries
+ */
+export async function getComparisonProducts(
+  comparison: CollectionEntry<'affiliateComparisons'>
+): Promise<AffiliateProduct[]> {
+  const products = await Promise.all(
+    comparison.data.products.map(productRef => {
+      // Handle both string IDs and reference objects
+      const productId = typeof productRef === 'string' ? productRef : productRef.id;
+      return getEntry('affiliateProducts', productId);
+    })
+  );
+
+  return products.filter((product): product is AffiliateProduct => Boolean(product));
+}
+
+/**
+ * Heading of a CategoryBlock: the given title or "Best <category> Products"
+ */
+export async function getCategoryBlockTitle(category: string, title?: string): Promise<string> {
+  if (title) return title;
+
+  const categoryInfo = await getEntry('affiliateCategories', category);
+  return `Best ${categoryInfo?.data.name || category} Products`;
+}
+
+/**
+ * Every product shown by the blocks in an MDX body, in document order without duplicates
+ */
+export async function getContentBlockProducts(body: string): Promise<AffiliateProduct[]> {
+  const productsByBlock = await Promise.all(
+    findContentBlocks(body).map(async ({ block, props }): Promise<AffiliateProduct[]> => {
+      if (!props[CONTENT_BLOCKS[block].prop]) return [];
+
+      if (block === 'ComparisonBlock') {
+        const comparison = await getEntry('affiliateComparisons', props.id);
+        return comparison?.data.active ? getComparisonProducts(comparison) : [];
+      }
+      if (block === 'CategoryBlock') {
+        return getCategoryProducts(props.category, props.limit ? Number(props.limit) : DEFAULT_CATEGORY_BLOCK_LIMIT);
+      }
+
+      const product = await getEntry('affiliateProducts', props.id);
+      return product ? [product] : [];
+    })
+  );
+
+  const products = new Map(productsByBlock.flat().map(product => [product.id, product]));
+  return Array.from(products.values());
+}
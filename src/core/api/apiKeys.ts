@@ -0,0 +1,256 @@
+// src/core/api/apiKeys.ts
+// API KEY AUTHENTICATION & SCOPES - SHARED BY THE API MIDDLEWARE
+
+// ==========================================
+// TYPES & INTERFACES
+// ==========================================
+
+/**
+ * A named API key as stored in the BLOG_API_KEYS secret.
+ * Only the SHA-256 hash of the key is stored, never the key itself.
+ */
+export interface ApiKeyRecord {
+  name: string;
+  hash: string;
+  scopes: string[];
+  expiresAt?: string;
+}
+
+export interface ApiKeyIdentity {
+  name: string;
+  scopes: string[];
+}
+
+export type ApiAuthResult =
+  | { success: true; key: ApiKeyIdentity }
+  | { success: false; status: 401 | 403; code: string; error: string };
+
+// ==========================================
+// CONFIGURATION
+// ==========================================
+
+/**
+ * API routes that serve public data and skip authentication
+ */
+export const PUBLIC_API_ROUTES: string[] = [
+  '/api/search.json',
+];
+
+/**
+ * Routes that accept the API key as a "key" query parameter
+ * Affiliate network postbacks are plain URLs and can't send headers.
+ */
+export const QUERY_KEY_API_ROUTES: string[] = [
+  '/api/analytics/postback.json',
+];
+
+/**
+ * Routes whose scopes don't follow the read/write-by-method rule
+ * Postbacks arrive as GET requests but record conversions.
+ */
+const ROUTE_SCOPES: Record<string, string[]> = {
+  '/api/analytics/postback.json': ['conversions:write'],
+};
+
+/**
+ * Route prefixes that map to a shared scope resource
+ * e.g. /api/affiliate-products/coffee-beans.json -> products:read
+ */
+const RESOURCE_ALIASES: Record<string, string> = {
+  'affiliate-products': 'products',
+  'affiliate-categories': 'products',
+  'affiliate-comparisons': 'comparisons',
+};
+
+/**
+ * CORS headers shared by every API response
+ */
+export const API_CORS_HEADERS: Record<string, string> = {
+  'Content-Type': 'application/json',
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Methods': 'GET, POST, PUT, DELETE, OPTIONS',
+  'Access-Control-Allow-Headers': 'Content-Type, Authorization, X-API-Key, X-Requested-With',
+  'Access-Control-Max-Age': '86400', // 24 hours
+};
+
+// ==========================================
+// KEY STORAGE
+// ==========================================
+
+/**
+ * Hash an API key with SHA-256 (hex encoded)
+ */
+export async function hashApiKey(key: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(key));
+  return Array.from(new Uint8Array(digest))
+    .map(byte => byte.toString(16).padStart(2, '0'))
+    .join('');
+}
+
+/**
+ * Parse the BLOG_API_KEYS secret (a JSON array of key records)
+ * Malformed records are skipped so one bad entry can't lock out every key.
+ */
+export function parseApiKeys(raw: string | undefined): ApiKeyRecord[] {
+  if (!raw) return [];
+
+  try {
+    const parsed = JSON.parse(raw);
+    if (!Array.isArray(parsed)) {
+      console.warn('BLOG_API_KEYS must be a JSON array of key records');
+      return [];
+    }
+
+    return parsed.filter((record): record is ApiKeyRecord => {
+      const isValid = record &&
+        typeof record.name === 'string' &&
+        typeof record.hash === 'string' &&
+        /^[a-f0-9]{64}$/i.test(record.hash) &&
+        Array.isArray(record.scopes) &&
+        (record.expiresAt === undefined || !Number.isNaN(Date.parse(record.expiresAt)));
+
+      if (!isValid) {
+        console.warn(`Ignoring malformed API key record: ${record?.name ?? 'unnamed'}`);
+      }
+      return isValid;
+    });
+  } catch (error) {
+    console.error('Failed to parse BLOG_API_KEYS:', error);
+    return [];
+  }
+}
+
+// ==========================================
+// VERIFICATION
+// ==========================================
+
+/**
+ * Compare two strings in constant time (for equal lengths)
+ */
+export function timingSafeEqual(a: string, b: string): boolean {
+  const length = Math.max(a.length, b.length);
+  let mismatch = a.length ^ b.length;
+
+  for (let i = 0; i < length; i++) {
+    mismatch |= (a.charCodeAt(i) || 0) ^ (b.charCodeAt(i) || 0);
+  }
+
+  return mismatch === 0;
+}
+
+/**
+ * Read the API key from the Authorization (Bearer) or X-API-Key header
+ * Routes in QUERY_KEY_API_ROUTES also accept it as a "key" query parameter.
+ */
+export function extractApiKey(request: Request, url?: URL): string | null {
+  const authHeader = request.headers.get('Authorization');
+  const bearer = authHeader?.replace(/^Bearer\s+/i, '').trim();
+  const queryKey = url && QUERY_KEY_API_ROUTES.includes(url.pathname.replace(/\/$/, ''))
+    ? url.searchParams.get('key')?.trim()
+    : undefined;
+
+  return bearer || request.headers.get('X-API-Key')?.trim() || queryKey || null;
+}
+
+/**
+ * Check whether a key grants a scope
+ * Supports exact scopes, resource wildcards ("posts:*") and full access ("*")
+ */
+export function hasScope(scopes: string[], required: string): boolean {
+  const [resource] = required.split(':');
+  return scopes.some(scope =>
+    scope === '*' || scope === required || scope === `${resource}:*`
+  );
+}
+
+/**
+ * Find the key record matching a provided key
+ * Every stored hash is compared so timing doesn't reveal which record matched.
+ */
+export async function findApiKey(
+  providedKey: string,
+  keys: ApiKeyRecord[]
+): Promise<ApiKeyRecord | null> {
+  const providedHash = await hashApiKey(providedKey);
+  let match: ApiKeyRecord | null = null;
+
+  for (const key of keys) {
+    if (timingSafeEqual(providedHash, key.hash.toLowerCase()) && !match) {
+      match = key;
+    }
+  }
+
+  return match;
+}
+
+/**
+ * Scopes a request needs, based on the route, method and query
+ * - Reads (GET/HEAD) need "<resource>:read", anything else "<resource>:write"
+ * - Listing non-published posts also needs "drafts:read"
+ * - Routes in ROUTE_SCOPES need their fixed scopes
+ */
+export function getRequiredScopes(pathname: string, method: string, searchParams: URLSearchParams): string[] {
+  const routeScopes = ROUTE_SCOPES[pathname.replace(/\/$/, '')];
+  if (routeScopes) return routeScopes;
+
+  const segment = pathname.replace(/^\/api\//, '').split('/')[0].replace(/\.json$/, '');
+  const resource = RESOURCE_ALIASES[segment] || segment;
+  const access = method === 'GET' || method === 'HEAD' ? 'read' : 'write';
+  const scopes = [`${resource}:${access}`];
+
+  if (resource === 'posts' && access === 'read') {
+    const status = searchParams.get('status');
+    if (status && status !== 'published') {
+      scopes.push('drafts:read');
+    }
+  }
+
+  return scopes;
+}
+
+/**
+ * Check whether an API route is public
+ */
+export function isPublicApiRoute(pathname: string): boolean {
+  return PUBLIC_API_ROUTES.includes(pathname.replace(/\/$/, ''));
+}
+
+/**
+ * Authenticate and authorize an API request
+ */
+export async function authorizeApiRequest(
+  request: Request,
+  url: URL,
+  keys: ApiKeyRecord[],
+  now: Date = new Date()
+): Promise<ApiAuthResult> {
+  const providedKey = extractApiKey(request, url);
+
+  if (!providedKey) {
+    return { success: false, status: 401, code: 'UNAUTHORIZED', error: 'Missing API key.' };
+  }
+
+  const key = await findApiKey(providedKey, keys);
+
+  if (!key) {
+    return { success: false, status: 401, code: 'UNAUTHORIZED', error: 'Invalid API key.' };
+  }
+
+  if (key.expiresAt && Date.parse(key.expiresAt) <= now.getTime()) {
+    return { success: false, status: 401, code: 'KEY_EXPIRED', error: `API key "${key.name}" has expired.` };
+  }
+
+  const requiredScopes = getRequiredScopes(url.pathname, request.method, url.searchParams);
+  const missingScope = requiredScopes.find(scope => !hasScope(key.scopes, scope));
+
+  if (missingScope) {
+    return {
+      success: false,
+      status: 403,
+      code: 'FORBIDDEN',
+      error: `API key "${key.name}" is missing the "${missingScope}" scope.`,
+    };
+  }
+
+  return { success: true, key: { name: key.name, scopes: key.scopes } };
+}
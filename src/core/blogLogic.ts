@@ -2,8 +2,20 @@
 // ALL CORE BLOG LOGIC IN ONE FILE - UI INDEPENDENT
 
 import type { CollectionEntry } from 'astro:content';
-import { getCollection } from 'astro:content';
+import { getCollection, getEntry } from 'astro:content';
 import { filterDrafts, filterPublishedOnly } from '../utils/draftFilter';
+import { getPostModifiedDate } from '../utils/postDates';
+import { getPostAuthorIds, getPostReviewerIds, isPostByAuthor } from '../utils/postAuthors';
+import { findCategoryByPath, getCategoryAncestors, getCategoryDescendantIds, getCategoryPath } from '../utils/categoryTree';
+import { getPostTagIds, resolveTagId } from '../utils/tagAliases';
+import { getSearchIndex } from './search/getSearchIndex';
+import { searchIndex } from './search/searchIndex';
+import { DEFAULT_LOCALE, LOCALE_CODES, getLanguageTag, getLocaleParam, localizePath, type Locale } from './i18n/locales';
+import { getPostLocale, getPostPath, isPostInLocale } from './i18n/translations';
+import { useTranslations } from './i18n/ui';
+import { getOgImageParam, getOgImageUrl, type OgCard } from './seo/ogImagePaths';
+import type { RobotsSettings } from './seo/robots';
+import { generatePaginatedItemList, getPagePath, getPaginationSEO, withPageNumber } from './seo/pagination';
 
 // ==========================================
 // TYPES & INTERFACES
@@ -11,6 +23,9 @@ import { filterDrafts, filterPublishedOnly } from '../utils/draftFilter';
 
 export interface BlogPost extends CollectionEntry<'blog'> {}
 
+/** Listings with their own page size in settings.pagination.pageSize */
+export type ArchiveType = 'blog' | 'category' | 'tag' | 'author';
+
 export interface PaginatedBlogData {
   data: BlogPost[];
   start: number;
@@ -23,11 +38,21 @@ export interface PaginatedBlogData {
     current: string;
     prev?: string;
     next?: string;
-    first?: string;
-    last?: string;
+    first: string;
+    last: string;
   };
 }
 
+export interface SeriesNavigation {
+  series: CollectionEntry<'series'>;
+  posts: BlogPost[];
+  /** 1-based part number of the current post */
+  position: number;
+  total: number;
+  prev?: BlogPost;
+  next?: BlogPost;
+}
+
 export interface SEOData {
   pageTitle: string;
   description: string;
@@ -41,6 +66,8 @@ export interface SEOData {
   ogImageAlt?: string;
   prevUrl?: string;
   nextUrl?: string;
+  // Deep archive pages past settings.pagination.noindexAfterPage
+  noindex?: boolean;
 }
 
 export interface SiteSettings {
@@ -74,6 +101,20 @@ export interface SiteSettings {
     enabled: boolean;
     text?: string;
   };
+  rss?: {
+    enabled: boolean;
+    itemsPerPage: number;
+    fullContent: boolean;
+  };
+  sitemap?: {
+    news: boolean;
+    newsPublicationName?: string;
+  };
+  robots?: RobotsSettings;
+  pagination?: {
+    noindexAfterPage?: number;
+    pageSize?: Partial<Record<ArchiveType, number>>;
+  };
 }
 
 // ==========================================
@@ -81,23 +122,30 @@ export interface SiteSettings {
 // ==========================================
 
 /**
- * Get all blog posts with draft filtering
+ * Get all blog posts in a locale with draft filtering
  */
-export async function getAllPosts(): Promise<BlogPost[]> {
+export async function getAllPosts(locale: string = DEFAULT_LOCALE): Promise<BlogPost[]> {
   const allPosts = await getCollection('blog', filterDrafts);
-  return allPosts.sort((a, b) => 
-    b.data.pubDate.valueOf() - a.data.pubDate.valueOf()
-  );
+  return allPosts
+    .filter(post => isPostInLocale(post, locale))
+    .sort((a, b) => b.data.pubDate.valueOf() - a.data.pubDate.valueOf());
 }
 
 /**
- * Get only published posts (for RSS, sitemaps)
+ * Get only published posts in a locale (for RSS, sitemaps)
  */
-export async function getPublishedPosts(): Promise<BlogPost[]> {
+export async function getPublishedPosts(locale: string = DEFAULT_LOCALE): Promise<BlogPost[]> {
   const publishedPosts = await getCollection('blog', filterPublishedOnly);
-  return publishedPosts.sort((a, b) => 
-    b.data.pubDate.valueOf() - a.data.pubDate.valueOf()
-  );
+  return publishedPosts
+    .filter(post => isPostInLocale(post, locale))
+    .sort((a, b) => b.data.pubDate.valueOf() - a.data.pubDate.valueOf());
+}
+
+/**
+ * Get posts in every locale with draft filtering (for linking translations)
+ */
+export async function getPostsInAllLocales(): Promise<BlogPost[]> {
+  return getCollection('blog', filterDrafts);
 }
 
 /**
@@ -114,7 +162,7 @@ export async function getSiteSettings(): Promise<SiteSettings> {
       siteUrl: 'https://example.com',
       author: 'Author',
       email: 'author@example.com',
-      defaultOgImage: '/og-image.jpg'
+      defaultOgImage: ''
     };
   }
   
@@ -125,7 +173,8 @@ export async function getSiteSettings(): Promise<SiteSettings> {
     siteUrl: settingsData.siteUrl || 'https://example.com',
     author: settingsData.author || 'Author',
     email: settingsData.email || 'author@example.com',
-    defaultOgImage: settingsData.defaultOgImage || '/og-image.jpg',
+    // Empty (settings.json sets ""): pages fall back to their generated /og card
+    defaultOgImage: settingsData.defaultOgImage || '',
     // Optional properties can be passed through as-is
     id: settingsData.id,
     siteTitle: settingsData.siteTitle,
@@ -137,6 +186,10 @@ export async function getSiteSettings(): Promise<SiteSettings> {
       enabled: settingsData.disclaimer.enabled ?? false,
       text: settingsData.disclaimer.text,
     } : undefined,
+    rss: settingsData.rss,
+    sitemap: settingsData.sitemap,
+    robots: settingsData.robots,
+    pagination: settingsData.pagination,
   };
 }
 
@@ -179,6 +232,20 @@ export async function shouldIndexPage(pageSlug: string): Promise<boolean> {
 // PAGINATION LOGIC
 // ==========================================
 
+export const DEFAULT_PAGE_SIZES: Record<ArchiveType, number> = {
+  blog: 6,
+  category: 12,
+  tag: 12,
+  author: 12,
+};
+
+/**
+ * Posts per page for a listing, from settings.pagination.pageSize
+ */
+export function getArchivePageSize(settings: SiteSettings, type: ArchiveType): number {
+  return settings.pagination?.pageSize?.[type] ?? DEFAULT_PAGE_SIZES[type];
+}
+
 /**
  * Create pagination data for blog posts
  */
@@ -196,12 +263,10 @@ export function createPaginationData(
 
   // Generate URLs
   const firstUrl = basePath;
-  const lastUrl = lastPage > 1 ? `${basePath}/${lastPage}` : basePath;
-  const currentUrl = currentPage === 1 ? basePath : `${basePath}/${currentPage}`;
-  const prevUrl = currentPage > 1 ? 
-    (currentPage === 2 ? basePath : `${basePath}/${currentPage - 1}`) : 
-    undefined;
-  const nextUrl = currentPage < lastPage ? `${basePath}/${currentPage + 1}` : undefined;
+  const lastUrl = getPagePath(basePath, lastPage);
+  const currentUrl = getPagePath(basePath, currentPage);
+  const prevUrl = currentPage > 1 ? getPagePath(basePath, currentPage - 1) : undefined;
+  const nextUrl = currentPage < lastPage ? getPagePath(basePath, currentPage + 1) : undefined;
 
   return {
     data,
@@ -221,6 +286,67 @@ export function createPaginationData(
   };
 }
 
+/**
+ * Every page of an archive; an empty archive still gets its first page
+ */
+export function paginateArchive(posts: BlogPost[], pageSize: number, basePath: string): PaginatedBlogData[] {
+  const lastPage = Math.max(Math.ceil(posts.length / pageSize), 1);
+  return Array.from({ length: lastPage }, (_, i) => createPaginationData(posts, i + 1, pageSize, basePath));
+}
+
+/**
+ * [...page] route param: page 1 is the archive itself, later pages are /<n>
+ */
+function getPageParam(page: PaginatedBlogData): string | undefined {
+  return page.currentPage > 1 ? page.currentPage.toString() : undefined;
+}
+
+/**
+ * One page of a category, tag or author archive in one locale
+ */
+interface LocalizedArchivePage {
+  locale: Locale;
+  posts: BlogPost[];
+  page: PaginatedBlogData;
+  /** First page of the archive in every locale that has it (for hreflang) */
+  alternatePaths: Partial<Record<Locale, string>>;
+}
+
+/**
+ * Posts grouped by locale, newest first, from a single read of the collection
+ */
+async function getPostsByLocale(): Promise<Record<Locale, BlogPost[]>> {
+  const allPosts = [...await getPostsInAllLocales()]
+    .sort((a, b) => b.data.pubDate.valueOf() - a.data.pubDate.valueOf());
+
+  return Object.fromEntries(
+    LOCALE_CODES.map(locale => [locale, allPosts.filter(post => isPostInLocale(post, locale))])
+  ) as Record<Locale, BlogPost[]>;
+}
+
+/**
+ * Every page of an archive in every locale. The default locale always gets the archive,
+ * empty or not; other locales only get it once they have posts in it.
+ */
+function paginateLocalizedArchive(
+  postsByLocale: Record<Locale, BlogPost[]>,
+  selectPosts: (posts: BlogPost[]) => BlogPost[],
+  pageSize: number,
+  basePath: string
+): LocalizedArchivePage[] {
+  const archives = LOCALE_CODES
+    .map(locale => ({ locale, posts: selectPosts(postsByLocale[locale]) }))
+    .filter(({ locale, posts }) => locale === DEFAULT_LOCALE || posts.length > 0);
+  const alternatePaths = Object.fromEntries(
+    archives.map(({ locale }) => [locale, localizePath(basePath, locale)])
+  );
+
+  return archives.flatMap(({ locale, posts }) =>
+    paginateArchive(posts, pageSize, localizePath(basePath, locale))
+      .map(page => ({ locale, posts, page, alternatePaths }))
+  );
+}
+
 /**
  * Generate static paths for paginated blog
  */
@@ -246,62 +372,110 @@ export async function generateBlogPaginationPaths(pageSize: number = 5) {
 // ==========================================
 
 /**
- * Get posts by category
+ * Posts filed in any of the given categories
  */
-export async function getPostsByCategory(categoryId: string): Promise<BlogPost[]> {
-  const allPosts = await getAllPosts();
-  return allPosts.filter(post => {
+function filterPostsByCategoryIds(posts: BlogPost[], categoryIds: string[]): BlogPost[] {
+  return posts.filter(post => {
     const postCategoryId = typeof post.data.category === 'string' ? 
       post.data.category : post.data.category?.id;
-    return postCategoryId === categoryId;
+    return categoryIds.includes(postCategoryId);
   });
 }
 
 /**
- * Get all categories with post counts
+ * Get posts by category, including posts in its subcategories
+ */
+export async function getPostsByCategory(categoryId: string): Promise<BlogPost[]> {
+  const allPosts = await getAllPosts();
+  const allCategories = await getCollection('categories');
+  return filterPostsByCategoryIds(allPosts, getCategoryDescendantIds(allCategories, categoryId));
+}
+
+/**
+ * Site-relative URL of a category, nested under its parents: /categories/marketing/email
+ * (/es/categories/marketing/email in a prefixed locale)
+ */
+export async function getCategoryUrl(categoryId: string, locale: string = DEFAULT_LOCALE): Promise<string> {
+  const allCategories = await getCollection('categories');
+  return localizePath(`/categories/${getCategoryPath(allCategories, categoryId)}`, locale);
+}
+
+/**
+ * Get all categories with post counts. `postCount` rolls up posts in subcategories;
+ * `directPostCount` only counts posts filed in the category itself.
  */
 export async function getCategoriesWithPostCounts() {
   const allPosts = await getAllPosts();
   const allCategories = await getCollection('categories');
   
   return allCategories.map(category => {
-    const postCount = allPosts.filter(post => {
-      const postCategoryId = typeof post.data.category === 'string' ? 
-        post.data.category : post.data.category?.id;
-      return postCategoryId === category.id;
-    }).length;
+    const postCount = filterPostsByCategoryIds(allPosts, getCategoryDescendantIds(allCategories, category.id)).length;
+    const directPostCount = filterPostsByCategoryIds(allPosts, [category.id]).length;
     
     return {
       ...category,
-      postCount
+      url: `/categories/${getCategoryPath(allCategories, category.id)}`,
+      postCount,
+      directPostCount
     };
   }).filter(category => category.postCount > 0)
     .sort((a, b) => b.postCount - a.postCount);
 }
 
 /**
- * Generate static paths for category pages
+ * Category with a nested URL path ("marketing/email"), its ancestors (root first)
+ * and its direct subcategories with their URLs. In a prefixed locale, only subcategories
+ * with posts in that locale are listed, since the others have no archive there.
+ */
+export async function getCategoryByPath(path: string, locale: string = DEFAULT_LOCALE) {
+  const allCategories = await getCollection('categories');
+  const category = findCategoryByPath(allCategories, path);
+  if (!category) return undefined;
+
+  const localePosts = locale === DEFAULT_LOCALE ? [] : await getAllPosts(locale);
+  const subcategories = allCategories
+    .filter(candidate => candidate.data.parent?.id === category.id)
+    .filter(subcategory => locale === DEFAULT_LOCALE ||
+      filterPostsByCategoryIds(localePosts, getCategoryDescendantIds(allCategories, subcategory.id)).length > 0)
+    .map(subcategory => ({
+      ...subcategory,
+      url: localizePath(`/categories/${getCategoryPath(allCategories, subcategory.id)}`, locale),
+    }));
+
+  return { category, ancestors: getCategoryAncestors(allCategories, category.id), subcategories };
+}
+
+/**
+ * Generate static paths for category pages in every locale
+ * (subcategory posts roll up into their parents)
  */
 export async function generateCategoryPaths() {
-  const allPosts = await getAllPosts();
+  const postsByLocale = await getPostsByLocale();
   
   // Load all categories to ensure we create pages for empty ones too
   const allCategories = await getCollection('categories');
+  const pageSize = getArchivePageSize(await getSiteSettings(), 'category');
   
-  return allCategories.map(category => {
-    const filteredPosts = allPosts.filter(post => {
-      const postCategoryId = typeof post.data.category === 'string' ? 
-        post.data.category : post.data.category?.id;
-      return postCategoryId === category.data.id;
-    });
+  return allCategories.flatMap(category => {
+    const categoryIds = getCategoryDescendantIds(allCategories, category.id);
+    const categoryPath = getCategoryPath(allCategories, category.id);
     
-    return {
-      params: { category: category.data.slug },
+    return paginateLocalizedArchive(
+      postsByLocale,
+      posts => filterPostsByCategoryIds(posts, categoryIds),
+      pageSize,
+      `/categories/${categoryPath}`
+    ).map(({ locale, posts, page, alternatePaths }) => ({
+      params: { locale: getLocaleParam(locale), category: categoryPath, page: getPageParam(page) },
       props: { 
-        posts: filteredPosts,
-        categoryId: category.data.id
+        posts,
+        categoryId: category.data.id,
+        categoryPath,
+        page,
+        locale,
+        alternatePaths
       },
-    };
+    }));
   });
 }
 
@@ -310,20 +484,18 @@ export async function generateCategoryPaths() {
 // ==========================================
 
 /**
- * Get posts by tag
+ * Get posts by tag, including posts tagged with one of its aliases
+ * @param tagId - Tag ID or alias
  */
 export async function getPostsByTag(tagId: string): Promise<BlogPost[]> {
   const allPosts = await getAllPosts();
-  return allPosts.filter(post =>
-    post.data.tags.some(tagRef => {
-      const tagRefId = typeof tagRef === 'string' ? tagRef : tagRef.id;
-      return tagRefId === tagId;
-    })
-  );
+  const allTags = await getCollection('tags');
+  const canonicalId = resolveTagId(allTags, tagId);
+  return allPosts.filter(post => getPostTagIds(allTags, post.data.tags).includes(canonicalId));
 }
 
 /**
- * Get all tags with post counts
+ * Get all tags with post counts (posts tagged with an alias count towards the canonical tag)
  */
 export async function getTagsWithPostCounts() {
   const allPosts = await getAllPosts();
@@ -331,10 +503,7 @@ export async function getTagsWithPostCounts() {
   
   return allTags.map(tag => {
     const postCount = allPosts.filter(post => 
-      post.data.tags.some(tagRef => {
-        const tagRefId = typeof tagRef === 'string' ? tagRef : tagRef.id;
-        return tagRefId === tag.id;
-      })
+      getPostTagIds(allTags, post.data.tags).includes(tag.id)
     ).length;
     
     return {
@@ -345,29 +514,33 @@ export async function getTagsWithPostCounts() {
 }
 
 /**
- * Generate static paths for tag pages
+ * Generate static paths for tag pages in every locale
  */
 export async function generateTagPaths() {
-  const allPosts = await getAllPosts();
+  const postsByLocale = await getPostsByLocale();
   
   // Load all tags to ensure we create pages for empty ones too
   const allTags = await getCollection('tags');
+  const pageSize = getArchivePageSize(await getSiteSettings(), 'tag');
   
-  return allTags.map(tag => {
-    const filteredPosts = allPosts.filter(post =>
-      post.data.tags.some(tagRef => {
-        const tagRefId = typeof tagRef === 'string' ? tagRef : tagRef.id;
-        return tagRefId === tag.data.id;
-      })
-    );
-    
-    return {
-      params: { tag: tag.data.slug },
+  return allTags.flatMap(tag => {
+    const tagSlug = tag.data.slug || tag.id;
+    return paginateLocalizedArchive(
+      postsByLocale,
+      posts => posts.filter(post => getPostTagIds(allTags, post.data.tags).includes(tag.id)),
+      pageSize,
+      `/tags/${tagSlug}`
+    ).map(({ locale, posts, page, alternatePaths }) => ({
+      params: { locale: getLocaleParam(locale), tag: tagSlug, page: getPageParam(page) },
       props: { 
-        posts: filteredPosts,
-        tagId: tag.data.id
+        posts,
+        tagId: tag.data.id,
+        tagSlug,
+        page,
+        locale,
+        alternatePaths
       },
-    };
+    }));
   });
 }
 
@@ -376,15 +549,11 @@ export async function generateTagPaths() {
 // ==========================================
 
 /**
- * Get posts by author ID (for backward compatibility)
+ * Get posts by author ID in a locale (for backward compatibility)
  */
-export async function getPostsByAuthor(authorId: string): Promise<BlogPost[]> {
-  const allPosts = await getAllPosts();
-  return allPosts.filter(post => {
-    const postAuthorId = typeof post.data.author === 'string' ? 
-      post.data.author : post.data.author?.id;
-    return postAuthorId === authorId;
-  });
+export async function getPostsByAuthor(authorId: string, locale: string = DEFAULT_LOCALE): Promise<BlogPost[]> {
+  const allPosts = await getAllPosts(locale);
+  return allPosts.filter(post => isPostByAuthor(post.data, authorId));
 }
 
 /**
@@ -398,12 +567,8 @@ export async function getPostsByAuthorSlug(authorSlug: string): Promise<BlogPost
   const author = allAuthors.find(a => a.data.slug === authorSlug);
   if (!author) return [];
   
-  // Get posts by author ID
-  return allPosts.filter(post => {
-    const postAuthorId = typeof post.data.author === 'string' ? 
-      post.data.author : post.data.author?.id;
-    return postAuthorId === author.id;
-  });
+  // Get posts by author ID, including co-authored ones
+  return allPosts.filter(post => isPostByAuthor(post.data, author.id));
 }
 
 /**
@@ -414,11 +579,7 @@ export async function getAuthorsWithPostCounts() {
   const allAuthors = await getCollection('authors');
   
   return allAuthors.map(author => {
-    const postCount = allPosts.filter(post => {
-      const postAuthorId = typeof post.data.author === 'string' ? 
-        post.data.author : post.data.author?.id;
-      return postAuthorId === author.id;
-    }).length;
+    const postCount = allPosts.filter(post => isPostByAuthor(post.data, author.id)).length;
     
     return {
       ...author,
@@ -428,15 +589,24 @@ export async function getAuthorsWithPostCounts() {
 }
 
 /**
- * Generate static paths for author pages
+ * Generate static paths for author pages in every locale
  */
 export async function generateAuthorPaths() {
+  const postsByLocale = await getPostsByLocale();
   const authors = await getCollection('authors');
+  const pageSize = getArchivePageSize(await getSiteSettings(), 'author');
   
-  return authors.map((author) => ({
-    params: { slug: author.data.slug },
-    props: { author },
-  }));
+  return authors.flatMap((author) =>
+    paginateLocalizedArchive(
+      postsByLocale,
+      posts => posts.filter(post => isPostByAuthor(post.data, author.id)),
+      pageSize,
+      `/authors/${author.data.slug}`
+    ).map(({ locale, posts, page, alternatePaths }) => ({
+      params: { locale: getLocaleParam(locale), slug: author.data.slug, page: getPageParam(page) },
+      props: { author, posts, page, locale, alternatePaths },
+    }))
+  );
 }
 
 /**
@@ -467,6 +637,190 @@ export async function getAuthorTagsBySlug(authorSlug: string): Promise<string[]>
   return Array.from(new Set(tagIds));
 }
 
+/**
+ * Categories an author writes in within a locale, most-covered first (by author ID)
+ */
+export async function getAuthorCategories(authorId: string, locale: string = DEFAULT_LOCALE) {
+  const authorPosts = await getPostsByAuthor(authorId, locale);
+  const allCategories = await getCollection('categories');
+
+  return allCategories.map(category => ({
+    ...category,
+    url: localizePath(`/categories/${getCategoryPath(allCategories, category.id)}`, locale),
+    postCount: authorPosts.filter(post => post.data.category.id === category.id).length,
+  })).filter(category => category.postCount > 0)
+    .sort((a, b) => b.postCount - a.postCount);
+}
+
+// ==========================================
+// SERIES LOGIC
+// ==========================================
+
+/**
+ * Series ID of a post, if it belongs to one
+ */
+export function getPostSeriesId(post: BlogPost): string | undefined {
+  return typeof post.data.series === 'string' ?
+    post.data.series : post.data.series?.id;
+}
+
+/**
+ * Order series parts by seriesOrder, then by pubDate (parts without an order go last)
+ */
+export function sortSeriesPosts(posts: BlogPost[]): BlogPost[] {
+  return [...posts].sort((a, b) =>
+    (a.data.seriesOrder ?? Infinity) - (b.data.seriesOrder ?? Infinity) ||
+    a.data.pubDate.valueOf() - b.data.pubDate.valueOf()
+  );
+}
+
+/**
+ * Get the parts of a series in reading order
+ */
+export async function getPostsBySeries(seriesId: string, locale: string = DEFAULT_LOCALE): Promise<BlogPost[]> {
+  const allPosts = await getAllPosts(locale);
+  return sortSeriesPosts(allPosts.filter(post => getPostSeriesId(post) === seriesId));
+}
+
+/**
+ * Get all series with post counts
+ */
+export async function getSeriesWithPostCounts() {
+  const allPosts = await getAllPosts();
+  const allSeries = await getCollection('series');
+
+  return allSeries.map(series => ({
+    ...series,
+    postCount: allPosts.filter(post => getPostSeriesId(post) === series.id).length,
+  })).filter(series => series.postCount > 0);
+}
+
+/**
+ * Generate static paths for series pages, one per locale with parts in it
+ * (the default locale always gets the page)
+ */
+export async function generateSeriesPaths() {
+  const postsByLocale = await getPostsByLocale();
+  const allSeries = await getCollection('series');
+
+  return allSeries.flatMap(series => {
+    const basePath = `/series/${series.data.slug}`;
+    const editions = LOCALE_CODES
+      .map(locale => ({
+        locale,
+        posts: sortSeriesPosts(postsByLocale[locale].filter(post => getPostSeriesId(post) === series.id)),
+      }))
+      .filter(({ locale, posts }) => locale === DEFAULT_LOCALE || posts.length > 0);
+    const alternatePaths = Object.fromEntries(
+      editions.map(({ locale }) => [locale, localizePath(basePath, locale)])
+    );
+
+    return editions.map(({ locale, posts }) => ({
+      params: { locale: getLocaleParam(locale), slug: series.data.slug },
+      props: { series, posts, locale, alternatePaths },
+    }));
+  });
+}
+
+/**
+ * Generate static paths for generated Open Graph cards (/og/[...path].png):
+ * the homepage, listings, archives, and posts/series without their own image
+ */
+export async function generateOgImagePaths() {
+  const settings = await getSiteSettings();
+  const base = { siteName: settings.siteName, logo: settings.logo || undefined };
+
+  const [posts, categories, tags, authors, allSeries] = await Promise.all([
+    getPostsInAllLocales(),
+    getCollection('categories'),
+    getCollection('tags'),
+    getCollection('authors'),
+    getCollection('series'),
+  ]);
+
+  const pages: Array<{ path: string; card: OgCard }> = [
+    { path: '/', card: { ...base, title: settings.siteTitle || settings.siteDescription } },
+    ...LOCALE_CODES.map(locale => ({
+      path: localizePath('/blog', locale),
+      card: { ...base, title: useTranslations(locale)('blog.heading') },
+    })),
+  ];
+
+  const archives = [
+    { path: '/categories', pageId: 'all-categories', title: 'Categories' },
+    { path: '/tags', pageId: 'all-tags', title: 'Tags' },
+    { path: '/authors', pageId: 'all-authors', title: 'Authors' },
+  ];
+  for (const archive of archives) {
+    const pageData = await getPageData(archive.pageId);
+    pages.push({ path: archive.path, card: { ...base, title: pageData?.title || archive.title } });
+  }
+
+  for (const post of posts.filter(post => !post.data.image)) {
+    const category = categories.find(entry => entry.id === post.data.category.id);
+    const author = authors.find(entry => entry.id === getPostAuthorIds(post.data)[0]);
+    pages.push({
+      path: getPostPath(post),
+      card: {
+        ...base,
+        title: post.data.title,
+        label: category?.data.name,
+        accentColor: category?.data.color,
+        author: author && { name: author.data.name, avatar: author.data.avatar },
+      },
+    });
+  }
+
+  pages.push(
+    ...categories.map(category => ({
+      path: `/categories/${getCategoryPath(categories, category.id)}`,
+      card: { ...base, title: category.data.name, label: 'Category', accentColor: category.data.color },
+    })),
+    ...tags.map(tag => ({
+      path: `/tags/${tag.data.slug || tag.id}`,
+      card: { ...base, title: tag.data.name, label: 'Tag', accentColor: tag.data.color },
+    })),
+    ...authors.map(author => ({
+      path: `/authors/${author.data.slug}`,
+      card: { ...base, title: author.data.name, label: 'Author', author: { name: author.data.name, avatar: author.data.avatar } },
+    })),
+    ...allSeries.filter(series => !series.data.image).map(series => ({
+      path: `/series/${series.data.slug}`,
+      card: { ...base, title: series.data.title, label: 'Series' },
+    })),
+  );
+
+  return pages.map(({ path, card }) => ({
+    params: { path: getOgImageParam(path) },
+    props: { card },
+  }));
+}
+
+/**
+ * Position of a post within its series plus previous/next parts
+ * @returns null when the post isn't part of a series
+ */
+export async function getSeriesNavigation(post: BlogPost): Promise<SeriesNavigation | null> {
+  const seriesId = getPostSeriesId(post);
+  if (!seriesId) return null;
+
+  const series = await getEntry('series', seriesId);
+  if (!series) return null;
+
+  const posts = await getPostsBySeries(seriesId, getPostLocale(post));
+  const index = posts.findIndex(part => part.id === post.id);
+  if (index === -1) return null;
+
+  return {
+    series,
+    posts,
+    position: index + 1,
+    total: posts.length,
+    prev: posts[index - 1],
+    next: posts[index + 1],
+  };
+}
+
 // ==========================================
 // SEO GENERATION
 // ==========================================
@@ -476,156 +830,232 @@ export async function getAuthorTagsBySlug(authorSlug: string): Promise<string[]>
  */
 export async function generateBlogListingSEO(
   currentPage: number = 1,
-  totalPages: number = 1
+  totalPages: number = 1,
+  locale: string = DEFAULT_LOCALE
 ): Promise<SEOData> {
   const settings = await getSiteSettings();
-  const pageData = await getPageData('all-posts');
+  // The pages collection holds default-locale copy only
+  const pageData = locale === DEFAULT_LOCALE ? await getPageData('all-posts') : null;
+  const t = useTranslations(locale);
+  const params = { site: settings.siteName, page: currentPage, total: totalPages };
+  const blogPath = localizePath('/blog', locale);
   
-  const pageTitle = currentPage === 1 
-    ? pageData?.seo?.title || `All Posts - ${settings.siteName}`
-    : `All Posts - Page ${currentPage} - ${settings.siteName}`;
+  const pageTitle = withPageNumber(
+    pageData?.seo?.title || t('blog.seoTitle', params),
+    t('blog.pageOf', params),
+    currentPage
+  );
 
   const description = currentPage === 1
-    ? pageData?.seo?.description || `Browse all blog posts from ${settings.siteName}.`
-    : `Browse blog posts from ${settings.siteName} - Page ${currentPage} of ${totalPages}.`;
+    ? pageData?.seo?.description || t('blog.seoDescription', params)
+    : t('blog.seoDescriptionPaged', params);
 
   const ogimage = {
-    url: pageData?.seo?.ogImage || settings.defaultOgImage || "/og-image.jpg",
-    alt: `${settings.siteName} - All Posts${currentPage > 1 ? ` - Page ${currentPage}` : ''}`,
+    url: pageData?.seo?.ogImage || settings.defaultOgImage || getOgImageUrl(settings.siteUrl, blogPath),
+    alt: `${settings.siteName} - ${t('blog.heading')}${currentPage > 1 ? ` - ${t('blog.pageOf', params)}` : ''}`,
   };
 
-  const canonicalUrl = `${settings.siteUrl}/blog${currentPage > 1 ? `/${currentPage}` : ''}`;
-  
-  const prevUrl = currentPage > 1 ? 
-    `${settings.siteUrl}${currentPage === 2 ? '/blog' : `/blog/${currentPage - 1}`}` : 
-    undefined;
-  
-  const nextUrl = currentPage < totalPages ? 
-    `${settings.siteUrl}/blog/${currentPage + 1}` : 
-    undefined;
-
   return {
     pageTitle,
     description,
     ogimage,
-    canonicalUrl,
-    prevUrl,
-    nextUrl
+    ...getPaginationSEO({
+      siteUrl: settings.siteUrl,
+      basePath: blogPath,
+      currentPage,
+      lastPage: totalPages,
+      noindexAfterPage: settings.pagination?.noindexAfterPage,
+    }),
+  };
+}
+
+/**
+ * Page-numbered title, canonical, prev/next and deep-page noindex for an archive page
+ */
+function paginateArchiveSEO(
+  seo: SEOData,
+  settings: SiteSettings,
+  basePath: string,
+  currentPage: number,
+  totalPages: number,
+  locale: string = DEFAULT_LOCALE
+): SEOData {
+  const t = useTranslations(locale);
+
+  return {
+    ...seo,
+    pageTitle: withPageNumber(seo.pageTitle, t('blog.pageOf', { page: currentPage, total: totalPages }), currentPage),
+    ...getPaginationSEO({
+      siteUrl: settings.siteUrl,
+      basePath,
+      currentPage,
+      lastPage: totalPages,
+      noindexAfterPage: settings.pagination?.noindexAfterPage,
+    }),
   };
 }
 
 /**
  * Generate SEO data for category page
  */
-export async function generateCategorySEO(categorySlug: string): Promise<SEOData> {
+export async function generateCategorySEO(
+  categoryPath: string,
+  currentPage: number = 1,
+  totalPages: number = 1,
+  locale: string = DEFAULT_LOCALE
+): Promise<SEOData> {
   try {
     const settings = await getSiteSettings();
     const allCategories = await getCollection('categories');
-    const categoryData = allCategories.find(cat => cat.data.slug === categorySlug);
+    const categoryData = findCategoryByPath(allCategories, categoryPath);
+    const t = useTranslations(locale);
     
-    const categoryName = categoryData ? categoryData.data.name : categorySlug;
-    const categoryDescription = categoryData ? categoryData.data.description : null;
+    const categoryName = categoryData ? categoryData.data.name : categoryPath;
+    // Category descriptions and SEO copy are written in the default locale only
+    const isDefaultLocale = locale === DEFAULT_LOCALE;
+    const categoryDescription = categoryData && isDefaultLocale ? categoryData.data.description : null;
+    const params = { name: categoryName, site: settings.siteName };
+    const basePath = localizePath(`/categories/${categoryPath}`, locale);
+
+    const paginate = (seo: SEOData) =>
+      paginateArchiveSEO(seo, settings, basePath, currentPage, totalPages, locale);
 
     // Use custom SEO if available, otherwise fallback to generated SEO
-    if (categoryData?.data.seo) {
+    if (categoryData?.data.seo && isDefaultLocale) {
       const customSEO = categoryData.data.seo;
-      return {
-        pageTitle: customSEO.title || `${categoryName} Posts - ${settings.siteName}`,
-        description: customSEO.description || categoryDescription || 
-          `Browse all posts in the ${categoryName} category from ${settings.siteName}.`,
+      return paginate({
+        pageTitle: customSEO.title || t('archive.categoryTitle', params),
+        description: customSEO.description || categoryDescription || t('archive.categoryDescription', params),
         ogimage: {
-          url: customSEO.ogImage || settings.defaultOgImage || "/og-image.jpg",
-          alt: customSEO.ogImageAlt || `${settings.siteName} - ${categoryName} Posts`,
+          url: customSEO.ogImage || settings.defaultOgImage || getOgImageUrl(settings.siteUrl, `/categories/${categoryPath}`),
+          alt: customSEO.ogImageAlt || t('archive.categoryImageAlt', params),
         },
-        canonicalUrl: `${settings.siteUrl}/categories/${categorySlug}`,
+        canonicalUrl: `${settings.siteUrl}${basePath}`,
         keywords: customSEO.keywords,
         ogImage: customSEO.ogImage,
         ogImageAlt: customSEO.ogImageAlt,
-      };
+      });
     }
 
     // Fallback to default SEO generation
-    const pageTitle = `${categoryName} Posts - ${settings.siteName}`;
-    const description = categoryDescription || 
-      `Browse all posts in the ${categoryName} category from ${settings.siteName}.`;
+    const pageTitle = t('archive.categoryTitle', params);
+    const description = categoryDescription || t('archive.categoryDescription', params);
 
+    // Generated cards are only rendered for the unprefixed archive paths
     const ogimage = {
-      url: settings.defaultOgImage || "/og-image.jpg",
-      alt: `${settings.siteName} - ${categoryName} Posts`,
+      url: settings.defaultOgImage || getOgImageUrl(settings.siteUrl, `/categories/${categoryPath}`),
+      alt: t('archive.categoryImageAlt', params),
     };
 
-    const canonicalUrl = `${settings.siteUrl}/categories/${categorySlug}`;
+    const canonicalUrl = `${settings.siteUrl}${basePath}`;
 
-    return {
+    return paginate({
       pageTitle,
       description,
       ogimage,
       canonicalUrl,
-    };
+    });
   } catch (error) {
-    console.error(`Error generating category SEO for ${categorySlug}:`, error);
+    console.error(`Error generating category SEO for ${categoryPath}:`, error);
     
     // Return minimal fallback SEO
     return {
-      pageTitle: `${categorySlug} Posts - Website`,
-      description: `Browse all posts in the ${categorySlug} category.`,
+      pageTitle: `${categoryPath} Posts - Website`,
+      description: `Browse all posts in the ${categoryPath} category.`,
       ogimage: {
         url: "/og-image.jpg",
-        alt: `${categorySlug} Posts`,
+        alt: `${categoryPath} Posts`,
       },
-      canonicalUrl: `/categories/${categorySlug}`,
+      canonicalUrl: `/categories/${categoryPath}`,
     };
   }
 }
 
+/**
+ * Generate SEO data for series page
+ */
+export async function generateSeriesSEO(
+  series: CollectionEntry<'series'>,
+  locale: string = DEFAULT_LOCALE
+): Promise<SEOData> {
+  const settings = await getSiteSettings();
+  const { title, slug, description, seo, image } = series.data;
+  // Series SEO copy is written in the default locale only
+  const customSEO = locale === DEFAULT_LOCALE ? seo : undefined;
+  const t = useTranslations(locale);
+
+  return {
+    pageTitle: customSEO?.title || `${title} - ${settings.siteName}`,
+    description: customSEO?.description || description ||
+      t('series.seoDescription', { title, site: settings.siteName }),
+    ogimage: {
+      url: seo?.ogImage || image?.url || settings.defaultOgImage || getOgImageUrl(settings.siteUrl, `/series/${slug}`),
+      alt: image?.alt || `${settings.siteName} - ${title}`,
+    },
+    canonicalUrl: `${settings.siteUrl}${localizePath(`/series/${slug}`, locale)}`,
+    keywords: customSEO?.keywords,
+  };
+}
+
 /**
  * Generate SEO data for tag page
  */
-export async function generateTagSEO(tagSlug: string): Promise<SEOData> {
+export async function generateTagSEO(
+  tagSlug: string,
+  currentPage: number = 1,
+  totalPages: number = 1,
+  locale: string = DEFAULT_LOCALE
+): Promise<SEOData> {
   try {
     const settings = await getSiteSettings();
     const allTags = await getCollection('tags');
-    const tagData = allTags.find(tag => tag.data.slug === tagSlug);
+    const tagData = allTags.find(tag => (tag.data.slug || tag.id) === tagSlug);
+    const t = useTranslations(locale);
     
     const tagName = tagData ? tagData.data.name : tagSlug;
-    const tagDescription = tagData ? tagData.data.description : null;
+    // Tag descriptions and SEO copy are written in the default locale only
+    const isDefaultLocale = locale === DEFAULT_LOCALE;
+    const tagDescription = tagData && isDefaultLocale ? tagData.data.description : null;
+    const params = { name: tagName, site: settings.siteName };
+    const basePath = localizePath(`/tags/${tagSlug}`, locale);
+
+    const paginate = (seo: SEOData) =>
+      paginateArchiveSEO(seo, settings, basePath, currentPage, totalPages, locale);
 
     // Use custom SEO if available, otherwise fallback to generated SEO
-    if (tagData?.data.seo) {
+    if (tagData?.data.seo && isDefaultLocale) {
       const customSEO = tagData.data.seo;
-      return {
-        pageTitle: customSEO.title || `Posts tagged with: ${tagName} - ${settings.siteName}`,
-        description: customSEO.description || tagDescription || 
-          `Browse all posts tagged with ${tagName} from ${settings.siteName}.`,
+      return paginate({
+        pageTitle: customSEO.title || t('archive.tagTitle', params),
+        description: customSEO.description || tagDescription || t('archive.tagDescription', params),
         ogimage: {
-          url: customSEO.ogImage || settings.defaultOgImage || "/og-image.jpg",
-          alt: customSEO.ogImageAlt || `${settings.siteName} - Posts tagged with ${tagName}`,
+          url: customSEO.ogImage || settings.defaultOgImage || getOgImageUrl(settings.siteUrl, `/tags/${tagSlug}`),
+          alt: customSEO.ogImageAlt || t('archive.tagImageAlt', params),
         },
-        canonicalUrl: `${settings.siteUrl}/tags/${tagSlug}`,
+        canonicalUrl: `${settings.siteUrl}${basePath}`,
         keywords: customSEO.keywords,
         ogImage: customSEO.ogImage,
         ogImageAlt: customSEO.ogImageAlt,
-      };
+      });
     }
 
     // Fallback to default SEO generation
-    const pageTitle = `Posts tagged with: ${tagName} - ${settings.siteName}`;
-    const description = tagDescription || 
-      `Browse all posts tagged with ${tagName} from ${settings.siteName}.`;
+    const pageTitle = t('archive.tagTitle', params);
+    const description = tagDescription || t('archive.tagDescription', params);
 
     const ogimage = {
-      url: settings.defaultOgImage || "/og-image.jpg",
-      alt: `${settings.siteName} - Posts tagged with ${tagName}`,
+      url: settings.defaultOgImage || getOgImageUrl(settings.siteUrl, `/tags/${tagSlug}`),
+      alt: t('archive.tagImageAlt', params),
     };
 
-    const canonicalUrl = `${settings.siteUrl}/tags/${tagSlug}`;
+    const canonicalUrl = `${settings.siteUrl}${basePath}`;
 
-    return {
+    return paginate({
       pageTitle,
       description,
       ogimage,
       canonicalUrl,
-    };
+    });
   } catch (error) {
     console.error(`Error generating tag SEO for ${tagSlug}:`, error);
     
@@ -647,26 +1077,37 @@ export async function generateTagSEO(tagSlug: string): Promise<SEOData> {
 /**
  * Generate SEO data for author page
  */
-export async function generateAuthorSEO(author: any): Promise<SEOData> {
+export async function generateAuthorSEO(
+  author: any,
+  currentPage: number = 1,
+  totalPages: number = 1,
+  locale: string = DEFAULT_LOCALE
+): Promise<SEOData> {
   const settings = await getSiteSettings();
+  const t = useTranslations(locale);
+  const params = { name: author.data.name, site: settings.siteName };
   
-  const pageTitle = `${author.data.name} - Author`;
-  const description = author.data.bio || 
-    `Articles by ${author.data.name} on ${settings.siteName}`;
+  // Author bios are written in the default locale only
+  const pageTitle = t('archive.authorTitle', params);
+  const description = (locale === DEFAULT_LOCALE && author.data.bio) || t('archive.authorDescription', params);
 
+  const authorPath = `/authors/${author.data?.slug || author.slug}`;
+  const basePath = localizePath(authorPath, locale);
+
+  // The generated card shows the avatar; a bare avatar is too small for social previews
   const ogimage = {
-    url: author.data.avatar || settings.defaultOgImage || "/og-image.jpg",
-    alt: `${author.data.name} - Author at ${settings.siteName}`,
+    url: settings.defaultOgImage || getOgImageUrl(settings.siteUrl, authorPath),
+    alt: t('archive.authorImageAlt', params),
   };
 
-  const canonicalUrl = `${settings.siteUrl}/authors/${author.data?.slug || author.slug}`;
+  const canonicalUrl = `${settings.siteUrl}${basePath}`;
 
-  return {
+  return paginateArchiveSEO({
     pageTitle,
     description,
     ogimage,
     canonicalUrl
-  };
+  }, settings, basePath, currentPage, totalPages, locale);
 }
 
 /**
@@ -680,7 +1121,7 @@ export async function generateHomepageSEO(): Promise<SEOData> {
   const description = settings.siteDescription;
 
   const ogimage = {
-    url: settings.defaultOgImage || "/og-image.jpg",
+    url: settings.defaultOgImage || getOgImageUrl(settings.siteUrl, '/'),
     alt: `${settings.siteName} - Lightning-fast blog platform built with Astro.`,
   };
 
@@ -699,17 +1140,45 @@ export async function generateHomepageSEO(): Promise<SEOData> {
 // ==========================================
 
 /**
- * Generate structured data for blog listing
+ * BlogPosting summary of a post, as listed on archive pages
  */
-export async function generateBlogListingSchema(posts: BlogPost[], currentPage: number = 1) {
+function toBlogPostingListItem(post: BlogPost, settings: SiteSettings) {
+  return {
+    "@type": "BlogPosting",
+    "headline": post.data.title,
+    "description": post.data.description,
+    "url": `${settings.siteUrl}${getPostPath(post)}`,
+    "inLanguage": getLanguageTag(getPostLocale(post)),
+    "datePublished": post.data.pubDate.toISOString(),
+    "dateModified": getPostModifiedDate(post.data).toISOString(),
+    "author": {
+      "@type": "Person",
+      "name": settings.author
+    },
+    "publisher": {
+      "@type": "Organization",
+      "name": settings.siteName
+    }
+  };
+}
+
+/**
+ * Generate structured data for one page of the blog listing
+ */
+export async function generateBlogListingSchema(
+  page: PaginatedBlogData,
+  locale: string = DEFAULT_LOCALE
+) {
   const settings = await getSiteSettings();
+  const t = useTranslations(locale);
   
   return {
     "@context": "https://schema.org",
     "@type": "Blog",
-    "name": `${settings.siteName} Blog`,
+    "name": t('blog.schemaName', { site: settings.siteName }),
     "description": settings.siteDescription,
-    "url": `${settings.siteUrl}/blog`,
+    "url": `${settings.siteUrl}${page.url.current}`,
+    "inLanguage": getLanguageTag(locale),
     "author": {
       "@type": "Person",
       "name": settings.author
@@ -719,30 +1188,66 @@ export async function generateBlogListingSchema(posts: BlogPost[], currentPage:
       "name": settings.siteName,
       "url": settings.siteUrl
     },
-    "mainEntity": {
-      "@type": "ItemList",
-      "numberOfItems": posts.length,
-      "itemListOrder": "https://schema.org/ItemListOrderDescending",
-      "itemListElement": posts.map((post, index) => ({
-        "@type": "ListItem",
-        "position": ((currentPage - 1) * 5) + index + 1,
-        "item": {
-          "@type": "BlogPosting",
-          "headline": post.data.title,
-          "description": post.data.description,
-          "url": `${settings.siteUrl}/blog/${post.id}`,
-          "datePublished": post.data.pubDate.toISOString(),
-          "author": {
-            "@type": "Person",
-            "name": settings.author
-          },
-          "publisher": {
-            "@type": "Organization",
-            "name": settings.siteName
-          }
-        }
-      }))
-    }
+    "mainEntity": generatePaginatedItemList(
+      page.data.map(post => toBlogPostingListItem(post, settings)),
+      page
+    )
+  };
+}
+
+/**
+ * Generate CollectionPage structured data for one page of a category, tag or author archive
+ */
+export async function generateArchiveSchema(
+  name: string,
+  description: string,
+  page: PaginatedBlogData,
+  locale: string = DEFAULT_LOCALE
+) {
+  const settings = await getSiteSettings();
+
+  return {
+    "@context": "https://schema.org",
+    "@type": "CollectionPage",
+    "name": name,
+    "description": description,
+    "url": `${settings.siteUrl}${page.url.current}`,
+    "inLanguage": getLanguageTag(locale),
+    "isPartOf": {
+      "@type": "WebSite",
+      "name": settings.siteName,
+      "url": settings.siteUrl
+    },
+    "mainEntity": generatePaginatedItemList(
+      page.data.map(post => toBlogPostingListItem(post, settings)),
+      page
+    )
+  };
+}
+
+/**
+ * Generate structured data for a series page (parts listed in reading order)
+ */
+export async function generateSeriesSchema(
+  series: CollectionEntry<'series'>,
+  posts: BlogPost[],
+  locale: string = DEFAULT_LOCALE
+) {
+  const settings = await getSiteSettings();
+
+  return {
+    "@context": "https://schema.org",
+    "@type": "CreativeWorkSeries",
+    "name": series.data.title,
+    ...(series.data.description && { "description": series.data.description }),
+    "url": `${settings.siteUrl}${localizePath(`/series/${series.data.slug}`, locale)}`,
+    "hasPart": posts.map((post, index) => ({
+      "@type": "BlogPosting",
+      "headline": post.data.title,
+      "url": `${settings.siteUrl}${getPostPath(post)}`,
+      "position": index + 1,
+      "datePublished": post.data.pubDate.toISOString()
+    }))
   };
 }
 
@@ -765,10 +1270,10 @@ export function getCurrentURL(siteUrl: string, pathname: string): string {
 }
 
 /**
- * Format date for display
+ * Format date for display in a locale's language
  */
-export function formatDate(date: Date): string {
-  return new Intl.DateTimeFormat('en-US', {
+export function formatDate(date: Date, locale: string = DEFAULT_LOCALE): string {
+  return new Intl.DateTimeFormat(getLanguageTag(locale), {
     year: 'numeric',
     month: 'long',
     day: 'numeric'
@@ -788,8 +1293,7 @@ export function calculateReadingTime(content: string): number {
  * Extract frontmatter for compatibility
  */
 export function extractFrontmatter(post: BlogPost) {
-  const authorId = typeof post.data.author === 'string' ? 
-    post.data.author : post.data.author?.id;
+  const authorIds = getPostAuthorIds(post.data);
   const categoryId = typeof post.data.category === 'string' ? 
     post.data.category : post.data.category?.id;
   const tagIds = post.data.tags.map(tag => {
@@ -799,14 +1303,28 @@ export function extractFrontmatter(post: BlogPost) {
 
   return {
     title: post.data.title,
-    author: authorId,
+    // Lead author, kept for single-author consumers
+    author: authorIds[0],
+    authors: authorIds,
+    ...getPostReviewerIds(post.data),
     category: categoryId,
     description: post.data.description,
     pubDate: post.data.pubDate,
+    updatedDate: post.data.updatedDate,
+    lastReviewed: post.data.lastReviewed,
     image: post.data.image,
     tags: tagIds,
     featured: post.data.featured,
+    noindex: post.data.noindex,
     status: post.data.status,
+    locale: getPostLocale(post),
+    series: getPostSeriesId(post),
+    seriesOrder: post.data.seriesOrder,
+    review: post.data.review && {
+      product: typeof post.data.review.product === 'string' ?
+        post.data.review.product : post.data.review.product.id,
+      rating: post.data.review.rating,
+    },
   };
 }
 
@@ -832,10 +1350,12 @@ export async function getRecentPosts(limit: number = 5): Promise<BlogPost[]> {
 }
 
 /**
- * Get related posts based on tags and category
+ * Get related posts based on series, tags and category
+ * Other parts of the same series always rank first.
  */
 export async function getRelatedPosts(currentPost: BlogPost, limit: number = 3): Promise<BlogPost[]> {
-  const allPosts = await getAllPosts();
+  const allPosts = await getAllPosts(getPostLocale(currentPost));
+  const currentPostSeries = getPostSeriesId(currentPost);
   const currentPostTags = currentPost.data.tags.map(tag => 
     typeof tag === 'string' ? tag : tag.id
   );
@@ -847,6 +1367,11 @@ export async function getRelatedPosts(currentPost: BlogPost, limit: number = 3):
     .filter(post => post.id !== currentPost.id)
     .map(post => {
       let score = 0;
+
+      // Same series outranks any number of shared tags
+      if (currentPostSeries && getPostSeriesId(post) === currentPostSeries) {
+        score += 100;
+      }
       
       // Same category gets higher score
       const postCategory = typeof post.data.category === 'string' ? 
@@ -873,22 +1398,25 @@ export async function getRelatedPosts(currentPost: BlogPost, limit: number = 3):
 }
 
 /**
- * Search posts by title and content
+ * Search posts using the full-text index (ranked by relevance)
  */
 export async function searchPosts(query: string, limit?: number): Promise<BlogPost[]> {
   if (!query.trim()) return [];
   
-  const allPosts = await getAllPosts();
-  const searchTerm = query.toLowerCase();
+  // Cached index of every post; getAllPosts() decides which ones are visible
+  const [allPosts, index] = await Promise.all([
+    getAllPosts(),
+    getSearchIndex({ includeDrafts: true }),
+  ]);
+  const postsById = new Map(allPosts.map(post => [post.id, post]));
   
-  const matchingPosts = allPosts.filter(post => {
-    const title = post.data.title.toLowerCase();
-    const description = post.data.description?.toLowerCase() || '';
-    
-    return title.includes(searchTerm) || description.includes(searchTerm);
-  });
+  // Hits come back ranked by relevance
+  const { hits } = searchIndex(index, query, { limit: index.documents.length });
   
-  return limit ? matchingPosts.slice(0, limit) : matchingPosts;
+  return hits
+    .map(hit => postsById.get(hit.id))
+    .filter((post): post is BlogPost => post !== undefined)
+    .slice(0, limit);
 }
 
 /**
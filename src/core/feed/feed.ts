@@ -0,0 +1,274 @@
+// src/core/feed/feed.ts
+// RSS 2.0, ATOM 1.0 & JSON FEED 1.1 RENDERING - PURE FUNCTIONS, NO ASTRO CONTENT DEPENDENCIES
+
+import { getRssString, type RSSFeedItem } from '@astrojs/rss';
+import { escapeXml } from '../../utils/xml';
+
+// ==========================================
+// TYPES & INTERFACES
+// ==========================================
+
+export type FeedFormat = 'rss' | 'atom' | 'json';
+
+export interface FeedAuthor {
+  name: string;
+  email?: string;
+  url?: string;
+  avatar?: string;
+}
+
+export interface FeedEnclosure {
+  url: string;
+  type: string;
+  alt?: string;
+}
+
+export interface FeedItem {
+  id: string;
+  url: string;
+  title: string;
+  summary: string;
+  // Full rendered HTML, only when the feed includes full content
+  content?: string;
+  published: Date;
+  updated?: Date;
+  authors: FeedAuthor[];
+  categories: string[];
+  image?: FeedEnclosure;
+}
+
+/**
+ * One feed, independent of its output format
+ */
+export interface Feed {
+  title: string;
+  description: string;
+  // BCP 47 language tag, e.g. "en-US"
+  language: string;
+  siteUrl: string;
+  // Absolute URL of the page the feed belongs to
+  homeUrl: string;
+  // Absolute URLs of this feed in every format
+  feedUrls: Record<FeedFormat, string>;
+  author: FeedAuthor;
+  logo?: string;
+  icon?: string;
+  items: FeedItem[];
+}
+
+// ==========================================
+// CONFIGURATION
+// ==========================================
+
+export const FEED_CONTENT_TYPES: Record<FeedFormat, string> = {
+  rss: 'application/rss+xml; charset=utf-8',
+  atom: 'application/atom+xml; charset=utf-8',
+  json: 'application/feed+json; charset=utf-8',
+};
+
+/**
+ * File names of a scoped feed, e.g. /categories/<slug>/feed.xml (/es/categories/<slug>/feed.xml)
+ */
+export const SCOPED_FEED_FILES: Record<string, FeedFormat> = {
+  'feed.xml': 'rss',
+  'atom.xml': 'atom',
+  'feed.json': 'json',
+};
+
+const JSON_FEED_VERSION = 'https://jsonfeed.org/version/1.1';
+const ATOM_NAMESPACE = 'http://www.w3.org/2005/Atom';
+
+const MIME_TYPES: Record<string, string> = {
+  jpg: 'image/jpeg',
+  jpeg: 'image/jpeg',
+  png: 'image/png',
+  gif: 'image/gif',
+  webp: 'image/webp',
+  avif: 'image/avif',
+  svg: 'image/svg+xml',
+  mp3: 'audio/mpeg',
+  m4a: 'audio/mp4',
+  mp4: 'video/mp4',
+  webm: 'video/webm',
+  pdf: 'application/pdf',
+};
+
+// ==========================================
+// HELPERS
+// ==========================================
+
+/**
+ * MIME type from a URL's file extension, ignoring query strings
+ * @returns undefined for unknown or missing extensions
+ */
+export function getMimeType(url: string): string | undefined {
+  const pathname = url.split(/[?#]/)[0];
+  const extension = pathname.match(/\.([a-z0-9]+)$/i)?.[1]?.toLowerCase();
+  return extension ? MIME_TYPES[extension] : undefined;
+}
+
+/**
+ * Make a root-relative URL absolute
+ */
+export function toAbsoluteUrl(url: string, siteUrl: string): string {
+  return url.startsWith('/') && !url.startsWith('//')
+    ? `${siteUrl.replace(/\/$/, '')}${url}`
+    : url;
+}
+
+/**
+ * Root-relative href/src attributes in rendered HTML made absolute, so feed readers can resolve them
+ */
+export function absolutizeHtmlUrls(html: string, siteUrl: string): string {
+  return html.replace(/\b(href|src)="(\/(?!\/)[^"]*)"/g, (_, attribute: string, url: string) =>
+    `${attribute}="${toAbsoluteUrl(url, siteUrl)}"`);
+}
+
+function getLastUpdated(feed: Feed): Date {
+  const dates = feed.items.map(item => (item.updated || item.published).valueOf());
+  return dates.length > 0 ? new Date(Math.max(...dates)) : new Date();
+}
+
+// ==========================================
+// RSS 2.0
+// ==========================================
+
+export function renderRssFeed(feed: Feed): Promise<string> {
+  const items: RSSFeedItem[] = feed.items.map(item => ({
+    title: item.title,
+    link: item.url,
+    description: item.summary,
+    content: item.content,
+    pubDate: item.published,
+    author: item.authors[0]?.email
+      ? `${item.authors[0].email} (${item.authors.map(author => author.name).join(', ')})`
+      : undefined,
+    categories: item.categories,
+    // RSS 2.0 has no update date; feed readers understand Atom's
+    customData: item.updated && `<atom:updated>${item.updated.toISOString()}</atom:updated>`,
+    // Length is unknown without fetching the file; 0 is the accepted placeholder
+    enclosure: item.image && { url: item.image.url, type: item.image.type, length: 0 },
+  }));
+
+  const editor = feed.author.email ? `${feed.author.email} (${feed.author.name})` : undefined;
+
+  return getRssString({
+    title: feed.title,
+    description: feed.description,
+    site: feed.siteUrl,
+    items,
+    xmlns: { atom: ATOM_NAMESPACE },
+    customData: [
+      `<language>${escapeXml(feed.language)}</language>`,
+      `<atom:link href="${escapeXml(feed.feedUrls.rss)}" rel="self" type="application/rss+xml"/>`,
+      editor && `<managingEditor>${escapeXml(editor)}</managingEditor>`,
+      editor && `<webMaster>${escapeXml(editor)}</webMaster>`,
+      `<lastBuildDate>${getLastUpdated(feed).toUTCString()}</lastBuildDate>`,
+      '<docs>https://www.rssboard.org/rss-specification</docs>',
+      '<ttl>60</ttl>',
+      feed.logo && `<image><url>${escapeXml(feed.logo)}</url><title>${escapeXml(feed.title)}</title><link>${escapeXml(feed.homeUrl)}</link></image>`,
+    ].filter(Boolean).join(''),
+  });
+}
+
+// ==========================================
+// ATOM 1.0
+// ==========================================
+
+function renderAtomPerson(tag: 'author' | 'contributor', person: FeedAuthor): string {
+  return `<${tag}><name>${escapeXml(person.name)}</name>${person.email ? `<email>${escapeXml(person.email)}</email>` : ''}${person.url ? `<uri>${escapeXml(person.url)}</uri>` : ''}</${tag}>`;
+}
+
+function renderAtomEntry(item: FeedItem): string {
+  return [
+    '<entry>',
+    `<id>${escapeXml(item.id)}</id>`,
+    `<title>${escapeXml(item.title)}</title>`,
+    `<link rel="alternate" type="text/html" href="${escapeXml(item.url)}"/>`,
+    `<published>${item.published.toISOString()}</published>`,
+    `<updated>${(item.updated || item.published).toISOString()}</updated>`,
+    ...item.authors.map(author => renderAtomPerson('author', author)),
+    ...item.categories.map(category => `<category term="${escapeXml(category)}"/>`),
+    `<summary type="text">${escapeXml(item.summary)}</summary>`,
+    item.content ? `<content type="html">${escapeXml(item.content)}</content>` : '',
+    item.image ? `<link rel="enclosure" type="${escapeXml(item.image.type)}" href="${escapeXml(item.image.url)}"/>` : '',
+    '</entry>',
+  ].join('');
+}
+
+export function renderAtomFeed(feed: Feed): string {
+  return [
+    '<?xml version="1.0" encoding="utf-8"?>',
+    `<feed xmlns="${ATOM_NAMESPACE}" xml:lang="${escapeXml(feed.language)}">`,
+    `<id>${escapeXml(feed.homeUrl)}</id>`,
+    `<title>${escapeXml(feed.title)}</title>`,
+    `<subtitle>${escapeXml(feed.description)}</subtitle>`,
+    `<link rel="alternate" type="text/html" href="${escapeXml(feed.homeUrl)}"/>`,
+    `<link rel="self" type="application/atom+xml" href="${escapeXml(feed.feedUrls.atom)}"/>`,
+    `<updated>${getLastUpdated(feed).toISOString()}</updated>`,
+    renderAtomPerson('author', feed.author),
+    feed.icon ? `<icon>${escapeXml(feed.icon)}</icon>` : '',
+    feed.logo ? `<logo>${escapeXml(feed.logo)}</logo>` : '',
+    '<generator uri="https://astro.build">Astro</generator>',
+    ...feed.items.map(renderAtomEntry),
+    '</feed>',
+  ].filter(Boolean).join('\n');
+}
+
+// ==========================================
+// JSON FEED 1.1
+// ==========================================
+
+function toJsonFeedAuthor(author: FeedAuthor) {
+  return {
+    name: author.name,
+    ...(author.url && { url: author.url }),
+    ...(author.avatar && { avatar: author.avatar }),
+  };
+}
+
+export function renderJsonFeed(feed: Feed): string {
+  return JSON.stringify({
+    version: JSON_FEED_VERSION,
+    title: feed.title,
+    description: feed.description,
+    home_page_url: feed.homeUrl,
+    feed_url: feed.feedUrls.json,
+    language: feed.language,
+    ...(feed.icon && { icon: feed.icon }),
+    ...(feed.logo && { favicon: feed.logo }),
+    authors: [toJsonFeedAuthor(feed.author)],
+    items: feed.items.map(item => ({
+      id: item.id,
+      url: item.url,
+      title: item.title,
+      summary: item.summary,
+      // JSON Feed requires content_html or content_text
+      ...(item.content ? { content_html: item.content } : { content_text: item.summary }),
+      ...(item.image && { image: item.image.url }),
+      date_published: item.published.toISOString(),
+      ...(item.updated && { date_modified: item.updated.toISOString() }),
+      authors: item.authors.map(toJsonFeedAuthor),
+      tags: item.categories,
+      ...(item.image && {
+        attachments: [{ url: item.image.url, mime_type: item.image.type }],
+      }),
+    })),
+  }, null, 2);
+}
+
+/**
+ * Render a feed in the given format as a Response
+ */
+export async function renderFeedResponse(feed: Feed, format: FeedFormat): Promise<Response> {
+  const body = format === 'rss'
+    ? await renderRssFeed(feed)
+    : format === 'atom' ? renderAtomFeed(feed) : renderJsonFeed(feed);
+
+  return new Response(body, {
+    headers: {
+      'Content-Type': FEED_CONTENT_TYPES[format],
+      'Cache-Control': 'public, max-age=3600',
+    },
+  });
+}
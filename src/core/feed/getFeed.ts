@@ -0,0 +1,276 @@
+// src/core/feed/getFeed.ts
+import { getCollection, render, type CollectionEntry } from 'astro:content';
+import { experimental_AstroContainer as AstroContainer } from 'astro/container';
+import { loadRenderers } from 'astro:container';
+import { getContainerRenderer as getMDXRenderer } from '@astrojs/mdx';
+import { getAllPosts, getPublishedPosts, getSiteSettings, type BlogPost, type SiteSettings } from '../blogLogic';
+import { DEFAULT_LOCALE, LOCALE_CODES, getLanguageTag, getLocaleParam, localizePath, type Locale } from '../i18n/locales';
+import { getPostPath } from '../i18n/translations';
+import { mdxComponents } from '../../components/mdxComponents';
+import { getPostModifiedDate, isPostModified } from '../../utils/postDates';
+import { getPostAuthorIds, isPostByAuthor } from '../../utils/postAuthors';
+import { getCategoryDescendantIds, getCategoryPath } from '../../utils/categoryTree';
+import { getPostTagIds, type TagNode } from '../../utils/tagAliases';
+import {
+  absolutizeHtmlUrls,
+  getMimeType,
+  SCOPED_FEED_FILES,
+  toAbsoluteUrl,
+  type Feed,
+  type FeedAuthor,
+  type FeedFormat,
+  type FeedItem,
+} from './feed';
+
+export type FeedScopeType = 'category' | 'tag' | 'author';
+
+export interface FeedScope {
+  type: FeedScopeType;
+  // Nested path for categories, e.g. "marketing/email"
+  slug: string;
+}
+
+// Category, tag or author entry a scoped feed is built for
+interface ScopeEntry {
+  id: string;
+  data: { slug?: string; name: string; description?: string; bio?: string };
+}
+
+interface FeedOptions {
+  locale?: Locale;
+  scope?: FeedScope;
+}
+
+const SITE_FEED_PATHS: Record<FeedFormat, string> = {
+  rss: '/rss.xml',
+  atom: '/atom.xml',
+  json: '/feed.json',
+};
+
+const SCOPE_COLLECTIONS = {
+  category: 'categories',
+  tag: 'tags',
+  author: 'authors',
+} as const;
+
+const SCOPE_ROUTES: Record<FeedScopeType, string> = {
+  category: '/categories',
+  tag: '/tags',
+  author: '/authors',
+};
+
+const DEFAULT_FEED_ITEMS = 20;
+
+/**
+ * Whether feeds are switched on in settings
+ */
+export async function isFeedEnabled(): Promise<boolean> {
+  const settings = await getSiteSettings();
+  return settings.rss?.enabled ?? false;
+}
+
+/**
+ * Static paths for the site-wide feed routes, one per locale. Prerendering them lets
+ * /<archive>/<slug>/atom.xml fall through to the scoped feed routes instead of being
+ * taken for a site feed under an unknown locale.
+ */
+export async function generateSiteFeedPaths() {
+  if (!(await isFeedEnabled())) return [];
+
+  return LOCALE_CODES.map(locale => ({
+    params: { locale: getLocaleParam(locale) },
+    props: { locale },
+  }));
+}
+
+/**
+ * Static paths for the per-category, per-tag or per-author feed routes in every locale.
+ * As with the archive pages, prefixed locales only get the feeds of archives they have posts in.
+ */
+export async function generateScopedFeedPaths(type: FeedScopeType, param: string) {
+  if (!(await isFeedEnabled())) return [];
+
+  const entries: ScopeEntry[] = await getCollection(SCOPE_COLLECTIONS[type]);
+  const [categories, tags] = await Promise.all([getCollection('categories'), getCollection('tags')]);
+  const paths = [];
+
+  for (const locale of LOCALE_CODES) {
+    const posts = await getAllPosts(locale);
+
+    for (const entry of entries) {
+      const scopeIds = getScopeIds(type, categories, entry);
+      if (locale !== DEFAULT_LOCALE && !posts.some(post => matchesScope(post, type, scopeIds, tags))) continue;
+
+      paths.push(...Object.keys(SCOPED_FEED_FILES).map(feed => ({
+        params: { locale: getLocaleParam(locale), [param]: getScopeSlug(type, entries, entry), feed },
+        props: { locale },
+      })));
+    }
+  }
+
+  return paths;
+}
+
+/**
+ * URL segment of a scope entry: the slug, or the nested path of a category
+ */
+function getScopeSlug(type: FeedScopeType, entries: ScopeEntry[], entry: ScopeEntry): string {
+  return type === 'category' ? getCategoryPath(entries, entry.id) : entry.data.slug || entry.id;
+}
+
+/**
+ * IDs a scope matches: the entry itself, plus its subcategories for a category feed
+ */
+function getScopeIds(type: FeedScopeType, categories: CollectionEntry<'categories'>[], entry: ScopeEntry): string[] {
+  return type === 'category' ? getCategoryDescendantIds(categories, entry.id) : [entry.id];
+}
+
+/**
+ * @param scopeIds - The scope entry, plus its subcategories for a category feed
+ * @param tags - All tags, so posts tagged with an alias match the canonical tag
+ */
+function matchesScope(post: BlogPost, type: FeedScopeType, scopeIds: string[], tags: TagNode[]): boolean {
+  switch (type) {
+    case 'category':
+      return scopeIds.includes(post.data.category.id);
+    case 'tag':
+      return getPostTagIds(tags, post.data.tags).some(tagId => scopeIds.includes(tagId));
+    case 'author':
+      return scopeIds.some(scopeId => isPostByAuthor(post.data, scopeId));
+  }
+}
+
+/**
+ * Full post HTML for feed readers: scripts, styles and JSON-LD stripped, URLs absolute
+ */
+async function renderPostHtml(container: AstroContainer, post: BlogPost, siteUrl: string): Promise<string> {
+  const { Content } = await render(post);
+  const html = await container.renderToString(Content, {
+    props: { components: mdxComponents },
+    // Blocks skip their own JSON-LD, as on the post page
+    locals: { blockSchemasInGraph: true },
+  });
+
+  return absolutizeHtmlUrls(
+    html
+      .replace(/<script\b[\s\S]*?<\/script>/gi, '')
+      .replace(/<style\b[\s\S]*?<\/style>/gi, '')
+      .trim(),
+    siteUrl
+  );
+}
+
+function getFeedAuthor(author: CollectionEntry<'authors'> | undefined, settings: SiteSettings, locale: Locale): FeedAuthor {
+  if (!author) {
+    return { name: settings.author, email: settings.email };
+  }
+
+  return {
+    name: author.data.name,
+    email: author.data.email || settings.email,
+    url: `${settings.siteUrl}${localizePath(`/authors/${author.data.slug}`, locale)}`,
+    avatar: author.data.avatar && toAbsoluteUrl(author.data.avatar, settings.siteUrl),
+  };
+}
+
+/**
+ * Build the site-wide feed for a locale, or a category/tag/author feed
+ * @returns null when feeds are disabled or the scope doesn't exist
+ */
+export async function getFeed(options: FeedOptions = {}): Promise<Feed | null> {
+  const { locale = DEFAULT_LOCALE, scope } = options;
+  const settings = await getSiteSettings();
+  if (!settings.rss?.enabled) return null;
+
+  const [posts, categories, tags, authors] = await Promise.all([
+    getPublishedPosts(locale),
+    getCollection('categories'),
+    getCollection('tags'),
+    getCollection('authors'),
+  ]);
+
+  let title = settings.siteName;
+  let description = settings.siteDescription;
+  let basePath = localizePath('/', locale);
+  let feedUrls = Object.fromEntries(
+    Object.entries(SITE_FEED_PATHS).map(([format, path]) =>
+      [format, `${settings.siteUrl}${localizePath(path, locale)}`])
+  ) as Record<FeedFormat, string>;
+  let scopedPosts = posts;
+
+  if (scope) {
+    const scopeEntries: ScopeEntry[] =
+      scope.type === 'category' ? categories : scope.type === 'tag' ? tags : authors;
+    const entry = scopeEntries.find(item => getScopeSlug(scope.type, scopeEntries, item) === scope.slug);
+    if (!entry) return null;
+
+    title = `${entry.data.name} - ${settings.siteName}`;
+    // Descriptions and bios are written in the default locale only
+    if (locale === DEFAULT_LOCALE) {
+      description = entry.data.description || entry.data.bio || description;
+    }
+    basePath = localizePath(`${SCOPE_ROUTES[scope.type]}/${scope.slug}`, locale);
+    feedUrls = Object.fromEntries(
+      Object.entries(SCOPED_FEED_FILES).map(([file, format]) => [format, `${settings.siteUrl}${basePath}/${file}`])
+    ) as Record<FeedFormat, string>;
+    // Category feeds include posts in subcategories
+    const scopeIds = getScopeIds(scope.type, categories, entry);
+    scopedPosts = posts.filter(post => matchesScope(post, scope.type, scopeIds, tags));
+  }
+
+  const limitedPosts = scopedPosts.slice(0, settings.rss.itemsPerPage || DEFAULT_FEED_ITEMS);
+
+  let container: AstroContainer | undefined;
+  if (settings.rss.fullContent) {
+    container = await AstroContainer.create({ renderers: await loadRenderers([getMDXRenderer()]) });
+  }
+
+  const categoryNames = new Map(categories.map(category => [category.id, category.data.name]));
+  const tagNames = new Map(tags.map(tag => [tag.id, tag.data.name]));
+
+  const items: FeedItem[] = [];
+  for (const post of limitedPosts) {
+    const url = `${settings.siteUrl}${getPostPath(post)}`;
+    const imageUrl = post.data.image && toAbsoluteUrl(post.data.image.url, settings.siteUrl);
+    const imageType = imageUrl && getMimeType(imageUrl);
+
+    let content: string | undefined;
+    if (container) {
+      try {
+        content = await renderPostHtml(container, post, settings.siteUrl);
+      } catch (error) {
+        console.error(`Feed: Failed to render content for "${post.id}":`, error);
+      }
+    }
+
+    items.push({
+      id: url,
+      url,
+      title: post.data.title,
+      summary: post.data.description,
+      content,
+      published: post.data.pubDate,
+      updated: isPostModified(post.data) ? getPostModifiedDate(post.data) : undefined,
+      authors: getPostAuthorIds(post.data).map(authorId => getFeedAuthor(authors.find(author => author.id === authorId), settings, locale)),
+      categories: [
+        categoryNames.get(post.data.category.id),
+        ...getPostTagIds(tags, post.data.tags).map(tagId => tagNames.get(tagId) || tagId),
+      ].filter((name): name is string => Boolean(name)),
+      // Enclosures need a MIME type; skip images whose type can't be told from the URL
+      image: imageUrl && imageType ? { url: imageUrl, type: imageType, alt: post.data.image?.alt } : undefined,
+    });
+  }
+
+  return {
+    title,
+    description,
+    language: getLanguageTag(locale),
+    siteUrl: settings.siteUrl,
+    homeUrl: `${settings.siteUrl}${basePath}`,
+    feedUrls,
+    author: { name: settings.author, email: settings.email, url: settings.siteUrl },
+    logo: settings.logo ? toAbsoluteUrl(settings.logo, settings.siteUrl) : undefined,
+    icon: `${settings.siteUrl}/favicon.png`,
+    items,
+  };
+}
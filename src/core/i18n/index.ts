@@ -0,0 +1,34 @@
+// ==========================================
+// FILE: src/core/i18n/index.ts
+// ==========================================
+// Core i18n exports - locales, UI labels and translation links
+export {
+  LOCALES,
+  DEFAULT_LOCALE,
+  LOCALE_CODES,
+  isLocale,
+  getPrefixedLocales,
+  getLanguageTag,
+  getLocaleFromPath,
+  stripLocaleFromPath,
+  localizePath,
+  getLocaleParam,
+  getLocaleFromParam,
+} from './locales';
+
+export { ui, useTranslations } from './ui';
+
+export {
+  getPostLocale,
+  getPostSlug,
+  getPostPath,
+  isPostInLocale,
+  getTranslationKey,
+  getPostTranslations,
+  buildAlternateLinks,
+  getPostAlternateLinks,
+} from './translations';
+
+export type { Locale, LocaleConfig } from './locales';
+export type { UiKey } from './ui';
+export type { LocalizedEntry, AlternateLink } from './translations';
@@ -0,0 +1,103 @@
+// src/core/i18n/locales.ts
+// SUPPORTED LOCALES & LOCALE-PREFIXED PATHS - UI INDEPENDENT
+
+// ==========================================
+// CONFIGURATION
+// ==========================================
+
+export interface LocaleConfig {
+  /** Name shown in the language switcher, in its own language */
+  label: string;
+  /** BCP 47 tag for <html lang>, hreflang, RSS <language> and JSON-LD inLanguage */
+  languageTag: string;
+  /** Open Graph locale (og:locale) */
+  ogLocale: string;
+}
+
+/**
+ * Locales the site publishes in
+ * The default locale is served without a prefix (/blog/...), the others under /<locale>/...
+ */
+export const LOCALES = {
+  en: { label: 'English', languageTag: 'en-US', ogLocale: 'en_US' },
+  es: { label: 'Español', languageTag: 'es-ES', ogLocale: 'es_ES' },
+} satisfies Record<string, LocaleConfig>;
+
+export type Locale = keyof typeof LOCALES;
+
+export const DEFAULT_LOCALE: Locale = 'en';
+
+export const LOCALE_CODES = Object.keys(LOCALES) as [Locale, ...Locale[]];
+
+// ==========================================
+// LOCALE HELPERS
+// ==========================================
+
+/**
+ * Check whether a string is a supported locale code
+ */
+export function isLocale(value: unknown): value is Locale {
+  return typeof value === 'string' && Object.hasOwn(LOCALES, value);
+}
+
+/**
+ * Locales that get a URL prefix (every locale except the default)
+ */
+export function getPrefixedLocales(): Locale[] {
+  return LOCALE_CODES.filter(locale => locale !== DEFAULT_LOCALE);
+}
+
+/**
+ * BCP 47 language tag for a locale, e.g. "es" -> "es-ES"
+ */
+export function getLanguageTag(locale: string = DEFAULT_LOCALE): string {
+  return isLocale(locale) ? LOCALES[locale].languageTag : LOCALES[DEFAULT_LOCALE].languageTag;
+}
+
+// ==========================================
+// PATHS
+// ==========================================
+
+/**
+ * Read the locale from a pathname (/es/blog/post -> "es", /blog/post -> default)
+ */
+export function getLocaleFromPath(pathname: string): Locale {
+  const [firstSegment] = pathname.split('/').filter(Boolean);
+  return isLocale(firstSegment) && firstSegment !== DEFAULT_LOCALE ? firstSegment : DEFAULT_LOCALE;
+}
+
+/**
+ * Remove the locale prefix from a pathname (/es/blog/post -> /blog/post)
+ */
+export function stripLocaleFromPath(pathname: string): string {
+  const locale = getLocaleFromPath(pathname);
+  if (locale === DEFAULT_LOCALE) return pathname;
+
+  return pathname.replace(new RegExp(`^/${locale}(?=/|$)`), '') || '/';
+}
+
+/**
+ * Prefix a path for a locale (/blog, "es" -> /es/blog); the default locale is unprefixed
+ */
+export function localizePath(path: string, locale: string = DEFAULT_LOCALE): string {
+  const unprefixed = stripLocaleFromPath(path.startsWith('/') ? path : `/${path}`);
+  if (!isLocale(locale) || locale === DEFAULT_LOCALE) return unprefixed;
+
+  return unprefixed === '/' ? `/${locale}` : `/${locale}${unprefixed}`;
+}
+
+/**
+ * Value of a page's [...locale] route param (undefined for the unprefixed default locale)
+ */
+export function getLocaleParam(locale: Locale): string | undefined {
+  return locale === DEFAULT_LOCALE ? undefined : locale;
+}
+
+/**
+ * Locale for a [...locale] route param
+ * @returns null when the param isn't a prefixed locale, so the route should 404
+ */
+export function getLocaleFromParam(param: string | undefined): Locale | null {
+  if (!param) return DEFAULT_LOCALE;
+  return isLocale(param) && param !== DEFAULT_LOCALE ? param : null;
+}
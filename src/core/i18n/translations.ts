@@ -0,0 +1,131 @@
+// src/core/i18n/translations.ts
+// PER-LOCALE POSTS, TRANSLATION LINKS & HREFLANG ALTERNATES - UI INDEPENDENT
+
+import { DEFAULT_LOCALE, getLanguageTag, isLocale, localizePath, type Locale } from './locales';
+
+// ==========================================
+// TYPES & INTERFACES
+// ==========================================
+
+/**
+ * The parts of a blog entry translation linking needs
+ */
+export interface LocalizedEntry {
+  id: string;
+  data: {
+    locale?: string;
+    translationKey?: string;
+  };
+}
+
+export interface AlternateLink {
+  hreflang: string;
+  href: string;
+  locale?: Locale;
+}
+
+// ==========================================
+// POSTS
+// ==========================================
+
+/**
+ * Locale a post is written in: its `locale` frontmatter, else its locale folder
+ * ("es/my-post" -> "es"), else the default locale
+ */
+export function getPostLocale(post: LocalizedEntry): Locale {
+  if (isLocale(post.data.locale)) return post.data.locale;
+
+  const [folder] = post.id.split('/');
+  return post.id.includes('/') && isLocale(folder) ? folder : DEFAULT_LOCALE;
+}
+
+/**
+ * URL slug of a post, without the locale folder
+ * Translations can live in src/content/blog/<locale>/, so "es/my-post" -> "my-post".
+ */
+export function getPostSlug(post: LocalizedEntry): string {
+  const locale = getPostLocale(post);
+  return post.id.startsWith(`${locale}/`) ? post.id.slice(locale.length + 1) : post.id;
+}
+
+/**
+ * Site-relative URL of a post (/blog/my-post or /es/blog/mi-post)
+ */
+export function getPostPath(post: LocalizedEntry): string {
+  return localizePath(`/blog/${getPostSlug(post)}`, getPostLocale(post));
+}
+
+/**
+ * Check whether a post belongs to a locale
+ */
+export function isPostInLocale(post: LocalizedEntry, locale: string = DEFAULT_LOCALE): boolean {
+  return getPostLocale(post) === locale;
+}
+
+/**
+ * Key shared by a post and its translations
+ * Set translationKey to link posts whose slugs differ; otherwise posts with the same slug are linked.
+ */
+export function getTranslationKey(post: LocalizedEntry): string {
+  return post.data.translationKey || getPostSlug(post);
+}
+
+/**
+ * Every version of a post (including itself), keyed by locale
+ */
+export function getPostTranslations<T extends LocalizedEntry>(post: T, allPosts: T[]): Partial<Record<Locale, T>> {
+  const key = getTranslationKey(post);
+  const translations: Partial<Record<Locale, T>> = {};
+
+  for (const candidate of allPosts) {
+    const locale = getPostLocale(candidate);
+    if (getTranslationKey(candidate) === key && !translations[locale]) {
+      translations[locale] = candidate;
+    }
+  }
+
+  translations[getPostLocale(post)] = post;
+  return translations;
+}
+
+// ==========================================
+// HREFLANG
+// ==========================================
+
+/**
+ * hreflang alternates for a set of localized URLs
+ * Adds x-default pointing at the default-locale version when there is one.
+ */
+export function buildAlternateLinks(
+  paths: Partial<Record<Locale, string>>,
+  siteUrl: string
+): AlternateLink[] {
+  const baseUrl = siteUrl.replace(/\/$/, '');
+  const links: AlternateLink[] = Object.entries(paths)
+    .filter((entry): entry is [Locale, string] => isLocale(entry[0]) && Boolean(entry[1]))
+    .map(([locale, path]) => ({ locale, hreflang: getLanguageTag(locale), href: `${baseUrl}${path}` }));
+
+  // A page without translations needs no alternates
+  if (links.length < 2) return [];
+
+  const defaultPath = paths[DEFAULT_LOCALE];
+  if (defaultPath) {
+    links.push({ hreflang: 'x-default', href: `${baseUrl}${defaultPath}` });
+  }
+
+  return links;
+}
+
+/**
+ * hreflang alternates for a post and its translations
+ */
+export function getPostAlternateLinks<T extends LocalizedEntry>(post: T, allPosts: T[], siteUrl: string): AlternateLink[] {
+  const translations = getPostTranslations(post, allPosts);
+  const paths: Partial<Record<Locale, string>> = {};
+
+  for (const [locale, translation] of Object.entries(translations)) {
+    paths[locale as Locale] = getPostPath(translation);
+  }
+
+  return buildAlternateLinks(paths, siteUrl);
+}
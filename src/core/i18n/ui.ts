@@ -0,0 +1,182 @@
+// src/core/i18n/ui.ts
+// TRANSLATED UI LABELS - UI INDEPENDENT
+
+import { DEFAULT_LOCALE, isLocale, type Locale } from './locales';
+
+// ==========================================
+// DICTIONARIES
+// ==========================================
+
+/**
+ * English labels; every other locale must translate each key
+ * Placeholders like {page} are filled in by t(key, params).
+ */
+const en = {
+  'nav.home': 'Home',
+  'nav.blog': 'Blog',
+  'nav.categories': 'Categories',
+  'nav.tags': 'Tags',
+  'nav.authors': 'Authors',
+
+  'blog.badge': 'Articles',
+  'blog.heading': 'All Articles',
+  'blog.intro': 'Discover our curated collection of articles, guides, and insights. From expert tips to in-depth tutorials, explore content that matters to you.',
+  'blog.pageOf': 'Page {page} of {total}',
+  'blog.seoTitle': 'All Posts - {site}',
+  'blog.seoDescription': 'Browse all blog posts from {site}.',
+  'blog.seoDescriptionPaged': 'Browse blog posts from {site} - Page {page} of {total}.',
+  'blog.schemaName': '{site} Blog',
+
+  'pagination.previous': 'Previous',
+  'pagination.next': 'Next',
+  'pagination.page': 'Page {page}',
+
+  'post.readMore': 'Read More',
+  'post.minRead': '{minutes} min read',
+  'post.tableOfContents': 'Table of Contents',
+  'post.tags': 'Tags',
+  'post.aboutAuthor': 'About the Author',
+  'post.viewProfile': 'View Profile',
+  'post.shareArticle': 'Share Article',
+  'post.copyLink': 'Copy Link',
+  'post.relatedTopics': 'Related Topics',
+  'post.availableIn': 'Also available in:',
+  'post.updatedOn': 'Updated',
+  'post.reviewedOn': 'Last reviewed',
+  'post.reviewedBy': 'Reviewed by',
+  'post.factCheckedBy': 'Fact-checked by',
+
+  'series.label': 'Series',
+  'series.partOf': 'Part {position} of {total}',
+  'series.part': 'Part {position}',
+  'series.previous': 'Previous part',
+  'series.next': 'Next part',
+  'series.partCount': '{count} parts',
+  'series.partCountOne': '1 part',
+  'series.seoDescription': 'Read every part of the {title} series from {site}.',
+
+  'archive.category': 'Category',
+  'archive.tag': 'Tag',
+  'archive.author': 'Author',
+  'archive.articleCount': '{count} articles',
+  'archive.articleCountOne': '1 article',
+  'archive.tagArticleCount': '{count} articles with this tag',
+  'archive.tagArticleCountOne': '1 article with this tag',
+  'archive.subcategories': '{name} subcategories',
+  'archive.categoryTitle': '{name} Posts - {site}',
+  'archive.categoryDescription': 'Browse all posts in the {name} category from {site}.',
+  'archive.categoryImageAlt': '{site} - {name} Posts',
+  'archive.tagTitle': 'Posts tagged with: {name} - {site}',
+  'archive.tagDescription': 'Browse all posts tagged with {name} from {site}.',
+  'archive.tagImageAlt': '{site} - Posts tagged with {name}',
+  'archive.authorTitle': '{name} - Author',
+  'archive.authorDescription': 'Articles by {name} on {site}',
+  'archive.authorImageAlt': '{name} - Author at {site}',
+  'archive.articlesBy': 'Articles by {name}',
+  'archive.authorIntro': 'Discover the unique insights and expertise shared by our author',
+  'archive.about': 'About {name}',
+  'archive.expertise': 'Expertise',
+  'archive.credentials': 'Credentials',
+  'archive.awards': 'Awards',
+  'archive.writesAbout': 'Writes about',
+  'archive.jobAt': 'at',
+  'archive.contact': 'Contact',
+  'archive.website': 'Website',
+} as const;
+
+export type UiKey = keyof typeof en;
+
+const es: Record<UiKey, string> = {
+  'nav.home': 'Inicio',
+  'nav.blog': 'Blog',
+  'nav.categories': 'Categorías',
+  'nav.tags': 'Etiquetas',
+  'nav.authors': 'Autores',
+
+  'blog.badge': 'Artículos',
+  'blog.heading': 'Todos los artículos',
+  'blog.intro': 'Descubre nuestra selección de artículos, guías y análisis. Desde consejos de expertos hasta tutoriales en profundidad, explora contenido que te importa.',
+  'blog.pageOf': 'Página {page} de {total}',
+  'blog.seoTitle': 'Todos los artículos - {site}',
+  'blog.seoDescription': 'Explora todos los artículos de {site}.',
+  'blog.seoDescriptionPaged': 'Explora los artículos de {site} - Página {page} de {total}.',
+  'blog.schemaName': 'Blog de {site}',
+
+  'pagination.previous': 'Anterior',
+  'pagination.next': 'Siguiente',
+  'pagination.page': 'Página {page}',
+
+  'post.readMore': 'Leer más',
+  'post.minRead': '{minutes} min de lectura',
+  'post.tableOfContents': 'Índice de contenidos',
+  'post.tags': 'Etiquetas',
+  'post.aboutAuthor': 'Sobre el autor',
+  'post.viewProfile': 'Ver perfil',
+  'post.shareArticle': 'Compartir artículo',
+  'post.copyLink': 'Copiar enlace',
+  'post.relatedTopics': 'Temas relacionados',
+  'post.availableIn': 'También disponible en:',
+  'post.updatedOn': 'Actualizado el',
+  'post.reviewedOn': 'Última revisión:',
+  'post.reviewedBy': 'Revisado por',
+  'post.factCheckedBy': 'Verificado por',
+
+  'series.label': 'Serie',
+  'series.partOf': 'Parte {position} de {total}',
+  'series.part': 'Parte {position}',
+  'series.previous': 'Parte anterior',
+  'series.next': 'Parte siguiente',
+  'series.partCount': '{count} partes',
+  'series.partCountOne': '1 parte',
+  'series.seoDescription': 'Lee todas las partes de la serie {title} en {site}.',
+
+  'archive.category': 'Categoría',
+  'archive.tag': 'Etiqueta',
+  'archive.author': 'Autoría',
+  'archive.articleCount': '{count} artículos',
+  'archive.articleCountOne': '1 artículo',
+  'archive.tagArticleCount': '{count} artículos con esta etiqueta',
+  'archive.tagArticleCountOne': '1 artículo con esta etiqueta',
+  'archive.subcategories': 'Subcategorías de {name}',
+  'archive.categoryTitle': 'Artículos de {name} - {site}',
+  'archive.categoryDescription': 'Explora todos los artículos de la categoría {name} en {site}.',
+  'archive.categoryImageAlt': '{site} - Artículos de {name}',
+  'archive.tagTitle': 'Artículos con la etiqueta: {name} - {site}',
+  'archive.tagDescription': 'Explora todos los artículos con la etiqueta {name} en {site}.',
+  'archive.tagImageAlt': '{site} - Artículos con la etiqueta {name}',
+  'archive.authorTitle': '{name} - Autoría',
+  'archive.authorDescription': 'Artículos de {name} en {site}',
+  'archive.authorImageAlt': '{name} - Autoría en {site}',
+  'archive.articlesBy': 'Artículos de {name}',
+  'archive.authorIntro': 'Descubre los análisis y la experiencia que comparte nuestro equipo',
+  'archive.about': 'Sobre {name}',
+  'archive.expertise': 'Especialidades',
+  'archive.credentials': 'Credenciales',
+  'archive.awards': 'Premios',
+  'archive.writesAbout': 'Escribe sobre',
+  'archive.jobAt': 'en',
+  'archive.contact': 'Contacto',
+  'archive.website': 'Sitio web',
+};
+
+export const ui: Record<Locale, Record<UiKey, string>> = { en, es };
+
+// ==========================================
+// TRANSLATION
+// ==========================================
+
+/**
+ * Get a translate function for a locale
+ * Unknown locales fall back to the default locale.
+ * @example t('blog.pageOf', { page: 2, total: 5 }) -> "Page 2 of 5"
+ */
+export function useTranslations(locale: string = DEFAULT_LOCALE) {
+  const dictionary = ui[isLocale(locale) ? locale : DEFAULT_LOCALE];
+
+  return function t(key: UiKey, params: Record<string, string | number> = {}): string {
+    const template = dictionary[key] ?? ui[DEFAULT_LOCALE][key];
+    return template.replace(/\{(\w+)\}/g, (match, name) =>
+      name in params ? String(params[name]) : match
+    );
+  };
+}
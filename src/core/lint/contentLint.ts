@@ -0,0 +1,553 @@
+// src/core/lint/contentLint.ts
+// CONTENT LINT RULES: CROSS-REFERENCES, SLUGS & SEO QUALITY - UI INDEPENDENT
+
+import { parseFAQFromContent, validateFAQData } from '../../utils/faqParser';
+import { getPostLocale, getPostPath } from '../i18n/translations';
+import { stripLocaleFromPath } from '../i18n/locales';
+import { CONTENT_BLOCKS, findContentBlocks } from '../affiliate/blocks';
+import { matchRedirect, type RedirectRule } from '../redirects/redirects';
+import { SCOPED_FEED_FILES } from '../feed/feed';
+import { getCategoryPath, getCategoryRedirects, hasCategoryCycle } from '../../utils/categoryTree';
+import { getTagAliasMap, getTagRedirects } from '../../utils/tagAliases';
+
+// ==========================================
+// TYPES & INTERFACES
+// ==========================================
+
+export type LintSeverity = 'error' | 'warning';
+
+export interface LintIssue {
+  rule: string;
+  severity: LintSeverity;
+  message: string;
+  collection?: string;
+  id?: string;
+  file?: string;
+}
+
+export interface LintReport {
+  issues: LintIssue[];
+  errorCount: number;
+  warningCount: number;
+  entryCount: number;
+}
+
+/**
+ * A collection entry as stored after `astro sync` (schema defaults applied, references as { id, collection })
+ */
+export interface ContentEntry {
+  id: string;
+  data: Record<string, unknown>;
+  body?: string;
+  filePath?: string;
+}
+
+/**
+ * Every loaded collection, keyed by collection name
+ */
+export type ContentSnapshot = Record<string, ContentEntry[]>;
+
+/**
+ * A site link found in a navigation component
+ */
+export interface NavigationLink {
+  href: string;
+  file: string;
+}
+
+/**
+ * A post file renamed or deleted since the base revision (entry ids, e.g. "es/my-post")
+ */
+export interface PostMove {
+  from: string;
+  // Undefined when the post was deleted
+  to?: string;
+}
+
+export interface LintOptions {
+  navigationLinks?: NavigationLink[];
+  movedPosts?: PostMove[];
+}
+
+// ==========================================
+// CONFIGURATION
+// ==========================================
+
+/**
+ * Title and meta description lengths search results display without truncation
+ */
+export const SEO_LENGTHS = {
+  title: { min: 30, max: 60 },
+  description: { min: 70, max: 160 },
+};
+
+/**
+ * Content routes internal links are checked against (after the locale prefix)
+ */
+const CHECKED_LINK_PREFIXES = ['/blog/', '/categories/', '/tags/', '/authors/', '/series/', '/legal/'];
+
+/**
+ * Archives that also have numbered pages (/tags/seo/2) and scoped feeds (/tags/seo/feed.xml)
+ */
+const ARCHIVE_LINK_PREFIXES = ['/categories/', '/tags/', '/authors/'];
+
+const MAX_REDIRECT_HOPS = 5;
+
+// ==========================================
+// HELPERS
+// ==========================================
+
+function asString(value: unknown): string | undefined {
+  return typeof value === 'string' ? value : undefined;
+}
+
+function asRecord(value: unknown): Record<string, unknown> {
+  return value && typeof value === 'object' && !Array.isArray(value) ? value as Record<string, unknown> : {};
+}
+
+function asArray(value: unknown): unknown[] {
+  return Array.isArray(value) ? value : [];
+}
+
+function isReference(value: unknown): value is { id: string; collection: string } {
+  if (!value || typeof value !== 'object') return false;
+
+  const record = value as Record<string, unknown>;
+  return 'id' in record && typeof record.id === 'string' &&
+    'collection' in record && typeof record.collection === 'string' &&
+    Object.keys(record).length === 2;
+}
+
+/**
+ * Every reference in an entry's data, with the field path it was found at
+ */
+function collectReferences(value: unknown, path: string = ''): Array<{ path: string; id: string; collection: string }> {
+  if (isReference(value)) {
+    return [{ path, id: value.id, collection: value.collection }];
+  }
+  if (Array.isArray(value)) {
+    return value.flatMap((item, index) => collectReferences(item, `${path}[${index}]`));
+  }
+  if (value && typeof value === 'object' && !(value instanceof Date)) {
+    return Object.entries(value).flatMap(([key, child]) =>
+      collectReferences(child, path ? `${path}.${key}` : key)
+    );
+  }
+  return [];
+}
+
+// Status values were validated by the redirects schema
+function isRedirectRule(value: unknown): value is RedirectRule {
+  const { source, destination } = asRecord(value);
+  return typeof source === 'string' && (destination === undefined || typeof destination === 'string');
+}
+
+function getRedirectRules(content: ContentSnapshot): RedirectRule[] {
+  return [
+    ...(content.redirects || []).flatMap(entry => isRedirectRule(entry.data) ? [entry.data] : []),
+    ...getCategoryRedirects(content.categories || []),
+    ...getTagRedirects(content.tags || []),
+  ];
+}
+
+/**
+ * Site paths of every post, archive, series, page and legal page
+ */
+function getSitePaths(content: ContentSnapshot): Set<string> {
+  const bySlug = (collection: string, prefix: string) =>
+    (content[collection] || []).map(entry => `${prefix}/${asString(entry.data.slug) || entry.id}`);
+
+  return new Set([
+    ...(content.blog || []).map(entry => getPostPath(entry)),
+    ...(content.categories || []).map(entry => `/categories/${getCategoryPath(content.categories, entry.id)}`),
+    ...bySlug('tags', '/tags'),
+    ...bySlug('authors', '/authors'),
+    ...bySlug('series', '/series'),
+    ...(content.legal || []).map(entry => `/legal/${entry.id}`),
+    ...(content.pages || []).map(getPagePath),
+  ]);
+}
+
+/**
+ * Site path of a pages entry ("index" is the homepage)
+ */
+function getPagePath(entry: ContentEntry): string {
+  const slug = asString(entry.data.slug);
+  return slug === 'index' ? '/' : `/${slug}`;
+}
+
+/**
+ * The archive a link lands in, without locale, page number or feed file
+ * (/es/tags/seo/2 -> /tags/seo); undefined for links outside the archives
+ */
+function getArchivePath(path: string): string | undefined {
+  const unprefixed = stripLocaleFromPath(path);
+  if (!ARCHIVE_LINK_PREFIXES.some(prefix => unprefixed.startsWith(prefix))) return undefined;
+
+  const last = unprefixed.slice(unprefixed.lastIndexOf('/') + 1);
+  return /^\d+$/.test(last) || Object.keys(SCOPED_FEED_FILES).includes(last)
+    ? unprefixed.slice(0, unprefixed.lastIndexOf('/'))
+    : unprefixed;
+}
+
+function issueFor(
+  entry: ContentEntry,
+  collection: string,
+  rule: string,
+  severity: LintSeverity,
+  message: string
+): LintIssue {
+  return { rule, severity, message, collection, id: entry.id, file: entry.filePath };
+}
+
+// ==========================================
+// RULES
+// ==========================================
+
+/**
+ * References (author, category, tags, series, comparison products...) must point at existing entries
+ */
+export function checkReferences(content: ContentSnapshot): LintIssue[] {
+  const ids = new Map(Object.entries(content).map(([name, entries]) => [name, new Set(entries.map(entry => entry.id))]));
+  // Tag aliases resolve to their tag (checkTagAliases suggests the canonical ID)
+  const tagAliases = getTagAliasMap(content.tags || []);
+
+  return Object.entries(content).flatMap(([collection, entries]) =>
+    entries.flatMap(entry =>
+      collectReferences(entry.data)
+        .filter(ref => !ids.get(ref.collection)?.has(ref.id) && !(ref.collection === 'tags' && tagAliases.has(ref.id)))
+        .map(ref => issueFor(entry, collection, 'dangling-reference', 'error',
+          `${ref.path} references missing ${ref.collection} entry "${ref.id}"`))
+    )
+  );
+}
+
+/**
+ * Tag aliases must not shadow other tags, and posts should use the canonical tag ID
+ */
+export function checkTagAliases(content: ContentSnapshot): LintIssue[] {
+  const tags = content.tags || [];
+  const aliases = getTagAliasMap(tags);
+  const issues: LintIssue[] = [];
+
+  for (const tag of tags) {
+    for (const alias of asArray(tag.data.aliases).filter(alias => typeof alias === 'string')) {
+      const shadowed = tags.find(other => other.id !== tag.id && (other.id === alias || other.data.slug === alias));
+      if (shadowed) {
+        issues.push(issueFor(tag, 'tags', 'tag-alias-conflict', 'error',
+          `alias "${alias}" is the ID or slug of tag "${shadowed.id}"`));
+      } else if (aliases.get(alias) !== tag.id) {
+        issues.push(issueFor(tag, 'tags', 'tag-alias-conflict', 'error',
+          `alias "${alias}" is already an alias of "${aliases.get(alias)}"`));
+      }
+    }
+  }
+
+  for (const entry of content.blog || []) {
+    for (const tag of asArray(entry.data.tags).filter(isReference)) {
+      const canonicalId = aliases.get(tag.id);
+      if (canonicalId) {
+        issues.push(issueFor(entry, 'blog', 'tag-alias', 'warning',
+          `tag "${tag.id}" is an alias of "${canonicalId}"; merge it with POST /api/tags.json`));
+      }
+    }
+  }
+
+  return issues;
+}
+
+/**
+ * Following parent categories must end at a top-level category
+ */
+export function checkCategoryParents(content: ContentSnapshot): LintIssue[] {
+  const categories = content.categories || [];
+
+  return categories
+    .filter(entry => hasCategoryCycle(categories, entry.id))
+    .map(entry => issueFor(entry, 'categories', 'category-cycle', 'error',
+      `parent "${asRecord(entry.data.parent).id}" leads back to "${entry.id}"; its URL and breadcrumbs can't be built`));
+}
+
+/**
+ * Product, comparison and category blocks in post bodies must point at existing entries
+ */
+export function checkContentBlocks(content: ContentSnapshot): LintIssue[] {
+  const issues: LintIssue[] = [];
+
+  for (const entry of content.blog || []) {
+    for (const { block, props } of findContentBlocks(entry.body || '')) {
+      const { prop, collection } = CONTENT_BLOCKS[block];
+      const value = props[prop];
+      if (!value) continue;
+
+      const target = (content[collection] || []).find(candidate => candidate.id === value);
+      if (!target) {
+        issues.push(issueFor(entry, 'blog', 'missing-block-target', 'error',
+          `<${block} ${prop}="${value}"> points at a missing ${collection} entry`));
+      } else if (collection === 'affiliateComparisons' && target.data.active === false) {
+        issues.push(issueFor(entry, 'blog', 'missing-block-target', 'warning',
+          `<${block} ${prop}="${value}"> points at an inactive comparison and renders nothing`));
+      }
+    }
+  }
+
+  return issues;
+}
+
+/**
+ * Slugs must be unique within a collection, and post URLs unique across locales
+ */
+export function checkDuplicateSlugs(content: ContentSnapshot): LintIssue[] {
+  const issues: LintIssue[] = [];
+
+  const report = (collection: string, entries: ContentEntry[], getKey: (entry: ContentEntry) => string | undefined, label: string) => {
+    const seen = new Map<string, ContentEntry>();
+    for (const entry of entries) {
+      const key = getKey(entry);
+      if (!key) continue;
+
+      const first = seen.get(key);
+      if (first) {
+        issues.push(issueFor(entry, collection, 'duplicate-slug', 'error',
+          `${label} "${key}" is already used by "${first.id}"`));
+      } else {
+        seen.set(key, entry);
+      }
+    }
+  };
+
+  for (const [collection, entries] of Object.entries(content)) {
+    if (collection === 'blog') {
+      report(collection, entries, entry => getPostPath(entry), 'URL');
+    } else {
+      report(collection, entries, entry => asString(entry.data.slug), 'Slug');
+    }
+  }
+
+  return issues;
+}
+
+/**
+ * Titles and descriptions of posts and pages should fit search result snippets
+ */
+export function checkSeoLengths(content: ContentSnapshot): LintIssue[] {
+  const issues: LintIssue[] = [];
+
+  const check = (entry: ContentEntry, collection: string, field: keyof typeof SEO_LENGTHS, value: unknown) => {
+    if (typeof value !== 'string') return;
+
+    const { min, max } = SEO_LENGTHS[field];
+    const length = value.trim().length;
+    if (length < min || length > max) {
+      issues.push(issueFor(entry, collection, `seo-${field}-length`, 'warning',
+        `${field} is ${length} characters (recommended ${min}-${max})`));
+    }
+  };
+
+  for (const entry of content.blog || []) {
+    check(entry, 'blog', 'title', entry.data.title);
+    check(entry, 'blog', 'description', entry.data.description);
+  }
+
+  // Pages use their SEO overrides when set
+  for (const entry of content.pages || []) {
+    const seo = asRecord(entry.data.seo);
+    check(entry, 'pages', 'title', seo.title ?? entry.data.title);
+    check(entry, 'pages', 'description', seo.description ?? entry.data.description);
+  }
+
+  return issues;
+}
+
+/**
+ * Post hero images and product images need alt text
+ */
+export function checkImageAlt(content: ContentSnapshot): LintIssue[] {
+  const issues: LintIssue[] = [];
+
+  for (const entry of content.blog || []) {
+    if (entry.data.image && !asString(asRecord(entry.data.image).alt)?.trim()) {
+      issues.push(issueFor(entry, 'blog', 'missing-alt', 'warning', 'image has no alt text'));
+    }
+
+    // Inline markdown images: ![alt](url)
+    for (const [, alt, url] of (entry.body || '').matchAll(/!\[([^\]]*)\]\(([^)\s]+)[^)]*\)/g)) {
+      if (!alt.trim()) {
+        issues.push(issueFor(entry, 'blog', 'missing-alt', 'warning', `inline image ${url} has no alt text`));
+      }
+    }
+  }
+
+  for (const entry of content.affiliateProducts || []) {
+    if (entry.data.image && !asString(entry.data.imageAlt)?.trim()) {
+      issues.push(issueFor(entry, 'affiliateProducts', 'missing-alt', 'warning', 'image has no imageAlt text'));
+    }
+  }
+
+  return issues;
+}
+
+/**
+ * A post with an FAQ heading should produce FAQPage structured data
+ */
+export function checkFaqSections(content: ContentSnapshot): LintIssue[] {
+  return (content.blog || [])
+    .filter(entry => /^#{1,6}\s*.*(?:FAQ|Frequently Asked Questions)/im.test(entry.body || ''))
+    .filter(entry => {
+      const faq = parseFAQFromContent(entry.body || '');
+      return !faq || !validateFAQData(faq);
+    })
+    .map(entry => issueFor(entry, 'blog', 'unparseable-faq', 'warning',
+      'FAQ section has no question/answer pairs parseFAQFromContent can read, so no FAQPage schema is generated'));
+}
+
+/**
+ * Noindex pages shouldn't be linked from site-wide navigation
+ */
+export function checkNoindexLinks(content: ContentSnapshot, navigationLinks: NavigationLink[] = []): LintIssue[] {
+  const noindexPages = (content.pages || []).filter(entry => entry.data.noindex === true);
+
+  const normalize = (path: string) => path.replace(/\/$/, '') || '/';
+
+  return noindexPages.flatMap(entry => {
+    const path = getPagePath(entry);
+    return navigationLinks
+      .filter(link => normalize(link.href) === path)
+      .map(link => issueFor(entry, 'pages', 'noindex-linked', 'warning',
+        `noindex page ${path} is linked from ${link.file}`));
+  });
+}
+
+/**
+ * Renamed or deleted posts need a redirect, or their inbound links break
+ */
+export function checkMovedPosts(content: ContentSnapshot, movedPosts: PostMove[] = []): LintIssue[] {
+  const redirects = getRedirectRules(content);
+  const posts = content.blog || [];
+
+  return movedPosts.flatMap(move => {
+    const target = move.to ? posts.find(entry => entry.id === move.to) : undefined;
+    // Without a target, the old path's locale comes from its folder
+    const oldPath = getPostPath({ id: move.from, data: { locale: target && getPostLocale(target) } });
+    const newPath = target && getPostPath(target);
+
+    if (oldPath === newPath || posts.some(entry => getPostPath(entry) === oldPath) || matchRedirect(redirects, oldPath)) {
+      return [];
+    }
+
+    const suggestion = newPath
+      ? { id: move.from.replace(/\//g, '-'), source: oldPath, destination: newPath, status: 301 }
+      : { id: move.from.replace(/\//g, '-'), source: oldPath, status: 410 };
+    const issue: LintIssue = {
+      rule: 'missing-redirect',
+      severity: 'warning',
+      message: `${oldPath} ${newPath ? `moved to ${newPath}` : 'was deleted'}; add to redirects.json: ${JSON.stringify(suggestion)}`,
+      collection: 'blog',
+      id: move.to ?? move.from,
+      file: target?.filePath,
+    };
+    return [issue];
+  });
+}
+
+/**
+ * Site-relative links in posts must reach a page, directly or through redirects
+ */
+export function checkInternalLinks(content: ContentSnapshot): LintIssue[] {
+  const sitePaths = getSitePaths(content);
+  const redirects = getRedirectRules(content);
+  const normalize = (path: string) => path.replace(/\/$/, '') || '/';
+
+  // undefined when the path resolves, otherwise why it doesn't
+  const resolve = (path: string, hops: number = 0): string | undefined => {
+    const normalized = normalize(path);
+    const archivePath = getArchivePath(normalized);
+    if (sitePaths.has(normalized) || (archivePath && sitePaths.has(archivePath))) return undefined;
+
+    const redirect = matchRedirect(redirects, path);
+    if (redirect?.status === 410) return 'was removed (410)';
+    if (!redirect) {
+      const unprefixed = stripLocaleFromPath(normalized);
+      const checked = CHECKED_LINK_PREFIXES.some(prefix => unprefixed.startsWith(prefix)) && !/^\/blog\/\d+$/.test(unprefixed);
+      return checked ? 'does not exist' : undefined;
+    }
+
+    const location = redirect.location!;
+    if (!location.startsWith('/') || location.startsWith('//')) return undefined;
+    return hops < MAX_REDIRECT_HOPS ? resolve(location.split(/[?#]/)[0], hops + 1) : 'is a redirect loop';
+  };
+
+  return (content.blog || []).flatMap(entry => {
+    const body = entry.body || '';
+    const links = [
+      ...Array.from(body.matchAll(/\]\((\/[^)\s#?]*)[^)]*\)/g), match => match[1]),
+      ...Array.from(body.matchAll(/href=["'](\/[^"'#?]*)["']/g), match => match[1]),
+    ].filter(link => !link.startsWith('//'));
+
+    return Array.from(new Set(links)).flatMap(link => {
+      const problem = resolve(link);
+      return problem ? [issueFor(entry, 'blog', 'broken-link', 'error', `link to ${link} ${problem}`)] : [];
+    });
+  });
+}
+
+// ==========================================
+// REPORT
+// ==========================================
+
+/**
+ * Run every rule over the loaded collections
+ */
+export function lintContent(content: ContentSnapshot, options: LintOptions = {}): LintReport {
+  const issues = [
+    ...checkReferences(content),
+    ...checkContentBlocks(content),
+    ...checkCategoryParents(content),
+    ...checkTagAliases(content),
+    ...checkDuplicateSlugs(content),
+    ...checkSeoLengths(content),
+    ...checkImageAlt(content),
+    ...checkFaqSections(content),
+    ...checkNoindexLinks(content, options.navigationLinks),
+    ...checkMovedPosts(content, options.movedPosts),
+    ...checkInternalLinks(content),
+  ];
+
+  return {
+    issues,
+    errorCount: issues.filter(issue => issue.severity === 'error').length,
+    warningCount: issues.filter(issue => issue.severity === 'warning').length,
+    entryCount: Object.values(content).reduce((total, entries) => total + entries.length, 0),
+  };
+}
+
+/**
+ * Site-relative links (href="/...") in a component's source
+ */
+export function extractNavigationLinks(source: string, file: string): NavigationLink[] {
+  return Array.from(source.matchAll(/href=["'](\/[^"'#?]*)["']/g), ([, href]) => ({ href, file }));
+}
+
+/**
+ * Human-readable report, grouped by file
+ */
+export function formatLintReport(report: LintReport): string {
+  const lines: string[] = [];
+  const byFile = new Map<string, LintIssue[]>();
+
+  for (const issue of report.issues) {
+    const key = issue.file || `${issue.collection}/${issue.id}`;
+    byFile.set(key, [...(byFile.get(key) || []), issue]);
+  }
+
+  for (const [file, issues] of byFile) {
+    lines.push(file);
+    for (const issue of issues) {
+      lines.push(`  ${issue.severity.padEnd(7)} ${issue.message}  (${issue.rule})`);
+    }
+    lines.push('');
+  }
+
+  lines.push(`${report.entryCount} entries checked: ${report.errorCount} error(s), ${report.warningCount} warning(s)`);
+  return lines.join('\n');
+}
@@ -1,5 +1,8 @@
 // src/components/navigation/breadcrumbUtils.ts
 import type { CollectionEntry } from 'astro:content';
+import { DEFAULT_LOCALE, getLocaleFromPath, localizePath, stripLocaleFromPath } from '../i18n/locales';
+import { getPostLocale } from '../i18n/translations';
+import { useTranslations } from '../i18n/ui';
 
 // Core interfaces for breadcrumb data structures
 export interface BreadcrumbItem {
@@ -15,6 +18,8 @@ export interface PageData {
     id: string;
     name: string;
     slug?: string;
+    // Nested URL of a subcategory, e.g. /categories/marketing/email
+    url?: string;
   };
   tags?: Array<{
     id: string;
@@ -27,14 +32,32 @@ export interface PageData {
   };
 }
 
-// Configuration for breadcrumb labels
-export const breadcrumbConfig = {
-  homeLabel: 'Home',
-  blogLabel: 'Blog',
-  categoriesLabel: 'Categories',
-  tagsLabel: 'Tags',
-  authorsLabel: 'Authors',
-};
+export interface BreadcrumbLabels {
+  homeLabel: string;
+  blogLabel: string;
+  categoriesLabel: string;
+  tagsLabel: string;
+  authorsLabel: string;
+}
+
+/**
+ * Breadcrumb labels translated for a locale
+ * @param locale - Locale code (defaults to the default locale)
+ * @returns Breadcrumb labels
+ */
+export function getBreadcrumbLabels(locale: string = DEFAULT_LOCALE): BreadcrumbLabels {
+  const t = useTranslations(locale);
+  return {
+    homeLabel: t('nav.home'),
+    blogLabel: t('nav.blog'),
+    categoriesLabel: t('nav.categories'),
+    tagsLabel: t('nav.tags'),
+    authorsLabel: t('nav.authors'),
+  };
+}
+
+// Breadcrumb labels for the default locale
+export const breadcrumbConfig = getBreadcrumbLabels(DEFAULT_LOCALE);
 
 /**
  * Generate breadcrumbs based on current page context
@@ -48,18 +71,23 @@ export function generateBreadcrumbs(
 ): BreadcrumbItem[] {
   try {
     const breadcrumbs: BreadcrumbItem[] = [];
+
+    // Locale-prefixed paths (/es/blog/...) get translated labels and links
+    const locale = getLocaleFromPath(pathname);
+    const labels = getBreadcrumbLabels(locale);
+    const localPath = stripLocaleFromPath(pathname);
     
     // Always start with Home (except for homepage)
-    if (pathname !== '/' && pathname !== '') {
+    if (localPath !== '/' && localPath !== '') {
       breadcrumbs.push({
-        name: breadcrumbConfig.homeLabel,
+        name: labels.homeLabel,
         url: '/',
         position: 1
       });
     }
 
     // Parse pathname to determine page type
-    const pathSegments = pathname.split('/').filter(segment => segment !== '');
+    const pathSegments = localPath.split('/').filter(segment => segment !== '');
     
     if (pathSegments.length === 0) {
       // Homepage - no breadcrumbs
@@ -71,13 +99,13 @@ export function generateBreadcrumbs(
     
     switch (firstSegment) {
       case 'blog':
-        return handleBlogPaths(pathSegments, breadcrumbs, pageData);
+        return handleBlogPaths(pathSegments, breadcrumbs, labels, locale, pageData);
       case 'categories':
-        return handleCategoryPaths(pathSegments, breadcrumbs, pageData);
+        return handleCategoryPaths(pathSegments, breadcrumbs, labels, locale, pageData);
       case 'tags':
-        return handleTagPaths(pathSegments, breadcrumbs, pageData);
+        return handleTagPaths(pathSegments, breadcrumbs, labels, locale, pageData);
       case 'authors':
-        return handleAuthorPaths(pathSegments, breadcrumbs, pageData);
+        return handleAuthorPaths(pathSegments, breadcrumbs, labels, pageData);
       case 'legal':
         return handleLegalPaths(pathSegments, breadcrumbs, pageData);
       default:
@@ -96,12 +124,14 @@ export function generateBreadcrumbs(
 function handleBlogPaths(
   pathSegments: string[],
   breadcrumbs: BreadcrumbItem[],
+  labels: BreadcrumbLabels,
+  locale: string,
   pageData?: PageData
 ): BreadcrumbItem[] {
   // Add Blog to breadcrumbs
   breadcrumbs.push({
-    name: breadcrumbConfig.blogLabel,
-    url: '/blog',
+    name: labels.blogLabel,
+    url: localizePath('/blog', locale),
     position: breadcrumbs.length + 1
   });
 
@@ -114,7 +144,7 @@ function handleBlogPaths(
     if (pageData?.category) {
       breadcrumbs.push({
         name: pageData.category.name,
-        url: `/categories/${pageData.category.slug || pageData.category.id}`,
+        url: pageData.category.url || `/categories/${pageData.category.slug || pageData.category.id}`,
         position: breadcrumbs.length + 1
       });
     }
@@ -137,17 +167,19 @@ function handleBlogPaths(
 function handleCategoryPaths(
   pathSegments: string[],
   breadcrumbs: BreadcrumbItem[],
+  labels: BreadcrumbLabels,
+  locale: string,
   pageData?: PageData
 ): BreadcrumbItem[] {
   // Add Blog > Categories to breadcrumbs
   breadcrumbs.push({
-    name: breadcrumbConfig.blogLabel,
-    url: '/blog',
+    name: labels.blogLabel,
+    url: localizePath('/blog', locale),
     position: breadcrumbs.length + 1
   });
 
   breadcrumbs.push({
-    name: breadcrumbConfig.categoriesLabel,
+    name: labels.categoriesLabel,
     url: '/categories',
     position: breadcrumbs.length + 1
   });
@@ -175,17 +207,19 @@ function handleCategoryPaths(
 function handleTagPaths(
   pathSegments: string[],
   breadcrumbs: BreadcrumbItem[],
+  labels: BreadcrumbLabels,
+  locale: string,
   pageData?: PageData
 ): BreadcrumbItem[] {
   // Add Blog > Tags to breadcrumbs
   breadcrumbs.push({
-    name: breadcrumbConfig.blogLabel,
-    url: '/blog',
+    name: labels.blogLabel,
+    url: localizePath('/blog', locale),
     position: breadcrumbs.length + 1
   });
 
   breadcrumbs.push({
-    name: breadcrumbConfig.tagsLabel,
+    name: labels.tagsLabel,
     url: '/tags',
     position: breadcrumbs.length + 1
   });
@@ -213,10 +247,11 @@ function handleTagPaths(
 function handleAuthorPaths(
   pathSegments: string[],
   breadcrumbs: BreadcrumbItem[],
+  labels: BreadcrumbLabels,
   pageData?: PageData
 ): BreadcrumbItem[] {
   breadcrumbs.push({
-    name: breadcrumbConfig.authorsLabel,
+    name: labels.authorsLabel,
     url: '/authors',
     position: breadcrumbs.length + 1
   });
@@ -285,15 +320,17 @@ export function getBlogPostBreadcrumbs(
   post: CollectionEntry<'blog'>
 ): BreadcrumbItem[] {
   try {
+    const locale = getPostLocale(post);
+    const labels = getBreadcrumbLabels(locale);
     const breadcrumbs: BreadcrumbItem[] = [
       {
-        name: breadcrumbConfig.homeLabel,
+        name: labels.homeLabel,
         url: '/',
         position: 1
       },
       {
-        name: breadcrumbConfig.blogLabel,
-        url: '/blog',
+        name: labels.blogLabel,
+        url: localizePath('/blog', locale),
         position: 2
       }
     ];
@@ -327,41 +364,57 @@ export function getBlogPostBreadcrumbs(
  * Get breadcrumbs for category pages
  * @param categoryId - Category identifier
  * @param categoryData - Optional category collection entry
+ * @param ancestors - Parent categories, root first, each linked at its nested URL
+ * @param locale - Locale of the archive page (the categories index is default-locale only)
  * @returns Array of breadcrumb items
  */
 export function getCategoryBreadcrumbs(
   categoryId: string,
-  categoryData?: CollectionEntry<'categories'>
+  categoryData?: CollectionEntry<'categories'>,
+  ancestors: CollectionEntry<'categories'>[] = [],
+  locale: string = DEFAULT_LOCALE
 ): BreadcrumbItem[] {
   try {
     if (!categoryId) {
       throw new Error('Category ID is required');
     }
 
+    const labels = getBreadcrumbLabels(locale);
     const breadcrumbs: BreadcrumbItem[] = [
       {
-        name: breadcrumbConfig.homeLabel,
+        name: labels.homeLabel,
         url: '/',
         position: 1
       },
       {
-        name: breadcrumbConfig.blogLabel,
-        url: '/blog',
+        name: labels.blogLabel,
+        url: localizePath('/blog', locale),
         position: 2
       },
       {
-        name: breadcrumbConfig.categoriesLabel,
+        name: labels.categoriesLabel,
         url: '/categories',
         position: 3
       }
     ];
 
+    // Parent categories, e.g. Marketing > Email before Automation
+    let ancestorPath = '/categories';
+    for (const ancestor of ancestors) {
+      ancestorPath += `/${ancestor.data.slug || ancestor.id}`;
+      breadcrumbs.push({
+        name: ancestor.data.name,
+        url: localizePath(ancestorPath, locale),
+        position: breadcrumbs.length + 1
+      });
+    }
+
     // Add category name as current page
     const categoryName = categoryData?.data.name || categoryId;
     breadcrumbs.push({
       name: categoryName,
       isCurrentPage: true,
-      position: 4
+      position: breadcrumbs.length + 1
     });
 
     return breadcrumbs;
@@ -375,30 +428,33 @@ export function getCategoryBreadcrumbs(
  * Get breadcrumbs for tag pages
  * @param tagId - Tag identifier
  * @param tagData - Optional tag collection entry
+ * @param locale - Locale of the archive page (the tags index is default-locale only)
  * @returns Array of breadcrumb items
  */
 export function getTagBreadcrumbs(
   tagSlug: string,
-  tagData?: CollectionEntry<'tags'>
+  tagData?: CollectionEntry<'tags'>,
+  locale: string = DEFAULT_LOCALE
 ): BreadcrumbItem[] {
   try {
     if (!tagSlug) {
       throw new Error('Tag slug is required');
     }
 
+    const labels = getBreadcrumbLabels(locale);
     const breadcrumbs: BreadcrumbItem[] = [
       {
-        name: breadcrumbConfig.homeLabel,
+        name: labels.homeLabel,
         url: '/',
         position: 1
       },
       {
-        name: breadcrumbConfig.blogLabel,
-        url: '/blog',
+        name: labels.blogLabel,
+        url: localizePath('/blog', locale),
         position: 2
       },
       {
-        name: breadcrumbConfig.tagsLabel,
+        name: labels.tagsLabel,
         url: '/tags',
         position: 3
       }
@@ -423,25 +479,28 @@ export function getTagBreadcrumbs(
  * Get breadcrumbs for author pages
  * @param authorId - Author identifier
  * @param authorData - Optional author collection entry
+ * @param locale - Locale of the archive page (the authors index is default-locale only)
  * @returns Array of breadcrumb items
  */
 export function getAuthorBreadcrumbs(
   authorId: string,
-  authorData?: CollectionEntry<'authors'>
+  authorData?: CollectionEntry<'authors'>,
+  locale: string = DEFAULT_LOCALE
 ): BreadcrumbItem[] {
   try {
     if (!authorId) {
       throw new Error('Author ID is required');
     }
 
+    const labels = getBreadcrumbLabels(locale);
     const breadcrumbs: BreadcrumbItem[] = [
       {
-        name: breadcrumbConfig.homeLabel,
+        name: labels.homeLabel,
         url: '/',
         position: 1
       },
       {
-        name: breadcrumbConfig.authorsLabel,
+        name: labels.authorsLabel,
         url: '/authors',
         position: 2
       }
@@ -462,6 +521,80 @@ export function getAuthorBreadcrumbs(
   }
 }
 
+/**
+ * Get breadcrumbs for series pages
+ * @param seriesSlug - Series slug
+ * @param seriesData - Optional series collection entry
+ * @param locale - Locale of the series page
+ * @returns Array of breadcrumb items
+ */
+export function getSeriesBreadcrumbs(
+  seriesSlug: string,
+  seriesData?: CollectionEntry<'series'>,
+  locale: string = DEFAULT_LOCALE
+): BreadcrumbItem[] {
+  try {
+    if (!seriesSlug) {
+      throw new Error('Series slug is required');
+    }
+
+    const labels = getBreadcrumbLabels(locale);
+    return [
+      {
+        name: labels.homeLabel,
+        url: '/',
+        position: 1
+      },
+      {
+        name: labels.blogLabel,
+        url: localizePath('/blog', locale),
+        position: 2
+      },
+      {
+        name: seriesData?.data.title || seriesSlug,
+        isCurrentPage: true,
+        position: 3
+      }
+    ];
+  } catch (error) {
+    console.warn('Error generating series breadcrumbs:', error);
+    return [];
+  }
+}
+
+/**
+ * Add the page number to an archive's breadcrumbs; from page 2 on the archive
+ * crumb links back to page 1
+ * @param breadcrumbs - Breadcrumbs of the archive's first page
+ * @param firstPageUrl - URL of the archive's first page
+ * @param currentPage - 1-based page number
+ * @param locale - Locale of the page label (defaults to the default locale)
+ * @returns Array of breadcrumb items
+ */
+export function addPageBreadcrumb(
+  breadcrumbs: BreadcrumbItem[],
+  firstPageUrl: string,
+  currentPage: number,
+  locale: string = DEFAULT_LOCALE
+): BreadcrumbItem[] {
+  if (currentPage <= 1 || breadcrumbs.length === 0) {
+    return breadcrumbs;
+  }
+
+  const t = useTranslations(locale);
+  const archive = breadcrumbs[breadcrumbs.length - 1];
+
+  return [
+    ...breadcrumbs.slice(0, -1),
+    { name: archive.name, url: firstPageUrl, position: archive.position },
+    {
+      name: t('pagination.page', { page: currentPage }),
+      isCurrentPage: true,
+      position: breadcrumbs.length + 1
+    }
+  ];
+}
+
 /**
  * Utility function to safely decode URI components
  * @param str - String to decode
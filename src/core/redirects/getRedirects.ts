@@ -0,0 +1,26 @@
+// src/core/redirects/getRedirects.ts
+import { getCollection } from 'astro:content';
+import { getCategoryRedirects } from '../../utils/categoryTree';
+import { getTagRedirects } from '../../utils/tagAliases';
+import type { RedirectRule } from './redirects';
+
+/**
+ * Redirect rules from src/content/data/redirects.json, in file order, followed by
+ * the flat URLs of subcategories and tag alias URLs (so explicit rules win)
+ */
+export async function getRedirects(): Promise<RedirectRule[]> {
+  const [entries, categories, tags] = await Promise.all([
+    getCollection('redirects'),
+    getCollection('categories'),
+    getCollection('tags'),
+  ]);
+  return [
+    ...entries.map(entry => ({
+      source: entry.data.source,
+      destination: entry.data.destination,
+      status: entry.data.status,
+    })),
+    ...getCategoryRedirects(categories),
+    ...getTagRedirects(tags),
+  ];
+}
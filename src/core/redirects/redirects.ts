@@ -0,0 +1,103 @@
+// src/core/redirects/redirects.ts
+// REDIRECT RULES: PATTERN MATCHING & CLOUDFLARE _REDIRECTS FILE - PURE FUNCTIONS
+
+// ==========================================
+// TYPES & INTERFACES
+// ==========================================
+
+export type RedirectStatus = 301 | 302 | 410;
+
+/**
+ * One entry of src/content/data/redirects.json
+ * Sources use the Cloudflare _redirects syntax: ":name" matches one path segment,
+ * a trailing "*" matches the rest as ":splat". Both can be used in the destination.
+ */
+export interface RedirectRule {
+  source: string;
+  // Path or absolute URL; not used by 410 Gone
+  destination?: string;
+  status?: RedirectStatus;
+}
+
+export interface RedirectMatch {
+  status: RedirectStatus;
+  // Destination with placeholders filled in (undefined for 410)
+  location?: string;
+}
+
+// ==========================================
+// CONFIGURATION
+// ==========================================
+
+export const DEFAULT_REDIRECT_STATUS: RedirectStatus = 301;
+
+const PLACEHOLDER = /:([A-Za-z]\w*)/g;
+
+// ==========================================
+// MATCHING
+// ==========================================
+
+function compileSource(source: string): { pattern: RegExp; keys: string[] } {
+  const keys: string[] = [];
+  const body = (source.replace(/\/+$/, '') || '/')
+    .split(/(:[A-Za-z]\w*|\*)/)
+    .map(part => {
+      if (part === '*') {
+        keys.push('splat');
+        return '(.*)';
+      }
+      if (/^:[A-Za-z]\w*$/.test(part)) {
+        keys.push(part.slice(1));
+        return '([^/]+)';
+      }
+      return part.replace(/[.+?^${}()|[\]\\]/g, '\\$&');
+    })
+    .join('');
+
+  // A trailing slash on the request is optional
+  return { pattern: new RegExp(`^${body}/?$`), keys };
+}
+
+/**
+ * Fill ":name" and ":splat" placeholders in a destination
+ */
+export function applyRedirectParams(destination: string, params: Record<string, string>): string {
+  return destination.replace(PLACEHOLDER, (placeholder, key: string) => params[key] ?? placeholder);
+}
+
+/**
+ * First rule whose source matches the path, in file order
+ */
+export function matchRedirect(rules: RedirectRule[], pathname: string): RedirectMatch | undefined {
+  for (const rule of rules) {
+    const { pattern, keys } = compileSource(rule.source);
+    const match = pathname.match(pattern);
+    if (!match) continue;
+
+    const status = rule.status ?? DEFAULT_REDIRECT_STATUS;
+    if (status === 410 || !rule.destination) {
+      return { status: 410 };
+    }
+
+    const params = Object.fromEntries(keys.map((key, index) => [key, match[index + 1]]));
+    return { status, location: applyRedirectParams(rule.destination, params) };
+  }
+
+  return undefined;
+}
+
+// ==========================================
+// RENDERING
+// ==========================================
+
+/**
+ * Cloudflare _redirects lines for prerendered routes. Cloudflare has no 410 rule,
+ * so Gone entries are left to the middleware (the missing page reaches the worker).
+ */
+export function renderRedirectsFile(rules: RedirectRule[]): string {
+  const lines = rules
+    .filter(rule => rule.destination && (rule.status ?? DEFAULT_REDIRECT_STATUS) !== 410)
+    .map(rule => `${rule.source} ${rule.destination} ${rule.status ?? DEFAULT_REDIRECT_STATUS}`);
+
+  return lines.length > 0 ? `${lines.join('\n')}\n` : '';
+}
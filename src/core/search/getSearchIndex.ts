@@ -0,0 +1,59 @@
+// src/core/search/getSearchIndex.ts
+import { getCollection, type CollectionEntry } from 'astro:content';
+import { filterPublishedOnly } from '../../utils/draftFilter';
+import { getPostPath } from '../i18n/translations';
+import { buildSearchIndex, type SearchDocumentInput, type SearchIndex } from './searchIndex';
+
+interface SearchIndexOptions {
+  includeDrafts?: boolean;
+}
+
+// Content is fixed for a deploy, so each index is built once per server instance
+// (dev rebuilds every time, to pick up edited posts)
+const indexCache = new Map<'published' | 'drafts', Promise<SearchIndex>>();
+
+/**
+ * Map blog posts into search documents (resolving category and tag names)
+ */
+export async function getSearchDocuments(options: SearchIndexOptions = {}): Promise<SearchDocumentInput[]> {
+  const [posts, categories, tags] = await Promise.all([
+    getCollection('blog', options.includeDrafts ? undefined : filterPublishedOnly),
+    getCollection('categories'),
+    getCollection('tags'),
+  ]);
+
+  const categoryNames = new Map(categories.map(category => [category.id, category.data.name]));
+  const tagNames = new Map(tags.map(tag => [tag.id, tag.data.name]));
+
+  return posts
+    .sort((a, b) => b.data.pubDate.valueOf() - a.data.pubDate.valueOf())
+    .map((post: CollectionEntry<'blog'>) => ({
+      id: post.id,
+      url: getPostPath(post),
+      title: post.data.title,
+      description: post.data.description,
+      body: post.body || '',
+      pubDate: post.data.pubDate,
+      category: categoryNames.get(post.data.category.id) || post.data.category.id,
+      tags: post.data.tags.map(tag => tagNames.get(tag.id) || tag.id),
+      image: post.data.image,
+    }));
+}
+
+/**
+ * Search index for blog posts (published only unless includeDrafts)
+ * The public index is prerendered to /search-index.json; public endpoints load that
+ * with loadSearchIndex(). Server-side callers get an index built once and cached.
+ */
+export function getSearchIndex(options: SearchIndexOptions = {}): Promise<SearchIndex> {
+  const cacheKey = options.includeDrafts ? 'drafts' : 'published';
+  const cached = import.meta.env.PROD ? indexCache.get(cacheKey) : undefined;
+  if (cached) return cached;
+
+  const index = getSearchDocuments(options).then(buildSearchIndex);
+  indexCache.set(cacheKey, index);
+  // A failed build is retried on the next call
+  index.catch(() => indexCache.delete(cacheKey));
+
+  return index;
+}
@@ -0,0 +1,30 @@
+// src/core/search/loadSearchIndex.ts
+import type { SearchIndex } from './searchIndex';
+
+/**
+ * Prerendered index of published posts (src/pages/search-index.json.ts)
+ */
+export const SEARCH_INDEX_PATH = '/search-index.json';
+
+/**
+ * Anything that serves the built static files, such as the Cloudflare ASSETS binding
+ */
+export interface StaticAssets {
+  fetch: (request: Request | string) => Promise<Response>;
+}
+
+/**
+ * Load the search index built at build time, instead of rebuilding it from the collections
+ * @param siteUrl - URL of the current request (the index is served from the same origin)
+ * @param assets - Static asset binding; without one (astro dev) the index is fetched over HTTP
+ */
+export async function loadSearchIndex(siteUrl: URL, assets?: StaticAssets): Promise<SearchIndex> {
+  const indexUrl = new URL(SEARCH_INDEX_PATH, siteUrl).href;
+  const response = assets ? await assets.fetch(indexUrl) : await fetch(indexUrl);
+
+  if (!response.ok) {
+    throw new Error(`Search index ${SEARCH_INDEX_PATH} returned ${response.status}`);
+  }
+
+  return response.json();
+}
@@ -0,0 +1,465 @@
+// src/core/search/searchIndex.ts
+// FULL-TEXT SEARCH INDEX - PURE FUNCTIONS, NO ASTRO DEPENDENCIES
+
+// ==========================================
+// TYPES & INTERFACES
+// ==========================================
+
+export interface SearchDocumentInput {
+  id: string;
+  url: string;
+  title: string;
+  description: string;
+  body: string;
+  pubDate: Date;
+  category?: string;
+  tags: string[];
+  image?: { url: string; alt: string };
+}
+
+export interface SearchDocument {
+  id: string;
+  url: string;
+  title: string;
+  description: string;
+  pubDate: string;
+  category?: string;
+  tags: string[];
+  image?: { url: string; alt: string };
+  headings: string[];
+  text: string;
+}
+
+/**
+ * Inverted index: stemmed term -> [document index, weighted term score][]
+ */
+export interface SearchIndex {
+  version: number;
+  generatedAt: string;
+  documents: SearchDocument[];
+  terms: Record<string, Array<[number, number]>>;
+}
+
+export interface SearchHit {
+  id: string;
+  url: string;
+  title: string;
+  description: string;
+  pubDate: string;
+  category?: string;
+  tags: string[];
+  image?: { url: string; alt: string };
+  score: number;
+  highlightedTitle: string;
+  snippet: string;
+}
+
+export interface SearchOptions {
+  limit?: number;
+  offset?: number;
+}
+
+export interface SearchResults {
+  query: string;
+  total: number;
+  hits: SearchHit[];
+}
+
+// ==========================================
+// CONFIGURATION
+// ==========================================
+
+export const SEARCH_INDEX_VERSION = 1;
+
+/**
+ * How much a term occurrence counts in each field
+ */
+export const FIELD_WEIGHTS = {
+  title: 10,
+  headings: 5,
+  tags: 4,
+  description: 3,
+  body: 1,
+} as const;
+
+/**
+ * Score multipliers for how a query term reached an index term
+ */
+const MATCH_WEIGHTS = {
+  exact: 1,
+  prefix: 0.7,
+  typo: 0.5,
+} as const;
+
+const SNIPPET_LENGTH = 160;
+
+const STOP_WORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'but', 'by', 'for', 'from', 'has', 'have',
+  'i', 'if', 'in', 'into', 'is', 'it', 'its', 'of', 'on', 'or', 'our', 'so', 'that', 'the',
+  'their', 'then', 'there', 'these', 'this', 'to', 'was', 'we', 'were', 'what', 'when',
+  'which', 'will', 'with', 'you', 'your',
+]);
+
+// Longest suffixes first; [suffix, replacement]
+const SUFFIX_RULES: Array<[string, string]> = [
+  ['ational', 'ate'],
+  ['ization', 'ize'],
+  ['fulness', 'ful'],
+  ['iveness', 'ive'],
+  ['ations', 'ate'],
+  ['ation', 'ate'],
+  ['ments', ''],
+  ['ment', ''],
+  ['ness', ''],
+  ['ingly', ''],
+  ['edly', ''],
+  ['sses', 'ss'],
+  ['ies', 'y'],
+  ['ing', ''],
+  ['ed', ''],
+  ['ly', ''],
+  ['s', ''],
+];
+
+const WORD_PATTERN = /[\p{L}\p{N}]+/gu;
+
+// ==========================================
+// TEXT PROCESSING
+// ==========================================
+
+/**
+ * Lowercase and strip diacritics so "Café" and "cafe" match
+ */
+export function normalizeText(text: string): string {
+  return text.normalize('NFKD').replace(/[\u0300-\u036f]/g, '').toLowerCase();
+}
+
+/**
+ * Light English stemmer: strips common inflections so
+ * "reviews", "reviewed" and "reviewing" all index as "review"
+ */
+export function stem(word: string): string {
+  if (word.length <= 3 || /^\d+$/.test(word)) return word;
+
+  let stemmed = word;
+  for (const [suffix, replacement] of SUFFIX_RULES) {
+    if (stemmed.endsWith(suffix) && stemmed.length - suffix.length >= 3) {
+      if (suffix === 's' && /(ss|us|is)$/.test(stemmed)) break;
+      stemmed = stemmed.slice(0, -suffix.length) + replacement;
+      break;
+    }
+  }
+
+  // "running" -> "runn" -> "run"
+  if (/([^aeiouslz])\1$/.test(stemmed)) {
+    stemmed = stemmed.slice(0, -1);
+  }
+
+  // "feature" and "features" both end up as "featur"
+  if (stemmed.length > 3 && stemmed.endsWith('e')) {
+    stemmed = stemmed.slice(0, -1);
+  }
+
+  return stemmed;
+}
+
+/**
+ * Split text into words (normalized, stop words removed)
+ */
+export function tokenize(text: string): string[] {
+  const words = normalizeText(text).match(WORD_PATTERN) || [];
+  return words.filter(word => word.length > 1 && !STOP_WORDS.has(word));
+}
+
+/**
+ * Tokenize and stem text into index terms
+ */
+export function toTerms(text: string): string[] {
+  return tokenize(text).map(stem);
+}
+
+/**
+ * Pull markdown headings (## Heading) out of a post body
+ */
+export function extractHeadings(markdown: string): string[] {
+  return Array.from(markdown.matchAll(/^#{1,6}\s+(.+?)\s*#*\s*$/gm), match => stripMarkdown(match[1]));
+}
+
+/**
+ * Reduce MDX to plain text: drops imports, components, code and markup
+ */
+export function stripMarkdown(markdown: string): string {
+  return markdown
+    .replace(/^(import|export)\s.*$/gm, '')
+    .replace(/```[\s\S]*?```/g, ' ')
+    .replace(/<[^>]+>/g, ' ')
+    .replace(/!\[([^\]]*)\]\([^)]*\)/g, '$1')
+    .replace(/\[([^\]]*)\]\([^)]*\)/g, '$1')
+    .replace(/`([^`]*)`/g, '$1')
+    .replace(/^#{1,6}\s+/gm, '')
+    .replace(/^\s*[-*+>|]\s?/gm, '')
+    .replace(/[*_~|]/g, '')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+/**
+ * Edit distance counting swapped letters as one typo ("emial" -> "email"),
+ * giving up once it exceeds maxDistance
+ */
+export function editDistance(a: string, b: string, maxDistance: number): number {
+  if (Math.abs(a.length - b.length) > maxDistance) return maxDistance + 1;
+
+  let beforePrevious: number[] = [];
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    let rowMin = i;
+
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost);
+
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        current[j] = Math.min(current[j], beforePrevious[j - 2] + 1);
+      }
+      rowMin = Math.min(rowMin, current[j]);
+    }
+
+    if (rowMin > maxDistance) return maxDistance + 1;
+    beforePrevious = previous;
+    previous = current;
+  }
+
+  return previous[b.length];
+}
+
+// ==========================================
+// INDEX BUILDING
+// ==========================================
+
+/**
+ * Build the inverted index over title, description, headings, tags and body
+ */
+export function buildSearchIndex(inputs: SearchDocumentInput[], generatedAt: Date = new Date()): SearchIndex {
+  const terms: Record<string, Array<[number, number]>> = {};
+
+  const documents: SearchDocument[] = inputs.map((input, docIndex) => {
+    const headings = extractHeadings(input.body);
+    const text = stripMarkdown(input.body);
+    const scores = new Map<string, number>();
+
+    const fields: Array<[keyof typeof FIELD_WEIGHTS, string]> = [
+      ['title', input.title],
+      ['headings', headings.join(' ')],
+      ['tags', input.tags.join(' ')],
+      ['description', input.description],
+      ['body', text],
+    ];
+
+    for (const [field, value] of fields) {
+      const frequencies = new Map<string, number>();
+      for (const term of toTerms(value)) {
+        frequencies.set(term, (frequencies.get(term) || 0) + 1);
+      }
+
+      // Dampen repetition: the 10th mention matters less than the first
+      for (const [term, count] of frequencies) {
+        const fieldScore = FIELD_WEIGHTS[field] * (1 + Math.log(count));
+        scores.set(term, (scores.get(term) || 0) + fieldScore);
+      }
+    }
+
+    for (const [term, score] of scores) {
+      // Own-property check: words like "constructor" must not hit Object.prototype
+      if (!Object.hasOwn(terms, term)) terms[term] = [];
+      terms[term].push([docIndex, Math.round(score * 100) / 100]);
+    }
+
+    return {
+      id: input.id,
+      url: input.url,
+      title: input.title,
+      description: input.description,
+      pubDate: input.pubDate.toISOString(),
+      category: input.category,
+      tags: input.tags,
+      image: input.image,
+      headings,
+      text,
+    };
+  });
+
+  return {
+    version: SEARCH_INDEX_VERSION,
+    generatedAt: generatedAt.toISOString(),
+    documents,
+    terms,
+  };
+}
+
+// ==========================================
+// QUERYING
+// ==========================================
+
+/**
+ * Expand a query term into index terms: exact, prefix and typo matches
+ */
+function expandQueryTerm(index: SearchIndex, queryTerm: string): Map<string, number> {
+  const matches = new Map<string, number>();
+
+  if (Object.hasOwn(index.terms, queryTerm)) {
+    matches.set(queryTerm, MATCH_WEIGHTS.exact);
+  }
+
+  const maxTypos = queryTerm.length >= 8 ? 2 : queryTerm.length >= 4 ? 1 : 0;
+
+  for (const term of Object.keys(index.terms)) {
+    if (term === queryTerm) continue;
+
+    if (queryTerm.length >= 2 && term.startsWith(queryTerm)) {
+      matches.set(term, MATCH_WEIGHTS.prefix);
+    } else if (maxTypos > 0 && editDistance(queryTerm, term, maxTypos) <= maxTypos) {
+      matches.set(term, MATCH_WEIGHTS.typo);
+    }
+  }
+
+  return matches;
+}
+
+/**
+ * Escape text for safe use in HTML
+ */
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+/**
+ * Wrap words whose stem is a matched term in <mark>, escaping everything else
+ */
+export function highlightText(text: string, matchedTerms: Set<string>): string {
+  let result = '';
+  let lastIndex = 0;
+
+  for (const match of text.matchAll(WORD_PATTERN)) {
+    const start = match.index ?? 0;
+    const word = match[0];
+    result += escapeHtml(text.slice(lastIndex, start));
+    result += matchedTerms.has(stem(normalizeText(word)))
+      ? `<mark>${escapeHtml(word)}</mark>`
+      : escapeHtml(word);
+    lastIndex = start + word.length;
+  }
+
+  return result + escapeHtml(text.slice(lastIndex));
+}
+
+/**
+ * Cut a snippet around the first matching word and highlight it
+ */
+export function buildSnippet(text: string, matchedTerms: Set<string>, length: number = SNIPPET_LENGTH): string {
+  let firstMatch = -1;
+
+  for (const match of text.matchAll(WORD_PATTERN)) {
+    if (matchedTerms.has(stem(normalizeText(match[0])))) {
+      firstMatch = match.index ?? 0;
+      break;
+    }
+  }
+
+  if (firstMatch === -1) return '';
+
+  let start = Math.max(0, firstMatch - Math.floor(length / 3));
+  let end = Math.min(text.length, start + length);
+
+  // Snap to word boundaries
+  if (start > 0) {
+    const space = text.indexOf(' ', start);
+    start = space !== -1 && space < firstMatch ? space + 1 : start;
+  }
+  if (end < text.length) {
+    const space = text.lastIndexOf(' ', end);
+    end = space > firstMatch ? space : end;
+  }
+
+  const prefix = start > 0 ? '… ' : '';
+  const suffix = end < text.length ? ' …' : '';
+
+  return prefix + highlightText(text.slice(start, end), matchedTerms) + suffix;
+}
+
+/**
+ * Rank documents for a query
+ * - Each query term scores by its best match per document, weighted by rarity (IDF)
+ * - Documents matching more of the query terms rank higher
+ */
+export function searchIndex(index: SearchIndex, query: string, options: SearchOptions = {}): SearchResults {
+  const { limit = 10, offset = 0 } = options;
+  const queryTerms = Array.from(new Set(toTerms(query)));
+
+  if (queryTerms.length === 0) {
+    return { query, total: 0, hits: [] };
+  }
+
+  const totalDocs = index.documents.length;
+  const scores = new Map<number, number>();
+  const coverage = new Map<number, number>();
+  const matchedTerms = new Map<number, Set<string>>();
+
+  for (const queryTerm of queryTerms) {
+    const bestPerDoc = new Map<number, number>();
+
+    for (const [term, matchWeight] of expandQueryTerm(index, queryTerm)) {
+      const postings = index.terms[term];
+      const idf = Math.log(1 + totalDocs / postings.length);
+
+      for (const [docIndex, termScore] of postings) {
+        const score = termScore * idf * matchWeight;
+        if (score > (bestPerDoc.get(docIndex) || 0)) {
+          bestPerDoc.set(docIndex, score);
+        }
+
+        if (!matchedTerms.has(docIndex)) matchedTerms.set(docIndex, new Set());
+        matchedTerms.get(docIndex)!.add(term);
+      }
+    }
+
+    for (const [docIndex, score] of bestPerDoc) {
+      scores.set(docIndex, (scores.get(docIndex) || 0) + score);
+      coverage.set(docIndex, (coverage.get(docIndex) || 0) + 1);
+    }
+  }
+
+  const ranked = Array.from(scores.entries())
+    .map(([docIndex, score]) => {
+      const coverageRatio = (coverage.get(docIndex) || 0) / queryTerms.length;
+      return { docIndex, score: score * coverageRatio * coverageRatio };
+    })
+    .sort((a, b) => b.score - a.score || a.docIndex - b.docIndex);
+
+  const hits = ranked.slice(offset, offset + limit).map(({ docIndex, score }) => {
+    const doc = index.documents[docIndex];
+    const terms = matchedTerms.get(docIndex) || new Set<string>();
+
+    return {
+      id: doc.id,
+      url: doc.url,
+      title: doc.title,
+      description: doc.description,
+      pubDate: doc.pubDate,
+      category: doc.category,
+      tags: doc.tags,
+      image: doc.image,
+      score: Math.round(score * 100) / 100,
+      highlightedTitle: highlightText(doc.title, terms),
+      snippet: buildSnippet(doc.text, terms) || buildSnippet(doc.description, terms) || escapeHtml(doc.description),
+    };
+  });
+
+  return { query, total: ranked.length, hits };
+}
@@ -5,15 +5,7 @@ import type { AuthorData, SiteSettings } from './schema';
 export async function generateAuthorSchemaData(
   author: {
     id: string;
-    data: {
-      name: string;
-      bio?: string;
-      avatar?: string;
-      email?: string;
-      twitter?: string;
-      github?: string;
-      website?: string;
-    };
+    data: Omit<AuthorData, 'id'>;
   },
   url: string,
   postCount: number = 0
@@ -60,6 +52,12 @@ export async function generateAuthorSchemaData(
       twitter: author.data.twitter,
       github: author.data.github,
       website: author.data.website,
+      jobTitle: author.data.jobTitle,
+      organization: author.data.organization,
+      knowsAbout: author.data.knowsAbout,
+      credentials: author.data.credentials,
+      awards: author.data.awards,
+      sameAs: author.data.sameAs,
     };
 
     // Generate Person schema
@@ -69,9 +67,11 @@ export async function generateAuthorSchemaData(
     return Object.assign({}, personSchema, {
       "@id": url,
       url: url,
-      // Add job title/role if we have site settings
-      ...(siteSettings && {
+      // Fall back to a role at this site when the profile doesn't name one
+      ...(siteSettings && !authorData.jobTitle && {
         jobTitle: `Author at ${siteSettings.siteName}`,
+      }),
+      ...(siteSettings && !authorData.organization && {
         worksFor: {
           "@type": "Organization",
           name: siteSettings.siteName,
@@ -79,7 +79,7 @@ export async function generateAuthorSchemaData(
         },
       }),
       // Add additional properties if available
-      ...(postCount > 0 && {
+      ...(postCount > 0 && !authorData.knowsAbout?.length && {
         knowsAbout: `Content creation and writing - ${postCount} published articles`,
       }),
       // Add mainEntityOfPage for the author profile page
@@ -1,8 +1,15 @@
 import { getEntry } from 'astro:content';
-import { generateArticleSchema, generateBlogPostingSchema }from './schema';
-import type { AuthorData, BlogFrontmatter, SiteSettings } from './schema';
+import { generateArticleSchema, generateBlogPostingSchema, generateReviewSchema, generateSchemaGraph }from './schema';
+import type { AuthorData, BlogFrontmatter, ProductData, SiteSettings } from './schema';
+import { getProductSchemaData } from './generateProductSchema';
+import { generateContentBlockSchemas } from './generateItemListSchema';
 import { parseFAQFromContent, validateFAQData } from '../../utils/faqParser';
 import { generateFAQSchema } from './generateFAQSchema';
+import { parseHowToFromContent, validateHowToData } from '../../utils/howToParser';
+import { generateHowToSchema } from './generateHowToSchema';
+import { getLanguageTag } from '../i18n/locales';
+import { getPostModifiedDate } from '../../utils/postDates';
+import { getPostAuthorIds, getPostReviewerIds } from '../../utils/postAuthors';
 
 
 export async function generateBlogPostSchemaData(
@@ -10,7 +17,12 @@ export async function generateBlogPostSchemaData(
     title: string;
     description: string;
     pubDate: Date;
-    author: string; // Reference to author ID
+    updatedDate?: Date;
+    lastReviewed?: Date;
+    author?: string; // Reference to the lead author ID
+    authors?: string[]; // Author IDs in byline order
+    reviewedBy?: string; // Reference to the expert reviewer's author ID
+    factCheckedBy?: string; // Reference to the fact-checker's author ID
     category: string; // Reference to category ID
     tags: string[]; // Array of tag IDs
     image?: {
@@ -18,11 +30,18 @@ export async function generateBlogPostSchemaData(
       alt: string;
     };
     featured?: boolean;
-    status?: 'draft' | 'published';
+    status?: 'draft' | 'scheduled' | 'published';
+    locale?: string;
+    series?: string; // Reference to series ID
+    seriesOrder?: number;
+    review?: {
+      product: string; // Reference to affiliate product ID
+      rating?: number;
+    };
   },
   url: string,
   schemaType: 'Article' | 'BlogPosting' = 'Article',
-  content?: string // Optional content for FAQ parsing
+  content?: string // Optional content for FAQ/HowTo parsing and content block schemas
 ) {
   // Early validation for required data
   if (!frontmatter) {
@@ -36,23 +55,23 @@ export async function generateBlogPostSchemaData(
   }
 
   // Only proceed if we have valid frontmatter and the post is published
+  // (scheduled posts are only rendered once their pubDate has passed)
   const shouldRender = frontmatter && 
                       frontmatter.title && 
                       frontmatter.description && 
-                      frontmatter.status === 'published';
+                      (frontmatter.status === 'published' || frontmatter.status === 'scheduled');
 
   if (!shouldRender) {
     return null;
   }
 
   try {
-    // Fetch author data from content collection
-    let authorData: AuthorData | null = null;
-    if (frontmatter.author) {
+    // Fetch author, reviewer and fact-checker data from content collection
+    const fetchAuthor = async (authorId: string): Promise<AuthorData | null> => {
       try {
-        const authorEntry = await getEntry('authors', frontmatter.author);
+        const authorEntry = await getEntry('authors', authorId);
         if (authorEntry) {
-          authorData = {
+          return {
             id: authorEntry.id,
             name: authorEntry.data.name,
             bio: authorEntry.data.bio,
@@ -64,9 +83,17 @@ export async function generateBlogPostSchemaData(
           };
         }
       } catch (error) {
-        console.warn(`BlogPostSchema: Failed to fetch author data for "${frontmatter.author}":`, error);
+        console.warn(`BlogPostSchema: Failed to fetch author data for "${authorId}":`, error);
       }
-    }
+      return null;
+    };
+
+    const authorIds = getPostAuthorIds(frontmatter);
+    const authorsData = await Promise.all(authorIds.map(fetchAuthor));
+    const reviewerIds = Object.values(getPostReviewerIds(frontmatter))
+      .filter((authorId): authorId is string => Boolean(authorId));
+    const reviewersData = (await Promise.all(Array.from(new Set(reviewerIds)).map(fetchAuthor)))
+      .filter((reviewer): reviewer is AuthorData => reviewer !== null);
 
     // Fetch category data from content collection
     let categoryData: { id: string; name: string; description?: string; color?: string; slug?: string; } | null = null;
@@ -119,6 +146,32 @@ export async function generateBlogPostSchemaData(
       }
     }
 
+    // Fetch series data from content collection
+    let seriesData: { title: string; slug: string } | null = null;
+    if (frontmatter.series) {
+      try {
+        const seriesEntry = await getEntry('series', frontmatter.series);
+        if (seriesEntry) {
+          seriesData = { title: seriesEntry.data.title, slug: seriesEntry.data.slug };
+        }
+      } catch (error) {
+        console.warn(`BlogPostSchema: Failed to fetch series data for "${frontmatter.series}":`, error);
+      }
+    }
+
+    // Fetch reviewed product from content collection
+    let reviewedProduct: ProductData | null = null;
+    if (frontmatter.review?.product) {
+      try {
+        const productEntry = await getEntry('affiliateProducts', frontmatter.review.product);
+        if (productEntry) {
+          reviewedProduct = getProductSchemaData(productEntry);
+        }
+      } catch (error) {
+        console.warn(`BlogPostSchema: Failed to fetch reviewed product "${frontmatter.review.product}":`, error);
+      }
+    }
+
     // Fetch site settings
     let siteSettings: SiteSettings | null = null;
     try {
@@ -143,10 +196,10 @@ export async function generateBlogPostSchemaData(
     }
 
     // Create fallback data for missing information
-    const safeAuthorData: AuthorData = authorData || {
-      id: frontmatter.author || 'anonymous',
-      name: frontmatter.author || 'Anonymous Author',
-    };
+    const safeAuthorsData: AuthorData[] = authorIds.length > 0
+      ? authorsData.map((authorData, index) => authorData || { id: authorIds[index], name: authorIds[index] })
+      : [{ id: 'anonymous', name: 'Anonymous Author' }];
+    const safeAuthorData = safeAuthorsData[0];
 
     const safeCategoryData = categoryData || {
       id: frontmatter.category || 'general',
@@ -174,12 +227,24 @@ export async function generateBlogPostSchemaData(
       title: frontmatter.title,
       description: frontmatter.description,
       pubDate: frontmatter.pubDate,
+      updatedDate: frontmatter.updatedDate,
+      lastReviewed: frontmatter.lastReviewed,
       author: safeAuthorData,
+      authors: safeAuthorsData,
+      ...(reviewersData.length > 0 && { reviewedBy: reviewersData }),
       category: safeCategoryData,
       tags: safeTagsData,
       image: frontmatter.image,
       featured: frontmatter.featured || false,
       status: frontmatter.status || 'published',
+      locale: frontmatter.locale,
+      ...(seriesData && {
+        series: {
+          name: seriesData.title,
+          url: `${safeSiteSettings.siteUrl}/series/${seriesData.slug}`,
+          position: frontmatter.seriesOrder,
+        },
+      }),
     };
 
     // Parse FAQ content if provided
@@ -195,6 +260,48 @@ export async function generateBlogPostSchemaData(
       }
     }
 
+    // Parse "How to" step sections if content provided
+    let howToSchema = null;
+    if (content) {
+      try {
+        const howToData = parseHowToFromContent(content);
+        if (howToData && validateHowToData(howToData)) {
+          howToSchema = generateHowToSchema(howToData);
+        }
+      } catch (error) {
+        console.warn('BlogPostSchema: Failed to parse HowTo content:', error);
+      }
+    }
+
+    // Review schema for posts that review an affiliate product
+    let reviewSchema = null;
+    if (reviewedProduct) {
+      try {
+        reviewSchema = generateReviewSchema({
+          product: reviewedProduct,
+          author: safeAuthorData,
+          url,
+          datePublished: frontmatter.pubDate,
+          rating: frontmatter.review?.rating,
+          settings: safeSiteSettings,
+        });
+      } catch (error) {
+        console.warn('BlogPostSchema: Failed to generate review schema:', error);
+      }
+    }
+
+    // Product and ItemList schemas for product, comparison and category blocks in the body
+    let blockSchemas: Awaited<ReturnType<typeof generateContentBlockSchemas>> = [];
+    if (content) {
+      try {
+        blockSchemas = await generateContentBlockSchemas(content);
+      } catch (error) {
+        console.warn('BlogPostSchema: Failed to generate content block schemas:', error);
+      }
+    }
+
+    const extraSchemas = [reviewSchema, faqSchema, howToSchema, ...blockSchemas].filter(schema => schema !== null);
+
     // Generate the appropriate schema based on type
     try {
       let mainSchema;
@@ -212,9 +319,9 @@ export async function generateBlogPostSchemaData(
         });
       }
 
-      // Return array of schemas if FAQ is present, otherwise just the main schema
-      if (faqSchema) {
-        return [mainSchema, faqSchema];
+      // Merge into one @graph if review, FAQ, HowTo or block schemas are present, otherwise just the main schema
+      if (extraSchemas.length > 0) {
+        return generateSchemaGraph([mainSchema, ...extraSchemas]);
       }
       
       return mainSchema;
@@ -237,13 +344,14 @@ export async function generateBlogPostSchemaData(
           "url": safeSiteSettings.siteUrl
         },
         "datePublished": frontmatter.pubDate.toISOString(),
-        "dateModified": frontmatter.pubDate.toISOString(),
-        "url": url
+        "dateModified": getPostModifiedDate(frontmatter).toISOString(),
+        "url": url,
+        "inLanguage": getLanguageTag(frontmatter.locale)
       };
 
-      // Include FAQ schema even with fallback if available
-      if (faqSchema) {
-        return [fallbackSchema, faqSchema];
+      // Include review, FAQ, HowTo and block schemas even with fallback if available
+      if (extraSchemas.length > 0) {
+        return generateSchemaGraph([fallbackSchema, ...extraSchemas]);
       }
       
       return fallbackSchema;
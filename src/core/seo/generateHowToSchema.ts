@@ -0,0 +1,44 @@
+import type { HowToData, HowToSchema, HowToStepSchemaItem } from '../../types/howto';
+
+/**
+ * Generate HowTo schema from parsed how-to data
+ */
+export function generateHowToSchema(howToData: HowToData): HowToSchema | null {
+  if (!howToData || !howToData.steps || howToData.steps.length === 0) {
+    return null;
+  }
+
+  try {
+    const step: HowToStepSchemaItem[] = howToData.steps
+      .filter(item => item && typeof item === 'object' && item.name && item.text)
+      .map((item, index) => ({
+        "@type": "HowToStep",
+        position: index + 1,
+        name: String(item.name),
+        text: String(item.text),
+        ...(item.image && { image: item.image })
+      }));
+
+    if (step.length === 0) {
+      return null;
+    }
+
+    return {
+      "@context": "https://schema.org",
+      "@type": "HowTo",
+      name: howToData.title,
+      ...(howToData.description && { description: howToData.description }),
+      ...(howToData.totalTime && { totalTime: howToData.totalTime }),
+      ...(howToData.tools.length > 0 && {
+        tool: howToData.tools.map(name => ({ "@type": "HowToTool" as const, name }))
+      }),
+      ...(howToData.supplies.length > 0 && {
+        supply: howToData.supplies.map(name => ({ "@type": "HowToSupply" as const, name }))
+      }),
+      step
+    };
+  } catch (error) {
+    console.warn('Error generating HowTo schema:', error);
+    return null;
+  }
+}
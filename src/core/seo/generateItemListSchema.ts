@@ -0,0 +1,75 @@
+import { getEntry } from 'astro:content';
+import type { CollectionEntry } from 'astro:content';
+import { generateItemListSchema } from './schema';
+import { generateProductSchemaData, getProductSchemaData } from './generateProductSchema';
+import {
+  DEFAULT_CATEGORY_BLOCK_LIMIT,
+  getCategoryBlockTitle,
+  getCategoryProducts,
+  getComparisonProducts,
+} from '../affiliate/products';
+import { CONTENT_BLOCKS, findContentBlocks } from '../affiliate/blocks';
+
+/**
+ * ItemList for a ComparisonBlock, in the comparison's product order
+ */
+export async function generateComparisonSchemaData(
+  comparison: CollectionEntry<'affiliateComparisons'> | undefined | null
+) {
+  if (!comparison?.data?.active) {
+    return null;
+  }
+
+  try {
+    const products = await getComparisonProducts(comparison);
+    if (products.length === 0) return null;
+
+    return generateItemListSchema(comparison.data.title, products.map(getProductSchemaData));
+  } catch (error) {
+    console.error(`ItemListSchema: Failed to generate schema for comparison "${comparison.id}":`, error);
+    return null;
+  }
+}
+
+/**
+ * ItemList for a CategoryBlock, using the same product query and heading as the block
+ */
+export async function generateCategoryListSchemaData(
+  category: string,
+  options: { limit?: number; title?: string } = {}
+) {
+  try {
+    const products = await getCategoryProducts(category, options.limit);
+    if (products.length === 0) return null;
+
+    const name = await getCategoryBlockTitle(category, options.title);
+    return generateItemListSchema(name, products.map(getProductSchemaData));
+  } catch (error) {
+    console.error(`ItemListSchema: Failed to generate schema for category "${category}":`, error);
+    return null;
+  }
+}
+
+/**
+ * Product and ItemList schemas for every content block in an MDX body, in document order
+ */
+export async function generateContentBlockSchemas(content: string) {
+  const schemas = await Promise.all(
+    findContentBlocks(content).map(async ({ block, props }) => {
+      if (!props[CONTENT_BLOCKS[block].prop]) return null;
+
+      if (block === 'ComparisonBlock') {
+        return generateComparisonSchemaData(await getEntry('affiliateComparisons', props.id));
+      }
+      if (block === 'CategoryBlock') {
+        return generateCategoryListSchemaData(props.category, {
+          limit: props.limit ? Number(props.limit) : DEFAULT_CATEGORY_BLOCK_LIMIT,
+          title: props.title,
+        });
+      }
+      return generateProductSchemaData(await getEntry('affiliateProducts', props.id));
+    })
+  );
+
+  return schemas.filter(schema => schema !== null);
+}
@@ -0,0 +1,44 @@
+import type { CollectionEntry } from 'astro:content';
+import { generateProductSchema } from './schema';
+import type { ProductData } from './schema';
+
+type AffiliateProduct = Pick<CollectionEntry<'affiliateProducts'>, 'id' | 'data'>;
+
+/**
+ * Map an affiliateProducts entry to the fields Product/Review schemas use
+ */
+export function getProductSchemaData(product: AffiliateProduct): ProductData {
+  const { data } = product;
+
+  return {
+    name: data.title,
+    description: data.description,
+    image: data.image,
+    url: data.affiliateUrl,
+    price: {
+      amount: data.price.amount,
+      currency: data.price.currency,
+    },
+    availability: data.availability,
+    brand: data.brand,
+    sku: data.sku,
+    rating: data.rating,
+    reviewCount: data.reviewCount,
+    pros: data.pros,
+    cons: data.cons,
+  };
+}
+
+export function generateProductSchemaData(product: AffiliateProduct | undefined | null) {
+  if (!product?.data?.title || !product.data.price) {
+    console.warn('ProductSchema: Invalid product data provided');
+    return null;
+  }
+
+  try {
+    return generateProductSchema(getProductSchemaData(product));
+  } catch (error) {
+    console.error(`ProductSchema: Failed to generate schema for "${product.id}":`, error);
+    return null;
+  }
+}
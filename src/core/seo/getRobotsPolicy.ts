@@ -0,0 +1,33 @@
+// src/core/seo/getRobotsPolicy.ts
+// Runs in the middleware on every request: reads the collections directly instead of
+// going through blogLogic, which pulls in the whole content layer
+import { getCollection } from 'astro:content';
+import { getPostPath } from '../i18n/translations';
+import { filterDrafts, isPostLive } from '../../utils/draftFilter';
+import { buildRobotsPolicy, type RobotsGroup } from './robots';
+
+/**
+ * Noindex pages from pages.json. They stay crawlable so crawlers can see the
+ * X-Robots-Tag header and robots meta tag that keep them out of the index.
+ */
+export async function getNoindexPaths(): Promise<string[]> {
+  const pages = await getCollection('pages');
+  return pages.filter(page => page.data.noindex).map(page => `/${page.data.slug}`);
+}
+
+/**
+ * Draft and scheduled posts that are routed (dev only - production builds never
+ * render them, and listing them would publish unreleased slugs)
+ */
+export async function getDraftPaths(): Promise<string[]> {
+  const posts = await getCollection('blog', filterDrafts);
+  return posts.filter(post => !isPostLive(post)).map(getPostPath);
+}
+
+/**
+ * The site's robots policy, shared by robots.txt and the X-Robots-Tag middleware
+ */
+export async function getRobotsPolicy(): Promise<RobotsGroup[]> {
+  const [settings, draftPaths] = await Promise.all([getCollection('settings'), getDraftPaths()]);
+  return buildRobotsPolicy(settings[0]?.data.robots, draftPaths);
+}
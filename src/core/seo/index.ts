@@ -6,6 +6,19 @@ export { generateAuthorSchemaData } from './generateAuthorSchema';
 export { generateAuthorsListSchemaData } from './generateAuthorsListSchema';
 export { generateBlogPostSchemaData } from './generateBlogPostSchema';
 export { generateFAQSchema, generateFAQSchemaItems } from './generateFAQSchema';
+export { generateHowToSchema } from './generateHowToSchema';
+export { generateProductSchemaData, getProductSchemaData } from './generateProductSchema';
+export {
+  generateComparisonSchemaData,
+  generateCategoryListSchemaData,
+  generateContentBlockSchemas
+} from './generateItemListSchema';
+export {
+  getOgImagePath,
+  getOgImageUrl,
+  OG_IMAGE_SIZE
+} from './ogImagePaths';
+export type { OgCard } from './ogImagePaths';
 export { default as Schema } from './Schema.astro';
 
 // Re-export schema utility functions from local schema module
@@ -14,14 +27,20 @@ export {
   generateArticleSchema,
   generateBlogPostingSchema,
   generateOrganizationSchema,
-  generateImageSchema
+  generateImageSchema,
+  generateProductSchema,
+  generateReviewSchema,
+  generateItemListSchema,
+  generateSchemaGraph
 } from './schema';
 
 // Export types for theme builders
 export type {
   AuthorData,
   BlogFrontmatter,
-  BlogSchemaProps
+  BlogSchemaProps,
+  ProductData,
+  ReviewSchemaProps
 } from './schema';
 
 // Re-export SiteSettings from blogLogic for consistency
@@ -0,0 +1,175 @@
+// src/core/seo/ogImage.ts
+// GENERATED OPEN GRAPH CARDS: SVG LAYOUT & SHARP RASTERISING
+// Only imported by the prerendered src/pages/og/[...path].png.ts route; URLs live in ./ogImagePaths
+
+import { readFile } from 'node:fs/promises';
+import { join } from 'node:path';
+import sharp from 'sharp';
+import type { ThemeConfig } from '../../config/theme';
+import { escapeXml } from '../../utils/xml';
+import { OG_IMAGE_SIZE, type OgCard } from './ogImagePaths';
+
+// ==========================================
+// TYPES & INTERFACES
+// ==========================================
+
+/**
+ * Avatar and logo, already rasterised and inlined as data URIs
+ */
+export interface OgCardImages {
+  avatar?: string;
+  logo?: string;
+}
+
+// ==========================================
+// CONFIGURATION
+// ==========================================
+
+const TITLE_LINE_CHARS = 30;
+const TITLE_MAX_LINES = 3;
+const REMOTE_IMAGE_TIMEOUT_MS = 5000;
+
+// ==========================================
+// SVG LAYOUT
+// ==========================================
+
+/**
+ * Resolve "var(--color-primary)" / "var(--text-muted)" to the theme's colour value
+ */
+export function resolveThemeColor(color: string | undefined, theme: ThemeConfig): string {
+  const variable = color?.match(/^var\(--([\w-]+)\)$/)?.[1];
+  if (!variable) {
+    return color || theme.colors.primary;
+  }
+
+  const key = variable
+    .replace(/^color-/, '')
+    .replace(/-(\w)/g, (_, letter: string) => letter.toUpperCase());
+  return (theme.colors as unknown as Record<string, string>)[key] || theme.colors.primary;
+}
+
+/**
+ * Split a title into lines of roughly maxChars, ellipsing past maxLines
+ */
+export function wrapTitle(title: string, maxChars: number = TITLE_LINE_CHARS, maxLines: number = TITLE_MAX_LINES): string[] {
+  const lines: string[] = [];
+  let current = '';
+
+  for (const word of title.trim().split(/\s+/)) {
+    if (current && `${current} ${word}`.length > maxChars) {
+      lines.push(current);
+      current = word;
+    } else {
+      current = current ? `${current} ${word}` : word;
+    }
+  }
+  if (current) lines.push(current);
+
+  if (lines.length > maxLines) {
+    const kept = lines.slice(0, maxLines);
+    kept[maxLines - 1] = `${kept[maxLines - 1].replace(/[\s.,;:!?-]+$/, '')}…`;
+    return kept;
+  }
+  return lines;
+}
+
+/**
+ * Branded 1200x630 card: label, wrapped title, author and site logo
+ */
+export function renderOgCardSvg(card: OgCard, theme: ThemeConfig, images: OgCardImages = {}): string {
+  const { width, height } = OG_IMAGE_SIZE;
+  const { colors, typography } = theme;
+  const accent = resolveThemeColor(card.accentColor, theme);
+  const headingFont = escapeXml(typography.fontHeading);
+  const bodyFont = escapeXml(typography.fontBody);
+
+  const titleLines = wrapTitle(card.title);
+  const titleSize = titleLines.length > 2 ? 60 : 68;
+  const titleTop = card.label ? 250 : 200;
+
+  const title = titleLines
+    .map((line, index) =>
+      `<text x="96" y="${titleTop + index * (titleSize + 14)}" font-family="${headingFont}" font-size="${titleSize}" font-weight="700" fill="${colors.textPrimary}">${escapeXml(line)}</text>`)
+    .join('');
+
+  const label = card.label
+    ? `<text x="96" y="150" font-family="${bodyFont}" font-size="28" font-weight="700" letter-spacing="3" fill="${accent}">${escapeXml(card.label.toUpperCase())}</text>`
+    : '';
+
+  const initials = card.author?.name
+    .split(/\s+/)
+    .map(part => part[0])
+    .slice(0, 2)
+    .join('')
+    .toUpperCase();
+
+  const author = card.author
+    ? `<g>
+        ${images.avatar
+          ? `<image href="${images.avatar}" x="96" y="482" width="72" height="72" clip-path="url(#avatar)" preserveAspectRatio="xMidYMid slice"/>`
+          : `<circle cx="132" cy="518" r="36" fill="${accent}"/><text x="132" y="529" text-anchor="middle" font-family="${bodyFont}" font-size="28" font-weight="700" fill="${colors.bgPrimary}">${escapeXml(initials || '')}</text>`}
+        <text x="188" y="528" font-family="${bodyFont}" font-size="30" fill="${colors.textSecondary}">${escapeXml(card.author.name)}</text>
+      </g>`
+    : '';
+
+  const siteNameX = width - 96;
+  const brand = `<g>
+      ${images.logo ? `<image href="${images.logo}" x="${siteNameX - 64}" y="470" width="64" height="64" preserveAspectRatio="xMidYMid meet"/>` : ''}
+      <text x="${images.logo ? siteNameX - 80 : siteNameX}" y="528" text-anchor="end" font-family="${headingFont}" font-size="32" font-weight="700" fill="${colors.textPrimary}">${escapeXml(card.siteName)}</text>
+    </g>`;
+
+  return `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}">
+  <defs><clipPath id="avatar"><circle cx="132" cy="518" r="36"/></clipPath></defs>
+  <rect width="${width}" height="${height}" fill="${colors.bgPrimary}"/>
+  <rect width="24" height="${height}" fill="${accent}"/>
+  <rect x="24" y="${height - 12}" width="${width - 24}" height="12" fill="${colors.primary}"/>
+  ${label}
+  ${title}
+  ${author}
+  ${brand}
+</svg>`;
+}
+
+// ==========================================
+// RASTERISING
+// ==========================================
+
+/**
+ * Read a /public path or fetch a remote image, rasterised to a PNG data URI
+ * @returns undefined when the image can't be loaded (the card still renders)
+ */
+export async function loadImageDataUri(
+  src: string | undefined,
+  size: number,
+  fit: 'cover' | 'contain' = 'contain'
+): Promise<string | undefined> {
+  if (!src) return undefined;
+
+  try {
+    const source = /^https?:\/\//.test(src)
+      ? Buffer.from(await (await fetch(src, { signal: AbortSignal.timeout(REMOTE_IMAGE_TIMEOUT_MS) })).arrayBuffer())
+      : await readFile(join(process.cwd(), 'public', src));
+
+    const png = await sharp(source)
+      .resize(size, size, { fit, background: { r: 0, g: 0, b: 0, alpha: 0 } })
+      .png()
+      .toBuffer();
+    return `data:image/png;base64,${png.toString('base64')}`;
+  } catch (error) {
+    console.warn(`OgImage: Failed to load image "${src}":`, error);
+    return undefined;
+  }
+}
+
+/**
+ * Render a card to PNG
+ */
+export async function renderOgImage(card: OgCard, theme: ThemeConfig): Promise<Buffer> {
+  const [avatar, logo] = await Promise.all([
+    loadImageDataUri(card.author?.avatar, 144, 'cover'),
+    loadImageDataUri(card.logo, 128),
+  ]);
+
+  const svg = renderOgCardSvg(card, theme, { avatar, logo });
+  return sharp(Buffer.from(svg)).png().toBuffer();
+}
@@ -0,0 +1,59 @@
+// src/core/seo/ogImagePaths.ts
+// GENERATED OPEN GRAPH CARDS: CARD CONTENT, SIZE & URLS
+// Kept free of sharp/node:fs so pages and middleware can link to cards without bundling the renderer
+
+// ==========================================
+// TYPES & INTERFACES
+// ==========================================
+
+/**
+ * Content of one social preview card
+ */
+export interface OgCard {
+  title: string;
+  label?: string;
+  // Category/tag colour: a CSS colour or a theme variable such as "var(--color-primary)"
+  accentColor?: string;
+  author?: {
+    name: string;
+    avatar?: string;
+  };
+  siteName: string;
+  logo?: string;
+}
+
+// ==========================================
+// CONFIGURATION
+// ==========================================
+
+export const OG_IMAGE_SIZE = { width: 1200, height: 630 };
+
+/**
+ * Route prefix for generated cards (see src/pages/og/[...path].png.ts)
+ */
+export const OG_ROUTE_PREFIX = '/og';
+
+// ==========================================
+// PATHS
+// ==========================================
+
+/**
+ * Route param for a page path: "/" -> "index", "/es/blog/post/" -> "es/blog/post"
+ */
+export function getOgImageParam(pagePath: string): string {
+  return pagePath.replace(/^\/+|\/+$/g, '') || 'index';
+}
+
+/**
+ * Card path for a page path: "/" -> "/og/index.png", "/es/blog/post/" -> "/og/es/blog/post.png"
+ */
+export function getOgImagePath(pagePath: string): string {
+  return `${OG_ROUTE_PREFIX}/${getOgImageParam(pagePath)}.png`;
+}
+
+/**
+ * Absolute card URL for og:image / twitter:image
+ */
+export function getOgImageUrl(siteUrl: string, pagePath: string): string {
+  return `${siteUrl.replace(/\/$/, '')}${getOgImagePath(pagePath)}`;
+}
@@ -0,0 +1,87 @@
+// src/core/seo/pagination.ts
+// PAGINATED ARCHIVES: CANONICAL & PREV/NEXT URLS, PAGE TITLES AND ITEMLIST SCHEMA - PURE FUNCTIONS
+
+// ==========================================
+// TYPES & INTERFACES
+// ==========================================
+
+export interface PaginationSEOOptions {
+  siteUrl: string;
+  // Path of page 1, e.g. "/blog" or "/categories/email-marketing"
+  basePath: string;
+  currentPage: number;
+  lastPage: number;
+  // Pages after this one get noindex (links are still followed); unset indexes every page
+  noindexAfterPage?: number;
+}
+
+export interface PaginationSEO {
+  // Every page is canonical to itself, never to page 1
+  canonicalUrl: string;
+  prevUrl?: string;
+  nextUrl?: string;
+  noindex: boolean;
+}
+
+/**
+ * Where a page sits in the full archive, for ItemList positions
+ */
+export interface ItemListPage {
+  currentPage: number;
+  size: number;
+  total: number;
+}
+
+// ==========================================
+// URLS & TITLES
+// ==========================================
+
+/**
+ * Site-relative path of an archive page: page 1 is the archive itself
+ */
+export function getPagePath(basePath: string, page: number): string {
+  return page > 1 ? `${basePath.replace(/\/$/, '')}/${page}` : basePath;
+}
+
+/**
+ * Canonical, rel=prev/next and robots for one page of an archive
+ */
+export function getPaginationSEO(options: PaginationSEOOptions): PaginationSEO {
+  const { siteUrl, basePath, currentPage, lastPage, noindexAfterPage } = options;
+  const pageUrl = (page: number) => `${siteUrl}${getPagePath(basePath, page)}`;
+
+  return {
+    canonicalUrl: pageUrl(currentPage),
+    prevUrl: currentPage > 1 ? pageUrl(currentPage - 1) : undefined,
+    nextUrl: currentPage < lastPage ? pageUrl(currentPage + 1) : undefined,
+    noindex: noindexAfterPage !== undefined && currentPage > noindexAfterPage,
+  };
+}
+
+/**
+ * Page title with the page label ("Page 3 of 7") after the first page
+ */
+export function withPageNumber(title: string, pageLabel: string, currentPage: number): string {
+  return currentPage > 1 ? `${title} - ${pageLabel}` : title;
+}
+
+// ==========================================
+// SCHEMA
+// ==========================================
+
+/**
+ * ItemList of one archive page; positions continue across pages and
+ * numberOfItems counts the whole archive
+ */
+export function generatePaginatedItemList(items: Record<string, unknown>[], page: ItemListPage) {
+  return {
+    "@type": "ItemList",
+    "numberOfItems": page.total,
+    "itemListOrder": "https://schema.org/ItemListOrderDescending",
+    "itemListElement": items.map((item, index) => ({
+      "@type": "ListItem",
+      "position": (page.currentPage - 1) * page.size + index + 1,
+      "item": item,
+    })),
+  };
+}
@@ -0,0 +1,192 @@
+// src/core/seo/robots.ts
+// ROBOTS POLICY: ROBOTS.TXT RENDERING & MATCHING X-ROBOTS-TAG HEADERS - PURE FUNCTIONS
+
+// ==========================================
+// TYPES & INTERFACES
+// ==========================================
+
+/**
+ * One robots.txt rule as written in settings.json
+ */
+export interface RobotsRule {
+  userAgent: string | string[];
+  allow?: string[];
+  disallow?: string[];
+  // Seconds between requests; only some crawlers (Bing, Yandex) honour it
+  crawlDelay?: number;
+}
+
+export interface RobotsSettings {
+  rules: RobotsRule[];
+  // Disallow the whole site for AI_TRAINING_CRAWLERS
+  blockAiCrawlers: boolean;
+}
+
+/**
+ * A robots.txt group: the user agents it applies to and their path rules
+ */
+export interface RobotsGroup {
+  userAgents: string[];
+  allow: string[];
+  disallow: string[];
+  crawlDelay?: number;
+  comment?: string;
+}
+
+// ==========================================
+// CONFIGURATION
+// ==========================================
+
+export const DEFAULT_ROBOTS_RULES: RobotsRule[] = [
+  { userAgent: '*', allow: ['/'], disallow: [] },
+];
+
+/**
+ * Never worth crawling: API endpoints and cloaked affiliate links
+ */
+export const ALWAYS_DISALLOWED = ['/api/', '/go/'];
+
+/**
+ * Crawlers that collect training data for AI models.
+ * Google-Extended and Applebot-Extended are robots.txt tokens only; their crawlers identify as Googlebot/Applebot.
+ */
+export const AI_TRAINING_CRAWLERS = [
+  'GPTBot',
+  'ClaudeBot',
+  'anthropic-ai',
+  'Google-Extended',
+  'Applebot-Extended',
+  'CCBot',
+  'Bytespider',
+  'meta-externalagent',
+  'FacebookBot',
+  'cohere-training-data-crawler',
+  'Diffbot',
+  'Omgilibot',
+  'Timpibot',
+];
+
+const NOINDEX_DIRECTIVE = 'noindex, nofollow';
+
+// ==========================================
+// POLICY
+// ==========================================
+
+/**
+ * robots.txt patterns matching exactly one page, with or without a trailing slash
+ */
+export function toExactPathPatterns(path: string): string[] {
+  const trimmed = path.replace(/\/+$/, '');
+  return trimmed ? [`${trimmed}$`, `${trimmed}/$`] : ['/$'];
+}
+
+/**
+ * Robots groups from settings, with the always-disallowed paths and any extra
+ * disallowed pages added to every group (a crawler only obeys the most specific
+ * group that names it). Noindex pages don't belong here: a crawler kept out of a
+ * page never sees its noindex and may still index the bare URL.
+ */
+export function buildRobotsPolicy(settings: RobotsSettings | undefined, disallowedPaths: string[] = []): RobotsGroup[] {
+  const rules = settings?.rules.length ? settings.rules : DEFAULT_ROBOTS_RULES;
+  const disallowedPatterns = disallowedPaths.flatMap(toExactPathPatterns);
+
+  const groups: RobotsGroup[] = rules.map(rule => ({
+    userAgents: Array.isArray(rule.userAgent) ? rule.userAgent : [rule.userAgent],
+    allow: rule.allow || [],
+    disallow: Array.from(new Set([...(rule.disallow || []), ...ALWAYS_DISALLOWED, ...disallowedPatterns])),
+    crawlDelay: rule.crawlDelay,
+  }));
+
+  if (!groups.some(group => group.userAgents.includes('*'))) {
+    groups.unshift({ userAgents: ['*'], allow: [], disallow: [...ALWAYS_DISALLOWED, ...disallowedPatterns] });
+  }
+
+  if (settings?.blockAiCrawlers) {
+    groups.push({
+      userAgents: AI_TRAINING_CRAWLERS,
+      allow: [],
+      disallow: ['/'],
+      comment: 'AI training crawlers',
+    });
+  }
+
+  return groups;
+}
+
+// ==========================================
+// MATCHING
+// ==========================================
+
+function toPatternRegExp(pattern: string): RegExp {
+  const anchored = pattern.endsWith('$');
+  const body = (anchored ? pattern.slice(0, -1) : pattern)
+    .split('*')
+    .map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+    .join('.*');
+  return new RegExp(`^${body}${anchored ? '$' : ''}`);
+}
+
+/**
+ * Whether a group lets its crawlers fetch a path (RFC 9309: the longest
+ * matching pattern wins, and Allow wins a tie)
+ */
+export function isPathAllowed(group: RobotsGroup, pathname: string): boolean {
+  let longestMatch = -1;
+  let allowed = true;
+
+  const check = (patterns: string[], allow: boolean) => {
+    for (const pattern of patterns) {
+      if (!pattern || !toPatternRegExp(pattern).test(pathname)) continue;
+      if (pattern.length > longestMatch || (pattern.length === longestMatch && allow)) {
+        longestMatch = pattern.length;
+        allowed = allow;
+      }
+    }
+  };
+
+  check(group.disallow, false);
+  check(group.allow, true);
+  return allowed;
+}
+
+/**
+ * X-Robots-Tag values matching the policy for a path: a plain directive for
+ * noindex pages and paths all crawlers are disallowed from, otherwise one
+ * "<agent>: noindex" per blocked agent
+ */
+export function getXRobotsTags(policy: RobotsGroup[], pathname: string, noindexPaths: string[] = []): string[] {
+  const trimmed = pathname.replace(/\/+$/, '');
+  if (noindexPaths.some(path => path.replace(/\/+$/, '') === trimmed)) {
+    return [NOINDEX_DIRECTIVE];
+  }
+
+  const wildcard = policy.find(group => group.userAgents.includes('*'));
+  if (wildcard && !isPathAllowed(wildcard, pathname)) {
+    return [NOINDEX_DIRECTIVE];
+  }
+
+  return policy
+    .filter(group => !group.userAgents.includes('*') && !isPathAllowed(group, pathname))
+    .flatMap(group => group.userAgents.map(agent => `${agent}: ${NOINDEX_DIRECTIVE}`));
+}
+
+// ==========================================
+// RENDERING
+// ==========================================
+
+function renderGroup(group: RobotsGroup): string {
+  return [
+    group.comment && `# ${group.comment}`,
+    ...group.userAgents.map(agent => `User-agent: ${agent}`),
+    ...group.allow.map(path => `Allow: ${path}`),
+    ...group.disallow.map(path => `Disallow: ${path}`),
+    group.crawlDelay !== undefined && `Crawl-delay: ${group.crawlDelay}`,
+  ].filter(Boolean).join('\n');
+}
+
+export function renderRobotsTxt(policy: RobotsGroup[], sitemapUrls: string[]): string {
+  return [
+    ...policy.map(renderGroup),
+    sitemapUrls.map(url => `Sitemap: ${url}`).join('\n'),
+  ].filter(Boolean).join('\n\n') + '\n';
+}
@@ -8,9 +8,16 @@ import type {
   Organization, 
   ImageObject,
   BlogPosting,
+  Product,
+  Review,
+  ItemList,
+  Thing,
+  Graph,
   WithContext
 } from 'schema-dts';
 import type { SiteSettings } from '../blogLogic';
+import { getLanguageTag } from '../i18n/locales';
+import { getPostModifiedDate } from '../../utils/postDates';
 
 // Re-export SiteSettings for use in other files
 export type { SiteSettings } from '../blogLogic';
@@ -27,6 +34,16 @@ export interface AuthorData {
   twitter?: string;
   github?: string;
   website?: string;
+  jobTitle?: string;
+  organization?: {
+    name: string;
+    url?: string;
+  };
+  knowsAbout?: string[];
+  credentials?: string[];
+  awards?: string[];
+  // Other profile URLs (LinkedIn, Mastodon, YouTube...)
+  sameAs?: string[];
 }
 
 
@@ -38,7 +55,13 @@ export interface BlogFrontmatter {
   title: string;
   description: string;
   pubDate: Date;
+  updatedDate?: Date;
+  lastReviewed?: Date;
   author: AuthorData;
+  // All bylines in order (lead author first); defaults to [author]
+  authors?: AuthorData[];
+  // Expert reviewer and fact-checker
+  reviewedBy?: AuthorData[];
   category: {
     id: string;
     name: string;
@@ -58,7 +81,46 @@ export interface BlogFrontmatter {
     alt: string;
   };
   featured?: boolean;
-  status: 'draft' | 'published';
+  status: 'draft' | 'scheduled' | 'published';
+  locale?: string;
+  series?: {
+    name: string;
+    url: string;
+    position?: number;
+  };
+}
+
+/**
+ * Affiliate product data interface
+ */
+export interface ProductData {
+  name: string;
+  description: string;
+  image: string;
+  url: string;
+  price: {
+    amount: number;
+    currency: string;
+  };
+  availability?: 'InStock' | 'OutOfStock' | 'PreOrder' | 'BackOrder' | 'Discontinued';
+  brand?: string;
+  sku?: string;
+  rating?: number;
+  reviewCount?: number;
+  pros?: string[];
+  cons?: string[];
+}
+
+/**
+ * Review schema props interface
+ */
+export interface ReviewSchemaProps {
+  product: ProductData;
+  author: AuthorData;
+  url: string;
+  datePublished: Date;
+  rating?: number;
+  settings: SiteSettings;
 }
 
 /**
@@ -76,13 +138,16 @@ export interface BlogSchemaProps {
 export function generateArticleSchema(props: BlogSchemaProps): WithContext<Article> {
   const { frontmatter, url, settings } = props;
 
-  const authorSchema: Person = {
+  const toPerson = (author: AuthorData): Person => ({
     "@type": "Person",
-    "name": frontmatter.author.name,
-    ...(frontmatter.author.bio && { "description": frontmatter.author.bio }),
-    ...(frontmatter.author.website && { "url": frontmatter.author.website }),
-    ...(frontmatter.author.email && { "email": frontmatter.author.email })
-  };
+    "name": author.name,
+    ...(author.bio && { "description": author.bio }),
+    ...(author.website && { "url": author.website }),
+    ...(author.email && { "email": author.email })
+  });
+
+  const authors = frontmatter.authors?.length ? frontmatter.authors : [frontmatter.author];
+  const reviewers = (frontmatter.reviewedBy || []).map(toPerson);
 
   const publisherSchema: Organization = {
     "@type": "Organization",
@@ -104,18 +169,31 @@ export function generateArticleSchema(props: BlogSchemaProps): WithContext<Artic
     "@type": "Article",
     "headline": frontmatter.title,
     "description": frontmatter.description,
-    "author": authorSchema,
+    // A co-authored article lists every author
+    "author": authors.length > 1 ? authors.map(toPerson) : toPerson(authors[0]),
     "publisher": publisherSchema,
     "datePublished": frontmatter.pubDate.toISOString(),
-    "dateModified": frontmatter.pubDate.toISOString(),
+    "dateModified": getPostModifiedDate(frontmatter).toISOString(),
     "mainEntityOfPage": {
       "@type": "WebPage",
-      "@id": url
+      "@id": url,
+      ...(frontmatter.lastReviewed && { "lastReviewed": frontmatter.lastReviewed.toISOString() }),
+      // reviewedBy belongs to the WebPage; schema.org has no fact-checker property, so both are listed
+      ...(reviewers.length > 0 && { "reviewedBy": reviewers.length > 1 ? reviewers : reviewers[0] })
     },
     "url": url,
+    "inLanguage": getLanguageTag(frontmatter.locale),
     "keywords": keywords,
     ...(imageSchema && { "image": imageSchema }),
-    ...(frontmatter.category.name && { "articleSection": frontmatter.category.name })
+    ...(frontmatter.category.name && { "articleSection": frontmatter.category.name }),
+    ...(frontmatter.series && {
+      "isPartOf": {
+        "@type": "CreativeWorkSeries",
+        "name": frontmatter.series.name,
+        "url": frontmatter.series.url
+      },
+      ...(frontmatter.series.position && { "position": frontmatter.series.position })
+    })
   };
 }
 
@@ -146,6 +224,10 @@ export function generatePersonSchema(author: AuthorData): WithContext<Person> {
     sameAs.push(`https://github.com/${author.github}`);
   }
 
+  for (const url of author.sameAs || []) {
+    if (!sameAs.includes(url)) sameAs.push(url);
+  }
+
   return {
     "@context": "https://schema.org",
     "@type": "Person",
@@ -154,6 +236,22 @@ export function generatePersonSchema(author: AuthorData): WithContext<Person> {
     ...(author.avatar && { "image": author.avatar }),
     ...(author.email && { "email": author.email }),
     ...(author.website && { "url": author.website }),
+    ...(author.jobTitle && { "jobTitle": author.jobTitle }),
+    ...(author.organization && {
+      "worksFor": {
+        "@type": "Organization",
+        "name": author.organization.name,
+        ...(author.organization.url && { "url": author.organization.url })
+      }
+    }),
+    ...(author.knowsAbout?.length && { "knowsAbout": author.knowsAbout }),
+    ...(author.credentials?.length && {
+      "hasCredential": author.credentials.map(name => ({
+        "@type": "EducationalOccupationalCredential" as const,
+        "name": name
+      }))
+    }),
+    ...(author.awards?.length && { "award": author.awards }),
     ...(sameAs.length > 0 && { "sameAs": sameAs })
   };
 }
@@ -274,4 +372,124 @@ export function generateImageSchema(image: { url: string; alt: string }): ImageO
     "name": image.alt,
     "description": image.alt
   };
-}
\ No newline at end of file
+}
+
+/**
+ * Generate Product schema with offer and aggregate rating
+ */
+export function generateProductSchema(product: ProductData): WithContext<Product> {
+  return {
+    "@context": "https://schema.org",
+    "@type": "Product",
+    "name": product.name,
+    "description": product.description,
+    "image": product.image,
+    ...(product.brand && { "brand": { "@type": "Brand", "name": product.brand } }),
+    ...(product.sku && { "sku": product.sku }),
+    "offers": {
+      "@type": "Offer",
+      "price": product.price.amount,
+      "priceCurrency": product.price.currency,
+      "availability": `https://schema.org/${product.availability || 'InStock'}`,
+      "url": product.url
+    },
+    // Google ignores ratings without a count
+    ...(product.rating !== undefined && product.reviewCount && {
+      "aggregateRating": {
+        "@type": "AggregateRating",
+        "ratingValue": product.rating,
+        "reviewCount": product.reviewCount,
+        "bestRating": 5
+      }
+    })
+  };
+}
+
+/**
+ * Generate ItemList schema of ranked products (comparisons, category lists)
+ */
+export function generateItemListSchema(name: string, products: ProductData[]): WithContext<ItemList> {
+  return {
+    "@context": "https://schema.org",
+    "@type": "ItemList",
+    "name": name,
+    "numberOfItems": products.length,
+    "itemListElement": products.map((product, index) => {
+      const { "@context": _context, ...item } = generateProductSchema(product);
+      return {
+        "@type": "ListItem",
+        "position": index + 1,
+        "item": item
+      };
+    })
+  };
+}
+
+/**
+ * Generate ItemList of pros or cons for Review positiveNotes/negativeNotes
+ */
+function generateNotesList(notes: string[]): ItemList {
+  return {
+    "@type": "ItemList",
+    "itemListElement": notes.map((note, index) => ({
+      "@type": "ListItem",
+      "position": index + 1,
+      "name": note
+    }))
+  };
+}
+
+/**
+ * Generate Review schema for an editorial product review
+ */
+export function generateReviewSchema(props: ReviewSchemaProps): WithContext<Review> {
+  const { product, author, url, datePublished, rating, settings } = props;
+  const { "@context": _context, ...itemReviewed } = generateProductSchema(product);
+
+  return {
+    "@context": "https://schema.org",
+    "@type": "Review",
+    "itemReviewed": itemReviewed,
+    "author": {
+      "@type": "Person",
+      "name": author.name,
+      ...(author.website && { "url": author.website })
+    },
+    "publisher": {
+      "@type": "Organization",
+      "name": settings.siteName,
+      "url": settings.siteUrl
+    },
+    "datePublished": datePublished.toISOString(),
+    "url": url,
+    ...(rating !== undefined && {
+      "reviewRating": {
+        "@type": "Rating",
+        "ratingValue": rating,
+        "bestRating": 5,
+        "worstRating": 0
+      }
+    }),
+    ...(product.pros?.length && { "positiveNotes": generateNotesList(product.pros) }),
+    ...(product.cons?.length && { "negativeNotes": generateNotesList(product.cons) })
+  };
+}
+
+/**
+ * Merge several schemas into one @graph, dropping their individual @context
+ */
+export function generateSchemaGraph(schemas: Array<object | null | undefined>): Graph {
+  return {
+    "@context": "https://schema.org",
+    "@graph": schemas
+      .filter((schema): schema is Record<string, unknown> => Boolean(schema))
+      .flatMap(schema => {
+        // Nested graphs (e.g. from a previous merge) are flattened
+        if (Array.isArray(schema["@graph"])) {
+          return schema["@graph"] as Thing[];
+        }
+        const { "@context": _context, ...node } = schema;
+        return [node as unknown as Thing];
+      })
+  };
+}
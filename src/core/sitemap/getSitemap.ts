@@ -0,0 +1,64 @@
+// src/core/sitemap/getSitemap.ts
+import { getEntry } from 'astro:content';
+import { getPublishedPosts, getSiteSettings, type BlogPost } from '../blogLogic';
+import { getContentBlockProducts } from '../affiliate/products';
+import { toAbsoluteUrl } from '../feed/feed';
+import { LOCALE_CODES } from '../i18n/locales';
+import { getPostAlternateLinks, getPostLocale, getPostPath } from '../i18n/translations';
+import { getPostModifiedDate } from '../../utils/postDates';
+import type { NewsSitemapEntry, SitemapEntry } from './sitemap';
+
+/**
+ * Posts that belong in sitemaps: live in their locale (as getPublishedPosts) and not noindex
+ */
+export async function getSitemapPosts(): Promise<BlogPost[]> {
+  const postsByLocale = await Promise.all(LOCALE_CODES.map(locale => getPublishedPosts(locale)));
+  return postsByLocale.flat().filter(post => !post.data.noindex);
+}
+
+/**
+ * Hero image plus the images of reviewed and block-embedded products, without duplicates
+ */
+async function getPostImages(post: BlogPost, siteUrl: string): Promise<string[]> {
+  const images = post.data.image ? [post.data.image.url] : [];
+
+  if (post.data.review) {
+    const product = await getEntry(post.data.review.product);
+    if (product) images.push(product.data.image);
+  }
+
+  const products = await getContentBlockProducts(post.body || '');
+  images.push(...products.map(product => product.data.image));
+
+  return Array.from(new Set(images.map(image => toAbsoluteUrl(image, siteUrl))));
+}
+
+/**
+ * Post sitemap entries with lastmod, images and hreflang alternates
+ */
+export async function getPostSitemapEntries(): Promise<SitemapEntry[]> {
+  const [settings, posts] = await Promise.all([getSiteSettings(), getSitemapPosts()]);
+
+  return Promise.all(posts.map(async post => ({
+    url: `${settings.siteUrl}${getPostPath(post)}`,
+    lastmod: getPostModifiedDate(post.data),
+    images: await getPostImages(post, settings.siteUrl),
+    alternates: getPostAlternateLinks(post, posts, settings.siteUrl),
+  })));
+}
+
+/**
+ * News sitemap entries, newest first (renderNewsSitemap keeps the last 48 hours)
+ */
+export async function getNewsSitemapEntries(): Promise<NewsSitemapEntry[]> {
+  const [settings, posts] = await Promise.all([getSiteSettings(), getSitemapPosts()]);
+
+  return posts
+    .sort((a, b) => b.data.pubDate.valueOf() - a.data.pubDate.valueOf())
+    .map(post => ({
+      url: `${settings.siteUrl}${getPostPath(post)}`,
+      title: post.data.title,
+      published: post.data.pubDate,
+      language: getPostLocale(post),
+    }));
+}
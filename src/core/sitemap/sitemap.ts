@@ -0,0 +1,115 @@
+// src/core/sitemap/sitemap.ts
+// POST & GOOGLE NEWS SITEMAPS - PURE FUNCTIONS, NO ASTRO DEPENDENCIES
+
+import { escapeXml } from '../../utils/xml';
+
+// ==========================================
+// TYPES & INTERFACES
+// ==========================================
+
+export interface SitemapAlternate {
+  hreflang: string;
+  href: string;
+}
+
+export interface SitemapEntry {
+  url: string;
+  lastmod?: Date;
+  // Absolute image URLs, emitted as image:image
+  images: string[];
+  alternates: SitemapAlternate[];
+}
+
+export interface NewsSitemapEntry {
+  url: string;
+  title: string;
+  published: Date;
+  // ISO 639 language code, e.g. "en"
+  language: string;
+}
+
+// ==========================================
+// CONFIGURATION
+// ==========================================
+
+/**
+ * Google News only considers articles published in the last two days
+ */
+export const NEWS_WINDOW_HOURS = 48;
+
+/**
+ * Google stops reading a news sitemap after 1,000 URLs
+ */
+export const NEWS_SITEMAP_LIMIT = 1000;
+
+export const SITEMAP_CONTENT_TYPE = 'application/xml; charset=utf-8';
+
+const SITEMAP_NAMESPACE = 'http://www.sitemaps.org/schemas/sitemap/0.9';
+const IMAGE_NAMESPACE = 'http://www.google.com/schemas/sitemap-image/1.1';
+const NEWS_NAMESPACE = 'http://www.google.com/schemas/sitemap-news/0.9';
+const XHTML_NAMESPACE = 'http://www.w3.org/1999/xhtml';
+
+// ==========================================
+// HELPERS
+// ==========================================
+
+/**
+ * Whether a post date falls inside the Google News window
+ */
+export function isWithinNewsWindow(published: Date, now: Date = new Date()): boolean {
+  const age = now.valueOf() - published.valueOf();
+  return age >= 0 && age <= NEWS_WINDOW_HOURS * 60 * 60 * 1000;
+}
+
+// ==========================================
+// RENDERING
+// ==========================================
+
+function renderUrl(entry: SitemapEntry): string {
+  return [
+    '<url>',
+    `<loc>${escapeXml(entry.url)}</loc>`,
+    entry.lastmod ? `<lastmod>${entry.lastmod.toISOString()}</lastmod>` : '',
+    ...entry.alternates.map(link =>
+      `<xhtml:link rel="alternate" hreflang="${escapeXml(link.hreflang)}" href="${escapeXml(link.href)}"/>`),
+    ...entry.images.map(image => `<image:image><image:loc>${escapeXml(image)}</image:loc></image:image>`),
+    '</url>',
+  ].join('');
+}
+
+/**
+ * Sitemap urlset with lastmod, hreflang alternates and image:image entries
+ */
+export function renderSitemap(entries: SitemapEntry[]): string {
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<urlset xmlns="${SITEMAP_NAMESPACE}" xmlns:image="${IMAGE_NAMESPACE}" xmlns:xhtml="${XHTML_NAMESPACE}">`,
+    ...entries.map(renderUrl),
+    '</urlset>',
+  ].join('\n');
+}
+
+/**
+ * Google News sitemap; entries outside the news window are dropped
+ */
+export function renderNewsSitemap(entries: NewsSitemapEntry[], publicationName: string, now: Date = new Date()): string {
+  const recent = entries
+    .filter(entry => isWithinNewsWindow(entry.published, now))
+    .slice(0, NEWS_SITEMAP_LIMIT);
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<urlset xmlns="${SITEMAP_NAMESPACE}" xmlns:news="${NEWS_NAMESPACE}">`,
+    ...recent.map(entry => [
+      '<url>',
+      `<loc>${escapeXml(entry.url)}</loc>`,
+      '<news:news>',
+      `<news:publication><news:name>${escapeXml(publicationName)}</news:name><news:language>${escapeXml(entry.language)}</news:language></news:publication>`,
+      `<news:publication_date>${entry.published.toISOString()}</news:publication_date>`,
+      `<news:title>${escapeXml(entry.title)}</news:title>`,
+      '</news:news>',
+      '</url>',
+    ].join('')),
+    '</urlset>',
+  ].join('\n');
+}
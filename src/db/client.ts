@@ -0,0 +1,27 @@
+// src/db/client.ts
+import { createClient } from '@libsql/client';
+import { drizzle, type LibSQLDatabase } from 'drizzle-orm/libsql';
+import { DATABASE_AUTH_TOKEN, DATABASE_URL } from 'astro:env/server';
+import * as schema from './schema';
+
+export type Database = LibSQLDatabase<typeof schema>;
+
+let db: Database | null = null;
+
+/**
+ * Get the shared database connection
+ * @returns null when DATABASE_URL isn't configured (e.g. local builds without a database)
+ */
+export function getDb(): Database | null {
+  if (!DATABASE_URL) return null;
+
+  if (!db) {
+    const client = createClient({
+      url: DATABASE_URL,
+      authToken: DATABASE_AUTH_TOKEN,
+    });
+    db = drizzle(client, { schema });
+  }
+
+  return db;
+}
@@ -0,0 +1,54 @@
+// src/db/schema.ts
+// Database tables (libsql / Turso via drizzle-orm)
+import { index, integer, real, sqliteTable, text, uniqueIndex } from 'drizzle-orm/sqlite-core';
+
+/**
+ * One row per outbound affiliate click through /go/[productId]
+ * clickId is also sent to the merchant as the sub ID, so conversions can be traced back.
+ */
+export const affiliateClicks = sqliteTable('affiliate_clicks', {
+  id: integer('id').primaryKey({ autoIncrement: true }),
+  clickId: text('click_id').notNull().unique(),
+  productId: text('product_id').notNull(),
+  categoryId: text('category_id'),
+  postSlug: text('post_slug'),
+  variant: text('variant'),
+  subId: text('sub_id'),
+  utmSource: text('utm_source'),
+  utmMedium: text('utm_medium'),
+  utmCampaign: text('utm_campaign'),
+  referrer: text('referrer'),
+  country: text('country'),
+  destinationUrl: text('destination_url').notNull(),
+  clickedAt: integer('clicked_at', { mode: 'timestamp_ms' }).notNull(),
+}, (table) => [
+  index('affiliate_clicks_product_idx').on(table.productId),
+  index('affiliate_clicks_post_idx').on(table.postSlug),
+  index('affiliate_clicks_clicked_at_idx').on(table.clickedAt),
+]);
+
+/**
+ * One row per conversion reported by an affiliate network postback
+ * Networks resend postbacks when a sale is approved or reversed, so
+ * (network, transactionId) is unique and later postbacks update the row.
+ */
+export const affiliateConversions = sqliteTable('affiliate_conversions', {
+  id: integer('id').primaryKey({ autoIncrement: true }),
+  clickId: text('click_id').notNull().references(() => affiliateClicks.clickId),
+  network: text('network').notNull(),
+  transactionId: text('transaction_id').notNull(),
+  status: text('status', { enum: ['pending', 'approved', 'rejected'] }).notNull(),
+  commission: real('commission').notNull(),
+  saleAmount: real('sale_amount'),
+  currency: text('currency').notNull(),
+  convertedAt: integer('converted_at', { mode: 'timestamp_ms' }).notNull(),
+  updatedAt: integer('updated_at', { mode: 'timestamp_ms' }).notNull(),
+}, (table) => [
+  uniqueIndex('affiliate_conversions_transaction_idx').on(table.network, table.transactionId),
+  index('affiliate_conversions_click_idx').on(table.clickId),
+]);
+
+export type AffiliateClick = typeof affiliateClicks.$inferSelect;
+export type NewAffiliateClick = typeof affiliateClicks.$inferInsert;
+export type AffiliateConversion = typeof affiliateConversions.$inferSelect;
+export type NewAffiliateConversion = typeof affiliateConversions.$inferInsert;
@@ -18,4 +18,16 @@ declare module '@unpic/astro' {
     
     export const Image: (props: ImageProps) => any;
     export const Source: (props: any) => any;
-  }
\ No newline at end of file
+  }
+
+// Cloudflare bindings (locals.runtime.env), e.g. ASSETS for the prerendered files
+type Runtime = import('@astrojs/cloudflare').Runtime;
+
+declare namespace App {
+  interface Locals extends Partial<Runtime> {
+    // Set by src/middleware.ts for authenticated /api requests
+    apiKey?: import('./core/api/apiKeys').ApiKeyIdentity;
+    // Set by pages whose @graph already holds the Product/ItemList schemas of their content blocks
+    blockSchemasInGraph?: boolean;
+  }
+}
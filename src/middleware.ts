@@ -0,0 +1,105 @@
+// src/middleware.ts
+import { defineMiddleware, sequence } from 'astro:middleware';
+import { BLOG_API_KEYS } from 'astro:env/server';
+import {
+  API_CORS_HEADERS,
+  authorizeApiRequest,
+  isPublicApiRoute,
+  parseApiKeys,
+} from './core/api/apiKeys';
+import { getNoindexPaths, getRobotsPolicy } from './core/seo/getRobotsPolicy';
+import { getXRobotsTags } from './core/seo/robots';
+import { getRedirects } from './core/redirects/getRedirects';
+import { matchRedirect } from './core/redirects/redirects';
+
+// 🔐 Guard every /api route with a scoped API key
+const apiKeys = parseApiKeys(BLOG_API_KEYS);
+
+const apiAuth = defineMiddleware(async (context, next) => {
+  const { request, url } = context;
+
+  // Prerendered pages have no request headers to check
+  if (context.isPrerendered || !url.pathname.startsWith('/api/')) {
+    return next();
+  }
+
+  // CORS preflight and public routes skip authentication
+  if (request.method === 'OPTIONS' || isPublicApiRoute(url.pathname)) {
+    return next();
+  }
+
+  const authResult = await authorizeApiRequest(request, url, apiKeys);
+
+  if (!authResult.success) {
+    console.warn(`🔐 ${request.method} ${url.pathname} rejected: ${authResult.error}`);
+    return new Response(JSON.stringify({
+      success: false,
+      error: authResult.error,
+      code: authResult.code
+    }), {
+      status: authResult.status,
+      headers: API_CORS_HEADERS
+    });
+  }
+
+  context.locals.apiKey = authResult.key;
+  return next();
+});
+
+// ↪️ Redirects for renamed and removed URLs (prerendered routes use dist/_redirects instead)
+const redirects = defineMiddleware(async (context, next) => {
+  const { url } = context;
+
+  // Prerendering at build time: the page exists, so there is nothing to redirect
+  if (context.isPrerendered && !import.meta.env.DEV) {
+    return next();
+  }
+
+  const match = matchRedirect(await getRedirects(), url.pathname);
+  if (!match) {
+    return next();
+  }
+
+  if (match.status === 410) {
+    // Render the 404 page with a 410 status, so search engines drop the URL quickly
+    const notFound = await context.rewrite('/404');
+    return new Response(notFound.body, {
+      status: 410,
+      headers: notFound.headers,
+    });
+  }
+
+  // Keep the query string (UTM parameters) unless the destination sets its own
+  const location = match.location!.includes('?') ? match.location! : `${match.location}${url.search}`;
+  return new Response(null, {
+    status: match.status,
+    headers: { Location: location },
+  });
+});
+
+// 🤖 X-Robots-Tag headers matching robots.txt and noindex pages (prerendered pages rely on their robots meta tag)
+const robotsHeaders = defineMiddleware(async (context, next) => {
+  const response = await next();
+
+  if (response.headers.has('X-Robots-Tag')) {
+    return response;
+  }
+
+  const [policy, noindexPaths] = await Promise.all([getRobotsPolicy(), getNoindexPaths()]);
+  const tags = getXRobotsTags(policy, context.url.pathname, noindexPaths);
+  if (tags.length === 0) {
+    return response;
+  }
+
+  // Copy the headers: responses such as Response.redirect() have immutable ones
+  const headers = new Headers(response.headers);
+  tags.forEach(tag => headers.append('X-Robots-Tag', tag));
+
+  return new Response(response.body, {
+    status: response.status,
+    statusText: response.statusText,
+    headers,
+  });
+});
+
+export const onRequest = sequence(robotsHeaders, redirects, apiAuth);
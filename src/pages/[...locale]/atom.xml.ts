@@ -0,0 +1,24 @@
+import type { APIRoute } from 'astro';
+import { generateSiteFeedPaths, getFeed } from '../../core/feed/getFeed';
+import { renderFeedResponse } from '../../core/feed/feed';
+
+export const prerender = true;
+
+// Same items as rss.xml: /atom.xml for the default locale, /<locale>/atom.xml for the others
+export const getStaticPaths = generateSiteFeedPaths;
+
+export const GET: APIRoute = async ({ props }) => {
+  const { locale } = props;
+
+  try {
+    const feed = await getFeed({ locale });
+    if (!feed) {
+      return new Response('Feeds are disabled', { status: 404 });
+    }
+
+    return renderFeedResponse(feed, 'atom');
+  } catch (error) {
+    console.error('Atom Feed Generation Error:', error);
+    return new Response('Error generating feed', { status: 500 });
+  }
+};
@@ -0,0 +1,19 @@
+import type { APIRoute } from 'astro';
+import { generateScopedFeedPaths, getFeed } from '../../../../core/feed/getFeed';
+import { renderFeedResponse, SCOPED_FEED_FILES } from '../../../../core/feed/feed';
+
+export const prerender = true;
+
+// /categories/<path>/feed.xml (RSS), atom.xml and feed.json; subcategories nest, e.g. /categories/marketing/email/feed.xml
+// Prefixed locales get them under /es/categories/...
+export const getStaticPaths = () => generateScopedFeedPaths('category', 'category');
+
+export const GET: APIRoute = async ({ params, props }) => {
+  const format = SCOPED_FEED_FILES[params.feed!];
+  const feed = format && await getFeed({ locale: props.locale, scope: { type: 'category', slug: params.category! } });
+  if (!feed) {
+    return new Response('Not found', { status: 404 });
+  }
+
+  return renderFeedResponse(feed, format);
+};
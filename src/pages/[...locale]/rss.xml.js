@@ -0,0 +1,23 @@
+import { generateSiteFeedPaths, getFeed } from '../../core/feed/getFeed';
+import { renderFeedResponse } from '../../core/feed/feed';
+
+export const prerender = true;
+
+// One feed per locale: /rss.xml for the default locale, /<locale>/rss.xml for the others
+export const getStaticPaths = generateSiteFeedPaths;
+
+export async function GET(context) {
+  const { locale } = context.props;
+
+  try {
+    const feed = await getFeed({ locale });
+    if (!feed) {
+      return new Response('RSS feed is disabled', { status: 404 });
+    }
+
+    return renderFeedResponse(feed, 'rss');
+  } catch (error) {
+    console.error('RSS Generation Error:', error);
+    return new Response('Error generating RSS feed', { status: 500 });
+  }
+}
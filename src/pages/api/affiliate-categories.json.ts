@@ -1,6 +1,5 @@
 import { getCollection, type CollectionEntry } from 'astro:content';
 import type { APIRoute } from 'astro';
-import { BLOG_API_KEY } from "astro:env/server";
 
 // Define the affiliate category type from your content collection
 type AffiliateCategory = CollectionEntry<'affiliateCategories'>;
@@ -37,31 +36,6 @@ interface AffiliateCategoryApiResponse {
   timestamp: number;
 }
 
-// 🔐 Authentication helper
-const authenticateRequest = (request: Request): { success: boolean; error?: string } => {
-  const authHeader = request.headers.get('Authorization');
-  const apiKey = request.headers.get('X-API-Key');
-  
-  // Check for API key in either Authorization header or X-API-Key header
-  const providedKey = authHeader?.replace('Bearer ', '') || apiKey;
-  
-  if (!providedKey) {
-    return { 
-      success: false, 
-      error: 'Missing API key.' 
-    };
-  }
-  
-  if (providedKey !== BLOG_API_KEY) {
-    return { 
-      success: false, 
-      error: 'Invalid API key.' 
-    };
-  }
-  
-  return { success: true };
-};
-
 // 🔥 CORS headers helper
 const getCORSHeaders = () => ({
   'Content-Type': 'application/json',
@@ -79,21 +53,7 @@ export const OPTIONS: APIRoute = async () => {
   });
 };
 
-export const GET: APIRoute = async ({ request, url }): Promise<Response> => {
-  // 🔐 Authenticate the request first
-  const authResult = authenticateRequest(request);
-  
-  if (!authResult.success) {
-    return new Response(JSON.stringify({
-      success: false,
-      error: authResult.error,
-      code: 'UNAUTHORIZED'
-    }), {
-      status: 401,
-      headers: getCORSHeaders()
-    });
-  }
-
+export const GET: APIRoute = async ({ url }): Promise<Response> => {
   // Get query parameters with proper types
   const searchParams = new URL(url).searchParams;
   const page: number = parseInt(searchParams.get('page') || '1');
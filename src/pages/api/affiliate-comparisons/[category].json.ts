@@ -1,6 +1,6 @@
 import { getCollection, getEntry, type CollectionEntry } from 'astro:content';
 import type { APIRoute } from 'astro';
-import { BLOG_API_KEY } from "astro:env/server";
+import { getPricingSummary, type PricingSummary } from '../../../core/affiliate/pricing';
 
 // Define the affiliate comparison type from your content collection
 type AffiliateComparison = CollectionEntry<'affiliateComparisons'>;
@@ -28,6 +28,7 @@ interface AffiliateComparisonMetadata {
     badge?: string;
     buttonText?: string;
     discountPercent?: number;
+    pricing: PricingSummary;
   }[];
   category: {
     id: string;
@@ -65,30 +66,6 @@ interface CategoryComparisonApiResponse {
   timestamp: number;
 }
 
-// 🔐 Authentication helper
-const authenticateRequest = (request: Request): { success: boolean; error?: string } => {
-  const authHeader = request.headers.get('Authorization');
-  const apiKey = request.headers.get('X-API-Key');
-  
-  const providedKey = authHeader?.replace('Bearer ', '') || apiKey;
-  
-  if (!providedKey) {
-    return { 
-      success: false, 
-      error: 'Missing API key.' 
-    };
-  }
-  
-  if (providedKey !== BLOG_API_KEY) {
-    return { 
-      success: false, 
-      error: 'Invalid API key.' 
-    };
-  }
-  
-  return { success: true };
-};
-
 // 🔥 CORS headers helper
 const getCORSHeaders = () => ({
   'Content-Type': 'application/json',
@@ -106,21 +83,7 @@ export const OPTIONS: APIRoute = async () => {
   });
 };
 
-export const GET: APIRoute = async ({ request, url, params }): Promise<Response> => {
-  // 🔐 Authenticate the request first
-  const authResult = authenticateRequest(request);
-  
-  if (!authResult.success) {
-    return new Response(JSON.stringify({
-      success: false,
-      error: authResult.error,
-      code: 'UNAUTHORIZED'
-    }), {
-      status: 401,
-      headers: getCORSHeaders()
-    });
-  }
-
+export const GET: APIRoute = async ({ url, params }): Promise<Response> => {
   // Get category from URL params
   const categoryId = params.category;
   
@@ -200,22 +163,15 @@ export const GET: APIRoute = async ({ request, url, params }): Promise<Response>
                 console.warn(`⚠️ Product "${productRef.id}" not found for comparison "${comparison.id}"`);
                 return null;
               }
-
-              // Calculate discount percentage
-              const discountPercent = product.data.originalPrice && product.data.price
-                ? Math.round(
-                    ((parseFloat(product.data.originalPrice.replace('$', '')) -
-                      parseFloat(product.data.price.replace('$', ''))) /
-                      parseFloat(product.data.originalPrice.replace('$', ''))) * 100
-                  )
-                : undefined;
+              // Structured prices: discount and price history come from the pricing module
+              const pricing = getPricingSummary(product.data);
 
               return {
                 id: product.id,
                 title: product.data.title,
                 description: product.data.description,
-                price: product.data.price,
-                originalPrice: product.data.originalPrice,
+                price: product.data.price.formatted,
+                originalPrice: product.data.originalPrice?.formatted,
                 affiliateUrl: product.data.affiliateUrl,
                 image: product.data.image,
                 imageAlt: product.data.imageAlt,
@@ -227,7 +183,8 @@ export const GET: APIRoute = async ({ request, url, params }): Promise<Response>
                 cons: product.data.cons,
                 badge: product.data.badge,
                 buttonText: product.data.buttonText,
-                discountPercent,
+                discountPercent: pricing.discountPercent,
+                pricing,
               };
             } catch (error) {
               console.error(`❌ Error resolving product "${productRef.id}":`, error);
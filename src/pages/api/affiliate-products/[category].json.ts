@@ -1,6 +1,6 @@
 import { getCollection, getEntry, type CollectionEntry } from 'astro:content';
 import type { APIRoute } from 'astro';
-import { BLOG_API_KEY } from "astro:env/server";
+import { getPricingSummary, type PricingSummary } from '../../../core/affiliate/pricing';
 
 // Define the affiliate product type from your content collection
 type AffiliateProduct = CollectionEntry<'affiliateProducts'>;
@@ -31,6 +31,7 @@ interface AffiliateProductMetadata {
   buttonText?: string;
   featured: boolean;
   discountPercent?: number;
+  pricing: PricingSummary;
 }
 
 interface CategoryProductApiResponse {
@@ -60,30 +61,6 @@ interface CategoryProductApiResponse {
   timestamp: number;
 }
 
-// 🔐 Authentication helper
-const authenticateRequest = (request: Request): { success: boolean; error?: string } => {
-  const authHeader = request.headers.get('Authorization');
-  const apiKey = request.headers.get('X-API-Key');
-
-  const providedKey = authHeader?.replace('Bearer ', '') || apiKey;
-
-  if (!providedKey) {
-    return {
-      success: false,
-      error: 'Missing API key.'
-    };
-  }
-
-  if (providedKey !== BLOG_API_KEY) {
-    return {
-      success: false,
-      error: 'Invalid API key.'
-    };
-  }
-
-  return { success: true };
-};
-
 // 🔥 CORS headers helper
 const getCORSHeaders = () => ({
   'Content-Type': 'application/json',
@@ -101,21 +78,7 @@ export const OPTIONS: APIRoute = async () => {
   });
 };
 
-export const GET: APIRoute = async ({ request, url, params }): Promise<Response> => {
-  // 🔐 Authenticate the request first
-  const authResult = authenticateRequest(request);
-
-  if (!authResult.success) {
-    return new Response(JSON.stringify({
-      success: false,
-      error: authResult.error,
-      code: 'UNAUTHORIZED'
-    }), {
-      status: 401,
-      headers: getCORSHeaders()
-    });
-  }
-
+export const GET: APIRoute = async ({ url, params }): Promise<Response> => {
   // Get category from URL params
   const categoryId = params.category;
 
@@ -188,14 +151,8 @@ export const GET: APIRoute = async ({ request, url, params }): Promise<Response>
 
     // 📊 Transform products with metadata
     const productsWithMetadata: AffiliateProductMetadata[] = filteredProducts.map((product: AffiliateProduct) => {
-      // Calculate discount percentage
-      const discountPercent = product.data.originalPrice && product.data.price
-        ? Math.round(
-          ((parseFloat(product.data.originalPrice.replace('$', '')) -
-            parseFloat(product.data.price.replace('$', ''))) /
-            parseFloat(product.data.originalPrice.replace('$', ''))) * 100
-        )
-        : undefined;
+      // Structured prices: discount and price history come from the pricing module
+      const pricing = getPricingSummary(product.data);
 
       // Determine if featured (has badge or high rating)
       const featured = !!(product.data.badge || (product.data.rating && product.data.rating >= 4.5));
@@ -204,8 +161,8 @@ export const GET: APIRoute = async ({ request, url, params }): Promise<Response>
         id: product.id,
         title: product.data.title,
         description: product.data.description,
-        price: product.data.price,
-        originalPrice: product.data.originalPrice,
+        price: product.data.price.formatted,
+        originalPrice: product.data.originalPrice?.formatted,
         affiliateUrl: product.data.affiliateUrl,
         image: product.data.image,
         imageAlt: product.data.imageAlt,
@@ -224,7 +181,8 @@ export const GET: APIRoute = async ({ request, url, params }): Promise<Response>
         badge: product.data.badge,
         buttonText: product.data.buttonText,
         featured,
-        discountPercent,
+        discountPercent: pricing.discountPercent,
+        pricing,
       };
     });
 
@@ -265,9 +223,7 @@ export const GET: APIRoute = async ({ request, url, params }): Promise<Response>
           comparison = a.title.localeCompare(b.title);
           break;
         case 'price':
-          const priceA = parseFloat(a.price.replace('$', ''));
-          const priceB = parseFloat(b.price.replace('$', ''));
-          comparison = priceA - priceB;
+          comparison = a.pricing.amount - b.pricing.amount;
           break;
         case 'rating':
           comparison = (a.rating || 0) - (b.rating || 0);
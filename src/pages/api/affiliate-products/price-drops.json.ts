@@ -0,0 +1,146 @@
+import { getCollection, type CollectionEntry } from 'astro:content';
+import type { APIRoute } from 'astro';
+import { getPriceDrop, type PriceDrop } from '../../../core/affiliate/pricing';
+
+// Define the affiliate product type from your content collection
+type AffiliateProduct = CollectionEntry<'affiliateProducts'>;
+
+interface PriceDropMetadata {
+  id: string;
+  title: string;
+  brand?: string;
+  category: string;
+  affiliateUrl: string;
+  image: string;
+  price: string;
+  previousAmount: number;
+  currentAmount: number;
+  currency: string;
+  dropAmount: number;
+  dropPercent: number;
+}
+
+interface PriceDropApiResponse {
+  success: boolean;
+  data: PriceDropMetadata[];
+  filters: {
+    since: string;
+    threshold: number;
+    category: string | null;
+  };
+  total: number;
+  timestamp: number;
+}
+
+const DEFAULT_LOOKBACK_DAYS = 30;
+const DEFAULT_THRESHOLD_PERCENT = 10;
+
+// 🔥 CORS headers helper
+const getCORSHeaders = () => ({
+  'Content-Type': 'application/json',
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Methods': 'GET, POST, PUT, DELETE, OPTIONS',
+  'Access-Control-Allow-Headers': 'Content-Type, Authorization, X-API-Key, X-Requested-With',
+  'Access-Control-Max-Age': '86400',
+});
+
+// 🔥 Handle OPTIONS requests for CORS preflight
+export const OPTIONS: APIRoute = async () => {
+  return new Response(null, {
+    status: 200,
+    headers: getCORSHeaders()
+  });
+};
+
+// 📉 Products whose price dropped by at least `threshold` percent since `since`
+export const GET: APIRoute = async ({ url }): Promise<Response> => {
+  const searchParams = new URL(url).searchParams;
+  const sinceParam: string | null = searchParams.get('since');
+  const threshold: number = parseFloat(searchParams.get('threshold') || String(DEFAULT_THRESHOLD_PERCENT));
+  const category: string | null = searchParams.get('category');
+
+  const since = sinceParam
+    ? new Date(sinceParam)
+    : new Date(Date.now() - DEFAULT_LOOKBACK_DAYS * 24 * 60 * 60 * 1000);
+
+  if (Number.isNaN(since.valueOf())) {
+    return new Response(JSON.stringify({
+      success: false,
+      error: 'Parameter "since" must be a valid date (e.g. 2024-01-31)',
+      code: 'INVALID_DATE'
+    }), {
+      status: 400,
+      headers: getCORSHeaders()
+    });
+  }
+
+  if (!Number.isFinite(threshold) || threshold < 0 || threshold > 100) {
+    return new Response(JSON.stringify({
+      success: false,
+      error: 'Parameter "threshold" must be a percentage between 0 and 100',
+      code: 'INVALID_THRESHOLD'
+    }), {
+      status: 400,
+      headers: getCORSHeaders()
+    });
+  }
+
+  try {
+    const allProducts: AffiliateProduct[] = await getCollection('affiliateProducts', ({ data }) =>
+      !category || data.category.id === category
+    );
+
+    const drops = allProducts
+      .map(product => ({ product, drop: getPriceDrop(product.data, since) }))
+      .filter((entry): entry is { product: AffiliateProduct; drop: PriceDrop } =>
+        entry.drop !== null && entry.drop.dropPercent >= threshold
+      )
+      .sort((a, b) => b.drop.dropPercent - a.drop.dropPercent);
+
+    console.log(`📉 Found ${drops.length} price drops of ${threshold}%+ since ${since.toISOString()}`);
+
+    const apiResponse: PriceDropApiResponse = {
+      success: true,
+      data: drops.map(({ product, drop }) => ({
+        id: product.id,
+        title: product.data.title,
+        brand: product.data.brand,
+        category: product.data.category.id,
+        affiliateUrl: product.data.affiliateUrl,
+        image: product.data.image,
+        price: product.data.price.formatted,
+        previousAmount: drop.previousAmount,
+        currentAmount: drop.currentAmount,
+        currency: drop.currency,
+        dropAmount: drop.dropAmount,
+        dropPercent: drop.dropPercent,
+      })),
+      filters: {
+        since: since.toISOString(),
+        threshold,
+        category,
+      },
+      total: drops.length,
+      timestamp: Date.now()
+    };
+
+    return new Response(JSON.stringify(apiResponse), {
+      status: 200,
+      headers: getCORSHeaders()
+    });
+
+  } catch (error: unknown) {
+    console.error('Error fetching price drops:', error);
+
+    return new Response(JSON.stringify({
+      success: false,
+      error: 'Failed to fetch price drops',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }), {
+      status: 500,
+      headers: getCORSHeaders()
+    });
+  }
+};
+
+export const prerender = false;
@@ -0,0 +1,104 @@
+import type { APIRoute } from 'astro';
+import { getDb } from '../../../db/client';
+import { ANALYTICS_DIMENSIONS, parseAnalyticsQuery, type AnalyticsReport } from '../../../core/affiliate/analytics';
+import { getAnalyticsReport } from '../../../core/affiliate/analyticsQueries';
+
+interface AnalyticsApiResponse {
+  success: boolean;
+  data: AnalyticsReport;
+  timestamp: number;
+}
+
+// 🔥 CORS headers helper
+const getCORSHeaders = () => ({
+  'Content-Type': 'application/json',
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Methods': 'GET, POST, PUT, DELETE, OPTIONS',
+  'Access-Control-Allow-Headers': 'Content-Type, Authorization, X-API-Key, X-Requested-With',
+  'Access-Control-Max-Age': '86400',
+});
+
+// 🔥 Handle OPTIONS requests for CORS preflight
+export const OPTIONS: APIRoute = async () => {
+  return new Response(null, {
+    status: 200,
+    headers: getCORSHeaders()
+  });
+};
+
+// 📊 Clicks, conversions and EPC per product, post, category or ProductBlock variant
+// Usage: /api/analytics/posts.json?from=2024-01-01&to=2024-01-31&interval=week&sortBy=epc
+export const GET: APIRoute = async ({ params, url }): Promise<Response> => {
+  // Own keys only, so names like "constructor" don't resolve to Object.prototype
+  const dimension = params.dimension && Object.hasOwn(ANALYTICS_DIMENSIONS, params.dimension)
+    ? ANALYTICS_DIMENSIONS[params.dimension]
+    : undefined;
+
+  if (!dimension) {
+    return new Response(JSON.stringify({
+      success: false,
+      error: `Unknown report "${params.dimension}". Available: ${Object.keys(ANALYTICS_DIMENSIONS).join(', ')}`,
+      code: 'NOT_FOUND'
+    }), {
+      status: 404,
+      headers: getCORSHeaders()
+    });
+  }
+
+  const query = parseAnalyticsQuery(dimension, new URL(url).searchParams);
+
+  if (!query.success) {
+    return new Response(JSON.stringify({
+      success: false,
+      error: query.error,
+      code: query.code
+    }), {
+      status: 400,
+      headers: getCORSHeaders()
+    });
+  }
+
+  const db = getDb();
+
+  if (!db) {
+    return new Response(JSON.stringify({
+      success: false,
+      error: 'Analytics are unavailable: DATABASE_URL is not configured',
+      code: 'DATABASE_NOT_CONFIGURED'
+    }), {
+      status: 503,
+      headers: getCORSHeaders()
+    });
+  }
+
+  try {
+    const report = await getAnalyticsReport(db, query.value);
+
+    console.log(`📊 ${dimension} report: ${report.totals.clicks} clicks, ${report.totals.conversions} conversions`);
+
+    const apiResponse: AnalyticsApiResponse = {
+      success: true,
+      data: report,
+      timestamp: Date.now()
+    };
+
+    return new Response(JSON.stringify(apiResponse), {
+      status: 200,
+      headers: getCORSHeaders()
+    });
+
+  } catch (error: unknown) {
+    console.error(`Error building ${dimension} analytics report:`, error);
+
+    return new Response(JSON.stringify({
+      success: false,
+      error: 'Failed to build analytics report',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }), {
+      status: 500,
+      headers: getCORSHeaders()
+    });
+  }
+};
+
+export const prerender = false;
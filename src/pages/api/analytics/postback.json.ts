@@ -0,0 +1,139 @@
+import type { APIRoute } from 'astro';
+import { getDb } from '../../../db/client';
+import { parsePostback } from '../../../core/affiliate/analytics';
+import { recordConversion } from '../../../core/affiliate/analyticsQueries';
+
+// 🔥 CORS headers helper
+const getCORSHeaders = () => ({
+  'Content-Type': 'application/json',
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Methods': 'GET, POST, PUT, DELETE, OPTIONS',
+  'Access-Control-Allow-Headers': 'Content-Type, Authorization, X-API-Key, X-Requested-With',
+  'Access-Control-Max-Age': '86400',
+});
+
+// 🔥 Handle OPTIONS requests for CORS preflight
+export const OPTIONS: APIRoute = async () => {
+  return new Response(null, {
+    status: 200,
+    headers: getCORSHeaders()
+  });
+};
+
+/**
+ * Read postback parameters from the query string, merged with a form or JSON body
+ */
+async function readPostbackParams(request: Request, url: URL): Promise<URLSearchParams> {
+  const params = new URLSearchParams(url.searchParams);
+  if (request.method !== 'POST') return params;
+
+  const contentType = request.headers.get('Content-Type') || '';
+
+  if (contentType.includes('application/json')) {
+    const body = await request.json();
+    for (const [key, value] of Object.entries(body ?? {})) {
+      if (value !== null && value !== undefined) params.set(key, String(value));
+    }
+  } else if (contentType.includes('form')) {
+    const form = await request.formData();
+    for (const [key, value] of form.entries()) {
+      if (typeof value === 'string') params.set(key, value);
+    }
+  }
+
+  return params;
+}
+
+// 💰 Conversion postback from an affiliate network
+// Usage: /api/analytics/postback.json?key=...&click_id={subid}&commission={payout}&status={status}
+const handlePostback: APIRoute = async ({ request, url, locals }): Promise<Response> => {
+  let params: URLSearchParams;
+
+  try {
+    params = await readPostbackParams(request, new URL(url));
+  } catch {
+    return new Response(JSON.stringify({
+      success: false,
+      error: 'Invalid request body',
+      code: 'INVALID_BODY'
+    }), {
+      status: 400,
+      headers: getCORSHeaders()
+    });
+  }
+
+  const postback = parsePostback(params, locals.apiKey?.name || 'unknown');
+
+  if (!postback.success) {
+    return new Response(JSON.stringify({
+      success: false,
+      error: postback.error,
+      code: postback.code
+    }), {
+      status: 400,
+      headers: getCORSHeaders()
+    });
+  }
+
+  const db = getDb();
+
+  if (!db) {
+    return new Response(JSON.stringify({
+      success: false,
+      error: 'Conversions are unavailable: DATABASE_URL is not configured',
+      code: 'DATABASE_NOT_CONFIGURED'
+    }), {
+      status: 503,
+      headers: getCORSHeaders()
+    });
+  }
+
+  try {
+    const recorded = await recordConversion(db, postback.value);
+
+    if (!recorded) {
+      console.warn(`💰 Postback for unknown click "${postback.value.clickId}" from ${postback.value.network}`);
+      return new Response(JSON.stringify({
+        success: false,
+        error: `Click "${postback.value.clickId}" not found`,
+        code: 'CLICK_NOT_FOUND'
+      }), {
+        status: 404,
+        headers: getCORSHeaders()
+      });
+    }
+
+    console.log(`💰 ${postback.value.status} conversion ${postback.value.transactionId} (${postback.value.commission} ${postback.value.currency}) from ${postback.value.network}`);
+
+    return new Response(JSON.stringify({
+      success: true,
+      data: {
+        clickId: postback.value.clickId,
+        network: postback.value.network,
+        transactionId: postback.value.transactionId,
+        status: postback.value.status,
+      },
+      timestamp: Date.now()
+    }), {
+      status: 200,
+      headers: getCORSHeaders()
+    });
+
+  } catch (error: unknown) {
+    console.error('Error recording conversion:', error);
+
+    return new Response(JSON.stringify({
+      success: false,
+      error: 'Failed to record conversion',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }), {
+      status: 500,
+      headers: getCORSHeaders()
+    });
+  }
+};
+
+export const GET = handlePostback;
+export const POST = handlePostback;
+
+export const prerender = false;
@@ -1,6 +1,7 @@
 import { getCollection, type CollectionEntry } from 'astro:content';
 import type { APIRoute } from 'astro';
-import { BLOG_API_KEY } from "astro:env/server";
+import { filterPublishedOnly } from '../../utils/draftFilter';
+import { getPostReviewerIds, isPostByAuthor } from '../../utils/postAuthors';
 
 // Define the author type from your content collection
 type Author = CollectionEntry<'authors'>;
@@ -16,7 +17,11 @@ interface AuthorMetadata {
   twitter?: string;
   github?: string;
   website?: string;
+  // Posts written or co-written
   postCount: number;
+  // Posts the author reviewed or fact-checked as an expert
+  reviewedCount: number;
+  factCheckedCount: number;
   lastPostDate?: string;
   featured: boolean;
   topCategories: Array<{ name: string; postCount: number }>;
@@ -48,31 +53,6 @@ interface AuthorApiResponse {
   timestamp: number;
 }
 
-// 🔐 Authentication helper
-const authenticateRequest = (request: Request): { success: boolean; error?: string } => {
-  const authHeader = request.headers.get('Authorization');
-  const apiKey = request.headers.get('X-API-Key');
-  
-  // Check for API key in either Authorization header or X-API-Key header
-  const providedKey = authHeader?.replace('Bearer ', '') || apiKey;
-  
-  if (!providedKey) {
-    return { 
-      success: false, 
-      error: 'Missing API key.' 
-    };
-  }
-  
-  if (providedKey !== BLOG_API_KEY) {
-    return { 
-      success: false, 
-      error: 'Invalid API key.' 
-    };
-  }
-  
-  return { success: true };
-};
-
 // 🔥 CORS headers helper
 const getCORSHeaders = () => ({
   'Content-Type': 'application/json',
@@ -90,21 +70,7 @@ export const OPTIONS: APIRoute = async () => {
   });
 };
 
-export const GET: APIRoute = async ({ request, url }): Promise<Response> => {
-  // 🔐 Authenticate the request first
-  const authResult = authenticateRequest(request);
-  
-  if (!authResult.success) {
-    return new Response(JSON.stringify({
-      success: false,
-      error: authResult.error,
-      code: 'UNAUTHORIZED'
-    }), {
-      status: 401,
-      headers: getCORSHeaders()
-    });
-  }
-
+export const GET: APIRoute = async ({ url }): Promise<Response> => {
   // Get query parameters with proper types
   const searchParams = new URL(url).searchParams;
   const page: number = parseInt(searchParams.get('page') || '1');
@@ -120,10 +86,8 @@ export const GET: APIRoute = async ({ request, url }): Promise<Response> => {
     const allAuthors: Author[] = await getCollection('authors');
 
     // ✨ Get ALL blog posts to calculate post counts per author
-    const allPosts = await getCollection('blog', ({ data }) => {
-      // Only count published posts for public API
-      return data.status === 'published';
-    });
+    // Only count posts that are live right now (not drafts, scheduled or expired)
+    const allPosts = await getCollection('blog', filterPublishedOnly);
 
     // ✨ Get categories and tags for additional metadata
     const allCategories = await getCollection('categories');
@@ -148,10 +112,13 @@ export const GET: APIRoute = async ({ request, url }): Promise<Response> => {
     }
 
     // 📊 Transform authors with metadata and post counts
+    const postReviewers = allPosts.map(post => getPostReviewerIds(post.data));
     const authorsWithMetadata: AuthorMetadata[] = filteredAuthors.map((author: Author) => {
-      // Calculate post count for this author
-      const authorPosts = allPosts.filter(post => post.data.author.id === author.id);
+      // Calculate post count for this author, co-authored posts included
+      const authorPosts = allPosts.filter(post => isPostByAuthor(post.data, author.id));
       const postCount = authorPosts.length;
+      const reviewedCount = postReviewers.filter(ids => ids.reviewedBy === author.id).length;
+      const factCheckedCount = postReviewers.filter(ids => ids.factCheckedBy === author.id).length;
 
       // Find the most recent post date for this author
       const lastPostDate = authorPosts.length > 0
@@ -216,6 +183,8 @@ export const GET: APIRoute = async ({ request, url }): Promise<Response> => {
         github: author.data.github,
         website: author.data.website,
         postCount,
+        reviewedCount,
+        factCheckedCount,
         lastPostDate: lastPostDate ? new Date(lastPostDate).toISOString() : undefined,
         featured,
         topCategories,
@@ -1,6 +1,13 @@
 import { getCollection, type CollectionEntry } from 'astro:content';
 import type { APIRoute } from 'astro';
-import { BLOG_API_KEY } from "astro:env/server";
+import { filterPublishedOnly } from '../../utils/draftFilter';
+import {
+  buildCategoryTree,
+  getCategoryAncestors,
+  getCategoryDescendantIds,
+  getCategoryPath,
+  type CategoryTreeNode,
+} from '../../utils/categoryTree';
 
 // Define the category type from your content collection
 type Category = CollectionEntry<'categories'>;
@@ -21,10 +28,19 @@ interface CategoryMetadata {
   description?: string;
   color?: string;
   slug: string;
+  // Parent category ID and nested URL path ("marketing/email")
+  parent?: string;
+  path: string;
+  url: string;
+  depth: number;
   seo?: CategorySEO; // Added SEO support
+  // Posts in the category and its subcategories; directPostCount excludes subcategories
   postCount: number;
+  directPostCount: number;
   lastPostDate?: string;
   featured: boolean;
+  // Only with ?tree=true
+  children?: CategoryMetadata[];
 }
 
 interface CategoryApiResponse {
@@ -41,35 +57,11 @@ interface CategoryApiResponse {
   filters: {
     search: string | null;
     featured: string | null;
+    tree: boolean;
   };
   timestamp: number;
 }
 
-// 🔐 Authentication helper
-const authenticateRequest = (request: Request): { success: boolean; error?: string } => {
-  const authHeader = request.headers.get('Authorization');
-  const apiKey = request.headers.get('X-API-Key');
-  
-  // Check for API key in either Authorization header or X-API-Key header
-  const providedKey = authHeader?.replace('Bearer ', '') || apiKey;
-  
-  if (!providedKey) {
-    return { 
-      success: false, 
-      error: 'Missing API key.' 
-    };
-  }
-  
-  if (providedKey !== BLOG_API_KEY) {
-    return { 
-      success: false, 
-      error: 'Invalid API key.' 
-    };
-  }
-  
-  return { success: true };
-};
-
 // 🔥 CORS headers helper
 const getCORSHeaders = () => ({
   'Content-Type': 'application/json',
@@ -87,21 +79,7 @@ export const OPTIONS: APIRoute = async () => {
   });
 };
 
-export const GET: APIRoute = async ({ request, url }): Promise<Response> => {
-  // 🔐 Authenticate the request first
-  const authResult = authenticateRequest(request);
-  
-  if (!authResult.success) {
-    return new Response(JSON.stringify({
-      success: false,
-      error: authResult.error,
-      code: 'UNAUTHORIZED'
-    }), {
-      status: 401,
-      headers: getCORSHeaders()
-    });
-  }
-
+export const GET: APIRoute = async ({ url }): Promise<Response> => {
   // Get query parameters with proper types
   const searchParams = new URL(url).searchParams;
   const page: number = parseInt(searchParams.get('page') || '1');
@@ -110,6 +88,8 @@ export const GET: APIRoute = async ({ request, url }): Promise<Response> => {
   const sortOrder: 'asc' | 'desc' = (searchParams.get('sortOrder') as 'asc' | 'desc') || 'asc';
   const search: string = searchParams.get('search') || '';
   const featured: string | null = searchParams.get('featured');
+  // Nest subcategories under their parents; sorting and pagination apply to each level / the top level
+  const tree: boolean = searchParams.get('tree') === 'true';
 
   try {
     console.log('📂 Fetching categories from collection...');
@@ -119,10 +99,8 @@ export const GET: APIRoute = async ({ request, url }): Promise<Response> => {
     console.log(`📂 Found ${allCategories.length} categories in collection`);
     
     // ✨ Get ALL blog posts to calculate post counts per category
-    const allPosts = await getCollection('blog', ({ data }) => {
-      // Only count published posts for public API
-      return data.status === 'published';
-    });
+    // Only count posts that are live right now (not drafts, scheduled or expired)
+    const allPosts = await getCollection('blog', filterPublishedOnly);
     console.log(`📝 Found ${allPosts.length} published posts`);
 
     // 🔍 Server-side search with proper typing
@@ -142,18 +120,21 @@ export const GET: APIRoute = async ({ request, url }): Promise<Response> => {
 
     // 📊 Transform categories with metadata and post counts - UPDATED WITH SEO
     const categoriesWithMetadata: CategoryMetadata[] = filteredCategories.map((category: Category) => {
-      // Calculate post count for this category
+      // Calculate post count for this category, rolling up its subcategories
+      const categoryIds = getCategoryDescendantIds(allCategories, category.id);
       const categoryPosts = allPosts.filter(post => {
         // Handle both string references and object references
         if (typeof post.data.category === 'string') {
-          return post.data.category === category.id;
+          return categoryIds.includes(post.data.category);
         } else if (post.data.category && typeof post.data.category === 'object') {
-          return post.data.category.id === category.id;
+          return categoryIds.includes(post.data.category.id);
         }
         return false;
       });
       
       const postCount = categoryPosts.length;
+      const directPostCount = categoryPosts.filter(post => post.data.category.id === category.id).length;
+      const path = getCategoryPath(allCategories, category.id);
       console.log(`📊 Category "${category.data.name}" has ${postCount} posts`);
       
       // Find the most recent post date for this category
@@ -179,8 +160,13 @@ export const GET: APIRoute = async ({ request, url }): Promise<Response> => {
         description: category.data.description,
         color: category.data.color,
         slug: category.data.slug || category.id,
+        parent: category.data.parent?.id,
+        path,
+        url: `/categories/${path}`,
+        depth: getCategoryAncestors(allCategories, category.id).length,
         seo: seoData, // Include SEO data
         postCount,
+        directPostCount,
         lastPostDate: lastPostDate ? new Date(lastPostDate).toISOString() : undefined,
         featured,
       };
@@ -219,6 +205,17 @@ export const GET: APIRoute = async ({ request, url }): Promise<Response> => {
       return sortOrder === 'desc' ? -comparison : comparison;
     });
 
+    // 🌳 Nest subcategories (a category whose parent was filtered out becomes a root)
+    if (tree) {
+      const entries = new Map(allCategories.map(category => [category.id, category]));
+      const metadata = new Map(finalCategories.map(item => [item.id, item]));
+      const toTreeItem = ({ category, children }: CategoryTreeNode<Category>): CategoryMetadata => ({
+        ...metadata.get(category.id)!,
+        children: children.map(toTreeItem),
+      });
+      finalCategories = buildCategoryTree(finalCategories.map(item => entries.get(item.id)!)).map(toTreeItem);
+    }
+
     // 📄 Paginate
     const startIndex: number = (page - 1) * perPage;
     const endIndex: number = startIndex + perPage;
@@ -238,6 +235,7 @@ export const GET: APIRoute = async ({ request, url }): Promise<Response> => {
       filters: {
         search: search || null,
         featured: featured,
+        tree,
       },
       timestamp: Date.now(),
     };
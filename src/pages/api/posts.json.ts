@@ -1,26 +1,49 @@
 import { getCollection, getEntry, type CollectionEntry } from 'astro:content';
 import type { APIRoute } from 'astro';
-import { BLOG_API_KEY } from "astro:env/server";
+import { blogSchema } from '../../content.config';
+import { getSearchIndex } from '../../core/search/getSearchIndex';
+import { searchIndex } from '../../core/search/searchIndex';
+import { filterScheduledOnly, getPostVisibility, isPostLive, type PostVisibility } from '../../utils/draftFilter';
+import { getPostModifiedDate } from '../../utils/postDates';
+import { getPostAuthorIds, getPostReviewerIds } from '../../utils/postAuthors';
+import {
+  deletePostFile,
+  isValidSlug,
+  readPostFile,
+  slugify,
+  writePostFile,
+} from '../../utils/postFiles';
+import { getPostTagIds, resolveTagId } from '../../utils/tagAliases';
 
 // Define the blog post type from your content collection
 type BlogPost = CollectionEntry<'blog'>;
 
 // Define the API response types
+interface AuthorSummary {
+  id: string;
+  name: string;
+  bio?: string;
+  avatar?: string;
+  email?: string;
+  twitter?: string;
+  github?: string;
+  website?: string;
+}
+
 interface PostMetadata {
   slug: string;
   title: string;
   date: string;
+  // Latest of date, updatedDate and lastReviewed (what sortBy=updated orders by)
+  modified: string;
+  updatedDate?: string;
+  lastReviewed?: string;
   description: string;
-  author: {
-    id: string;
-    name: string;
-    bio?: string;
-    avatar?: string;
-    email?: string;
-    twitter?: string;
-    github?: string;
-    website?: string;
-  };
+  // Lead author; `authors` lists every byline in order
+  author: AuthorSummary;
+  authors: AuthorSummary[];
+  reviewedBy?: AuthorSummary;
+  factCheckedBy?: AuthorSummary;
   category: {
     id: string;
     name: string;
@@ -39,6 +62,8 @@ interface PostMetadata {
   wordCount: number;
   featured: boolean;
   status: string;
+  visibility: PostVisibility;
+  unpublishAt?: string;
   path: string;
   excerpt: string;
   image?: {
@@ -69,31 +94,6 @@ interface ApiResponse {
   timestamp: number;
 }
 
-// 🔐 Authentication helper
-const authenticateRequest = (request: Request): { success: boolean; error?: string } => {
-  const authHeader = request.headers.get('Authorization');
-  const apiKey = request.headers.get('X-API-Key');
-  
-  // Check for API key in either Authorization header or X-API-Key header
-  const providedKey = authHeader?.replace('Bearer ', '') || apiKey;
-  
-  if (!providedKey) {
-    return { 
-      success: false, 
-      error: 'Missing API key.' 
-    };
-  }
-  
-  if (providedKey !== BLOG_API_KEY) {
-    return { 
-      success: false, 
-      error: 'Invalid API key.' 
-    };
-  }
-  
-  return { success: true };
-};
-
 // 🔥 CORS headers helper
 const getCORSHeaders = () => ({
   'Content-Type': 'application/json',
@@ -103,6 +103,19 @@ const getCORSHeaders = () => ({
   'Access-Control-Max-Age': '86400', // 24 hours
 });
 
+// ❌ Error response helper
+const errorResponse = (status: number, code: string, error: string, details?: unknown): Response => {
+  return new Response(JSON.stringify({
+    success: false,
+    error,
+    code,
+    ...(details !== undefined && { details }),
+  }), {
+    status,
+    headers: getCORSHeaders()
+  });
+};
+
 // 🔥 Handle OPTIONS requests for CORS preflight
 export const OPTIONS: APIRoute = async () => {
   return new Response(null, {
@@ -111,39 +124,136 @@ export const OPTIONS: APIRoute = async () => {
   });
 };
 
-export const GET: APIRoute = async ({ request, url }): Promise<Response> => {
-  // 🔐 Authenticate the request first
-  const authResult = authenticateRequest(request);
+// 👤 Resolve an author reference into its API summary
+const toAuthorSummary = async (authorId: string): Promise<AuthorSummary> => {
+  let authorData = null;
+  try {
+    const authorEntry = await getEntry('authors', authorId);
+    authorData = authorEntry?.data;
+  } catch (error) {
+    console.warn(`Author not found: ${authorId}`);
+  }
+
+  return {
+    id: authorId,
+    name: authorData?.name || 'Unknown',
+    bio: authorData?.bio,
+    avatar: authorData?.avatar,
+    email: authorData?.email,
+    twitter: authorData?.twitter,
+    github: authorData?.github,
+    website: authorData?.website,
+  };
+};
+
+// 📐 Transform a post into the API metadata shape (shared by reads and writes)
+const toPostMetadata = async (post: Pick<BlogPost, 'id' | 'body' | 'data'>): Promise<PostMetadata> => {
+  const wordCount: number = post.body?.trim().split(/\s+/).length || 0;
+  const readingTime: number = Math.ceil(wordCount / 200);
   
-  if (!authResult.success) {
-    return new Response(JSON.stringify({
-      success: false,
-      error: authResult.error,
-      code: 'UNAUTHORIZED'
-    }), {
-      status: 401,
-      headers: getCORSHeaders()
-    });
+  // ✅ Properly resolve author, reviewer and fact-checker references
+  const authors = await Promise.all(getPostAuthorIds(post.data).map(toAuthorSummary));
+  const { reviewedBy, factCheckedBy } = getPostReviewerIds(post.data);
+  
+  // ✅ Properly resolve category reference  
+  let categoryData = null;
+  try {
+    const categoryEntry = await getEntry('categories', post.data.category.id);
+    categoryData = categoryEntry?.data;
+  } catch (error) {
+    console.warn(`Category not found: ${post.data.category.id}`);
   }
+  
+  // ✅ Properly resolve tags references
+  const tagsData = await Promise.all(
+    post.data.tags.map(async (tagRef: any) => {
+      try {
+        const tagEntry = await getEntry('tags', tagRef.id);
+        const tagData = tagEntry?.data;
+        return {
+          id: tagRef.id,
+          name: tagData?.name || tagRef.id,
+          description: tagData?.description,
+          color: tagData?.color,
+          slug: tagData?.slug || tagRef.id,
+        };
+      } catch (error) {
+        console.warn(`Tag not found: ${tagRef.id}`);
+        return {
+          id: tagRef.id,
+          name: tagRef.id,
+          description: undefined,
+          color: undefined,
+          slug: tagRef.id,
+        };
+      }
+    })
+  );
+  
+  return {
+    slug: post.id,
+    title: post.data.title || '',
+    date: post.data.pubDate ? 
+      new Date(post.data.pubDate).toISOString() : new Date().toISOString(),
+    modified: getPostModifiedDate(post.data).toISOString(),
+    updatedDate: post.data.updatedDate?.toISOString(),
+    lastReviewed: post.data.lastReviewed?.toISOString(),
+    description: post.data.description || '',
+    
+    // 👤 Properly resolved author references
+    author: authors[0],
+    authors,
+    ...(reviewedBy && { reviewedBy: await toAuthorSummary(reviewedBy) }),
+    ...(factCheckedBy && { factCheckedBy: await toAuthorSummary(factCheckedBy) }),
+    
+    // 📂 Properly resolved category reference
+    category: {
+      id: post.data.category.id,
+      name: categoryData?.name || 'Uncategorized',
+      description: categoryData?.description,
+      color: categoryData?.color,
+      slug: categoryData?.slug || post.data.category.id,
+    },
+    
+    // 🏷️ Properly resolved tags references
+    tags: tagsData,
+    
+    // 📊 Metadata
+    readingTime,
+    wordCount,
+    featured: post.data.featured || false,
+    status: post.data.status || 'draft',
+    visibility: getPostVisibility(post),
+    unpublishAt: post.data.unpublishAt?.toISOString(),
+    path: `src/content/blog/${post.id}`,
+    excerpt: post.data.description || (post.body?.substring(0, 160).replace(/[#*`]/g, '').trim() + '...') || '',
+    image: post.data.image,
+    sha: post.id,
+  };
+};
 
+export const GET: APIRoute = async ({ url }): Promise<Response> => {
   try {
     // Get query parameters with proper types
     const searchParams = new URL(url).searchParams;
     const page: number = parseInt(searchParams.get('page') || '1');
     const perPage: number = parseInt(searchParams.get('perPage') || '10');
-    const sortBy: string = searchParams.get('sortBy') || 'date';
-    const sortOrder: 'asc' | 'desc' = (searchParams.get('sortOrder') as 'asc' | 'desc') || 'desc';
     const search: string = searchParams.get('search') || '';
+    const sortBy: string = searchParams.get('sortBy') || (search ? 'relevance' : 'date');
+    const sortOrder: 'asc' | 'desc' = (searchParams.get('sortOrder') as 'asc' | 'desc') || 'desc';
     const categoryId: string = searchParams.get('category') || '';
     const tagId: string = searchParams.get('tag') || '';
     const featured: string | null = searchParams.get('featured');
     const status: string = searchParams.get('status') || 'published';
 
     // ✨ Get all blog posts with proper typing
-    const allPosts: BlogPost[] = await getCollection('blog', ({ data }) => {
-      // Filter by status - for public API, only show published
+    const allPosts: BlogPost[] = await getCollection('blog', (post) => {
+      // Filter by status - for public API, only show posts that are live right now
       if (status === 'published') {
-        return data.status === 'published';
+        return isPostLive(post);
+      }
+      if (status === 'scheduled') {
+        return filterScheduledOnly(post);
       }
       return true; // For dashboard API, show all
     });
@@ -151,16 +261,15 @@ export const GET: APIRoute = async ({ request, url }): Promise<Response> => {
     // 🔍 Server-side filtering with proper typing
     let filteredPosts: BlogPost[] = allPosts;
 
-    // Search filter
+    // Search filter (ranked by the cached full-text index of every post; the status
+    // filter above already decided which posts are listed)
+    const relevance = new Map<string, number>();
     if (search) {
-      const searchTerm: string = search.toLowerCase();
-      filteredPosts = filteredPosts.filter((post: BlogPost) => {
-        const titleMatch: boolean = post.data.title?.toLowerCase().includes(searchTerm) || false;
-        const descMatch: boolean = post.data.description?.toLowerCase().includes(searchTerm) || false;
-        const bodyMatch: boolean = post.body?.toLowerCase().includes(searchTerm) || false;
-        
-        return titleMatch || descMatch || bodyMatch;
-      });
+      const index = await getSearchIndex({ includeDrafts: true });
+      const results = searchIndex(index, search, { limit: index.documents.length });
+      results.hits.forEach((hit, rank) => relevance.set(hit.id, rank));
+
+      filteredPosts = filteredPosts.filter((post: BlogPost) => relevance.has(post.id));
     }
 
     // Category filter
@@ -170,10 +279,12 @@ export const GET: APIRoute = async ({ request, url }): Promise<Response> => {
       );
     }
 
-    // Tag filter
+    // Tag filter (aliases count as their canonical tag, as on the tag archive)
     if (tagId) {
+      const allTags = await getCollection('tags');
+      const canonicalTagId = resolveTagId(allTags, tagId);
       filteredPosts = filteredPosts.filter((post: BlogPost) => 
-        post.data.tags.some(tag => tag.id === tagId)
+        getPostTagIds(allTags, post.data.tags).includes(canonicalTagId)
       );
     }
 
@@ -196,6 +307,13 @@ export const GET: APIRoute = async ({ request, url }): Promise<Response> => {
         case 'date':
           comparison = new Date(a.data.pubDate).getTime() - new Date(b.data.pubDate).getTime();
           break;
+        case 'updated':
+          comparison = getPostModifiedDate(a.data).getTime() - getPostModifiedDate(b.data).getTime();
+          break;
+        case 'relevance':
+          // Lower rank is more relevant, so "desc" puts the best match first
+          comparison = (relevance.get(b.id) ?? 0) - (relevance.get(a.id) ?? 0);
+          break;
         default:
           comparison = new Date(a.data.pubDate).getTime() - new Date(b.data.pubDate).getTime();
       }
@@ -210,96 +328,7 @@ export const GET: APIRoute = async ({ request, url }): Promise<Response> => {
     
     // 📐 Transform posts with metadata and proper typing
     const postsWithMetadata: PostMetadata[] = await Promise.all(
-      paginatedPosts.map(async (post: BlogPost): Promise<PostMetadata> => {
-        const wordCount: number = post.body?.trim().split(/\s+/).length || 0;
-        const readingTime: number = Math.ceil(wordCount / 200);
-        
-        // ✅ Properly resolve author reference
-        let authorData = null;
-        try {
-          const authorEntry = await getEntry('authors', post.data.author.id);
-          authorData = authorEntry?.data;
-        } catch (error) {
-          console.warn(`Author not found: ${post.data.author.id}`);
-        }
-        
-        // ✅ Properly resolve category reference  
-        let categoryData = null;
-        try {
-          const categoryEntry = await getEntry('categories', post.data.category.id);
-          categoryData = categoryEntry?.data;
-        } catch (error) {
-          console.warn(`Category not found: ${post.data.category.id}`);
-        }
-        
-        // ✅ Properly resolve tags references
-        const tagsData = await Promise.all(
-          post.data.tags.map(async (tagRef: any) => {
-            try {
-              const tagEntry = await getEntry('tags', tagRef.id);
-              const tagData = tagEntry?.data;
-              return {
-                id: tagRef.id,
-                name: tagData?.name || tagRef.id,
-                description: tagData?.description,
-                color: tagData?.color,
-                slug: tagData?.slug || tagRef.id,
-              };
-            } catch (error) {
-              console.warn(`Tag not found: ${tagRef.id}`);
-              return {
-                id: tagRef.id,
-                name: tagRef.id,
-                description: undefined,
-                color: undefined,
-                slug: tagRef.id,
-              };
-            }
-          })
-        );
-        
-        return {
-          slug: post.id,
-          title: post.data.title || '',
-          date: post.data.pubDate ? 
-            new Date(post.data.pubDate).toISOString() : new Date().toISOString(),
-          description: post.data.description || '',
-          
-          // 👤 Properly resolved author reference
-          author: {
-            id: post.data.author.id,
-            name: authorData?.name || 'Unknown',
-            bio: authorData?.bio,
-            avatar: authorData?.avatar,
-            email: authorData?.email,
-            twitter: authorData?.twitter,
-            github: authorData?.github,
-            website: authorData?.website,
-          },
-          
-          // 📂 Properly resolved category reference
-          category: {
-            id: post.data.category.id,
-            name: categoryData?.name || 'Uncategorized',
-            description: categoryData?.description,
-            color: categoryData?.color,
-            slug: categoryData?.slug || post.data.category.id,
-          },
-          
-          // 🏷️ Properly resolved tags references
-          tags: tagsData,
-          
-          // 📊 Metadata
-          readingTime,
-          wordCount,
-          featured: post.data.featured || false,
-          status: post.data.status || 'draft',
-          path: `src/content/blog/${post.id}`,
-          excerpt: post.data.description || (post.body?.substring(0, 160).replace(/[#*`]/g, '').trim() + '...') || '',
-          image: post.data.image,
-          sha: post.id,
-        };
-      })
+      paginatedPosts.map(toPostMetadata)
     );
     
     const apiResponse: ApiResponse = {
@@ -342,5 +371,203 @@ export const GET: APIRoute = async ({ request, url }): Promise<Response> => {
   }
 }
 
+// ✍️ Write payload: blog frontmatter fields plus the slug and MDX content
+type PostWritePayload = Record<string, unknown> & {
+  slug?: unknown;
+  content?: unknown;
+};
+
+// 📥 Parse the JSON body, rejecting anything that isn't a plain object
+const readPayload = async (request: Request): Promise<PostWritePayload | null> => {
+  try {
+    const payload = await request.json();
+    return payload && typeof payload === 'object' && !Array.isArray(payload) ? payload as PostWritePayload : null;
+  } catch {
+    return null;
+  }
+};
+
+// 🔗 Collect references that don't resolve to an existing entry
+const findMissingReferences = async (data: BlogPost['data']): Promise<string[]> => {
+  const missing: string[] = [];
+
+  const { reviewedBy, factCheckedBy } = getPostReviewerIds(data);
+  const authorIds = [...getPostAuthorIds(data), reviewedBy, factCheckedBy]
+    .filter((authorId): authorId is string => Boolean(authorId));
+
+  for (const authorId of new Set(authorIds)) {
+    if (!(await getEntry('authors', authorId))) {
+      missing.push(`authors/${authorId}`);
+    }
+  }
+
+  if (!(await getEntry('categories', data.category.id))) {
+    missing.push(`categories/${data.category.id}`);
+  }
+
+  for (const tag of data.tags) {
+    if (!(await getEntry('tags', tag.id))) {
+      missing.push(`tags/${tag.id}`);
+    }
+  }
+
+  return missing;
+};
+
+// ✅ Validate frontmatter against the blog collection schema
+const validateFrontmatter = async (
+  frontmatter: Record<string, unknown>
+): Promise<{ data: BlogPost['data'] } | { error: Response }> => {
+  const result = blogSchema.safeParse(frontmatter);
+
+  if (!result.success) {
+    return {
+      error: errorResponse(400, 'VALIDATION_ERROR', 'Invalid post payload', result.error.issues.map(issue => ({
+        path: issue.path.join('.'),
+        message: issue.message,
+      })))
+    };
+  }
+
+  const data = result.data as BlogPost['data'];
+
+  if (data.unpublishAt && data.unpublishAt.valueOf() <= data.pubDate.valueOf()) {
+    return {
+      error: errorResponse(400, 'VALIDATION_ERROR', 'Invalid post payload', [{
+        path: 'unpublishAt',
+        message: 'unpublishAt must be after pubDate',
+      }])
+    };
+  }
+
+  const missing = await findMissingReferences(data);
+
+  if (missing.length > 0) {
+    return {
+      error: errorResponse(400, 'INVALID_REFERENCE', 'Post references entries that do not exist', missing)
+    };
+  }
+
+  return { data };
+};
+
+export const POST: APIRoute = async ({ request }): Promise<Response> => {
+  const payload = await readPayload(request);
+  if (!payload) {
+    return errorResponse(400, 'INVALID_JSON', 'Request body must be a JSON object');
+  }
+
+  const { slug: requestedSlug, content, ...frontmatter } = payload;
+  const slug = typeof requestedSlug === 'string' && requestedSlug
+    ? requestedSlug
+    : slugify(String(frontmatter.title || ''));
+
+  if (!isValidSlug(slug)) {
+    return errorResponse(400, 'INVALID_SLUG', `Invalid slug "${slug}". Use lowercase letters, numbers and hyphens, optionally under a locale folder (e.g. "es/my-post").`);
+  }
+
+  try {
+    if (await readPostFile(slug)) {
+      return errorResponse(409, 'POST_EXISTS', `Post "${slug}" already exists`);
+    }
+
+    const validation = await validateFrontmatter(frontmatter);
+    if ('error' in validation) {
+      return validation.error;
+    }
+
+    const body = typeof content === 'string' ? content : '';
+    const filePath = await writePostFile(slug, validation.data, body);
+    console.log(`📝 Created post "${slug}" at ${filePath}`);
+
+    return new Response(JSON.stringify({
+      success: true,
+      data: await toPostMetadata({ id: slug, body, data: validation.data }),
+      timestamp: Date.now()
+    }), {
+      status: 201,
+      headers: getCORSHeaders()
+    });
+
+  } catch (error: unknown) {
+    console.error('Error creating post:', error);
+    return errorResponse(500, 'WRITE_FAILED', 'Failed to create post', error instanceof Error ? error.message : 'Unknown error');
+  }
+};
+
+export const PUT: APIRoute = async ({ request, url }): Promise<Response> => {
+  const payload = await readPayload(request);
+  if (!payload) {
+    return errorResponse(400, 'INVALID_JSON', 'Request body must be a JSON object');
+  }
+
+  const { slug: payloadSlug, content, ...frontmatter } = payload;
+  const slug = new URL(url).searchParams.get('slug') || (typeof payloadSlug === 'string' ? payloadSlug : '');
+
+  if (!slug) {
+    return errorResponse(400, 'MISSING_SLUG', 'Slug parameter is required');
+  }
+
+  try {
+    const existing = await readPostFile(slug);
+    if (!existing) {
+      return errorResponse(404, 'POST_NOT_FOUND', `Post "${slug}" not found`);
+    }
+
+    // Partial update: omitted fields keep their current values
+    const validation = await validateFrontmatter({ ...existing.frontmatter, ...frontmatter });
+    if ('error' in validation) {
+      return validation.error;
+    }
+
+    const body = typeof content === 'string' ? content : existing.body;
+    const filePath = await writePostFile(slug, validation.data, body);
+    console.log(`📝 Updated post "${slug}" at ${filePath}`);
+
+    return new Response(JSON.stringify({
+      success: true,
+      data: await toPostMetadata({ id: slug, body, data: validation.data }),
+      timestamp: Date.now()
+    }), {
+      status: 200,
+      headers: getCORSHeaders()
+    });
+
+  } catch (error: unknown) {
+    console.error(`Error updating post "${slug}":`, error);
+    return errorResponse(500, 'WRITE_FAILED', 'Failed to update post', error instanceof Error ? error.message : 'Unknown error');
+  }
+};
+
+export const DELETE: APIRoute = async ({ url }): Promise<Response> => {
+  const slug = new URL(url).searchParams.get('slug') || '';
+
+  if (!slug) {
+    return errorResponse(400, 'MISSING_SLUG', 'Slug parameter is required');
+  }
+
+  try {
+    const filePath = await deletePostFile(slug);
+    if (!filePath) {
+      return errorResponse(404, 'POST_NOT_FOUND', `Post "${slug}" not found`);
+    }
+
+    console.log(`🗑️ Deleted post "${slug}" (${filePath})`);
+
+    return new Response(JSON.stringify({
+      success: true,
+      data: { slug, path: filePath },
+      timestamp: Date.now()
+    }), {
+      status: 200,
+      headers: getCORSHeaders()
+    });
+
+  } catch (error: unknown) {
+    console.error(`Error deleting post "${slug}":`, error);
+    return errorResponse(500, 'WRITE_FAILED', 'Failed to delete post', error instanceof Error ? error.message : 'Unknown error');
+  }
+};
+
 // 🔥 Enable SSR for this endpoint
 export const prerender = false;
\ No newline at end of file
@@ -0,0 +1,101 @@
+import type { APIRoute } from 'astro';
+import { loadSearchIndex } from '../../core/search/loadSearchIndex';
+import { searchIndex, type SearchHit } from '../../core/search/searchIndex';
+
+interface SearchApiResponse {
+  success: boolean;
+  query: string;
+  data: SearchHit[];
+  pagination: {
+    page: number;
+    perPage: number;
+    total: number;
+    totalPages: number;
+    hasNext: boolean;
+    hasPrev: boolean;
+  };
+  timestamp: number;
+}
+
+const MAX_PER_PAGE = 50;
+
+// 🔥 CORS headers helper
+const getCORSHeaders = () => ({
+  'Content-Type': 'application/json',
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Methods': 'GET, OPTIONS',
+  'Access-Control-Allow-Headers': 'Content-Type, X-Requested-With',
+  'Access-Control-Max-Age': '86400', // 24 hours
+});
+
+// 🔥 Handle OPTIONS requests for CORS preflight
+export const OPTIONS: APIRoute = async () => {
+  return new Response(null, {
+    status: 200,
+    headers: getCORSHeaders()
+  });
+};
+
+// 🔍 Public search over published posts (no API key required), queried against the prerendered index
+export const GET: APIRoute = async ({ url, locals }): Promise<Response> => {
+  const searchParams = new URL(url).searchParams;
+  const query: string = (searchParams.get('q') || '').trim();
+  const page: number = Math.max(1, parseInt(searchParams.get('page') || '1') || 1);
+  const perPage: number = Math.min(MAX_PER_PAGE, Math.max(1, parseInt(searchParams.get('perPage') || '10') || 10));
+
+  if (!query) {
+    return new Response(JSON.stringify({
+      success: false,
+      error: 'Query parameter "q" is required',
+      code: 'MISSING_QUERY'
+    }), {
+      status: 400,
+      headers: getCORSHeaders()
+    });
+  }
+
+  try {
+    const index = await loadSearchIndex(url, locals.runtime?.env.ASSETS);
+    const results = searchIndex(index, query, {
+      limit: perPage,
+      offset: (page - 1) * perPage,
+    });
+
+    const apiResponse: SearchApiResponse = {
+      success: true,
+      query,
+      data: results.hits,
+      pagination: {
+        page,
+        perPage,
+        total: results.total,
+        totalPages: Math.ceil(results.total / perPage),
+        hasNext: page * perPage < results.total,
+        hasPrev: page > 1
+      },
+      timestamp: Date.now()
+    };
+
+    return new Response(JSON.stringify(apiResponse), {
+      status: 200,
+      headers: {
+        ...getCORSHeaders(),
+        'Cache-Control': 'public, max-age=300',
+      }
+    });
+
+  } catch (error: unknown) {
+    console.error('Error searching posts:', error);
+
+    return new Response(JSON.stringify({
+      success: false,
+      error: 'Failed to search posts',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }), {
+      status: 500,
+      headers: getCORSHeaders()
+    });
+  }
+};
+
+export const prerender = false;
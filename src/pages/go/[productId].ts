@@ -0,0 +1,77 @@
+import { getEntry } from 'astro:content';
+import type { APIRoute } from 'astro';
+import { logAffiliateClick } from '../../core/affiliate/clicks';
+import {
+  buildTrackingUrl,
+  generateClickId,
+  isBotUserAgent,
+  sanitizeTrackingValue,
+} from '../../core/affiliate/links';
+
+// 🔗 Cloaked affiliate link: log the click, then 302 to the merchant
+// Usage: /go/chemex-coffee-maker?post=best-pour-over&v=ProductBlock3&subid=newsletter
+export const GET: APIRoute = async ({ params, request, url }): Promise<Response> => {
+  const productId = params.productId || '';
+  const product = await getEntry('affiliateProducts', productId);
+
+  if (!product) {
+    console.warn(`🔗 /go/: Product "${productId}" not found`);
+    return new Response('Product not found', {
+      status: 404,
+      headers: {
+        'Content-Type': 'text/plain; charset=utf-8',
+        'X-Robots-Tag': 'noindex, nofollow',
+      },
+    });
+  }
+
+  const searchParams = new URL(url).searchParams;
+  const postSlug = sanitizeTrackingValue(searchParams.get('post'));
+  const variant = sanitizeTrackingValue(searchParams.get('v'));
+  const subId = sanitizeTrackingValue(searchParams.get('subid'));
+  const clickId = generateClickId();
+
+  const utm = {
+    source: url.hostname,
+    medium: 'affiliate',
+    campaign: postSlug,
+    content: variant,
+  };
+
+  const destinationUrl = buildTrackingUrl(product.data.affiliateUrl, {
+    clickId,
+    subIdParam: product.data.subIdParam,
+    extraParams: product.data.trackingParams,
+    utm,
+  });
+
+  if (!isBotUserAgent(request.headers.get('User-Agent'))) {
+    await logAffiliateClick({
+      clickId,
+      productId: product.id,
+      categoryId: product.data.category.id,
+      postSlug,
+      variant,
+      subId,
+      utmSource: utm.source,
+      utmMedium: utm.medium,
+      utmCampaign: utm.campaign,
+      referrer: request.headers.get('Referer'),
+      country: request.headers.get('CF-IPCountry'),
+      destinationUrl,
+      clickedAt: new Date(),
+    });
+  }
+
+  return new Response(null, {
+    status: 302,
+    headers: {
+      Location: destinationUrl,
+      'Cache-Control': 'no-store',
+      'Referrer-Policy': 'no-referrer-when-downgrade',
+      'X-Robots-Tag': 'noindex, nofollow',
+    },
+  });
+};
+
+export const prerender = false;
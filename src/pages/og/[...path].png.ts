@@ -0,0 +1,21 @@
+import type { APIRoute } from 'astro';
+import { generateOgImagePaths } from '../../core/blogLogic';
+import { renderOgImage } from '../../core/seo/ogImage';
+import type { OgCard } from '../../core/seo/ogImagePaths';
+import { userTheme } from '../../config/user-theme';
+
+// Cards are rendered once at build time
+export const prerender = true;
+
+export const getStaticPaths = generateOgImagePaths;
+
+export const GET: APIRoute = async ({ props }) => {
+  const png = await renderOgImage((props as { card: OgCard }).card, userTheme);
+
+  return new Response(new Uint8Array(png), {
+    headers: {
+      'Content-Type': 'image/png',
+      'Cache-Control': 'public, max-age=86400',
+    },
+  });
+};
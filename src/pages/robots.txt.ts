@@ -1,23 +1,20 @@
 import type { APIRoute } from 'astro';
+import { getSiteSettings } from '../core/blogLogic';
+import { getRobotsPolicy } from '../core/seo/getRobotsPolicy';
+import { renderRobotsTxt } from '../core/seo/robots';
 
-const getRobotsTxt = (sitemapURL: string) => `User-agent: *
-Allow: /
-
-# Block API endpoints from being indexed
-Disallow: /api/
-
-Sitemap: ${sitemapURL}
-`;
-
-export const GET: APIRoute = ({ site, url }) => {
+export const GET: APIRoute = async ({ site, url }) => {
   // Use the actual request URL if site is not properly configured
   const baseURL = site || url.origin;
-  const sitemapURL = new URL('sitemap-index.xml', baseURL).href;
+  const [settings, policy] = await Promise.all([getSiteSettings(), getRobotsPolicy()]);
+
+  // Pages from the sitemap integration, posts (with images) and, if enabled, Google News
+  const sitemaps = ['sitemap-index.xml', 'sitemap-posts.xml', ...(settings.sitemap?.news ? ['sitemap-news.xml'] : [])];
+  const sitemapURLs = sitemaps.map(sitemap => new URL(sitemap, baseURL).href);
   
-  return new Response(getRobotsTxt(sitemapURL), {
+  return new Response(renderRobotsTxt(policy, sitemapURLs), {
     headers: {
       'Content-Type': 'text/plain; charset=utf-8',
     },
   });
 };
-
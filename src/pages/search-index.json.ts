@@ -0,0 +1,16 @@
+import type { APIRoute } from 'astro';
+import { getSearchIndex } from '../core/search/getSearchIndex';
+
+// 🔍 Static search index shard, built once at build time for client-side search and /api/search.json
+export const GET: APIRoute = async () => {
+  const index = await getSearchIndex();
+
+  return new Response(JSON.stringify(index), {
+    headers: {
+      'Content-Type': 'application/json',
+      'Cache-Control': 'public, max-age=3600',
+    },
+  });
+};
+
+export const prerender = true;
@@ -0,0 +1,26 @@
+import type { APIRoute } from 'astro';
+import { getSiteSettings } from '../core/blogLogic';
+import { getNewsSitemapEntries } from '../core/sitemap/getSitemap';
+import { renderNewsSitemap, SITEMAP_CONTENT_TYPE } from '../core/sitemap/sitemap';
+
+// Google News sitemap, switched on with settings.sitemap.news
+export const GET: APIRoute = async () => {
+  const settings = await getSiteSettings();
+  if (!settings.sitemap?.news) {
+    return new Response('News sitemap is disabled', { status: 404 });
+  }
+
+  try {
+    const publicationName = settings.sitemap.newsPublicationName || settings.siteName;
+    return new Response(renderNewsSitemap(await getNewsSitemapEntries(), publicationName), {
+      headers: {
+        'Content-Type': SITEMAP_CONTENT_TYPE,
+        // Posts drop out of the 48-hour window, so keep caches short
+        'Cache-Control': 'public, max-age=900',
+      },
+    });
+  } catch (error) {
+    console.error('News Sitemap Generation Error:', error);
+    return new Response('Error generating news sitemap', { status: 500 });
+  }
+};
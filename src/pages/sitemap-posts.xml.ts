@@ -0,0 +1,18 @@
+import type { APIRoute } from 'astro';
+import { getPostSitemapEntries } from '../core/sitemap/getSitemap';
+import { renderSitemap, SITEMAP_CONTENT_TYPE } from '../core/sitemap/sitemap';
+
+// Blog posts with lastmod and images; the sitemap integration covers every other page
+export const GET: APIRoute = async () => {
+  try {
+    return new Response(renderSitemap(await getPostSitemapEntries()), {
+      headers: {
+        'Content-Type': SITEMAP_CONTENT_TYPE,
+        'Cache-Control': 'public, max-age=3600',
+      },
+    });
+  } catch (error) {
+    console.error('Post Sitemap Generation Error:', error);
+    return new Response('Error generating sitemap', { status: 500 });
+  }
+};
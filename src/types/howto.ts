@@ -0,0 +1,33 @@
+export interface HowToStepItem {
+  name: string;
+  text: string;
+  image?: string;
+}
+
+export interface HowToData {
+  title: string;
+  description?: string;
+  totalTime?: string; // ISO 8601 duration, e.g. PT1H30M
+  tools: string[];
+  supplies: string[];
+  steps: HowToStepItem[];
+}
+
+export interface HowToStepSchemaItem {
+  "@type": "HowToStep";
+  position: number;
+  name: string;
+  text: string;
+  image?: string;
+}
+
+export interface HowToSchema {
+  "@context": "https://schema.org";
+  "@type": "HowTo";
+  name: string;
+  description?: string;
+  totalTime?: string;
+  tool?: Array<{ "@type": "HowToTool"; name: string }>;
+  supply?: Array<{ "@type": "HowToSupply"; name: string }>;
+  step: HowToStepSchemaItem[];
+}
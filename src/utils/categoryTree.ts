@@ -0,0 +1,131 @@
+// src/utils/categoryTree.ts
+import type { RedirectRule } from '../core/redirects/redirects';
+
+type CategoryRef = string | { id: string };
+
+// Works on collection entries (parent as a reference) and categories.json items wrapped as { id, data }
+export interface CategoryNode {
+  id: string;
+  data: {
+    slug?: string;
+    parent?: CategoryRef;
+  };
+}
+
+export interface CategoryTreeNode<T extends CategoryNode> {
+  category: T;
+  children: CategoryTreeNode<T>[];
+}
+
+function getParentId(category: CategoryNode): string | undefined {
+  const parent = category.data.parent;
+  return typeof parent === 'string' ? parent : parent?.id;
+}
+
+/**
+ * Parent, grandparent... of a category, root first. Stops at a missing parent or a cycle.
+ */
+export function getCategoryAncestors<T extends CategoryNode>(categories: T[], categoryId: string): T[] {
+  const byId = new Map(categories.map(category => [category.id, category]));
+  const ancestors: T[] = [];
+  const visited = new Set([categoryId]);
+
+  let parentId = byId.get(categoryId) && getParentId(byId.get(categoryId)!);
+  while (parentId && !visited.has(parentId) && byId.has(parentId)) {
+    const parent = byId.get(parentId)!;
+    ancestors.unshift(parent);
+    visited.add(parentId);
+    parentId = getParentId(parent);
+  }
+
+  return ancestors;
+}
+
+/**
+ * Whether following parents from a category leads back to it
+ */
+export function hasCategoryCycle(categories: CategoryNode[], categoryId: string): boolean {
+  const byId = new Map(categories.map(category => [category.id, category]));
+  const visited = new Set<string>();
+
+  let currentId: string | undefined = categoryId;
+  while (currentId && byId.has(currentId)) {
+    if (visited.has(currentId)) return currentId === categoryId;
+    visited.add(currentId);
+    currentId = getParentId(byId.get(currentId)!);
+  }
+
+  return false;
+}
+
+/**
+ * URL path of a category below /categories: ancestor slugs then its own, e.g. "marketing/email"
+ */
+export function getCategoryPath(categories: CategoryNode[], categoryId: string): string {
+  const category = categories.find(candidate => candidate.id === categoryId);
+  return [...getCategoryAncestors(categories, categoryId), ...(category ? [category] : [])]
+    .map(entry => entry.data.slug || entry.id)
+    .join('/') || categoryId;
+}
+
+/**
+ * Category with this URL path (see getCategoryPath)
+ */
+export function findCategoryByPath<T extends CategoryNode>(categories: T[], path: string): T | undefined {
+  return categories.find(category => getCategoryPath(categories, category.id) === path);
+}
+
+/**
+ * A category and everything below it, for roll-up post counts and archives
+ */
+export function getCategoryDescendantIds(categories: CategoryNode[], categoryId: string): string[] {
+  const ids = [categoryId];
+
+  // Breadth-first; `ids` doubles as the visited set, so cycles end the walk
+  for (let index = 0; index < ids.length; index++) {
+    for (const category of categories) {
+      if (getParentId(category) === ids[index] && !ids.includes(category.id)) {
+        ids.push(category.id);
+      }
+    }
+  }
+
+  return ids;
+}
+
+/**
+ * Nest categories under their parents, keeping input order at each level.
+ * Categories whose parent isn't in the list become roots.
+ */
+export function buildCategoryTree<T extends CategoryNode>(categories: T[]): CategoryTreeNode<T>[] {
+  const nodes = new Map(categories.map(category => [category.id, { category, children: [] as CategoryTreeNode<T>[] }]));
+  const roots: CategoryTreeNode<T>[] = [];
+
+  for (const node of nodes.values()) {
+    const parentId = getParentId(node.category);
+    const parent = parentId ? nodes.get(parentId) : undefined;
+    if (parent && !hasCategoryCycle(categories, node.category.id)) {
+      parent.children.push(node);
+    } else {
+      roots.push(node);
+    }
+  }
+
+  return roots;
+}
+
+/**
+ * Redirects from the flat URL of each subcategory (and its pages and feeds) to its nested URL
+ */
+export function getCategoryRedirects(categories: CategoryNode[]): RedirectRule[] {
+  return categories.flatMap(category => {
+    const flatPath = `/categories/${category.data.slug || category.id}`;
+    const nestedPath = `/categories/${getCategoryPath(categories, category.id)}`;
+    if (flatPath === nestedPath) return [];
+
+    return [
+      { source: flatPath, destination: nestedPath, status: 301 as const },
+      { source: `${flatPath}/*`, destination: `${nestedPath}/:splat`, status: 301 as const },
+    ];
+  });
+}
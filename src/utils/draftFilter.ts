@@ -1,20 +1,47 @@
 // src/utils/draftFilter.ts
 import type { CollectionEntry } from 'astro:content';
 
+export type PostVisibility = 'draft' | 'scheduled' | 'live' | 'expired';
+
+/**
+ * Where a post stands in its publishing window
+ * - draft: never shown publicly
+ * - scheduled: status "scheduled", or a pubDate still in the future
+ * - expired: past its unpublishAt date
+ * - live: everything else
+ */
+export function getPostVisibility<T extends Pick<CollectionEntry<'blog'>, 'data'>>(entry: T, now: Date = new Date()): PostVisibility {
+  const { status, pubDate, unpublishAt } = entry.data;
+
+  if (status === 'draft') return 'draft';
+  if (pubDate.valueOf() > now.valueOf()) return 'scheduled';
+  if (unpublishAt && unpublishAt.valueOf() <= now.valueOf()) return 'expired';
+
+  return 'live';
+}
+
+/**
+ * Check whether a post is publicly visible right now
+ * Note: prerendered pages only pick up schedule changes on the next build.
+ */
+export function isPostLive<T extends Pick<CollectionEntry<'blog'>, 'data'>>(entry: T, now: Date = new Date()): boolean {
+  return getPostVisibility(entry, now) === 'live';
+}
+
 /**
  * Standard draft filtering for blog posts
- * - Development: Show all posts (drafts and published)
- * - Production: Only show published posts
+ * - Development: Show all posts (drafts, scheduled and published)
+ * - Production: Only show live posts
  */
 export function filterDrafts<T extends CollectionEntry<'blog'>>(entry: T): boolean {
-  return import.meta.env.PROD ? entry.data.status === 'published' : true;
+  return import.meta.env.PROD ? isPostLive(entry) : true;
 }
 
 /**
- * Filter to only show published posts (for RSS feeds, sitemaps, etc.)
+ * Filter to only show live posts (for RSS feeds, sitemaps, etc.)
  */
 export function filterPublishedOnly<T extends CollectionEntry<'blog'>>(entry: T): boolean {
-  return entry.data.status === 'published';
+  return isPostLive(entry);
 }
 
 /**
@@ -22,4 +49,11 @@ export function filterPublishedOnly<T extends CollectionEntry<'blog'>>(entry: T)
  */
 export function filterDraftsOnly<T extends CollectionEntry<'blog'>>(entry: T): boolean {
   return entry.data.status === 'draft';
-}
\ No newline at end of file
+}
+
+/**
+ * Filter to only show posts queued for a future date
+ */
+export function filterScheduledOnly<T extends CollectionEntry<'blog'>>(entry: T): boolean {
+  return getPostVisibility(entry) === 'scheduled';
+}
@@ -0,0 +1,221 @@
+import type { HowToData, HowToStepItem } from '../types/howto';
+
+/**
+ * Parses MDX content to extract a step-by-step "How to" section
+ * Supports patterns like:
+ * ## How to Set Up Zapier
+ * Total time: 30 minutes
+ * Tools: Zapier account, Gmail
+ * Supplies: Spreadsheet of leads
+ *
+ * ### Step 1: Create an account
+ * Step text...
+ * ![Sign-up form](/images/signup.png)
+ *
+ * or numbered lists under the heading:
+ * 1. **Create an account** - Step text...
+ */
+export function parseHowToFromContent(content: string): HowToData | null {
+  if (!content || typeof content !== 'string') {
+    return null;
+  }
+
+  // Look for "How to..." section headers
+  const howToSectionRegex = /^(#{1,6})\s*(How[\s-]+to\b.*)$/gim;
+
+  for (const match of content.matchAll(howToSectionRegex)) {
+    const level = match[1].length;
+    const title = cleanText(match[2]);
+
+    // The section ends at the next heading of the same or a higher level
+    let sectionContent = content.substring(match.index! + match[0].length);
+    const nextSectionRegex = new RegExp(`\\n#{1,${level}}\\s`);
+    const nextSectionMatch = nextSectionRegex.exec(sectionContent);
+    if (nextSectionMatch) {
+      sectionContent = sectionContent.substring(0, nextSectionMatch.index);
+    }
+
+    const steps = parseHeadingSteps(sectionContent, level) || parseListSteps(sectionContent);
+    if (!steps || steps.length === 0) {
+      continue;
+    }
+
+    // Metadata lives between the heading and the first step
+    const intro = sectionContent.split(/\n(?:#{1,6}\s|\d+\.\s)/)[0];
+
+    return {
+      title,
+      description: parseDescription(intro),
+      totalTime: parseDuration(parseLabel(intro, 'Total time')),
+      tools: parseList(intro, 'Tools?'),
+      supplies: parseList(intro, 'Supplies|Materials'),
+      steps,
+    };
+  }
+
+  return null;
+}
+
+/**
+ * Steps written as sub-headings: "### Step 1: Name" or "### 1. Name"
+ */
+function parseHeadingSteps(sectionContent: string, level: number): HowToStepItem[] | null {
+  const stepRegex = new RegExp(
+    `^#{${level + 1},6}\\s*(?:Step\\s*)?\\d+[:.)]?\\s*(.+)$([\\s\\S]*?)(?=^#{1,6}\\s|(?![\\s\\S]))`,
+    'gim'
+  );
+  const matches = Array.from(sectionContent.matchAll(stepRegex));
+
+  if (matches.length === 0) {
+    return null;
+  }
+
+  return matches
+    .map(([, name, body]) => toStep(name, body))
+    .filter(step => step.name.length > 0 && step.text.length > 0);
+}
+
+/**
+ * Steps written as a numbered list: "1. **Name** - text" or "1. Text"
+ */
+function parseListSteps(sectionContent: string): HowToStepItem[] | null {
+  const itemRegex = /^\d+\.\s+(.+)$/gm;
+  const matches = Array.from(sectionContent.matchAll(itemRegex));
+
+  if (matches.length === 0) {
+    return null;
+  }
+
+  return matches
+    .map(([, item]) => {
+      const named = item.match(/^\*\*(.+?)\*\*:?\s*(?:[-–—:]\s*)?(.*)$/);
+      return named ? toStep(named[1], named[2] || named[1]) : toStep(item, item);
+    })
+    .filter(step => step.name.length > 0 && step.text.length > 0);
+}
+
+function toStep(name: string, body: string): HowToStepItem {
+  const image = body.match(/!\[[^\]]*\]\(([^)\s]+)[^)]*\)/)?.[1];
+  const text = stripMarkdownLinks(cleanText(body.replace(/!\[[^\]]*\]\([^)]*\)/g, '')));
+
+  return {
+    name: stripMarkdownLinks(cleanText(name)),
+    text,
+    ...(image && { image }),
+  };
+}
+
+/**
+ * Value of a "Label: value" line, with optional bold markers
+ */
+function parseLabel(intro: string, label: string): string | undefined {
+  const labelRegex = new RegExp(`^\\s*(?:\\*\\*)?(?:${label}):?(?:\\*\\*)?:?[ \\t]*(.*)$`, 'im');
+  const value = intro.match(labelRegex)?.[1]?.trim();
+  return value || undefined;
+}
+
+/**
+ * Comma-separated "Tools: a, b" line, or a bullet list below an empty "Tools:" line
+ */
+function parseList(intro: string, label: string): string[] {
+  const inline = parseLabel(intro, label);
+  if (inline) {
+    return inline.split(',').map(item => stripMarkdownLinks(cleanText(item))).filter(Boolean);
+  }
+
+  const listRegex = new RegExp(`^\\s*(?:\\*\\*)?(?:${label}):?(?:\\*\\*)?:?\\s*\\n((?:\\s*[-*]\\s+.+\\n?)+)`, 'im');
+  const list = intro.match(listRegex)?.[1];
+  if (!list) {
+    return [];
+  }
+
+  return list
+    .split('\n')
+    .map(line => stripMarkdownLinks(cleanText(line.replace(/^\s*[-*]\s+/, ''))))
+    .filter(Boolean);
+}
+
+/**
+ * First plain paragraph of the intro
+ */
+function parseDescription(intro: string): string | undefined {
+  const paragraph = intro
+    .split(/\n\s*\n/)
+    .map(block => block.trim())
+    .find(block => block.length > 0 &&
+      !/^(?:\*\*)?(?:Total time|Tools?|Supplies|Materials)\b/i.test(block) &&
+      !/^[-*!]/.test(block));
+
+  return paragraph ? stripMarkdownLinks(cleanText(paragraph)) : undefined;
+}
+
+/**
+ * Convert "1 hour 30 minutes", "45 min" or "2 days" to an ISO 8601 duration
+ */
+export function parseDuration(value: string | undefined): string | undefined {
+  if (!value) {
+    return undefined;
+  }
+
+  // Already an ISO 8601 duration
+  if (/^P(?!$)(\d+D)?(T(?=\d)(\d+H)?(\d+M)?(\d+S)?)?$/.test(value)) {
+    return value;
+  }
+
+  const amount = (unit: string) => {
+    const found = value.match(new RegExp(`(\\d+(?:\\.\\d+)?)\\s*${unit}`, 'i'));
+    return found ? Number.parseFloat(found[1]) : 0;
+  };
+
+  const days = amount('d(?:ays?)?\\b');
+  const hours = amount('h(?:ours?|rs?)?\\b');
+  const minutes = amount('m(?:in(?:ute)?s?)?\\b');
+
+  if (!days && !hours && !minutes) {
+    return undefined;
+  }
+
+  const time = `${hours ? `${hours}H` : ''}${minutes ? `${minutes}M` : ''}`;
+  return `P${days ? `${days}D` : ''}${time ? `T${time}` : ''}`;
+}
+
+/**
+ * Clean text by removing extra whitespace and formatting
+ */
+function cleanText(text: string): string {
+  return text
+    .replace(/\*\*/g, '')
+    .replace(/\n+/g, ' ')
+    .replace(/\s+/g, ' ')
+    .replace(/^\s*:\s*/, '') // Remove leading colon and spaces
+    .trim();
+}
+
+/**
+ * Strip markdown links but keep the link text
+ * [Link Text](url) -> Link Text
+ */
+function stripMarkdownLinks(text: string): string {
+  return text.replace(/\[([^\]]+)\]\([^)]+\)/g, '$1');
+}
+
+/**
+ * Validate HowTo data structure
+ */
+export function validateHowToData(howToData: HowToData): boolean {
+  if (!howToData || !howToData.title || !Array.isArray(howToData.steps)) {
+    return false;
+  }
+
+  // A single step isn't a how-to
+  if (howToData.steps.length < 2) {
+    return false;
+  }
+
+  return howToData.steps.every(step =>
+    typeof step.name === 'string' &&
+    typeof step.text === 'string' &&
+    step.name.trim().length > 0 &&
+    step.text.trim().length > 0
+  );
+}
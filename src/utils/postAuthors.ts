@@ -0,0 +1,39 @@
+// src/utils/postAuthors.ts
+type AuthorRef = string | { id: string };
+
+// Works on collection data (references) and extracted frontmatter (IDs)
+interface PostBylines {
+  author?: AuthorRef;
+  authors?: AuthorRef[];
+  reviewedBy?: AuthorRef;
+  factCheckedBy?: AuthorRef;
+}
+
+function toAuthorId(ref: AuthorRef): string {
+  return typeof ref === 'string' ? ref : ref.id;
+}
+
+/**
+ * Author IDs in byline order: `authors` when set, otherwise the single `author`
+ */
+export function getPostAuthorIds(bylines: PostBylines): string[] {
+  const refs = bylines.authors?.length ? bylines.authors : bylines.author ? [bylines.author] : [];
+  return Array.from(new Set(refs.map(toAuthorId)));
+}
+
+/**
+ * Whether an author wrote or co-wrote a post (reviewing or fact-checking it doesn't count)
+ */
+export function isPostByAuthor(bylines: PostBylines, authorId: string): boolean {
+  return getPostAuthorIds(bylines).includes(authorId);
+}
+
+/**
+ * Expert reviewer and fact-checker IDs, if the post names them
+ */
+export function getPostReviewerIds(bylines: PostBylines): { reviewedBy?: string; factCheckedBy?: string } {
+  return {
+    reviewedBy: bylines.reviewedBy && toAuthorId(bylines.reviewedBy),
+    factCheckedBy: bylines.factCheckedBy && toAuthorId(bylines.factCheckedBy),
+  };
+}
@@ -0,0 +1,22 @@
+// src/utils/postDates.ts
+import type { CollectionEntry } from 'astro:content';
+
+type PostDates = Pick<CollectionEntry<'blog'>['data'], 'pubDate' | 'updatedDate' | 'lastReviewed'>;
+
+/**
+ * When a post last changed: the latest of pubDate, updatedDate and lastReviewed
+ * (used for dateModified, sitemap lastmod, feed updates and sortBy=updated)
+ */
+export function getPostModifiedDate(dates: PostDates): Date {
+  return [dates.updatedDate, dates.lastReviewed].reduce<Date>(
+    (latest, date) => (date && date.valueOf() > latest.valueOf() ? date : latest),
+    dates.pubDate
+  );
+}
+
+/**
+ * Whether a post has been updated or re-reviewed after it was published
+ */
+export function isPostModified(dates: PostDates): boolean {
+  return getPostModifiedDate(dates).valueOf() > dates.pubDate.valueOf();
+}
@@ -0,0 +1,221 @@
+// src/utils/postFiles.ts
+import { promises as fs } from 'node:fs';
+import path from 'node:path';
+import { Document, Scalar, isScalar, parse, visit } from 'yaml';
+import { getPrefixedLocales } from '../core/i18n/locales';
+
+/**
+ * Directory the `blog` collection loader reads from (see content.config.ts)
+ */
+export const BLOG_CONTENT_DIR = 'src/content/blog';
+
+const POST_EXTENSIONS = ['.mdx', '.md'];
+// Localized posts live in a locale folder, e.g. "es/my-post" (the collection ID)
+const SLUG_PATTERN = new RegExp(`^(?:(?:${getPrefixedLocales().join('|')})/)?[a-z0-9]+(?:-[a-z0-9]+)*$`);
+const FRONTMATTER_PATTERN = /^---\r?\n([\s\S]*?)\r?\n---\r?\n?([\s\S]*)$/;
+
+export interface PostFile {
+  slug: string;
+  path: string;
+  frontmatter: Record<string, unknown>;
+  body: string;
+}
+
+/**
+ * Check that a slug is safe to use as a file name
+ */
+export function isValidSlug(slug: string): boolean {
+  return SLUG_PATTERN.test(slug);
+}
+
+/**
+ * Turn a post title into a URL slug
+ */
+export function slugify(text: string): string {
+  return text
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '');
+}
+
+/**
+ * Convert parsed collection data back into plain frontmatter values
+ * - References become their IDs
+ * - Dates become YYYY-MM-DD (or a full ISO string when they carry a time)
+ */
+export function toFrontmatterValue(value: unknown): unknown {
+  if (value instanceof Date) {
+    const iso = value.toISOString();
+    return iso.endsWith('T00:00:00.000Z') ? iso.slice(0, 10) : iso;
+  }
+
+  if (Array.isArray(value)) {
+    return value.map(toFrontmatterValue);
+  }
+
+  if (value && typeof value === 'object') {
+    const record = value as Record<string, unknown>;
+    if (typeof record.id === 'string' && typeof record.collection === 'string') {
+      return record.id;
+    }
+
+    return Object.fromEntries(
+      Object.entries(record)
+        .filter(([, entryValue]) => entryValue !== undefined)
+        .map(([key, entryValue]) => [key, toFrontmatterValue(entryValue)])
+    );
+  }
+
+  return value;
+}
+
+/**
+ * Serialize frontmatter into YAML (without the --- fences)
+ * Matches the hand-written posts: quoted strings, inline tag lists, bare dates
+ */
+export function serializeFrontmatter(frontmatter: Record<string, unknown>): string {
+  const doc = new Document(toFrontmatterValue(frontmatter));
+
+  visit(doc, {
+    Scalar(key, node) {
+      if (key !== 'key' && typeof node.value === 'string') {
+        node.type = /^\d{4}-\d{2}-\d{2}(T[\d:.]+Z)?$/.test(node.value)
+          ? Scalar.PLAIN
+          : Scalar.QUOTE_DOUBLE;
+      }
+    },
+    Seq(_, node) {
+      node.flow = node.items.every(item => isScalar(item));
+    },
+  });
+
+  return doc.toString({ lineWidth: 0, flowCollectionPadding: false }).trimEnd();
+}
+
+/**
+ * Serialize frontmatter and body into an MDX document
+ */
+export function serializePostFile(frontmatter: Record<string, unknown>, body: string): string {
+  const content = body.replace(/^\s*\n/, '');
+
+  return `---\n${serializeFrontmatter(frontmatter)}\n---\n\n${content}${content.endsWith('\n') ? '' : '\n'}`;
+}
+
+/**
+ * Split an MDX document into frontmatter and body
+ */
+export function parsePostFile(source: string): { frontmatter: Record<string, unknown>; body: string } {
+  const match = source.match(FRONTMATTER_PATTERN);
+
+  if (!match) {
+    return { frontmatter: {}, body: source };
+  }
+
+  const frontmatter = parse(match[1]) ?? {};
+  return {
+    frontmatter: typeof frontmatter === 'object' ? frontmatter : {},
+    body: match[2],
+  };
+}
+
+/**
+ * Find the file backing a post, whichever extension it uses
+ */
+export async function findPostFile(slug: string, contentDir: string = BLOG_CONTENT_DIR): Promise<string | null> {
+  if (!isValidSlug(slug)) return null;
+
+  for (const extension of POST_EXTENSIONS) {
+    const filePath = path.join(contentDir, `${slug}${extension}`);
+    try {
+      await fs.access(filePath);
+      return filePath;
+    } catch {
+      // Try the next extension
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Read and parse a post file by slug
+ */
+export async function readPostFile(slug: string, contentDir: string = BLOG_CONTENT_DIR): Promise<PostFile | null> {
+  const filePath = await findPostFile(slug, contentDir);
+  if (!filePath) return null;
+
+  const source = await fs.readFile(filePath, 'utf-8');
+  return { slug, path: filePath, ...parsePostFile(source) };
+}
+
+/**
+ * Write a post file, keeping the existing extension when overwriting
+ */
+export async function writePostFile(
+  slug: string,
+  frontmatter: Record<string, unknown>,
+  body: string,
+  contentDir: string = BLOG_CONTENT_DIR
+): Promise<string> {
+  if (!isValidSlug(slug)) {
+    throw new Error(`Invalid post slug: "${slug}"`);
+  }
+
+  const filePath = (await findPostFile(slug, contentDir)) ?? path.join(contentDir, `${slug}.mdx`);
+  await fs.mkdir(path.dirname(filePath), { recursive: true });
+  await fs.writeFile(filePath, serializePostFile(frontmatter, body), 'utf-8');
+
+  return filePath;
+}
+
+/**
+ * Every post file below the content directory, locale folders included
+ * Slugs keep their folder, e.g. "es/my-post"
+ */
+export async function listPostFiles(contentDir: string = BLOG_CONTENT_DIR): Promise<PostFile[]> {
+  const files: PostFile[] = [];
+
+  const walk = async (dir: string) => {
+    for (const entry of await fs.readdir(dir, { withFileTypes: true })) {
+      const filePath = path.join(dir, entry.name);
+      if (entry.isDirectory()) {
+        await walk(filePath);
+      } else if (POST_EXTENSIONS.includes(path.extname(entry.name))) {
+        const source = await fs.readFile(filePath, 'utf-8');
+        const slug = path.relative(contentDir, filePath).replace(/\.mdx?$/, '').split(path.sep).join('/');
+        files.push({ slug, path: filePath, ...parsePostFile(source) });
+      }
+    }
+  };
+
+  await walk(contentDir);
+  return files.sort((a, b) => a.slug.localeCompare(b.slug));
+}
+
+/**
+ * Replace the frontmatter of a post file, leaving its body byte-for-byte untouched
+ */
+export async function rewritePostFrontmatter(filePath: string, frontmatter: Record<string, unknown>): Promise<void> {
+  const source = await fs.readFile(filePath, 'utf-8');
+  const match = source.match(FRONTMATTER_PATTERN);
+  if (!match) {
+    throw new Error(`No frontmatter in ${filePath}`);
+  }
+
+  const start = source.indexOf(match[1]);
+  await fs.writeFile(filePath, source.slice(0, start) + serializeFrontmatter(frontmatter) + source.slice(start + match[1].length), 'utf-8');
+}
+
+/**
+ * Delete a post file by slug
+ * @returns The removed path, or null when no file existed
+ */
+export async function deletePostFile(slug: string, contentDir: string = BLOG_CONTENT_DIR): Promise<string | null> {
+  const filePath = await findPostFile(slug, contentDir);
+  if (!filePath) return null;
+
+  await fs.unlink(filePath);
+  return filePath;
+}
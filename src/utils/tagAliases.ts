@@ -0,0 +1,116 @@
+// src/utils/tagAliases.ts
+import type { RedirectRule } from '../core/redirects/redirects';
+
+type TagRef = string | { id: string };
+
+// Works on collection entries and tags.json items wrapped as { id, data }
+export interface TagNode {
+  id: string;
+  data: {
+    slug?: string;
+    aliases?: string[];
+  };
+}
+
+/**
+ * One tags.json item, as stored on disk
+ */
+export interface TagDataItem {
+  id: string;
+  slug?: string;
+  aliases?: string[];
+  [key: string]: unknown;
+}
+
+function toTagId(ref: TagRef): string {
+  return typeof ref === 'string' ? ref : ref.id;
+}
+
+/**
+ * Alias -> canonical tag ID. Aliases that are real tag IDs are ignored, and the first tag to claim an alias wins.
+ */
+export function getTagAliasMap(tags: TagNode[]): Map<string, string> {
+  const tagIds = new Set(tags.map(tag => tag.id));
+  const aliases = new Map<string, string>();
+
+  for (const tag of tags) {
+    for (const alias of tag.data.aliases || []) {
+      if (!tagIds.has(alias) && !aliases.has(alias)) {
+        aliases.set(alias, tag.id);
+      }
+    }
+  }
+
+  return aliases;
+}
+
+/**
+ * Canonical tag ID for a tag ID or alias
+ */
+export function resolveTagId(tags: TagNode[], tagId: string): string {
+  return getTagAliasMap(tags).get(tagId) ?? tagId;
+}
+
+/**
+ * Canonical tag IDs of a post, aliases resolved and duplicates dropped
+ */
+export function getPostTagIds(tags: TagNode[], postTags: TagRef[] = []): string[] {
+  const aliases = getTagAliasMap(tags);
+  return Array.from(new Set(postTags.map(ref => aliases.get(toTagId(ref)) ?? toTagId(ref))));
+}
+
+/**
+ * Redirects from alias URLs (and their pages and feeds) to the canonical tag
+ */
+export function getTagRedirects(tags: TagNode[]): RedirectRule[] {
+  const slugs = new Map(tags.map(tag => [tag.id, tag.data.slug || tag.id]));
+  const taken = new Set(slugs.values());
+
+  return Array.from(getTagAliasMap(tags))
+    .filter(([alias]) => !taken.has(alias))
+    .flatMap(([alias, tagId]) => [
+      { source: `/tags/${alias}`, destination: `/tags/${slugs.get(tagId)}`, status: 301 as const },
+      { source: `/tags/${alias}/*`, destination: `/tags/${slugs.get(tagId)}/:splat`, status: 301 as const },
+    ]);
+}
+
+// ==========================================
+// MERGING
+// ==========================================
+
+/**
+ * A post's tag list with one tag replaced by another, keeping order and dropping duplicates
+ */
+export function replaceTagId(tagIds: string[], fromId: string, intoId: string): string[] {
+  return Array.from(new Set(tagIds.map(tagId => tagId === fromId ? intoId : tagId)));
+}
+
+/**
+ * tags.json after merging one tag into another: the merged tag is removed and its ID,
+ * slug and aliases become aliases of the target, so its URLs keep working
+ */
+export function mergeTagData(items: TagDataItem[], fromId: string, intoId: string): TagDataItem[] {
+  const from = items.find(item => item.id === fromId);
+  const into = items.find(item => item.id === intoId);
+  const aliases = new Set([
+    ...(into?.aliases || []),
+    ...(from ? [from.id, from.slug || from.id, ...(from.aliases || [])] : [fromId]),
+  ]);
+  aliases.delete(intoId);
+  aliases.delete(into?.slug || intoId);
+
+  return items
+    .filter(item => item.id !== fromId)
+    .map(item => item.id === intoId ? { ...item, aliases: Array.from(aliases) } : item);
+}
+
+/**
+ * tags.json source for its items. Scalar arrays stay on one line like the
+ * hand-written file, so a merge only changes the lines it has to.
+ */
+export function serializeTagsFile(items: TagDataItem[]): string {
+  return JSON.stringify(items, null, 2).replace(
+    /\[\n\s*((?:(?:"(?:[^"\\]|\\.)*"|-?[\d.]+|true|false|null),?\n\s*)+)\]/g,
+    (_match, values: string) => `[${values.trim().split(/,\n\s*/).join(', ')}]`
+  );
+}
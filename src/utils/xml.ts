@@ -0,0 +1,13 @@
+// src/utils/xml.ts
+
+/**
+ * Escape text for XML element content and quoted attributes (sitemaps, feeds, SVG cards)
+ */
+export function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}